@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const fetchMock = vi.fn()
+
+// The proxy reads its settings when loaded, so each test gets a fresh copy
+const loadProxy = async () => (await import('./ola-proxy')).default
+
+const request = (path: string, headers: Record<string, string> = {}) =>
+  new Request(`https://maps.example.com/api/ola${path}`, { headers })
+
+describe('ola-proxy', () => {
+  beforeEach(() => {
+    vi.resetModules()
+    vi.stubEnv('OLA_MAPS_API_KEY', 'server-key')
+    vi.stubEnv('OLA_MAPS_UPSTREAM_URL', 'https://api.olamaps.io')
+    vi.stubEnv('OLA_PROXY_RATE_LIMIT_PER_MINUTE', '2')
+    vi.stubGlobal('fetch', fetchMock)
+    fetchMock.mockImplementation(async () => new Response('{"status":"ok"}', { headers: { 'content-type': 'application/json' } }))
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+    vi.useRealTimers()
+    fetchMock.mockReset()
+  })
+
+  it('only forwards the places and routing APIs', async () => {
+    const proxy = await loadProxy()
+
+    const response = await proxy(request('/tiles/v1/styles'), { ip: '1.1.1.1' })
+
+    expect(response.status).toBe(404)
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('replaces a client-supplied api_key with the server key', async () => {
+    const proxy = await loadProxy()
+
+    const response = await proxy(request('/places/v1/autocomplete?input=cafe&api_key=stolen'), { ip: '1.1.1.1' })
+
+    expect(response.status).toBe(200)
+    const upstream = new URL(fetchMock.mock.calls[0][0] as string)
+    expect(upstream.origin + upstream.pathname).toBe('https://api.olamaps.io/places/v1/autocomplete')
+    expect(upstream.searchParams.get('input')).toBe('cafe')
+    expect(upstream.searchParams.getAll('api_key')).toEqual(['server-key'])
+  })
+
+  it('answers 429 with Retry-After once a client runs out of requests', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+    const proxy = await loadProxy()
+    const call = () => proxy(request('/routing/v1/directions'), { ip: '1.1.1.1' })
+
+    await call()
+    await call()
+    const limited = await call()
+
+    expect(limited.status).toBe(429)
+    expect(limited.headers.get('Retry-After')).toBe('30')
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('limits by address whatever client id or forwarded-for prefix is sent', async () => {
+    const proxy = await loadProxy()
+    const call = (clientId: string, spoofed: string) =>
+      proxy(request('/routing/v1/directions', { 'x-client-id': clientId, 'x-forwarded-for': `${spoofed}, 10.0.0.1` }), {})
+
+    const statuses = []
+    for (const [clientId, spoofed] of [['a', '2.2.2.2'], ['b', '4.4.4.4'], ['c', '5.5.5.5']]) statuses.push((await call(clientId, spoofed)).status)
+
+    expect(statuses).toEqual([200, 200, 429])
+    expect((await proxy(request('/routing/v1/directions'), { ip: '3.3.3.3' })).status).toBe(200)
+  })
+})
@@ -0,0 +1,136 @@
+import { ApiKeyAuthProvider, ClientCredentialsAuthProvider, type AuthProvider } from '../../src/services/auth'
+
+// Forwards /api/ola/places/v1/* and /api/ola/routing/v1/* to Ola Maps, adding credentials
+// server-side so nothing secret has to be bundled into the browser build.
+
+const UPSTREAM_URL = process.env.OLA_MAPS_UPSTREAM_URL || 'https://api.olamaps.io'
+const PROXY_PREFIX = '/api/ola'
+const ALLOWED_PREFIXES = ['/places/v1/', '/routing/v1/']
+const RATE_LIMIT_PER_MINUTE = Number(process.env.OLA_PROXY_RATE_LIMIT_PER_MINUTE || 120)
+// Headers from the browser that are safe to pass upstream
+const FORWARDED_HEADERS = ['content-type', 'x-request-id']
+
+interface Context {
+  ip?: string
+}
+
+interface Bucket {
+  tokens: number
+  updatedAt: number
+}
+
+// Per-instance token buckets keyed by client IP; good enough to stop one tab from burning the quota
+const buckets = new Map<string, Bucket>()
+let prunedAt = 0
+
+// A bucket idle for a minute has refilled completely, so it is the same as no bucket at all
+const pruneBuckets = (now: number) => {
+  if (now - prunedAt < 60000) return
+  prunedAt = now
+  buckets.forEach((bucket, clientId) => {
+    if (now - bucket.updatedAt >= 60000) buckets.delete(clientId)
+  })
+}
+
+const takeToken = (clientId: string, now: number): number => {
+  const capacity = RATE_LIMIT_PER_MINUTE
+  const refillPerMs = capacity / 60000
+  pruneBuckets(now)
+  const bucket = buckets.get(clientId) ?? { tokens: capacity, updatedAt: now }
+
+  bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs)
+  bucket.updatedAt = now
+  buckets.set(clientId, bucket)
+
+  if (bucket.tokens >= 1) {
+    bucket.tokens -= 1
+    return 0
+  }
+  // Milliseconds until the next token is available
+  return Math.ceil((1 - bucket.tokens) / refillPerMs)
+}
+
+const createAuthProvider = (): AuthProvider => {
+  const { OLA_MAPS_API_KEY, OLA_MAPS_CLIENT_ID, OLA_MAPS_CLIENT_SECRET, OLA_MAPS_TOKEN_URL } = process.env
+
+  if (OLA_MAPS_CLIENT_ID && OLA_MAPS_CLIENT_SECRET) {
+    return new ClientCredentialsAuthProvider({
+      clientId: OLA_MAPS_CLIENT_ID,
+      clientSecret: OLA_MAPS_CLIENT_SECRET,
+      tokenUrl: OLA_MAPS_TOKEN_URL || undefined
+    })
+  }
+  if (OLA_MAPS_API_KEY) {
+    return new ApiKeyAuthProvider(OLA_MAPS_API_KEY)
+  }
+  throw new Error('Missing Ola Maps credentials for proxy (set OLA_MAPS_API_KEY or OLA_MAPS_CLIENT_ID/SECRET)')
+}
+
+let auth: AuthProvider | null = null
+
+const json = (status: number, body: Record<string, unknown>, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  })
+
+export default async (req: Request, context: Context) => {
+  const incoming = new URL(req.url)
+  const path = incoming.pathname.slice(PROXY_PREFIX.length)
+
+  if (!ALLOWED_PREFIXES.some(prefix => path.startsWith(prefix))) {
+    return json(404, { error: `Unsupported Ola Maps path: ${path}` })
+  }
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return json(405, { error: `Method ${req.method} not allowed` })
+  }
+
+  // Only addresses the platform sets; headers a client chooses would let it dodge its limit. A client
+  // can start x-forwarded-for with anything, so only the entry the platform appends counts.
+  const clientId = context.ip || req.headers.get('x-forwarded-for')?.split(',').pop()?.trim() || 'anonymous'
+  const waitMs = takeToken(clientId, Date.now())
+  if (waitMs > 0) {
+    return json(429, { error: 'Too many requests' }, { 'Retry-After': String(Math.ceil(waitMs / 1000)) })
+  }
+
+  const upstream = new URL(path, UPSTREAM_URL)
+  incoming.searchParams.forEach((value, key) => {
+    // Never let a client-supplied key ride along
+    if (key !== 'api_key') upstream.searchParams.append(key, value)
+  })
+
+  const headers: Record<string, string> = {}
+  FORWARDED_HEADERS.forEach(name => {
+    const value = req.headers.get(name)
+    if (value) headers[name] = value
+  })
+
+  try {
+    auth = auth ?? createAuthProvider()
+    await auth.authorize(upstream, headers)
+
+    const body = req.method === 'POST' ? await req.text() : undefined
+    let response = await fetch(upstream.toString(), { method: req.method, headers, body })
+
+    // Token expired between cache check and upstream call: refresh once
+    if (response.status === 401 && auth.invalidate()) {
+      await auth.authorize(upstream, headers)
+      response = await fetch(upstream.toString(), { method: req.method, headers, body })
+    }
+
+    const responseHeaders: Record<string, string> = {
+      'Content-Type': response.headers.get('content-type') || 'application/json'
+    }
+    const retryAfter = response.headers.get('retry-after')
+    if (retryAfter) responseHeaders['Retry-After'] = retryAfter
+
+    return new Response(response.body, { status: response.status, headers: responseHeaders })
+  } catch (error) {
+    console.error('Ola proxy error:', error)
+    return json(502, { error: 'Upstream Ola Maps request failed' })
+  }
+}
+
+export const config = {
+  path: [`${PROXY_PREFIX}/places/v1/*`, `${PROXY_PREFIX}/routing/v1/*`]
+}
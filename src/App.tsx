@@ -1,4 +1,4 @@
-import { BrowserRouter as Router, Routes, Route } from 'react-router-dom'
+import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom'
 import MapContainer from './components/Map/MapContainer'
 
 function App() {
@@ -6,7 +6,12 @@ function App() {
     <Router>
       <div className="h-screen w-screen overflow-hidden">
         <Routes>
+          {/* MapContainer reads these URLs itself (see useUrlSync); one element keeps the map mounted */}
           <Route path="/" element={<MapContainer />} />
+          <Route path="/:view" element={<MapContainer />} />
+          <Route path="/place/:placeId" element={<MapContainer />} />
+          <Route path="/dir/:origin?/:destination?" element={<MapContainer />} />
+          <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </div>
     </Router>
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react'
+import DataTransfer from './DataTransfer'
+import { fetchSavedPlaces, savePlaces } from '../../services'
+import { useAppStore } from '../../store'
+
+vi.mock('../../services', () => ({
+  supabase: {},
+  fetchSavedPlaces: vi.fn(),
+  savePlaces: vi.fn()
+}))
+
+const gpx = `<gpx>
+  <wpt lat="28.6315" lon="77.2167"><name>Connaught Place</name></wpt>
+  <wpt lat="28.62" lon="77.22"><name>Janpath</name></wpt>
+  <wpt lat="28.6129" lon="77.2295"><name>India Gate</name></wpt>
+</gpx>`
+
+const textFile = (name: string, text: string) => {
+  const file = new File([], name)
+  // jsdom's File has no text()
+  Object.defineProperty(file, 'text', { value: async () => text })
+  return file
+}
+
+const openFile = (name: string, text: string) =>
+  act(async () => {
+    fireEvent.change(screen.getByTestId('geo-file'), { target: { files: [textFile(name, text)] } })
+  })
+
+const initialState = useAppStore.getState()
+
+describe('DataTransfer', () => {
+  beforeEach(() => {
+    useAppStore.setState(initialState, true)
+    useAppStore.setState({ toolPanel: 'data' })
+    vi.mocked(fetchSavedPlaces).mockResolvedValue([])
+  })
+
+  afterEach(() => {
+    cleanup()
+    vi.clearAllMocks()
+  })
+
+  it('plans a route through the points of an imported file', async () => {
+    render(<DataTransfer />)
+    await openFile('stops.gpx', gpx)
+
+    expect(screen.getByText('0 lines · 3 points')).toBeTruthy()
+    fireEvent.click(screen.getByText('Plan a route'))
+
+    const { origin, waypoints, destination, showNavigation } = useAppStore.getState()
+    expect(origin?.name).toBe('Connaught Place')
+    expect(waypoints.map(place => place.name)).toEqual(['Janpath'])
+    expect(destination?.name).toBe('India Gate')
+    expect(showNavigation).toBe(true)
+  })
+
+  it('saves imported points as places', async () => {
+    vi.mocked(savePlaces).mockImplementation(async (_client, places) => places.map((place, i) => ({ ...place, id: `p${i}` })))
+    render(<DataTransfer />)
+    await openFile('stops.gpx', gpx)
+
+    await act(async () => fireEvent.click(screen.getByText('Save 3 places')))
+
+    expect(screen.getByText('Saved 3 places')).toBeTruthy()
+    expect(screen.getByText('3 saved places')).toBeTruthy()
+    expect(useAppStore.getState().savedPlaces?.map(place => place.id)).toEqual(['p0', 'p1', 'p2'])
+  })
+
+  it('shows why a file could not be read', async () => {
+    render(<DataTransfer />)
+    await openFile('broken.kml', '<kml><Placemark><Point><coordinates>east,north</coordinates></Point></Placemark></kml>')
+
+    expect(screen.getByText("broken.kml: Placemark 1, coordinate 1 has a coordinate that isn't a number")).toBeTruthy()
+    expect(screen.queryByText('Plan a route')).toBeNull()
+  })
+
+  it('exports nothing until there is a route or a saved place', async () => {
+    render(<DataTransfer />)
+    await act(async () => {})
+
+    expect(screen.getByText('No route selected')).toBeTruthy()
+    expect(screen.getAllByTitle('Export GPX').every(button => (button as HTMLButtonElement).disabled)).toBe(true)
+  })
+})
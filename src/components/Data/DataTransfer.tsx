@@ -0,0 +1,223 @@
+import { useEffect, useRef, useState } from 'react'
+import { X, ArrowDownUp, Upload, Navigation, Star } from 'lucide-react'
+import { supabase, fetchSavedPlaces, savePlaces } from '../../services'
+import { useAppStore } from '../../store'
+import ExportButtons from './ExportButtons'
+import { CameraController } from '../../utils/cameraController'
+import {
+  documentPlaces,
+  documentStops,
+  parseGeoFile,
+  placesDocument,
+  routeDocument,
+  toFeatureCollection,
+  type GeoDocument
+} from '../../utils/geoFormats'
+
+const IMPORT_SOURCE_ID = 'imported-file'
+const IMPORT_LINE_LAYER = 'imported-file-lines'
+const IMPORT_POINT_LAYER = 'imported-file-points'
+
+// Exports the selected route and saved places as GPX, KML or GeoJSON, and imports those formats
+// to draw on the map, plan a route through, or save as places
+const DataTransfer = () => {
+  const map = useAppStore(state => state.map)
+  const route = useAppStore(state => state.routes[state.selectedRoute])
+  const savedPlaces = useAppStore(state => state.savedPlaces)
+  const { setToolPanel, setSavedPlaces, addSavedPlaces, setOrigin, setWaypoints, setDestination, setShowNavigation } = useAppStore.getState()
+  const [imported, setImported] = useState<GeoDocument | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (savedPlaces !== null) return
+    fetchSavedPlaces(supabase)
+      .then(setSavedPlaces)
+      .catch(error => {
+        console.warn('Saved places unavailable:', error)
+        setSavedPlaces([])
+      })
+  }, [])
+
+  // Draw the imported file, and take it off the map when the panel closes
+  useEffect(() => {
+    if (!map || !imported) return
+    const draw = () => {
+      map.addSource(IMPORT_SOURCE_ID, { type: 'geojson', data: toFeatureCollection(imported) })
+      map.addLayer({
+        id: IMPORT_LINE_LAYER,
+        type: 'line',
+        source: IMPORT_SOURCE_ID,
+        filter: ['==', ['geometry-type'], 'LineString'],
+        layout: { 'line-join': 'round', 'line-cap': 'round' },
+        paint: { 'line-color': '#2563EB', 'line-width': 4, 'line-opacity': 0.8 }
+      })
+      map.addLayer({
+        id: IMPORT_POINT_LAYER,
+        type: 'circle',
+        source: IMPORT_SOURCE_ID,
+        filter: ['==', ['geometry-type'], 'Point'],
+        paint: { 'circle-radius': 5, 'circle-color': '#2563EB', 'circle-stroke-width': 2, 'circle-stroke-color': '#FFFFFF' }
+      })
+    }
+
+    if (map.isStyleLoaded()) {
+      draw()
+    } else {
+      map.once('load', draw)
+    }
+    new CameraController(map).fitLine([
+      ...imported.tracks.flatMap(track => track.coordinates),
+      ...imported.points.map(point => [point.lng, point.lat])
+    ])
+
+    return () => {
+      map.off('load', draw)
+      if (map.getLayer(IMPORT_POINT_LAYER)) map.removeLayer(IMPORT_POINT_LAYER)
+      if (map.getLayer(IMPORT_LINE_LAYER)) map.removeLayer(IMPORT_LINE_LAYER)
+      if (map.getSource(IMPORT_SOURCE_ID)) map.removeSource(IMPORT_SOURCE_ID)
+    }
+  }, [map, imported])
+
+  const importFile = async (file: File) => {
+    setMessage(null)
+    try {
+      setImported(parseGeoFile(file.name, await file.text()))
+      setError(null)
+    } catch (error) {
+      setImported(null)
+      setError((error as Error).message)
+    }
+  }
+
+  const stops = imported ? documentStops(imported) : []
+  const places = imported ? documentPlaces(imported) : []
+
+  // First and last points become the origin and destination, the rest via stops
+  const planRoute = () => {
+    setOrigin(stops[0])
+    setWaypoints(stops.slice(1, -1))
+    setDestination(stops[stops.length - 1])
+    setShowNavigation(true)
+  }
+
+  const saveImportedPlaces = async () => {
+    setIsSaving(true)
+    try {
+      const saved = await savePlaces(supabase, places)
+      if (saved) {
+        addSavedPlaces(saved)
+        setMessage(`Saved ${saved.length} ${saved.length === 1 ? 'place' : 'places'}`)
+      } else {
+        setMessage('Sign in to save places')
+      }
+    } catch (error) {
+      setMessage((error as Error).message)
+    }
+    setIsSaving(false)
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg">
+      {/* Header */}
+      <div className="flex items-center justify-between p-3 border-b">
+        <div className="flex items-center">
+          <ArrowDownUp className="w-5 h-5 text-blue-600 mr-2" />
+          <h2 className="font-semibold text-gray-900">Import &amp; export</h2>
+        </div>
+        <button
+          onClick={() => setToolPanel(null)}
+          className="text-gray-400 hover:text-gray-600"
+          title="Close import and export"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* Export */}
+      <div className="p-3 space-y-2 border-b text-sm">
+        <div className="flex items-center justify-between">
+          <span className="text-gray-700 truncate mr-2">{route ? route.summary : 'No route selected'}</span>
+          <ExportButtons
+            document={() => routeDocument(route, useAppStore.getState())}
+            fileName="route"
+            disabled={!route}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-gray-700 mr-2">
+            {savedPlaces === null ? 'Saved places' : `${savedPlaces.length} saved ${savedPlaces.length === 1 ? 'place' : 'places'}`}
+          </span>
+          <ExportButtons
+            document={() => placesDocument('Saved places', savedPlaces ?? [])}
+            fileName="saved-places"
+            disabled={!savedPlaces || savedPlaces.length === 0}
+          />
+        </div>
+        <p className="text-xs text-gray-500">Recorded trips are exported from the trip recorder.</p>
+      </div>
+
+      {/* Import */}
+      <div className="p-3 space-y-2 text-sm">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full flex items-center justify-center px-3 py-2 border border-gray-300 rounded hover:bg-gray-50"
+        >
+          <Upload className="w-4 h-4 mr-1" />
+          Open GPX / KML / GeoJSON
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".gpx,.kml,.geojson,.json,application/gpx+xml,application/vnd.google-earth.kml+xml,application/geo+json"
+          className="hidden"
+          data-testid="geo-file"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) importFile(file)
+            e.target.value = ''
+          }}
+        />
+        {error && <p className="text-red-600">{error}</p>}
+
+        {imported && (
+          <div className="space-y-2">
+            <div>
+              <div className="font-medium text-gray-900 truncate">{imported.name}</div>
+              <div className="text-xs text-gray-500">
+                {imported.tracks.length} {imported.tracks.length === 1 ? 'line' : 'lines'} · {imported.points.length} {imported.points.length === 1 ? 'point' : 'points'}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={planRoute}
+                disabled={stops.length < 2}
+                className="flex-1 flex items-center justify-center bg-ola-green hover:bg-green-600 text-white px-2 py-1 rounded disabled:opacity-50"
+                title={stops.length < 2 ? 'A route needs at least two points' : undefined}
+              >
+                <Navigation className="w-4 h-4 mr-1" />
+                Plan a route
+              </button>
+              <button
+                onClick={saveImportedPlaces}
+                disabled={places.length === 0 || isSaving}
+                className="flex-1 flex items-center justify-center border border-gray-300 px-2 py-1 rounded hover:bg-gray-50 disabled:opacity-50"
+              >
+                <Star className="w-4 h-4 mr-1" />
+                Save {places.length} {places.length === 1 ? 'place' : 'places'}
+              </button>
+            </div>
+            <button onClick={() => setImported(null)} className="text-xs text-gray-500 hover:text-gray-700">
+              Clear from map
+            </button>
+          </div>
+        )}
+        {message && <p className="text-gray-600">{message}</p>}
+      </div>
+    </div>
+  )
+}
+
+export default DataTransfer
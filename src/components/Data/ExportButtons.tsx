@@ -0,0 +1,32 @@
+import { downloadText } from '../../utils/download'
+import { GEO_FORMATS, writeGeoDocument, type GeoDocument, type GeoFormat } from '../../utils/geoFormats'
+
+interface ExportButtonsProps {
+  // Built on click, so nothing is serialised until it is wanted
+  document: () => GeoDocument
+  // Without an extension
+  fileName: string
+  disabled?: boolean
+}
+
+// One download button per export format
+const ExportButtons = ({ document, fileName, disabled }: ExportButtonsProps) => (
+  <div className="flex gap-1">
+    {(Object.keys(GEO_FORMATS) as GeoFormat[]).map(format => {
+      const { label, extension, mimeType } = GEO_FORMATS[format]
+      return (
+        <button
+          key={format}
+          onClick={() => downloadText(`${fileName}.${extension}`, mimeType, writeGeoDocument(document(), format))}
+          disabled={disabled}
+          className="px-2 py-0.5 text-xs border border-gray-300 rounded text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          title={`Export ${label}`}
+        >
+          {label}
+        </button>
+      )
+    })}
+  </div>
+)
+
+export default ExportButtons
@@ -1,19 +1,69 @@
 import { useEffect, useRef, useState } from 'react'
 import { OlaMaps } from 'olamaps-web-sdk'
-import { Search, Navigation, MapPin, Layers } from 'lucide-react'
+import { Search, Navigation, MapPin, Layers, X, Truck, PlayCircle, Disc, ArrowDownUp, Star, Timer } from 'lucide-react'
 import SearchBar from '../Search/SearchBar'
 import NavigationPanel from '../Navigation/NavigationPanel'
+import DeliveryPlanner from '../Planner/DeliveryPlanner'
+import LocationSimulator from '../Simulation/LocationSimulator'
+import TripRecorder from '../Recorder/TripRecorder'
+import DataTransfer from '../Data/DataTransfer'
+import ReachabilityPanel from '../Reachability/ReachabilityPanel'
 import TrafficSignalOverlay from '../TrafficSignals/TrafficSignalOverlay'
+import { GeolocateControlProvider, savePlaces, supabase, type LocationProvider } from '../../services'
+import { useAppStore } from '../../store'
+import { useUrlSync } from '../../hooks/useUrlSync'
+import { useTurnByTurn } from '../../hooks/useTurnByTurn'
+import { useVoiceGuidance } from '../../hooks/useVoiceGuidance'
+import { useFollowCamera } from '../../hooks/useFollowCamera'
+import { useSpeedLimits } from '../../hooks/useSpeedLimits'
+import { useTripLog } from '../../hooks/useTripLog'
+import { useTraceRecorder } from '../../hooks/useTraceRecorder'
+import { useSyncedPreferences } from '../../hooks/useSyncedPreferences'
 
 const MapContainer = () => {
   const mapContainerRef = useRef<HTMLDivElement>(null)
   const mapRef = useRef<any>(null)
   const geolocateRef = useRef<any>(null)
-  const [isMapLoaded, setIsMapLoaded] = useState(false)
-  const [showSearch, setShowSearch] = useState(true)
-  const [showNavigation, setShowNavigation] = useState(false)
-  const [currentLocation, setCurrentLocation] = useState<{lat: number, lng: number} | null>(null)
+  const placeMarkerRef = useRef<any>(null)
+  const map = useAppStore(state => state.map)
+  const isMapLoaded = useAppStore(state => state.isMapLoaded)
+  const showSearch = useAppStore(state => state.showSearch)
+  const showNavigation = useAppStore(state => state.showNavigation)
+  const showPlanner = useAppStore(state => state.showPlanner)
+  const showSimulator = useAppStore(state => state.showSimulator)
+  const toolPanel = useAppStore(state => state.toolPanel)
+  const isRecording = useAppStore(state => state.recording !== null)
+  const savedPlaces = useAppStore(state => state.savedPlaces)
+  const locationSimulation = useAppStore(state => state.locationSimulation)
+  const currentLocation = useAppStore(state => state.currentLocation)
+  const selectedPlace = useAppStore(state => state.selectedPlace)
+  const showSignals = useAppStore(state => state.preferences.show_signals)
+  const {
+    setMap,
+    setMapLoaded,
+    setMapView,
+    setCurrentLocation,
+    toggleSearch,
+    setShowNavigation,
+    setShowPlanner,
+    setShowSimulator,
+    setToolPanel,
+    addSavedPlaces,
+    setSelectedPlace,
+    setDestination
+  } = useAppStore.getState()
   const [webglError, setWebglError] = useState<string | null>(null)
+  const [deviceLocation, setDeviceLocation] = useState<LocationProvider | null>(null)
+  const [placeNotice, setPlaceNotice] = useState<string | null>(null)
+
+  useUrlSync()
+  useTurnByTurn()
+  useVoiceGuidance()
+  useFollowCamera()
+  useSpeedLimits()
+  useTripLog()
+  useTraceRecorder()
+  useSyncedPreferences()
 
   // Check WebGL support with detailed diagnostics
   const checkWebGLSupport = (): boolean => {
@@ -62,11 +112,6 @@ const MapContainer = () => {
   }
 
   const apiKey = import.meta.env.VITE_OLA_MAPS_API_KEY
-  const defaultCenter = [
-    parseFloat(import.meta.env.VITE_DEFAULT_LNG || '77.1025'),
-    parseFloat(import.meta.env.VITE_DEFAULT_LAT || '28.7041')
-  ]
-  const defaultZoom = parseInt(import.meta.env.VITE_DEFAULT_ZOOM || '12')
 
   useEffect(() => {
     if (!mapContainerRef.current || !apiKey) return
@@ -86,11 +131,14 @@ const MapContainer = () => {
         const defaultStyle = 'default'
 
         // Initialize map with fallback options
+        const { mapView } = useAppStore.getState()
         const map = olaMaps.init({
           styleName: defaultStyle,
           container: mapContainerRef.current,
-          center: defaultCenter,
-          zoom: defaultZoom,
+          center: [mapView.center.lng, mapView.center.lat],
+          zoom: mapView.zoom,
+          bearing: mapView.bearing,
+          pitch: mapView.pitch,
           // WebGL fallback options for better compatibility
           failIfMajorPerformanceCaveat: false, // Allow software rendering
           preserveDrawingBuffer: false,       // Better performance
@@ -118,7 +166,7 @@ const MapContainer = () => {
 
         // Map load event
         map.on('load', () => {
-          setIsMapLoaded(true)
+          setMapLoaded(true)
           // Trigger geolocation on load
           if (geolocateRef.current) {
             geolocateRef.current.trigger()
@@ -126,14 +174,21 @@ const MapContainer = () => {
         })
 
         // Track user location
-        geolocate.on('geolocate', (e: any) => {
-          setCurrentLocation({
-            lat: e.coords.latitude,
-            lng: e.coords.longitude
+        setDeviceLocation(new GeolocateControlProvider(geolocate))
+
+        // Keep the store's view in step with the camera
+        map.on('moveend', () => {
+          const center = map.getCenter()
+          setMapView({
+            center: { lat: center.lat, lng: center.lng },
+            zoom: map.getZoom(),
+            bearing: map.getBearing(),
+            pitch: map.getPitch()
           })
         })
 
         mapRef.current = map
+        setMap(map)
 
       } catch (error) {
         console.error('Error initializing map:', error)
@@ -152,11 +207,23 @@ const MapContainer = () => {
 
     return () => {
       if (mapRef.current) {
+        setMap(null)
         mapRef.current.remove()
       }
     }
   }, [apiKey])
 
+  // Location comes from the device unless a simulation has taken its place
+  useEffect(() => {
+    const provider = locationSimulation
+      ? (locationSimulation.paused ? null : locationSimulation.provider)
+      : deviceLocation
+    if (!provider) return
+
+    provider.start(setCurrentLocation)
+    return () => provider.stop()
+  }, [deviceLocation, locationSimulation])
+
   const addMarker = (coordinates: [number, number], options?: any) => {
     if (!mapRef.current) return
 
@@ -181,6 +248,31 @@ const MapContainer = () => {
     })
   }
 
+  // Fly to and mark the selected place, whether it came from the search bar or a /place link
+  useEffect(() => {
+    setPlaceNotice(null)
+    placeMarkerRef.current?.remove()
+    placeMarkerRef.current = null
+    if (!map || !selectedPlace) return
+
+    flyToLocation([selectedPlace.lng, selectedPlace.lat])
+    placeMarkerRef.current = addMarker([selectedPlace.lng, selectedPlace.lat])
+  }, [map, selectedPlace])
+
+  const isPlaceSaved = !!selectedPlace && !!savedPlaces?.some(place =>
+    selectedPlace.place_id ? place.place_id === selectedPlace.place_id : place.lat === selectedPlace.lat && place.lng === selectedPlace.lng)
+
+  const saveSelectedPlace = async () => {
+    if (!selectedPlace) return
+    try {
+      const saved = await savePlaces(supabase, [selectedPlace])
+      if (saved) addSavedPlaces(saved)
+      setPlaceNotice(saved ? null : 'Sign in to save places')
+    } catch (error) {
+      setPlaceNotice((error as Error).message)
+    }
+  }
+
   return (
     <div className="relative h-screen w-screen">
       {/* Map Container */}
@@ -192,40 +284,100 @@ const MapContainer = () => {
 
       {/* Search Bar */}
       {showSearch && (
-        <div className="absolute top-4 left-4 right-4 z-10 md:left-4 md:right-auto md:w-96">
+        <div className="absolute top-4 left-4 right-4 z-10 md:left-4 md:right-auto md:w-96" data-map-overlay>
           <SearchBar 
-            onLocationSelect={(location) => {
-              flyToLocation([location.lng, location.lat])
-              addMarker([location.lng, location.lat])
-            }}
-            currentLocation={currentLocation}
+            onLocationSelect={setSelectedPlace}
           />
+          {selectedPlace && !showNavigation && (
+            <div className="mt-2 bg-white rounded-lg shadow-lg border border-gray-200 px-4 py-3 flex items-center">
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-gray-900 truncate">{selectedPlace.name}</div>
+                <div className="text-sm text-gray-500 truncate">{selectedPlace.address}</div>
+              </div>
+              <button
+                onClick={() => {
+                  setDestination(selectedPlace)
+                  setShowNavigation(true)
+                }}
+                className="ml-3 flex items-center bg-ola-green hover:bg-green-600 text-white text-sm px-3 py-2 rounded-lg transition-colors"
+              >
+                <Navigation className="w-4 h-4 mr-1" />
+                Directions
+              </button>
+              <button
+                onClick={saveSelectedPlace}
+                disabled={isPlaceSaved}
+                className={`ml-2 ${isPlaceSaved ? 'text-yellow-500' : 'text-gray-400 hover:text-gray-600'}`}
+                title={isPlaceSaved ? 'Saved' : 'Save place'}
+              >
+                <Star className={`w-4 h-4 ${isPlaceSaved ? 'fill-current' : ''}`} />
+              </button>
+              <button
+                onClick={() => setSelectedPlace(null)}
+                className="ml-2 text-gray-400 hover:text-gray-600"
+                title="Dismiss"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+          {selectedPlace && !showNavigation && placeNotice && (
+            <div className="mt-1 text-xs text-gray-600 bg-white rounded px-2 py-1 shadow">{placeNotice}</div>
+          )}
         </div>
       )}
 
       {/* Navigation Panel */}
       {showNavigation && (
-        <div className="absolute left-4 top-20 bottom-4 z-10 w-80 md:w-96">
-          <NavigationPanel 
-            map={mapRef.current}
-            onClose={() => setShowNavigation(false)}
-            currentLocation={currentLocation}
-          />
+        <div className="absolute left-4 top-20 bottom-4 z-10 w-80 md:w-96" data-map-overlay>
+          <NavigationPanel />
+        </div>
+      )}
+
+      {/* Delivery Run Planner */}
+      {showPlanner && (
+        <div className="absolute left-4 top-20 bottom-4 z-10 w-80 md:w-96" data-map-overlay>
+          <DeliveryPlanner />
+        </div>
+      )}
+
+      {/* Location Simulator */}
+      {showSimulator && (
+        <div className="absolute right-4 bottom-20 z-10 w-72" data-map-overlay>
+          <LocationSimulator />
+        </div>
+      )}
+
+      {/* Trip Recorder */}
+      {toolPanel === 'recorder' && (
+        <div className="absolute right-4 top-20 z-10 w-72" data-map-overlay>
+          <TripRecorder />
+        </div>
+      )}
+
+      {/* Import and Export */}
+      {toolPanel === 'data' && (
+        <div className="absolute right-4 top-20 z-10 w-72" data-map-overlay>
+          <DataTransfer />
+        </div>
+      )}
+
+      {/* Reachability */}
+      {toolPanel === 'reachability' && (
+        <div className="absolute right-4 top-20 z-10 w-72" data-map-overlay>
+          <ReachabilityPanel />
         </div>
       )}
 
       {/* Enhanced Traffic Signal Overlay */}
-      {isMapLoaded && currentLocation && (
-        <TrafficSignalOverlay 
-          map={mapRef.current}
-          currentLocation={currentLocation}
-        />
+      {isMapLoaded && currentLocation && showSignals && (
+        <TrafficSignalOverlay />
       )}
 
       {/* Control Buttons */}
-      <div className="absolute bottom-4 left-4 z-10 flex flex-col gap-2">
+      <div className="absolute bottom-4 left-4 z-10 flex flex-col gap-2" data-map-overlay>
         <button
-          onClick={() => setShowSearch(!showSearch)}
+          onClick={toggleSearch}
           className="bg-white hover:bg-gray-50 p-3 rounded-lg shadow-lg transition-colors"
           title="Toggle Search"
         >
@@ -240,6 +392,46 @@ const MapContainer = () => {
           <Navigation className="w-5 h-5" />
         </button>
 
+        <button
+          onClick={() => setShowPlanner(!showPlanner)}
+          className="bg-white hover:bg-gray-50 p-3 rounded-lg shadow-lg transition-colors"
+          title="Delivery Planner"
+        >
+          <Truck className="w-5 h-5" />
+        </button>
+
+        <button
+          onClick={() => setShowSimulator(!showSimulator)}
+          className="bg-white hover:bg-gray-50 p-3 rounded-lg shadow-lg transition-colors"
+          title="Location Simulator"
+        >
+          <PlayCircle className="w-5 h-5" />
+        </button>
+
+        <button
+          onClick={() => setToolPanel(toolPanel === 'recorder' ? null : 'recorder')}
+          className={`bg-white hover:bg-gray-50 p-3 rounded-lg shadow-lg transition-colors ${isRecording ? 'text-red-600' : ''}`}
+          title="Trip Recorder"
+        >
+          <Disc className={`w-5 h-5 ${isRecording ? 'animate-pulse' : ''}`} />
+        </button>
+
+        <button
+          onClick={() => setToolPanel(toolPanel === 'data' ? null : 'data')}
+          className="bg-white hover:bg-gray-50 p-3 rounded-lg shadow-lg transition-colors"
+          title="Import / Export"
+        >
+          <ArrowDownUp className="w-5 h-5" />
+        </button>
+
+        <button
+          onClick={() => setToolPanel(toolPanel === 'reachability' ? null : 'reachability')}
+          className="bg-white hover:bg-gray-50 p-3 rounded-lg shadow-lg transition-colors"
+          title="Reachability"
+        >
+          <Timer className="w-5 h-5" />
+        </button>
+
         <button
           onClick={() => {
             if (currentLocation) {
@@ -284,8 +476,8 @@ const MapContainer = () => {
         </div>
       )}
 
-      {/* Loading Indicator */}
-      {!isMapLoaded && !webglError && (
+      {/* Loading Indicator (without an API key the map never initialises, e.g. in mock mode) */}
+      {!isMapLoaded && !webglError && apiKey && (
         <div className="absolute inset-0 z-20 bg-white bg-opacity-90 flex items-center justify-center">
           <div className="text-center">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-ola-green mx-auto mb-4"></div>
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react'
+import AvoidanceOptions from './AvoidanceOptions'
+import { useAppStore } from '../../store'
+
+const createMap = () => ({
+  isStyleLoaded: () => true,
+  on: vi.fn(),
+  off: vi.fn(),
+  once: vi.fn(),
+  getCanvas: () => ({ style: {} }),
+  addSource: vi.fn(),
+  addLayer: vi.fn(),
+  getLayer: vi.fn(() => false),
+  getSource: vi.fn(() => undefined),
+  removeLayer: vi.fn(),
+  removeSource: vi.fn()
+})
+
+const initialState = useAppStore.getState()
+
+describe('AvoidanceOptions', () => {
+  beforeEach(() => {
+    useAppStore.setState(initialState, true)
+  })
+
+  afterEach(cleanup)
+
+  it('saves road features to avoid with the other preferences', () => {
+    useAppStore.setState({ map: createMap() })
+    render(<AvoidanceOptions />)
+
+    fireEvent.click(screen.getByText('Tolls'))
+    fireEvent.click(screen.getByText('Ferries'))
+    fireEvent.click(screen.getByText('Tolls'))
+
+    expect(useAppStore.getState().preferences.route_avoid).toEqual(['ferries'])
+    expect(screen.getByText('Ferries').getAttribute('aria-pressed')).toBe('true')
+  })
+
+  it('outlines an area with clicks on the map and keeps it', () => {
+    const map = createMap()
+    useAppStore.setState({ map })
+    render(<AvoidanceOptions />)
+
+    fireEvent.click(screen.getByText('Draw area to avoid'))
+    const onClick = map.on.mock.calls.find(call => call[0] === 'click')?.slice(-1)[0] as (e: unknown) => void
+    act(() => {
+      onClick({ lngLat: { lng: 77.2, lat: 28.6 } })
+      onClick({ lngLat: { lng: 77.21, lat: 28.6 } })
+    })
+    expect(screen.getByText('Save area').hasAttribute('disabled')).toBe(true)
+
+    act(() => onClick({ lngLat: { lng: 77.21, lat: 28.61 } }))
+    fireEvent.change(screen.getByLabelText('Area name'), { target: { value: 'Flooded underpass' } })
+    fireEvent.click(screen.getByText('Save area'))
+
+    expect(useAppStore.getState().preferences.avoid_areas).toEqual([
+      expect.objectContaining({ name: 'Flooded underpass', polygon: [[77.2, 28.6], [77.21, 28.6], [77.21, 28.61]] })
+    ])
+    expect(map.off).toHaveBeenCalledWith('click', onClick)
+    expect(map.addSource).toHaveBeenCalledWith('avoid-areas', expect.anything())
+
+    fireEvent.click(screen.getByTitle('Remove Flooded underpass'))
+    expect(useAppStore.getState().preferences.avoid_areas).toEqual([])
+  })
+})
@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react'
+import { X, PenTool } from 'lucide-react'
+import { useAppStore } from '../../store'
+import type { RouteAvoidance } from '../../types'
+import { createAvoidArea, MIN_AREA_VERTICES } from '../../utils/avoidAreas'
+
+const AVOIDANCES: { id: RouteAvoidance; label: string }[] = [
+  { id: 'tolls', label: 'Tolls' },
+  { id: 'highways', label: 'Highways' },
+  { id: 'ferries', label: 'Ferries' }
+]
+
+const AREAS_SOURCE = 'avoid-areas'
+const AREAS_FILL_LAYER = 'avoid-areas-fill'
+const AREAS_OUTLINE_LAYER = 'avoid-areas-outline'
+
+// Saved areas as polygons, and the one being drawn as a polygon or, until it has three
+// corners, as a line
+const areaFeatures = (areas: number[][][], draft: number[][] | null) => ({
+  type: 'FeatureCollection',
+  features: [
+    ...areas.map(polygon => ({
+      type: 'Feature',
+      properties: { draft: false },
+      geometry: { type: 'Polygon', coordinates: [[...polygon, polygon[0]]] }
+    })),
+    ...(draft && draft.length > 0
+      ? [{
+          type: 'Feature',
+          properties: { draft: true },
+          geometry: draft.length >= MIN_AREA_VERTICES
+            ? { type: 'Polygon', coordinates: [[...draft, draft[0]]] }
+            : { type: 'LineString', coordinates: draft }
+        }]
+      : [])
+  ]
+})
+
+// Road features to avoid, and areas drawn on the map for routes to stay out of
+const AvoidanceOptions = () => {
+  const map = useAppStore(state => state.map)
+  const avoid = useAppStore(state => state.preferences.route_avoid)
+  const areas = useAppStore(state => state.preferences.avoid_areas)
+  const { setPreference } = useAppStore.getState()
+  const [draft, setDraft] = useState<number[][] | null>(null)
+  const [draftName, setDraftName] = useState('')
+  const isDrawing = draft !== null
+
+  // Keep the areas on the map while directions are open
+  useEffect(() => {
+    if (!map) return
+    const data = areaFeatures(areas.map(area => area.polygon), draft)
+
+    const draw = () => {
+      const source = map.getSource(AREAS_SOURCE)
+      if (source) {
+        source.setData(data)
+        return
+      }
+      map.addSource(AREAS_SOURCE, { type: 'geojson', data })
+      map.addLayer({
+        id: AREAS_FILL_LAYER,
+        type: 'fill',
+        source: AREAS_SOURCE,
+        paint: {
+          'fill-color': ['case', ['get', 'draft'], '#F59E0B', '#EF4444'],
+          'fill-opacity': 0.2
+        }
+      })
+      map.addLayer({
+        id: AREAS_OUTLINE_LAYER,
+        type: 'line',
+        source: AREAS_SOURCE,
+        paint: {
+          'line-color': ['case', ['get', 'draft'], '#F59E0B', '#EF4444'],
+          'line-width': 2,
+          'line-dasharray': [2, 1]
+        }
+      })
+    }
+
+    if (map.isStyleLoaded()) {
+      draw()
+      return
+    }
+    map.once('load', draw)
+    return () => map.off('load', draw)
+  }, [map, areas, draft])
+
+  useEffect(() => () => {
+    if (!map) return
+    if (map.getLayer(AREAS_OUTLINE_LAYER)) map.removeLayer(AREAS_OUTLINE_LAYER)
+    if (map.getLayer(AREAS_FILL_LAYER)) map.removeLayer(AREAS_FILL_LAYER)
+    if (map.getSource(AREAS_SOURCE)) map.removeSource(AREAS_SOURCE)
+  }, [map])
+
+  // While drawing, each click on the map adds a corner
+  useEffect(() => {
+    if (!map || !isDrawing) return
+    const onClick = (event: any) => setDraft(corners => corners && [...corners, [event.lngLat.lng, event.lngLat.lat]])
+    map.on('click', onClick)
+    map.getCanvas().style.cursor = 'crosshair'
+    return () => {
+      map.off('click', onClick)
+      map.getCanvas().style.cursor = ''
+    }
+  }, [map, isDrawing])
+
+  const toggle = (id: RouteAvoidance) =>
+    setPreference('route_avoid', avoid.includes(id) ? avoid.filter(a => a !== id) : [...avoid, id])
+
+  const saveDraft = () => {
+    if (!draft || draft.length < MIN_AREA_VERTICES) return
+    setPreference('avoid_areas', [...areas, createAvoidArea(draft, draftName, areas)])
+    setDraft(null)
+    setDraftName('')
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex items-center gap-2">
+        <span className="text-gray-500">Avoid</span>
+        {AVOIDANCES.map(({ id, label }) => (
+          <button
+            key={id}
+            onClick={() => toggle(id)}
+            aria-pressed={avoid.includes(id)}
+            className={`px-2 py-0.5 rounded-full border ${
+              avoid.includes(id)
+                ? 'border-ola-green bg-green-50 text-ola-green'
+                : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {areas.map(area => (
+        <div key={area.id} className="flex items-center justify-between pl-2 text-gray-700">
+          <div className="flex items-center min-w-0">
+            <div className="w-2 h-2 bg-red-500 rounded-sm mr-2 flex-shrink-0" />
+            <span className="truncate">{area.name}</span>
+          </div>
+          <button
+            onClick={() => setPreference('avoid_areas', areas.filter(a => a.id !== area.id))}
+            className="text-gray-400 hover:text-red-600"
+            title={`Remove ${area.name}`}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      {draft ? (
+        <div className="p-2 rounded bg-amber-50 space-y-2">
+          <p className="text-gray-600">
+            Click the map to outline the area ({draft.length} {draft.length === 1 ? 'corner' : 'corners'})
+          </p>
+          <input
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            placeholder="Name, e.g. Flooded underpass"
+            aria-label="Area name"
+            className="w-full border border-gray-300 rounded px-2 py-1"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={saveDraft}
+              disabled={draft.length < MIN_AREA_VERTICES}
+              className="flex-1 bg-ola-green text-white rounded px-2 py-1 disabled:opacity-50"
+            >
+              Save area
+            </button>
+            <button
+              onClick={() => setDraft(null)}
+              className="flex-1 border border-gray-300 rounded px-2 py-1 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setDraft([])}
+          disabled={!map}
+          className="flex items-center text-ola-green hover:underline disabled:opacity-50"
+        >
+          <PenTool className="w-4 h-4 mr-1" />
+          Draw area to avoid
+        </button>
+      )}
+    </div>
+  )
+}
+
+export default AvoidanceOptions
@@ -0,0 +1,119 @@
+import { useEffect, useMemo, useState, type MouseEvent } from 'react'
+import { TrendingDown, TrendingUp } from 'lucide-react'
+import { useAppStore } from '../../store'
+import type { ElevationProfile } from '../../types'
+import { formatDistance } from '../../utils/directions'
+import { cumulativeDistances, pointAlong } from '../../utils/geo'
+import { decodePolyline } from '../../utils/polyline'
+
+const CURSOR_SOURCE = 'elevation-cursor'
+const CURSOR_LAYER = 'elevation-cursor-point'
+
+const WIDTH = 300
+const HEIGHT = 80
+
+const removeCursor = (map: any) => {
+  if (map.getLayer(CURSOR_LAYER)) map.removeLayer(CURSOR_LAYER)
+  if (map.getSource(CURSOR_SOURCE)) map.removeSource(CURSOR_SOURCE)
+}
+
+interface ElevationChartProps {
+  profile: ElevationProfile
+  // The route the profile was sampled along, to place the map cursor
+  geometry: string
+}
+
+// Height along the selected route. Hovering the chart shows the same spot on the map.
+const ElevationChart = ({ profile, geometry }: ElevationChartProps) => {
+  const map = useAppStore(state => state.map)
+  const [hovered, setHovered] = useState<number | null>(null)
+  const { samples } = profile
+
+  const line = useMemo(() => decodePolyline(geometry), [geometry])
+  const distances = useMemo(() => cumulativeDistances(line), [line])
+
+  const length = samples.length > 0 ? samples[samples.length - 1].along : 0
+  const elevations = samples.map(sample => sample.elevation)
+  const low = Math.min(...elevations)
+  // Keep flat routes looking flat rather than stretching a few metres to the full height
+  const span = Math.max(Math.max(...elevations) - low, 20)
+  const x = (along: number) => (length > 0 ? along / length : 0) * WIDTH
+  const y = (elevation: number) => HEIGHT - (elevation - low) / span * (HEIGHT - 4)
+  const outline = samples.map(sample => `${x(sample.along).toFixed(1)},${y(sample.elevation).toFixed(1)}`).join(' L')
+  const sample = hovered !== null ? samples[hovered] : null
+
+  // Show the hovered spot on the map
+  useEffect(() => {
+    if (!map || !sample || line.length === 0) return
+    const { point } = pointAlong(line, distances, sample.along)
+    const data = { type: 'Feature', properties: {}, geometry: { type: 'Point', coordinates: [point.lng, point.lat] } }
+
+    const source = map.getSource(CURSOR_SOURCE)
+    if (source) {
+      source.setData(data)
+    } else {
+      map.addSource(CURSOR_SOURCE, { type: 'geojson', data })
+      map.addLayer({
+        id: CURSOR_LAYER,
+        type: 'circle',
+        source: CURSOR_SOURCE,
+        paint: { 'circle-radius': 6, 'circle-color': '#FFFFFF', 'circle-stroke-width': 3, 'circle-stroke-color': '#111827' }
+      })
+    }
+  }, [map, sample, line, distances])
+
+  // Take the cursor off the map when the pointer leaves the chart or the chart goes away
+  useEffect(() => {
+    if (map && hovered === null) removeCursor(map)
+  }, [map, hovered])
+
+  useEffect(() => () => {
+    if (map) removeCursor(map)
+  }, [map])
+
+  if (samples.length < 2) return null
+
+  const onPointerMove = (event: MouseEvent<SVGSVGElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect()
+    const along = bounds.width > 0 ? (event.clientX - bounds.left) / bounds.width * length : 0
+    // The nearest sample to the pointer
+    let nearest = 0
+    samples.forEach((s, i) => {
+      if (Math.abs(s.along - along) < Math.abs(samples[nearest].along - along)) nearest = i
+    })
+    setHovered(nearest)
+  }
+
+  return (
+    <div className="px-4 pb-3">
+      <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+        <span className="flex items-center">
+          <TrendingUp className="w-3 h-3 mr-1" />
+          {profile.ascent} m
+          <TrendingDown className="w-3 h-3 ml-2 mr-1" />
+          {profile.descent} m
+        </span>
+        <span>Steepest {Math.abs(profile.steepestGrade)}% {profile.steepestGrade < 0 ? 'downhill' : 'uphill'}</span>
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-20 cursor-crosshair"
+        onMouseMove={onPointerMove}
+        onMouseLeave={() => setHovered(null)}
+        role="img"
+        aria-label="Elevation profile"
+      >
+        <path d={`M${outline} L${WIDTH},${HEIGHT} L0,${HEIGHT} Z`} fill="#D1FAE5" stroke="#059669" strokeWidth={1.5} />
+        {sample && (
+          <line x1={x(sample.along)} x2={x(sample.along)} y1={0} y2={HEIGHT} stroke="#111827" strokeWidth={1} />
+        )}
+      </svg>
+      <div className="h-4 text-xs text-gray-500">
+        {sample && `${formatDistance(sample.along)} · ${Math.round(sample.elevation)} m`}
+      </div>
+    </div>
+  )
+}
+
+export default ElevationChart
@@ -0,0 +1,559 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { act, cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react'
+import NavigationPanel from './NavigationPanel'
+import { fetchElevationProfile, fetchTripHistory, olaApi, planScooterRoutes } from '../../services'
+import { useAppStore } from '../../store'
+import { parseDirections } from '../../services/olaParsers'
+import { decodePolyline } from '../../utils/polyline'
+import { formatDuration, toRouteInfo } from '../../utils/directions'
+import { lineBounds } from '../../utils/camera'
+import { formatTripTime } from '../../utils/departurePlanning'
+import { climbAwareSeconds } from '../../utils/elevationProfile'
+import directionsFixture from '../../services/mock/fixtures/directions.json'
+
+vi.mock('../../services', () => ({
+  olaApi: { getDirections: vi.fn(), reverseGeocode: vi.fn() },
+  fetchTripHistory: vi.fn(),
+  fetchElevationProfile: vi.fn(),
+  supabase: {},
+  planScooterRoutes: vi.fn(),
+  isAbortError: (error: unknown) => error instanceof DOMException && error.name === 'AbortError'
+}))
+
+vi.mock('olamaps-web-sdk', () => ({
+  OlaMaps: class {
+    addMarker() {
+      const marker = { setLngLat: () => marker, addTo: () => marker, remove: vi.fn() }
+      return marker
+    }
+  }
+}))
+
+// Stand-in search boxes: the origin box is the one with the locate button, the stop box has a placeholder
+vi.mock('../Search/SearchBar', () => ({
+  default: ({ onLocationSelect, showLocateButton, placeholder }: {
+    onLocationSelect: (location: { lat: number; lng: number; address: string; name: string }) => void
+    showLocateButton?: boolean
+    placeholder?: string
+  }) => showLocateButton
+    ? <button onClick={() => onLocationSelect({ lat: 28.6315, lng: 77.2167, address: 'Connaught Place, New Delhi', name: 'Connaught Place' })}>Pick origin</button>
+    : placeholder
+      ? <button onClick={() => onLocationSelect({ lat: 28.62, lng: 77.22, address: 'Janpath, New Delhi', name: 'Janpath' })}>Pick stop</button>
+      : <button onClick={() => onLocationSelect({ lat: 28.6129, lng: 77.2295, address: 'Kartavya Path, New Delhi', name: 'India Gate' })}>Pick destination</button>
+}))
+
+const api = vi.mocked(olaApi)
+const directions = parseDirections(directionsFixture)
+
+// The first route split at a stop on Janpath
+const [firstRoute] = directions.routes
+const viaJanpath = {
+  routes: [{
+    ...firstRoute,
+    legs: [
+      { ...firstRoute.legs[0], distance: 1200, duration: 180, readable_distance: '1.2 km', readable_duration: '3 min' },
+      { ...firstRoute.legs[0], distance: 2300, duration: 420, readable_distance: '2.3 km', readable_duration: '7 min' }
+    ]
+  }]
+}
+
+const createMap = () => ({
+  source: { setData: vi.fn() },
+  isStyleLoaded: () => true,
+  on: vi.fn(),
+  off: vi.fn(),
+  once: vi.fn(),
+  getCanvas: () => ({ style: {} }),
+  addSource: vi.fn(),
+  addLayer: vi.fn(),
+  getLayer: vi.fn(() => true),
+  getSource: vi.fn(function (this: { source: unknown }) { return this.source }),
+  removeLayer: vi.fn(),
+  removeSource: vi.fn(),
+  setPaintProperty: vi.fn(),
+  moveLayer: vi.fn(),
+  queryRenderedFeatures: vi.fn(() => []),
+  fitBounds: vi.fn(),
+  jumpTo: vi.fn()
+})
+
+const initialState = useAppStore.getState()
+
+const renderPanel = (map: ReturnType<typeof createMap> = createMap()) => {
+  useAppStore.setState({ map, showNavigation: true })
+  return render(<NavigationPanel />)
+}
+
+const place = (name: string, lat: number, lng: number) => ({ name, address: `${name}, New Delhi`, lat, lng })
+
+// The handler registered for a map event, optionally on a layer
+const handlerFor = (map: ReturnType<typeof createMap>, event: string, method: 'on' | 'once' = 'on') =>
+  map[method].mock.calls.find(call => call[0] === event)?.slice(-1)[0] as (e: unknown) => void
+
+const pickOriginAndDestination = () => {
+  fireEvent.click(screen.getByText('Pick origin'))
+  fireEvent.click(screen.getByText('Pick destination'))
+}
+
+describe('NavigationPanel', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    api.getDirections.mockResolvedValue(directions)
+    // Profiles stay pending unless a test provides one
+    vi.mocked(fetchElevationProfile).mockReturnValue(new Promise(() => {}))
+    useAppStore.setState(initialState, true)
+  })
+
+  afterEach(() => {
+    cleanup()
+    vi.restoreAllMocks()
+  })
+
+  it('lists routes when there is no map, as in mock mode without a tiles key', async () => {
+    useAppStore.setState({ map: null, showNavigation: true })
+    render(<NavigationPanel />)
+
+    pickOriginAndDestination()
+
+    expect(await screen.findByText('Via Janpath, Kartavya Path')).toBeTruthy()
+    expect(useAppStore.getState().routes).toHaveLength(directions.routes.length)
+  })
+
+  it('asks for both ends before routing', () => {
+    renderPanel()
+
+    fireEvent.click(screen.getByText('Pick origin'))
+
+    expect(screen.getByText('Enter both origin and destination to get directions')).toBeTruthy()
+    expect(api.getDirections).not.toHaveBeenCalled()
+  })
+
+  it('lists alternative routes with their summaries and totals', async () => {
+    renderPanel()
+
+    pickOriginAndDestination()
+
+    expect(await screen.findByText('Via Janpath, Kartavya Path')).toBeTruthy()
+    expect(screen.getByText('Via Kasturba Gandhi Marg')).toBeTruthy()
+    expect(screen.getByText('2.9 km')).toBeTruthy()
+    expect(api.getDirections).toHaveBeenCalledWith(
+      { lat: 28.6315, lng: 77.2167 },
+      { lat: 28.6129, lng: 77.2295 },
+      'driving',
+      undefined,
+      expect.objectContaining({ priority: 'high' })
+    )
+  })
+
+  it('shows turn-by-turn steps for the selected route', async () => {
+    renderPanel()
+
+    pickOriginAndDestination()
+    await screen.findByText('Head south on Janpath')
+    fireEvent.click(screen.getByText('Via Kasturba Gandhi Marg'))
+
+    expect(await screen.findByText('Turn right onto Kasturba Gandhi Marg')).toBeTruthy()
+    expect(screen.queryByText('Head south on Janpath')).toBeNull()
+  })
+
+  it('draws the decoded route line on the map', async () => {
+    const map = createMap()
+    renderPanel(map)
+
+    pickOriginAndDestination()
+
+    await waitFor(() => expect(map.addSource).toHaveBeenCalled())
+    const [id, source] = map.addSource.mock.calls[0] as unknown as [string, { data: { features: { geometry: { coordinates: number[][] } }[] } }]
+    const line = decodePolyline(directions.routes[0].overview_polyline)
+    // Traffic runs share their end points
+    const drawn = source.data.features.flatMap((feature, i) => feature.geometry.coordinates.slice(i === 0 ? 0 : 1))
+    expect(id).toBe('route-0')
+    expect(drawn).toEqual(line)
+    expect(map.fitBounds).toHaveBeenCalledWith(lineBounds(line), expect.objectContaining({ bearing: 0, pitch: 0 }))
+  })
+
+  it('draws the route once the map loads, and drops the wait when the panel closes', async () => {
+    const map = { ...createMap(), isStyleLoaded: () => false }
+    const { unmount } = renderPanel(map)
+
+    pickOriginAndDestination()
+
+    await waitFor(() => expect(map.once).toHaveBeenCalledWith('load', expect.any(Function)))
+    expect(map.on).not.toHaveBeenCalledWith('load', expect.anything())
+    const draw = handlerFor(map, 'load', 'once')
+
+    unmount()
+    expect(map.off).toHaveBeenCalledWith('load', draw)
+  })
+
+  it('draws every alternative and selects one clicked on the map', async () => {
+    const map = createMap()
+    renderPanel(map)
+
+    pickOriginAndDestination()
+    await screen.findByText('Head south on Janpath')
+    expect(map.addSource.mock.calls.map(([id]) => id)).toEqual(['route-0', 'route-1'])
+    expect(map.addLayer.mock.calls.map(([layer]) => (layer as { id: string }).id).slice(-2)).toEqual(['route-0-casing', 'route-0-line'])
+
+    const onClick = map.on.mock.calls.find(call => call[0] === 'click' && call[1] === 'route-1-line')?.slice(-1)[0] as (e: unknown) => void
+    act(() => onClick({ point: { x: 10, y: 10 } }))
+
+    expect(useAppStore.getState().selectedRoute).toBe(1)
+    expect(await screen.findByText('Turn right onto Kasturba Gandhi Marg')).toBeTruthy()
+    expect(map.addSource).toHaveBeenCalledTimes(2)
+    expect(map.setPaintProperty).toHaveBeenCalledWith('route-0-line', 'line-color', '#9CA3AF')
+    expect(map.moveLayer.mock.calls.slice(-2).map(([id]) => id)).toEqual(['route-1-casing', 'route-1-line'])
+  })
+
+  it('leaves a click where an alternative runs under the selected route to the selected one', async () => {
+    const map = createMap()
+    map.queryRenderedFeatures.mockReturnValue([{} as never])
+    renderPanel(map)
+
+    pickOriginAndDestination()
+    await screen.findByText('Head south on Janpath')
+    const onClick = map.on.mock.calls.find(call => call[0] === 'click' && call[1] === 'route-1-line')?.slice(-1)[0] as (e: unknown) => void
+    onClick({ point: { x: 10, y: 10 } })
+
+    expect(useAppStore.getState().selectedRoute).toBe(0)
+  })
+
+  it('removes the layers of alternatives a recalculation drops', async () => {
+    const map = createMap()
+    renderPanel(map)
+
+    pickOriginAndDestination()
+    await screen.findByText('Via Kasturba Gandhi Marg')
+    api.getDirections.mockResolvedValue({ routes: [firstRoute] })
+    fireEvent.click(screen.getByText('Walking'))
+
+    await waitFor(() => expect(map.removeSource).toHaveBeenCalledWith('route-1'))
+    expect(map.removeLayer.mock.calls.map(([id]) => id)).toEqual(['route-1-casing', 'route-1-line'])
+    expect(map.removeSource).toHaveBeenCalledTimes(1)
+  })
+
+  it('flies along the selected route as a preview, then shows all of it', async () => {
+    const frames: FrameRequestCallback[] = []
+    vi.spyOn(window, 'requestAnimationFrame').mockImplementation(callback => frames.push(callback))
+    const map = createMap()
+    renderPanel(map)
+
+    pickOriginAndDestination()
+    fireEvent.click(await screen.findByText('Preview'))
+    map.fitBounds.mockClear()
+
+    act(() => frames.shift()?.(0))
+    expect(map.jumpTo).toHaveBeenCalledWith(expect.objectContaining({ pitch: 60 }))
+    expect(screen.getByText('Stop preview')).toBeTruthy()
+
+    act(() => frames.shift()?.(60000))
+    expect(map.fitBounds).toHaveBeenCalledTimes(1)
+    expect(screen.getByText('Preview')).toBeTruthy()
+  })
+
+  it('requests cycling directions and marks them as zero emission', async () => {
+    renderPanel()
+
+    pickOriginAndDestination()
+    await screen.findByText('Via Janpath, Kartavya Path')
+    fireEvent.click(screen.getByText('Cycling'))
+
+    await waitFor(() => expect(api.getDirections).toHaveBeenLastCalledWith(
+      expect.anything(), expect.anything(), 'cycling', undefined, expect.anything()
+    ))
+    expect((await screen.findAllByText('Zero emissions')).length).toBe(2)
+  })
+
+  it('profiles the selected route and allows for the climb when walking', async () => {
+    const profile = { samples: [{ along: 0, elevation: 200 }, { along: 1000, elevation: 250 }], ascent: 50, descent: 0, steepestGrade: 5 }
+    vi.mocked(fetchElevationProfile).mockResolvedValue(profile)
+    const map = createMap()
+    renderPanel(map)
+
+    fireEvent.click(screen.getByText('Walking'))
+    pickOriginAndDestination()
+
+    const chart = await screen.findByLabelText('Elevation profile')
+    expect(screen.getByText('Steepest 5% uphill')).toBeTruthy()
+    expect(fetchElevationProfile).toHaveBeenCalledWith(olaApi, directions.routes[0].overview_polyline, expect.anything())
+    const [route] = useAppStore.getState().routes
+    const flatSeconds = route.legs.reduce((total, leg) => total + leg.durationSeconds, 0)
+    expect(screen.getAllByText(formatDuration(climbAwareSeconds(flatSeconds, profile, 'walking'))).length).toBeGreaterThan(0)
+
+    fireEvent.mouseMove(chart, { clientX: 0 })
+    expect(map.source.setData).toHaveBeenLastCalledWith(expect.objectContaining({ geometry: expect.objectContaining({ type: 'Point' }) }))
+  })
+
+  it('cancels the previous directions request when the mode changes', async () => {
+    api.getDirections.mockReturnValueOnce(new Promise(() => {}))
+    renderPanel()
+
+    pickOriginAndDestination()
+    await waitFor(() => expect(api.getDirections).toHaveBeenCalledTimes(1))
+    const firstSignal = api.getDirections.mock.calls[0][4]?.signal
+    fireEvent.click(screen.getByText('Walking'))
+
+    await screen.findByText('Via Janpath, Kartavya Path')
+    expect(firstSignal?.aborted).toBe(true)
+  })
+
+  it('keeps the computed routes when the panel is closed and reopened', async () => {
+    const { unmount } = renderPanel()
+    pickOriginAndDestination()
+    await screen.findByText('Via Kasturba Gandhi Marg')
+    fireEvent.click(screen.getByText('Via Kasturba Gandhi Marg'))
+
+    fireEvent.click(screen.getByTitle('Close directions'))
+    expect(useAppStore.getState().showNavigation).toBe(false)
+    unmount()
+    renderPanel()
+
+    expect(await screen.findByText('Turn right onto Kasturba Gandhi Marg')).toBeTruthy()
+    expect(api.getDirections).toHaveBeenCalledTimes(1)
+  })
+
+  it('adds stops between the ends and routes through them', async () => {
+    renderPanel()
+    pickOriginAndDestination()
+    await screen.findByText('Via Janpath, Kartavya Path')
+
+    fireEvent.click(screen.getByText('Add stop'))
+    fireEvent.click(screen.getByText('Pick stop'))
+
+    expect(screen.getByText('Janpath')).toBeTruthy()
+    expect(screen.getByText('Add stop')).toBeTruthy()
+    await waitFor(() => expect(api.getDirections).toHaveBeenLastCalledWith(
+      expect.anything(), expect.anything(), 'driving', [expect.objectContaining({ name: 'Janpath' })], expect.anything()
+    ))
+  })
+
+  it('reorders and removes stops', () => {
+    useAppStore.setState({ waypoints: [place('Janpath', 28.62, 77.22), place('Rajpath', 28.614, 77.225)] })
+    renderPanel()
+
+    fireEvent.click(screen.getAllByTitle('Move stop down')[0])
+    expect(useAppStore.getState().waypoints.map(w => w.name)).toEqual(['Rajpath', 'Janpath'])
+    expect((screen.getAllByTitle('Move stop up')[0] as HTMLButtonElement).disabled).toBe(true)
+
+    fireEvent.click(screen.getAllByTitle('Remove stop')[1])
+    expect(useAppStore.getState().waypoints.map(w => w.name)).toEqual(['Rajpath'])
+    expect(screen.queryByText('Janpath')).toBeNull()
+  })
+
+  it('sums the totals across legs and shows each leg under its stop', async () => {
+    api.getDirections.mockResolvedValue(viaJanpath)
+    useAppStore.setState({ waypoints: [place('Janpath', 28.62, 77.22)] })
+    renderPanel()
+
+    pickOriginAndDestination()
+
+    expect(await screen.findByText('3.5 km')).toBeTruthy()
+    expect(screen.getByText('10 min')).toBeTruthy()
+    expect(screen.getByText('1.2 km • 3 min')).toBeTruthy()
+    expect(screen.getByText('2.3 km • 7 min')).toBeTruthy()
+  })
+
+  it('inserts a via-point where the route line is dragged to', async () => {
+    api.reverseGeocode.mockResolvedValue([{ place_id: 'p', name: 'Mandi House', address: 'Mandi House, New Delhi', location: { lat: 28.625, lng: 77.234 }, types: ['locality'] }])
+    const map = createMap()
+    renderPanel(map)
+    pickOriginAndDestination()
+    await waitFor(() => expect(map.addLayer).toHaveBeenCalled())
+
+    const [start] = decodePolyline(directions.routes[0].overview_polyline)
+    handlerFor(map, 'mousedown')({
+      type: 'mousedown',
+      lngLat: { lng: start[0], lat: start[1] },
+      point: { x: 100, y: 100 },
+      preventDefault: vi.fn()
+    })
+    handlerFor(map, 'mouseup', 'once')({ lngLat: { lng: 77.234, lat: 28.625 }, point: { x: 160, y: 140 } })
+
+    await waitFor(() => expect(useAppStore.getState().waypoints).toEqual([
+      { name: 'Mandi House', address: 'Mandi House, New Delhi', lat: 28.625, lng: 77.234 }
+    ]))
+    expect(api.reverseGeocode).toHaveBeenCalledWith(28.625, 77.234, { priority: 'low' })
+  })
+
+  it('ignores a click on the route line', async () => {
+    const map = createMap()
+    renderPanel(map)
+    pickOriginAndDestination()
+    await waitFor(() => expect(map.addLayer).toHaveBeenCalled())
+
+    handlerFor(map, 'mousedown')({ type: 'mousedown', lngLat: { lng: 77.22, lat: 28.62 }, point: { x: 100, y: 100 }, preventDefault: vi.fn() })
+    handlerFor(map, 'mouseup', 'once')({ lngLat: { lng: 77.22, lat: 28.62 }, point: { x: 101, y: 100 } })
+
+    expect(api.reverseGeocode).not.toHaveBeenCalled()
+    expect(useAppStore.getState().waypoints).toEqual([])
+  })
+
+  it('guides the driver along the selected route once navigation starts', async () => {
+    renderPanel()
+
+    pickOriginAndDestination()
+    fireEvent.click(await screen.findByText('Start navigation'))
+    expect(screen.getByText('Waiting for your location...')).toBeTruthy()
+
+    act(() => useAppStore.setState({
+      navigationProgress: {
+        position: { lat: 28.62, lng: 77.2197 },
+        segmentIndex: 1,
+        along: 1500,
+        stepIndex: 1,
+        distanceToManeuver: 300,
+        distanceRemaining: 1400,
+        distanceFromRoute: 3,
+        offRoute: false,
+        arrived: false
+      }
+    }))
+
+    expect(screen.getByText('300 m')).toBeTruthy()
+    expect(screen.getByText('1.4 km remaining')).toBeTruthy()
+    expect(screen.getAllByText('Turn left onto Kartavya Path')).toHaveLength(2)
+    expect(screen.getByText('Turn left onto Rajpath').closest('[aria-current="step"]')).toBeTruthy()
+    expect(screen.queryByText('Start navigation')).toBeNull()
+
+    fireEvent.click(screen.getByText('End'))
+    expect(useAppStore.getState().isNavigating).toBe(false)
+    expect(screen.getByText('Start navigation')).toBeTruthy()
+  })
+
+  it('mutes voice guidance and switches its language from the guidance card', async () => {
+    renderPanel()
+
+    pickOriginAndDestination()
+    fireEvent.click(await screen.findByText('Start navigation'))
+    fireEvent.click(screen.getByTitle('Mute voice guidance'))
+    fireEvent.click(screen.getByText('EN'))
+
+    expect(useAppStore.getState().preferences).toMatchObject({ navigation_voice: false, voice_language: 'hi' })
+    expect(screen.getByTitle('Unmute voice guidance')).toBeTruthy()
+    expect(screen.getByText('हि')).toBeTruthy()
+  })
+
+  it('redraws the route fetched by a reroute without requesting it again', async () => {
+    const map = createMap()
+    renderPanel(map)
+
+    pickOriginAndDestination()
+    await screen.findByText('Start navigation')
+    const here = place('Current location', 28.625, 77.218)
+    act(() => useAppStore.getState().applyReroute(here, [], [toRouteInfo(directions.routes[1], 0)]))
+
+    expect(await screen.findByText('Via Kasturba Gandhi Marg')).toBeTruthy()
+    expect(api.getDirections).toHaveBeenCalledTimes(1)
+  })
+
+  it('asks for routes that avoid tolls and lists routes through avoid areas last', async () => {
+    // A small square on the first route, away from the second
+    const [lng, lat] = decodePolyline(directions.routes[0].overview_polyline)[2]
+    const square = [[lng - 0.0005, lat - 0.0005], [lng + 0.0005, lat - 0.0005], [lng + 0.0005, lat + 0.0005], [lng - 0.0005, lat + 0.0005]]
+    useAppStore.getState().setPreferences({ avoid_areas: [{ id: 'a', name: 'Market street', polygon: square }] })
+    renderPanel()
+
+    fireEvent.click(screen.getByText('Tolls'))
+    pickOriginAndDestination()
+
+    expect(await screen.findByText('Passes through Market street')).toBeTruthy()
+    expect(useAppStore.getState().routes.map(route => route.summary)).toEqual(['Via Kasturba Gandhi Marg', 'Via Janpath, Kartavya Path'])
+    expect(api.getDirections).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      'driving',
+      undefined,
+      expect.objectContaining({ avoid: ['tolls'] })
+    )
+
+    fireEvent.click(screen.getByTitle('Remove Market street'))
+    expect(screen.queryByText('Passes through Market street')).toBeNull()
+    expect(useAppStore.getState().routes[0].summary).toBe('Via Janpath, Kartavya Path')
+  })
+
+  it('re-ranks e-scooter routes for the rider\'s settings and warns about the range', async () => {
+    vi.mocked(planScooterRoutes).mockImplementation(async (_api, routes) => [{
+      ...routes[1],
+      duration: '41 min',
+      scooter: { durationSeconds: 2460, carDurationSeconds: 1500, batteryPercent: 120, fastRoadMetres: 0, score: 2500 }
+    }])
+    renderPanel()
+
+    fireEvent.click(screen.getByText('E-Scooter'))
+    pickOriginAndDestination()
+
+    expect(await screen.findByText('Beyond your 80 km range')).toBeTruthy()
+    expect(screen.getByText('120% of charge')).toBeTruthy()
+    expect(useAppStore.getState().routes.map(route => route.summary)).toEqual(['Via Kasturba Gandhi Marg'])
+    expect(planScooterRoutes).toHaveBeenCalledWith(
+      olaApi,
+      directions.routes.map(toRouteInfo),
+      { scooter_top_speed_kmh: 45, scooter_max_road_speed_kmh: 60, scooter_range_km: 80 },
+      expect.objectContaining({ priority: 'high' })
+    )
+
+    const range = screen.getByLabelText('Range')
+    fireEvent.change(range, { target: { value: '150' } })
+    fireEvent.blur(range)
+
+    await waitFor(() => expect(planScooterRoutes).toHaveBeenLastCalledWith(
+      olaApi,
+      expect.anything(),
+      expect.objectContaining({ scooter_range_km: 150 }),
+      expect.anything()
+    ))
+    expect(useAppStore.getState().preferences.scooter_range_km).toBe(150)
+  })
+
+  it('recommends when to leave to arrive on time', async () => {
+    const arriveBy = new Date(2030, 0, 7, 9, 0).getTime()
+    const firstRouteSeconds = directions.routes[0].legs.reduce((total, leg) => total + leg.duration, 0)
+    // Past trips on this journey took half as long again as Ola estimated
+    vi.mocked(fetchTripHistory).mockResolvedValue([1, 2, 3].map(day => ({
+      start: { lat: 28.6315, lng: 77.2167 },
+      end: { lat: 28.6129, lng: 77.2295 },
+      estimatedDuration: 600,
+      actualDuration: 900,
+      startTime: arriveBy - day * 24 * 3600 * 1000
+    })))
+    renderPanel()
+
+    fireEvent.change(screen.getByLabelText('When'), { target: { value: 'arrive_by' } })
+    fireEvent.change(screen.getByLabelText('Arrival time'), { target: { value: '2030-01-07T09:00' } })
+    pickOriginAndDestination()
+
+    const departAt = arriveBy - firstRouteSeconds * 1.5 * 1000
+    expect(await screen.findByText(`Leave at ${formatTripTime(departAt)}`)).toBeTruthy()
+    expect(screen.getByText(/From 3 of your past trips/)).toBeTruthy()
+    expect(api.getDirections).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      'driving',
+      undefined,
+      expect.objectContaining({ arrivalTime: arriveBy })
+    )
+  })
+
+  it('plans without history when it cannot be loaded', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.mocked(fetchTripHistory).mockRejectedValue(new Error('offline'))
+    renderPanel()
+
+    pickOriginAndDestination()
+    await screen.findByText('Start navigation')
+    fireEvent.change(screen.getByLabelText('When'), { target: { value: 'depart_at' } })
+
+    expect(await screen.findByText(/no past trips to learn from yet. Trips you navigate while signed in are used here/)).toBeTruthy()
+    expect(screen.getByText(/^Arrive around/)).toBeTruthy()
+    expect(api.getDirections).toHaveBeenCalledTimes(1)
+  })
+
+  it('reports when no routes are found', async () => {
+    api.getDirections.mockResolvedValue({ routes: [] })
+    renderPanel()
+
+    pickOriginAndDestination()
+
+    expect(await screen.findByText('No routes found')).toBeTruthy()
+  })
+})
@@ -1,227 +1,97 @@
-import { useState, useEffect } from 'react'
-import { X, Navigation, Clock, Car, Bike, User, Zap, Leaf } from 'lucide-react'
-import { olaApi } from '../../services'
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { X, Navigation, Clock, Car, Bike, User, Zap, Leaf, ChevronUp, ChevronDown, Plus, Volume2, VolumeX, Film, Compass, Crosshair, BatteryMedium } from 'lucide-react'
+import { olaApi, isAbortError, fetchElevationProfile, fetchTripHistory, planScooterRoutes, supabase } from '../../services'
 import SearchBar from '../Search/SearchBar'
+import AvoidanceOptions from './AvoidanceOptions'
+import ElevationChart from './ElevationChart'
+import ScooterOptions from './ScooterOptions'
+import SpeedLimitBadge from './SpeedLimitBadge'
 import { OlaMaps } from 'olamaps-web-sdk'
-
-interface NavigationPanelProps {
-  map: any
-  onClose: () => void
-  currentLocation?: { lat: number; lng: number } | null
-}
-
-interface RouteInfo {
-  distance: string
-  duration: string
-  steps: any[]
-  geometry: any
-  summary: string
-  routeIndex: number
-  travelAdvisory?: string
-}
-
-// Polyline decoding function
-const decodePolyline = (encoded: string): number[][] => {
-  const coordinates: number[][] = []
-  let index = 0
-  let lat = 0
-  let lng = 0
-
-  while (index < encoded.length) {
-    let b: number
-    let shift = 0
-    let result = 0
-
-    // Decode latitude
-    do {
-      b = encoded.charCodeAt(index++) - 63
-      result |= (b & 0x1f) << shift
-      shift += 5
-    } while (b >= 0x20)
-
-    const deltaLat = (result & 1) !== 0 ? ~(result >> 1) : result >> 1
-    lat += deltaLat
-
-    shift = 0
-    result = 0
-
-    // Decode longitude
-    do {
-      b = encoded.charCodeAt(index++) - 63
-      result |= (b & 0x1f) << shift
-      shift += 5
-    } while (b >= 0x20)
-
-    const deltaLng = (result & 1) !== 0 ? ~(result >> 1) : result >> 1
-    lng += deltaLng
-
-    coordinates.push([lng / 1e5, lat / 1e5])
-  }
-
-  return coordinates
-}
-
-// Helper function to extract meaningful step instructions
-const getStepInstruction = (step: any): string => {
-  // Use the instructions field from Ola Maps API response
-  if (step.instructions) {
-    return step.instructions
-  }
-
-  // Fallback to other possible fields
-  const instruction = step.instruction || 
-                     step.html_instructions || 
-                     step.maneuver?.instruction ||
-                     step.narrative ||
-                     step.text
-
-  if (instruction) {
-    // Clean HTML tags if present
-    return instruction.replace(/<[^>]*>/g, '')
-  }
-
-  // Fallback based on maneuver type
-  if (step.maneuver) {
-    return formatManeuverInstruction(step.maneuver, step.maneuver.modifier)
-  }
-
-  // Last resort fallback
-  return 'Continue on route'
-}
-
-// Convert maneuver types to readable instructions
-const formatManeuverInstruction = (type: string, modifier?: string, instruction?: string): string => {
-  if (instruction && instruction !== type) return instruction
-
-  const maneuverMap: { [key: string]: string } = {
-    'turn': modifier ? `Turn ${modifier}` : 'Turn',
-    'depart': 'Start your route',
-    'arrive': 'You have arrived',
-    'merge': 'Merge',
-    'on-ramp': 'Take the ramp',
-    'off-ramp': 'Exit the ramp',
-    'fork': 'Take the fork',
-    'end-of-road': 'Continue at end of road',
-    'continue': 'Continue straight',
-    'roundabout': 'Enter roundabout',
-    'rotary': 'Enter rotary',
-    'roundabout-turn': 'Exit roundabout',
-    'notification': 'Continue',
-    'new-name': 'Continue on new road',
-    'suppress': 'Continue'
-  }
-
-  const baseInstruction = maneuverMap[type] || `Continue ${type}`
-  
-  if (modifier) {
-    const modifierMap: { [key: string]: string } = {
-      'left': 'left',
-      'right': 'right',
-      'sharp-left': 'sharp left',
-      'sharp-right': 'sharp right',
-      'slight-left': 'slight left',
-      'slight-right': 'slight right',
-      'straight': 'straight',
-      'uturn': 'to make a U-turn'
-    }
-    
-    const modifierText = modifierMap[modifier] || modifier
-    
-    if (type === 'turn') {
-      return `Turn ${modifierText}`
-    } else if (baseInstruction.includes('Continue')) {
-      return baseInstruction
-    } else {
-      return `${baseInstruction} ${modifierText}`
-    }
-  }
-
-  return baseInstruction
-}
-
-// Extract route summary from steps for "Via [road]" display
-const extractRouteSummary = (route: any): string => {
-  if (route.summary && route.summary.trim()) {
-    return route.summary
-  }
-
-  // Extract main roads from steps
-  const steps = route.legs?.[0]?.steps || []
-  const roads = steps
-    .map((step: any) => step.instructions)
-    .filter((instruction: string) => instruction && instruction.includes(' on '))
-    .map((instruction: string) => {
-      const match = instruction.match(/on (.+?)(?:\s|$|,)/)
-      return match ? match[1] : null
-    })
-    .filter((road: string | null) => road && road.length > 2)
-    .slice(0, 2) // Take first 2 main roads
-
-  if (roads.length > 0) {
-    return `Via ${roads.join(', ')}`
-  }
-
-  return `Route ${route.routeIndex || 1}`
-}
-
-// Parse travel advisory for traffic information
-const parseTrafficInfo = (travelAdvisory?: string): { hasTraffic: boolean; severity: 'low' | 'medium' | 'high' } => {
-  if (!travelAdvisory) return { hasTraffic: false, severity: 'low' }
-
-  try {
-    // travel_advisory format: "0,1,0 | 1,3,15" (example)
-    // This appears to be segments with traffic levels
-    const segments = travelAdvisory.split(' | ')
-    let maxTrafficLevel = 0
-
-    segments.forEach(segment => {
-      const values = segment.split(',').map(Number)
-      if (values.length >= 3) {
-        const trafficLevel = values[2] // Assuming third value is traffic level
-        maxTrafficLevel = Math.max(maxTrafficLevel, trafficLevel)
-      }
-    })
-
-    const hasTraffic = maxTrafficLevel > 0
-    let severity: 'low' | 'medium' | 'high' = 'low'
-    
-    if (maxTrafficLevel > 10) severity = 'high'
-    else if (maxTrafficLevel > 5) severity = 'medium'
-
-    return { hasTraffic, severity }
-  } catch (error) {
-    return { hasTraffic: false, severity: 'low' }
-  }
-}
-
-// Calculate carbon footprint based on distance and transport mode
-const calculateCarbonFootprint = (distance: string, carbonFactor: number): { co2: number; trees: number; savings: number } => {
-  // Extract numeric value from distance string (e.g., "5.2 km" -> 5.2)
-  const distanceNum = parseFloat(distance.replace(/[^\d.]/g, '')) || 0
-  
-  // Calculate CO2 emissions in kg
-  const co2 = distanceNum * carbonFactor
-  
-  // Trees needed to offset CO2 (1 tree absorbs ~21.8 kg CO2/year)
-  const trees = co2 / 21.8
-  
-  // Calculate savings compared to driving (0.21 kg CO2/km)
-  const drivingEmissions = distanceNum * 0.21
-  const savings = Math.max(0, drivingEmissions - co2)
-  
-  return { co2, trees, savings }
-}
-
-
-const NavigationPanel = ({ map, onClose, currentLocation }: NavigationPanelProps) => {
-  const [origin, setOrigin] = useState<{lat: number, lng: number, address: string, name: string} | null>(null)
-  const [destination, setDestination] = useState<{lat: number, lng: number, address: string, name: string} | null>(null)
-  const [routes, setRoutes] = useState<RouteInfo[]>([])
-  const [selectedRoute, setSelectedRoute] = useState<number>(0)
-  const [travelMode, setTravelMode] = useState<'driving' | 'walking' | 'bicycling' | 'electric_scooter'>('driving')
+import { routeRequestKey, useAppStore } from '../../store'
+import type { ElevationProfile, RouteInfo, TravelMode, TripRecord, TripTiming } from '../../types'
+import { decodePolyline } from '../../utils/polyline'
+import { CameraController } from '../../utils/cameraController'
+import { rankByAvoidAreas } from '../../utils/avoidAreas'
+import { climbAwareSeconds, isClimbAware } from '../../utils/elevationProfile'
+import { FAST_ROAD_TOLERANCE_METRES } from '../../utils/scooterProfile'
+import { followsSpeedLimits } from '../../utils/speedLimits'
+import { formatTripTime, parseDateTimeInput, recommendDeparture, toDateTimeInput } from '../../utils/departurePlanning'
+import { applyRouteLayers, EMPTY_ROUTE_LAYERS, planRouteLayers, routeLineLayerId, type RouteLayerPlan } from '../../utils/routeLayers'
+import {
+  calculateCarbonFootprint,
+  directionsMode,
+  formatDistance,
+  formatDuration,
+  getStepInstruction,
+  parseTrafficInfo,
+  toRouteInfo,
+  viaPointInsertIndex
+} from '../../utils/directions'
+
+const QUARTER_HOUR = 15 * 60 * 1000
+// Choices for how far over the limit to drive before being warned, in km/h
+const SPEED_TOLERANCES = [0, 5, 10, 15, 20]
+
+// Directions request options for a planned trip
+const timingOptions = (timing: TripTiming) =>
+  timing.mode === 'depart_at' ? { departureTime: timing.time }
+    : timing.mode === 'arrive_by' ? { arrivalTime: timing.time }
+      : {}
+
+const NavigationPanel = () => {
+  const map = useAppStore(state => state.map)
+  const setShowNavigation = useAppStore(state => state.setShowNavigation)
+  const origin = useAppStore(state => state.origin)
+  const destination = useAppStore(state => state.destination)
+  const waypoints = useAppStore(state => state.waypoints)
+  const travelMode = useAppStore(state => state.travelMode)
+  const tripTiming = useAppStore(state => state.tripTiming)
+  const routeAvoid = useAppStore(state => state.preferences.route_avoid)
+  const avoidAreas = useAppStore(state => state.preferences.avoid_areas)
+  const scooterTopSpeed = useAppStore(state => state.preferences.scooter_top_speed_kmh)
+  const scooterMaxRoadSpeed = useAppStore(state => state.preferences.scooter_max_road_speed_kmh)
+  const scooterRange = useAppStore(state => state.preferences.scooter_range_km)
+  const routes = useAppStore(state => state.routes)
+  const selectedRoute = useAppStore(state => state.selectedRoute)
+  const isNavigating = useAppStore(state => state.isNavigating)
+  const navigationProgress = useAppStore(state => state.navigationProgress)
+  const isRerouting = useAppStore(state => state.isRerouting)
+  const voiceEnabled = useAppStore(state => state.preferences.navigation_voice)
+  const voiceLanguage = useAppStore(state => state.preferences.voice_language)
+  const speedTolerance = useAppStore(state => state.preferences.speed_alert_tolerance_kmh)
+  const isFollowing = useAppStore(state => state.isFollowing)
+  const followMode = useAppStore(state => state.followMode)
+  const {
+    setOrigin,
+    setDestination,
+    swapOriginDestination,
+    addWaypoint,
+    removeWaypoint,
+    moveWaypoint,
+    setTravelMode,
+    setTripTiming,
+    setRoutes,
+    selectRoute,
+    startNavigation,
+    stopNavigation,
+    setPreference,
+    setFollowMode
+  } = useAppStore.getState()
   const [isCalculating, setIsCalculating] = useState(false)
-  const [routeMarkers, setRouteMarkers] = useState<any[]>([])
-  const [routeLayer, setRouteLayer] = useState<string | null>(null)
+  const [isAddingStop, setIsAddingStop] = useState(false)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  // Past trips for planning ahead; loaded the first time a trip is planned for later
+  const [tripHistory, setTripHistory] = useState<TripRecord[] | null>(null)
+  // Elevation along each route, by geometry
+  const [elevationProfiles, setElevationProfiles] = useState<Record<string, ElevationProfile>>({})
+  const routeMarkersRef = useRef<any[]>([])
+  const routeLayersRef = useRef<RouteLayerPlan>(EMPTY_ROUTE_LAYERS)
+  const routeDragCleanupRef = useRef<(() => void) | null>(null)
+  const routeSelectCleanupRef = useRef<(() => void) | null>(null)
+  // A draw waiting for the map style to load, replaced by the next draw or dropped on unmount
+  const pendingRouteDrawRef = useRef<(() => void) | null>(null)
+  const routeAbortRef = useRef<AbortController>()
+  const camera = useMemo(() => (map ? new CameraController(map) : null), [map])
 
   const travelModes = [
     { 
@@ -237,7 +107,7 @@ const NavigationPanel = ({ map, onClose, currentLocation }: NavigationPanelProps
       id: 'electric_scooter', 
       icon: Zap, 
       label: 'E-Scooter',
-      carbonFactor: 0.05, // kg CO2 per km
+      carbonFactor: 0.02, // kg CO2 per km: about 30 Wh/km on India's grid
       color: 'bg-blue-500',
       bgColor: 'bg-blue-50',
       textColor: 'text-blue-700'
@@ -262,51 +132,113 @@ const NavigationPanel = ({ map, onClose, currentLocation }: NavigationPanelProps
     }
   ]
 
+  // The timing only changes the routes when Ola can plan for it; otherwise it is applied locally
+  const requestTiming = olaApi.supportsTimedDirections ? tripTiming : undefined
+  // Scooter routes are re-ranked for the rider's settings, so changing them fetches again
+  const requestScooter = useMemo(() => (
+    travelMode === 'electric_scooter'
+      ? { scooter_top_speed_kmh: scooterTopSpeed, scooter_max_road_speed_kmh: scooterMaxRoadSpeed, scooter_range_km: scooterRange }
+      : undefined
+  ), [travelMode, scooterTopSpeed, scooterMaxRoadSpeed, scooterRange])
+
   useEffect(() => {
-    if (origin && destination) {
-      calculateRoute()
+    if (!origin || !destination) return
+
+    // Reopening the panel shows the routes already computed for these inputs
+    const { routes, routesKey, selectedRoute } = useAppStore.getState()
+    if (routesKey === routeRequestKey({ origin, destination, waypoints, travelMode }, { timing: requestTiming, avoid: routeAvoid, scooter: requestScooter }) && routes[selectedRoute]) {
+      displayRoutesOnMap(routes, selectedRoute)
+      return
+    }
+
+    calculateRoute()
+  }, [origin, destination, waypoints, travelMode, requestTiming, routeAvoid, requestScooter, map])
+
+  // Drawing or removing an area re-ranks the routes already fetched; Ola doesn't know about areas
+  useEffect(() => {
+    const { routes, routesKey, isNavigating } = useAppStore.getState()
+    if (routes.length === 0 || !routesKey || isNavigating) return
+
+    const ranked = rankByAvoidAreas(routes, avoidAreas)
+    const changed = ranked.some((route, i) =>
+      route !== routes[i] && (route.geometry !== routes[i].geometry || route.avoidAreasCrossed?.join() !== routes[i].avoidAreasCrossed?.join())
+    )
+    if (!changed) return
+    setRoutes(ranked, routesKey)
+    displayRoutesOnMap(ranked, 0)
+  }, [avoidAreas])
+
+  useEffect(() => {
+    if (tripTiming.mode === 'now' || tripHistory) return
+
+    let cancelled = false
+    fetchTripHistory(supabase)
+      .then(history => {
+        if (!cancelled) setTripHistory(history)
+      })
+      .catch(error => {
+        console.warn('Trip history unavailable, estimating without it:', error)
+        if (!cancelled) setTripHistory([])
+      })
+    return () => {
+      cancelled = true
     }
-  }, [origin, destination, travelMode])
+  }, [tripTiming.mode, tripHistory])
+
+  // Profile every route once; the climbs adjust walking and cycling ETAs
+  useEffect(() => {
+    const missing = routes.filter(route => route.geometry && !elevationProfiles[route.geometry])
+    if (missing.length === 0) return
+
+    const controller = new AbortController()
+    missing.forEach(({ geometry }) => {
+      fetchElevationProfile(olaApi, geometry, { signal: controller.signal, priority: 'low' })
+        .then(profile => setElevationProfiles(profiles => ({ ...profiles, [geometry]: profile })))
+        .catch(error => {
+          if (!isAbortError(error)) console.warn('Elevation profile unavailable:', error)
+        })
+    })
+    return () => controller.abort()
+  }, [routes])
 
+  // The store keeps the routes; the map layers belong to this panel
+  useEffect(() => () => {
+    routeAbortRef.current?.abort()
+    clearRouteFromMap()
+  }, [map])
+
+  // Runs without a map instance too (e.g. mock mode without a tiles key); the routes are then only listed
   const calculateRoute = async () => {
-    if (!origin || !destination || !map) return
+    if (!origin || !destination) return
+    const requestKey = routeRequestKey({ origin, destination, waypoints, travelMode }, { timing: requestTiming, avoid: routeAvoid, scooter: requestScooter })
+
+    // Toggling travel mode quickly must not let an older route win the race
+    routeAbortRef.current?.abort()
+    const controller = new AbortController()
+    routeAbortRef.current = controller
 
     setIsCalculating(true)
     try {
-      // Map travel modes to Ola API parameters
-      const modeMapping: { [key: string]: string } = {
-        'driving': 'driving',
-        'walking': 'walking', 
-        'bicycling': 'cycling',
-        'electric_scooter': 'driving' // Use driving routes for e-scooter
-      }
-      
-      const selectedMode = modeMapping[travelMode] || 'driving'
+      const selectedMode = directionsMode(travelMode)
       console.log(`Calculating route for mode: ${selectedMode} (original: ${travelMode})`)
       
       const response = await olaApi.getDirections(
         { lat: origin.lat, lng: origin.lng },
         { lat: destination.lat, lng: destination.lng },
-        selectedMode
+        selectedMode,
+        waypoints.length > 0 ? waypoints : undefined,
+        { signal: controller.signal, priority: 'high', avoid: routeAvoid, ...timingOptions(tripTiming) }
       )
 
       console.log('Directions API response:', response)
-      
-      // Check if response has the expected structure
-      if (!response) {
-        throw new Error('No response from directions API')
-      }
 
-      if (response.routes && response.routes.length > 0) {
-        const transformedRoutes = response.routes.map((route: any, index: number) => ({
-          distance: route.legs?.[0]?.readable_distance || 'Unknown',
-          duration: route.legs?.[0]?.readable_duration || 'Unknown',
-          steps: route.legs?.[0]?.steps || [],
-          geometry: route.overview_polyline,
-          summary: extractRouteSummary(route),
-          routeIndex: index + 1,
-          travelAdvisory: route.travel_advisory
-        }))
+      if (response.routes.length > 0) {
+        const alternatives = response.routes.map(toRouteInfo)
+        const scooterRoutes = requestScooter
+          ? await planScooterRoutes(olaApi, alternatives, requestScooter, { signal: controller.signal, priority: 'high' })
+          : alternatives
+        // Routes through an avoid area go to the back of the list
+        const transformedRoutes = rankByAvoidAreas(scooterRoutes, useAppStore.getState().preferences.avoid_areas)
 
         console.log('Transformed routes:', transformedRoutes)
         console.log('Sample steps for debugging:', transformedRoutes[0]?.steps?.slice(0, 3))
@@ -315,33 +247,41 @@ const NavigationPanel = ({ map, onClose, currentLocation }: NavigationPanelProps
           travelAdvisory: r.travelAdvisory,
           hasAdvisory: !!r.travelAdvisory
         })))
-        setRoutes(transformedRoutes)
-        setSelectedRoute(0)
-        displayRouteOnMap(transformedRoutes[0])
+        setRoutes(transformedRoutes, requestKey)
+        displayRoutesOnMap(transformedRoutes, 0)
       } else {
         console.log('No routes found in response:', response)
+        setRoutes([], requestKey)
+        clearRouteFromMap()
       }
     } catch (error) {
+      if (isAbortError(error)) return
       console.error('Error calculating route:', error)
     } finally {
-      setIsCalculating(false)
+      if (routeAbortRef.current === controller) {
+        setIsCalculating(false)
+      }
     }
   }
 
-  const displayRouteOnMap = (route: RouteInfo) => {
-    if (!map || !route.geometry) {
-      console.log('Cannot display route - missing map or geometry:', { map: !!map, geometry: !!route.geometry })
+  const displayRoutesOnMap = (routes: RouteInfo[], selectedIndex: number) => {
+    const route = routes[selectedIndex]
+    if (!map || !route?.geometry) {
+      console.log('Cannot display route - missing map or geometry:', { map: !!map, geometry: !!route?.geometry })
       return
     }
 
-    console.log('Displaying route on map:', route)
+    console.log('Displaying routes on map:', routes, 'selected:', selectedIndex)
 
-    // Clear existing route
-    clearRouteFromMap()
+    camera?.stopPreview()
+    setIsPreviewing(false)
+    cleanUpRouteHandlers()
 
     const addRouteToMap = () => {
+      pendingRouteDrawRef.current = null
       try {
         // Add route markers using the OlaMaps SDK
+        routeMarkersRef.current.forEach(marker => marker.remove())
         const markers: any[] = []
         
         const apiKey = import.meta.env.VITE_OLA_MAPS_API_KEY
@@ -373,132 +313,32 @@ const NavigationPanel = ({ map, onClose, currentLocation }: NavigationPanelProps
           markers.push(destMarker)
         }
 
-        setRouteMarkers(markers)
+        useAppStore.getState().waypoints.forEach(waypoint => {
+          const olaMaps = new OlaMaps({ apiKey })
+          const stopMarker = olaMaps
+            .addMarker({
+              offset: [0, 0],
+              anchor: 'bottom',
+              color: '#FF9500' // Orange for intermediate stops
+            })
+            .setLngLat([waypoint.lng, waypoint.lat])
+            .addTo(map)
+          markers.push(stopMarker)
+        })
+
+        routeMarkersRef.current = markers
 
-        // Add route line
-        const routeId = `route-${Date.now()}`
-        
-        // Handle different geometry formats
-        let geometry = route.geometry
-        if (typeof geometry === 'string') {
-          // If it's an encoded polyline, decode it to coordinates
-          console.log('Geometry is encoded polyline:', geometry)
-          try {
-            const coordinates = decodePolyline(geometry)
-            geometry = {
-              type: 'LineString',
-              coordinates: coordinates
-            }
-            console.log('Decoded polyline to coordinates:', coordinates.length, 'points')
-          } catch (error) {
-            console.error('Error decoding polyline:', error)
-            return
-          }
-        }
+        // Every alternative is drawn; the layers already on the map are updated in place
+        routeLayersRef.current = applyRouteLayers(map, routeLayersRef.current, planRouteLayers(routes, selectedIndex, travelMode))
 
-        if (geometry && geometry.coordinates) {
-          console.log('Adding route source and layer:', geometry)
-          
-          // Get polyline color based on travel mode
-          const getRouteColor = (mode: string): string => {
-            const colors = {
-              'driving': '#FF6B35',       // Orange for driving
-              'walking': '#4CAF50',       // Green for walking  
-              'bicycling': '#2196F3',     // Blue for cycling
-              'electric_scooter': '#9C27B0' // Purple for e-scooter
-            }
-            return colors[mode as keyof typeof colors] || '#00C851' // Default green
-          }
-
-          const getRouteWidth = (mode: string): number => {
-            const widths = {
-              'driving': 6,           // Thicker for cars
-              'walking': 4,           // Thinner for walking
-              'bicycling': 5,         // Medium for cycling
-              'electric_scooter': 5   // Medium for e-scooter
-            }
-            return widths[mode as keyof typeof widths] || 6
-          }
-
-          const selectedMode = (() => {
-            const modeMapping: { [key: string]: string } = {
-              'driving': 'driving',
-              'walking': 'walking',
-              'bicycling': 'bicycling', 
-              'electric_scooter': 'electric_scooter'
-            }
-            return modeMapping[travelMode] || 'driving'
-          })()
-          
-          map.addSource(routeId, {
-            type: 'geojson',
-            data: {
-              type: 'Feature',
-              properties: { mode: selectedMode },
-              geometry: geometry
-            }
-          })
-
-          map.addLayer({
-            id: routeId,
-            type: 'line',
-            source: routeId,
-            layout: {
-              'line-join': 'round',
-              'line-cap': 'round'
-            },
-            paint: {
-              'line-color': getRouteColor(selectedMode),
-              'line-width': getRouteWidth(selectedMode),
-              'line-opacity': 0.8
-            }
-          })
-
-          // Add a subtle outline for better visibility
-          map.addLayer({
-            id: `${routeId}-outline`,
-            type: 'line',
-            source: routeId,
-            layout: {
-              'line-join': 'round',
-              'line-cap': 'round'
-            },
-            paint: {
-              'line-color': '#FFFFFF',
-              'line-width': getRouteWidth(selectedMode) + 2,
-              'line-opacity': 0.3
-            }
-          }, routeId) // Add outline below main line
-
-          setRouteLayer(routeId)
-
-          // Fit map to route by calculating center point
-          if (geometry.coordinates && geometry.coordinates.length > 0) {
-            const coordinates = geometry.coordinates
-            // Calculate center of route
-            const lats = coordinates.map((coord: number[]) => coord[1])
-            const lngs = coordinates.map((coord: number[]) => coord[0])
-            const centerLat = (Math.min(...lats) + Math.max(...lats)) / 2
-            const centerLng = (Math.min(...lngs) + Math.max(...lngs)) / 2
-            
-            map.flyTo({
-              center: [centerLng, centerLat],
-              zoom: 12
-            })
-          }
-        }
+        const line = decodePolyline(route.geometry)
+        routeDragCleanupRef.current = enableViaPointDrag(routeLineLayerId(selectedIndex), line)
+        routeSelectCleanupRef.current = enableRouteSelection(routes, selectedIndex)
 
-        // If no geometry, at least center between origin and destination
-        if (!geometry && origin && destination) {
-          const centerLat = (origin.lat + destination.lat) / 2
-          const centerLng = (origin.lng + destination.lng) / 2
-          
-          map.flyTo({
-            center: [centerLng, centerLat],
-            zoom: 12
-          })
+        // While navigating the follow camera owns the view, even when the route is redrawn by a reroute
+        if (!useAppStore.getState().isNavigating) {
+          camera?.fitLine(line)
         }
-
       } catch (error) {
         console.error('Error displaying route on map:', error)
       }
@@ -508,39 +348,170 @@ const NavigationPanel = ({ map, onClose, currentLocation }: NavigationPanelProps
     if (map.isStyleLoaded()) {
       addRouteToMap()
     } else {
-      map.on('load', addRouteToMap)
+      pendingRouteDrawRef.current = addRouteToMap
+      map.once('load', addRouteToMap)
     }
   }
 
-  const clearRouteFromMap = () => {
-    // Remove markers
-    routeMarkers.forEach(marker => marker.remove())
-    setRouteMarkers([])
-
-    // Remove route layers (both main and outline)
-    if (routeLayer && map) {
-      // Remove main route layer
-      if (map.getLayer(routeLayer)) {
-        map.removeLayer(routeLayer)
+  // Clicking a muted alternative on the map selects it, as its card in the list does
+  const enableRouteSelection = (routes: RouteInfo[], selectedIndex: number) => {
+    if (!map) return null
+    const selectedLayer = routeLineLayerId(selectedIndex)
+    const handlers = routes.flatMap((route, index) => {
+      if (index === selectedIndex || !route.geometry) return []
+      const layerId = routeLineLayerId(index)
+      const onClick = (event: any) => {
+        // Where the alternative runs under the selected route, the click belongs to the selected one
+        if (map.queryRenderedFeatures(event.point, { layers: [selectedLayer] }).length > 0) return
+        selectRoute(index)
+        displayRoutesOnMap(routes, index)
+      }
+      const onEnter = () => {
+        map.getCanvas().style.cursor = 'pointer'
+      }
+      const onLeave = () => {
+        map.getCanvas().style.cursor = ''
       }
-      // Remove outline layer
-      if (map.getLayer(`${routeLayer}-outline`)) {
-        map.removeLayer(`${routeLayer}-outline`)
+      return [
+        ['click', layerId, onClick],
+        ['mouseenter', layerId, onEnter],
+        ['mouseleave', layerId, onLeave]
+      ] as const
+    })
+
+    handlers.forEach(([event, layerId, handler]) => map.on(event, layerId, handler))
+    return () => handlers.forEach(([event, layerId, handler]) => map.off(event, layerId, handler))
+  }
+
+  const cleanUpRouteHandlers = () => {
+    routeDragCleanupRef.current?.()
+    routeDragCleanupRef.current = null
+    routeSelectCleanupRef.current?.()
+    routeSelectCleanupRef.current = null
+    if (map && pendingRouteDrawRef.current) map.off('load', pendingRouteDrawRef.current)
+    pendingRouteDrawRef.current = null
+  }
+
+  // Dragging the route line drops a new stop where the drag ends, slotted into
+  // the stop list at the point of the line that was grabbed
+  const enableViaPointDrag = (layerId: string, line: number[][]) => {
+    if (!map) return null
+    const setCursor = (cursor: string) => {
+      map.getCanvas().style.cursor = cursor
+    }
+    const onEnter = () => setCursor('grab')
+    const onLeave = () => setCursor('')
+
+    const onDragStart = (event: any) => {
+      // Keep the map from panning while the line is dragged
+      event.preventDefault()
+      const insertAt = viaPointInsertIndex(line, useAppStore.getState().waypoints, event.lngLat)
+      const marker = new OlaMaps({ apiKey: import.meta.env.VITE_OLA_MAPS_API_KEY })
+        .addMarker({ offset: [0, 0], anchor: 'bottom', color: '#FF9500' })
+        .setLngLat(event.lngLat)
+        .addTo(map)
+      setCursor('grabbing')
+
+      const moveEvent = event.type === 'touchstart' ? 'touchmove' : 'mousemove'
+      const endEvent = event.type === 'touchstart' ? 'touchend' : 'mouseup'
+      const onMove = (e: any) => marker.setLngLat(e.lngLat)
+      const onEnd = (e: any) => {
+        map.off(moveEvent, onMove)
+        marker.remove()
+        setCursor('')
+
+        // A click without a drag shouldn't add a stop
+        const moved = Math.hypot(e.point.x - event.point.x, e.point.y - event.point.y)
+        if (moved >= 5) addViaPoint(e.lngLat, insertAt)
       }
-      // Remove source
-      if (map.getSource(routeLayer)) {
-        map.removeSource(routeLayer)
+      map.on(moveEvent, onMove)
+      map.once(endEvent, onEnd)
+    }
+
+    map.on('mouseenter', layerId, onEnter)
+    map.on('mouseleave', layerId, onLeave)
+    map.on('mousedown', layerId, onDragStart)
+    map.on('touchstart', layerId, onDragStart)
+    return () => {
+      map.off('mouseenter', layerId, onEnter)
+      map.off('mouseleave', layerId, onLeave)
+      map.off('mousedown', layerId, onDragStart)
+      map.off('touchstart', layerId, onDragStart)
+      setCursor('')
+    }
+  }
+
+  const addViaPoint = async ({ lat, lng }: { lat: number; lng: number }, index: number) => {
+    const coordinates = `${lat.toFixed(5)},${lng.toFixed(5)}`
+    let name = coordinates
+    let address = coordinates
+    try {
+      const [nearest] = await olaApi.reverseGeocode(lat, lng, { priority: 'low' })
+      if (nearest) {
+        name = nearest.name
+        address = nearest.address
       }
-      setRouteLayer(null)
+    } catch (error) {
+      // An unlabelled stop is still a usable stop
+      console.warn('Could not name dragged stop:', error)
     }
+    addWaypoint({ lat, lng, name, address }, index)
   }
 
-  const swapOriginDestination = () => {
-    const temp = origin
-    setOrigin(destination)
-    setDestination(temp)
+  const previewRoute = () => {
+    const route = routes[selectedRoute]
+    if (!camera || !route?.geometry) return
+    if (isPreviewing) {
+      camera.stopPreview()
+      setIsPreviewing(false)
+      return
+    }
+    setIsPreviewing(true)
+    camera.previewLine(decodePolyline(route.geometry), () => setIsPreviewing(false))
   }
 
+  const clearRouteFromMap = () => {
+    camera?.stopPreview()
+    setIsPreviewing(false)
+    cleanUpRouteHandlers()
+
+    // Remove markers
+    routeMarkersRef.current.forEach(marker => marker.remove())
+    routeMarkersRef.current = []
+
+    // Remove every route's layers and sources
+    if (map) {
+      routeLayersRef.current = applyRouteLayers(map, routeLayersRef.current, EMPTY_ROUTE_LAYERS)
+    }
+  }
+
+  const changeTimingMode = (mode: TripTiming['mode']) => {
+    if (mode === 'now') {
+      setTripTiming({ mode })
+      return
+    }
+    // Keep a time already picked; otherwise start from the next quarter hour
+    const time = tripTiming.mode !== 'now' ? tripTiming.time : Math.ceil(Date.now() / QUARTER_HOUR) * QUARTER_HOUR
+    setTripTiming({ mode, time })
+  }
+
+  const currentRoute = routes[selectedRoute]
+  const departure = useMemo(() => {
+    if (tripTiming.mode === 'now' || !currentRoute || !origin || !destination) return null
+    const durationSeconds = currentRoute.legs.reduce((total, leg) => total + leg.durationSeconds, 0)
+    return recommendDeparture(
+      { origin, destination, durationSeconds, trafficAware: olaApi.supportsTimedDirections },
+      tripTiming,
+      tripHistory ?? []
+    )
+  }, [currentRoute, tripTiming, tripHistory, origin, destination])
+  const currentStepIndex = isNavigating ? navigationProgress?.stepIndex ?? 0 : -1
+  const nextStep = currentRoute?.steps[currentStepIndex + 1]
+
+  // Per-stop legs, once the shown route has been calculated for the current stop list
+  const shownLegs = routes[selectedRoute]?.legs
+  const stopLegs = shownLegs?.length === waypoints.length + 1 ? shownLegs : null
+
   return (
     <div className="bg-white rounded-lg shadow-lg h-full flex flex-col">
       {/* Header */}
@@ -550,8 +521,9 @@ const NavigationPanel = ({ map, onClose, currentLocation }: NavigationPanelProps
           <h2 className="font-semibold text-gray-900">Directions</h2>
         </div>
         <button
-          onClick={onClose}
+          onClick={() => setShowNavigation(false)}
           className="text-gray-400 hover:text-gray-600"
+          title="Close directions"
         >
           <X className="w-5 h-5" />
         </button>
@@ -566,7 +538,7 @@ const NavigationPanel = ({ map, onClose, currentLocation }: NavigationPanelProps
             return (
               <button
                 key={mode.id}
-                onClick={() => setTravelMode(mode.id as any)}
+                onClick={() => setTravelMode(mode.id as TravelMode)}
                 className={`flex flex-col items-center justify-center py-3 px-2 rounded-md transition-all duration-200 ${
                   isSelected
                     ? 'bg-white text-gray-900 shadow-sm'
@@ -599,7 +571,6 @@ const NavigationPanel = ({ map, onClose, currentLocation }: NavigationPanelProps
             <SearchBar
               key="origin-search"
               onLocationSelect={setOrigin}
-              currentLocation={currentLocation}
               showLocateButton={true}
               hasSelectedLocation={!!origin}
             />
@@ -611,6 +582,73 @@ const NavigationPanel = ({ map, onClose, currentLocation }: NavigationPanelProps
           </div>
         </div>
 
+        {waypoints.map((stop, index) => {
+          const leg = stopLegs?.[index]
+          return (
+            <div key={`${index}-${stop.lat},${stop.lng}`} className="relative flex items-center">
+              <div className="absolute left-3 top-1/2 transform -translate-y-1/2">
+                <div className="w-3 h-3 bg-orange-400 rounded-full"></div>
+              </div>
+              <div className="pl-8 flex-1 min-w-0">
+                <div className="text-sm font-medium text-gray-900 truncate">{stop.name}</div>
+                {leg && (
+                  <div className="text-xs text-gray-500">{leg.distance} • {leg.duration}</div>
+                )}
+              </div>
+              <button
+                onClick={() => moveWaypoint(index, index - 1)}
+                disabled={index === 0}
+                className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                title="Move stop up"
+              >
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => moveWaypoint(index, index + 1)}
+                disabled={index === waypoints.length - 1}
+                className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                title="Move stop down"
+              >
+                <ChevronDown className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => removeWaypoint(index)}
+                className="p-1 text-gray-400 hover:text-red-500"
+                title="Remove stop"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          )
+        })}
+
+        {isAddingStop ? (
+          <div className="relative">
+            <div className="absolute left-3 top-1/2 transform -translate-y-1/2">
+              <div className="w-3 h-3 bg-orange-400 rounded-full"></div>
+            </div>
+            <div className="pl-8">
+              <SearchBar
+                key="stop-search"
+                placeholder="Add a stop..."
+                onLocationSelect={(place) => {
+                  addWaypoint(place)
+                  setIsAddingStop(false)
+                }}
+                showLocateButton={false}
+              />
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => setIsAddingStop(true)}
+            className="flex items-center pl-8 text-sm text-ola-green hover:underline"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add stop
+          </button>
+        )}
+
         <button
           onClick={swapOriginDestination}
           className="w-full flex justify-center py-1"
@@ -628,7 +666,6 @@ const NavigationPanel = ({ map, onClose, currentLocation }: NavigationPanelProps
             <SearchBar
               key="destination-search"
               onLocationSelect={setDestination}
-              currentLocation={currentLocation}
               showLocateButton={false}
               hasSelectedLocation={!!destination}
             />
@@ -637,10 +674,120 @@ const NavigationPanel = ({ map, onClose, currentLocation }: NavigationPanelProps
                 {destination.address}
               </div>
             )}
+            {destination && waypoints.length > 0 && stopLegs && (
+              <div className="text-xs text-gray-500">
+                {stopLegs[waypoints.length].distance} • {stopLegs[waypoints.length].duration}
+              </div>
+            )}
           </div>
         </div>
+
+        {/* Departure Time */}
+        <div className="flex items-center gap-2 text-sm">
+          <Clock className="w-4 h-4 text-gray-400 flex-shrink-0" />
+          <select
+            value={tripTiming.mode}
+            onChange={(e) => changeTimingMode(e.target.value as TripTiming['mode'])}
+            aria-label="When"
+            className="border border-gray-300 rounded px-2 py-1"
+          >
+            <option value="now">Leave now</option>
+            <option value="depart_at">Depart at</option>
+            <option value="arrive_by">Arrive by</option>
+          </select>
+          {tripTiming.mode !== 'now' && (
+            <input
+              type="datetime-local"
+              value={toDateTimeInput(tripTiming.time)}
+              onChange={(e) => {
+                const time = parseDateTimeInput(e.target.value)
+                if (time !== null) setTripTiming({ mode: tripTiming.mode, time })
+              }}
+              aria-label={tripTiming.mode === 'arrive_by' ? 'Arrival time' : 'Departure time'}
+              className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1"
+            />
+          )}
+        </div>
+
+        {/* Route Preferences */}
+        <AvoidanceOptions />
+        {travelMode === 'electric_scooter' && <ScooterOptions />}
+        {followsSpeedLimits(travelMode) && (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <span>Warn when over the speed limit by</span>
+            <select
+              value={speedTolerance}
+              onChange={(e) => setPreference('speed_alert_tolerance_kmh', Number(e.target.value))}
+              aria-label="Speed warning tolerance"
+              className="border border-gray-300 rounded px-2 py-1 text-gray-900"
+            >
+              {SPEED_TOLERANCES.map(kmh => (
+                <option key={kmh} value={kmh}>{kmh} km/h</option>
+              ))}
+            </select>
+          </div>
+        )}
       </div>
 
+      {/* Live Guidance */}
+      {isNavigating && currentRoute && (
+        <div className="p-4 border-b bg-ola-green text-white flex items-start justify-between">
+          <SpeedLimitBadge />
+          <div className="min-w-0 flex-1">
+            {isRerouting ? (
+              <div className="font-semibold">Rerouting...</div>
+            ) : navigationProgress?.arrived ? (
+              <div className="font-semibold">You have arrived</div>
+            ) : navigationProgress ? (
+              <>
+                <div className="text-2xl font-bold">{formatDistance(navigationProgress.distanceToManeuver)}</div>
+                <div className="text-sm font-medium">
+                  {nextStep ? getStepInstruction(nextStep) : 'Arrive at your destination'}
+                </div>
+                <div className="text-xs opacity-80 mt-1">
+                  {formatDistance(navigationProgress.distanceRemaining)} remaining
+                </div>
+              </>
+            ) : (
+              <div className="text-sm">Waiting for your location...</div>
+            )}
+          </div>
+          <div className="flex items-center ml-3 space-x-2">
+            {isFollowing ? (
+              <button
+                onClick={() => setFollowMode(followMode === 'heading-up' ? 'north-up' : 'heading-up')}
+                title={followMode === 'heading-up' ? 'Switch to north up' : 'Switch to heading up'}
+              >
+                <Compass className={`w-5 h-5 transition-transform ${followMode === 'heading-up' ? '' : '-rotate-45'}`} />
+              </button>
+            ) : (
+              <button onClick={() => setFollowMode(followMode)} title="Re-centre">
+                <Crosshair className="w-5 h-5" />
+              </button>
+            )}
+            <button
+              onClick={() => setPreference('voice_language', voiceLanguage === 'en' ? 'hi' : 'en')}
+              className="text-xs font-medium border border-white rounded px-2 py-1"
+              title="Voice language"
+            >
+              {voiceLanguage === 'en' ? 'EN' : 'हि'}
+            </button>
+            <button
+              onClick={() => setPreference('navigation_voice', !voiceEnabled)}
+              title={voiceEnabled ? 'Mute voice guidance' : 'Unmute voice guidance'}
+            >
+              {voiceEnabled ? <Volume2 className="w-5 h-5" /> : <VolumeX className="w-5 h-5" />}
+            </button>
+            <button
+              onClick={stopNavigation}
+              className="bg-white text-ola-green text-sm font-medium px-3 py-1 rounded"
+            >
+              End
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Route Results */}
       <div className="flex-1 overflow-y-auto">
         {isCalculating && (
@@ -656,72 +803,158 @@ const NavigationPanel = ({ map, onClose, currentLocation }: NavigationPanelProps
               {routes.map((route, index) => {
                 const trafficInfo = parseTrafficInfo(route.travelAdvisory)
                 const selectedMode = travelModes.find(m => m.id === travelMode)
-                const footprint = calculateCarbonFootprint(route.distance, selectedMode?.carbonFactor || 0)
+                const footprint = calculateCarbonFootprint(
+                  route.legs.reduce((total, leg) => total + leg.distanceMetres, 0),
+                  selectedMode?.carbonFactor || 0
+                )
+                const elevation = elevationProfiles[route.geometry]
+                const climbSeconds = elevation && isClimbAware(travelMode)
+                  ? climbAwareSeconds(route.legs.reduce((total, leg) => total + leg.durationSeconds, 0), elevation, travelMode)
+                  : null
                 
                 return (
-                  <button
-                    key={index}
-                    onClick={() => {
-                      setSelectedRoute(index)
-                      displayRouteOnMap(route)
-                    }}
-                    className={`w-full p-4 text-left rounded-lg border transition-colors ${
-                      selectedRoute === index
-                        ? 'border-ola-green bg-green-50'
-                        : 'border-gray-200 hover:bg-gray-50'
-                    }`}
-                  >
-                    <div className="flex items-center justify-between mb-2">
-                      <div className="flex items-center text-sm font-medium text-gray-900">
-                        <Navigation className="w-4 h-4 mr-2 text-ola-green" />
-                        {route.summary}
-                        {/* Simple traffic indicator */}
-                        {trafficInfo.hasTraffic && (
-                          <div className={`ml-2 w-2 h-2 rounded-full ${
-                            trafficInfo.severity === 'high' ? 'bg-red-500' :
-                            trafficInfo.severity === 'medium' ? 'bg-yellow-500' : 'bg-orange-400'
-                          }`} />
-                        )}
-                      </div>
-                      <div className="text-sm font-semibold text-gray-700">
-                        {route.distance}
+                  <div key={index}>
+                    <button
+                      onClick={() => {
+                        selectRoute(index)
+                        displayRoutesOnMap(routes, index)
+                      }}
+                      className={`w-full p-4 text-left rounded-lg border transition-colors ${
+                        selectedRoute === index
+                          ? 'border-ola-green bg-green-50'
+                          : 'border-gray-200 hover:bg-gray-50'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between mb-2">
+                        <div className="flex items-center text-sm font-medium text-gray-900">
+                          <Navigation className="w-4 h-4 mr-2 text-ola-green" />
+                          {route.summary}
+                          {/* Simple traffic indicator */}
+                          {trafficInfo.hasTraffic && (
+                            <div className={`ml-2 w-2 h-2 rounded-full ${
+                              trafficInfo.severity === 'high' ? 'bg-red-500' :
+                              trafficInfo.severity === 'medium' ? 'bg-yellow-500' : 'bg-orange-400'
+                            }`} />
+                          )}
+                        </div>
+                        <div className="text-sm font-semibold text-gray-700">
+                          {route.distance}
+                        </div>
                       </div>
-                    </div>
                     
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center text-sm text-gray-600">
-                        <Clock className="w-4 h-4 mr-1" />
-                        {route.duration}
-                      </div>
-                      
-                      {/* Subtle eco indicator */}
-                      {footprint.co2 === 0 && (
-                        <div className="flex items-center text-xs text-green-600">
-                          <Leaf className="w-3 h-3 mr-1" />
-                          Zero emissions
+                      {route.avoidAreasCrossed && route.avoidAreasCrossed.length > 0 && (
+                        <div className="text-xs text-red-600 mb-2">
+                          Passes through {route.avoidAreasCrossed.join(', ')}
                         </div>
                       )}
-                      {footprint.co2 > 0 && footprint.savings > 0 && (
-                        <div className="text-xs text-gray-500">
-                          {footprint.co2.toFixed(1)} kg CO₂
+
+                      {route.scooter && route.scooter.fastRoadMetres > FAST_ROAD_TOLERANCE_METRES && (
+                        <div className="text-xs text-amber-700 mb-2">
+                          Uses {formatDistance(route.scooter.fastRoadMetres)} of roads over {scooterMaxRoadSpeed} km/h
                         </div>
                       )}
-                    </div>
-                  </button>
+                      {route.scooter && route.scooter.batteryPercent > 100 && (
+                        <div className="text-xs text-red-600 mb-2">
+                          Beyond your {scooterRange} km range
+                        </div>
+                      )}
+
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center text-sm text-gray-600">
+                          <Clock className="w-4 h-4 mr-1" />
+                          {climbSeconds !== null ? (
+                            <span title={`Allowing for ${elevation.ascent} m of climbing`}>{formatDuration(climbSeconds)}</span>
+                          ) : route.duration}
+                          {route.scooter && (
+                            <span className="flex items-center ml-3">
+                              <BatteryMedium className="w-4 h-4 mr-1" />
+                              {route.scooter.batteryPercent}% of charge
+                            </span>
+                          )}
+                        </div>
+                      
+                        {/* Subtle eco indicator */}
+                        {footprint.co2 === 0 && (
+                          <div className="flex items-center text-xs text-green-600">
+                            <Leaf className="w-3 h-3 mr-1" />
+                            Zero emissions
+                          </div>
+                        )}
+                        {footprint.co2 > 0 && footprint.savings > 0 && (
+                          <div className="text-xs text-gray-500">
+                            {footprint.co2.toFixed(1)} kg CO₂
+                          </div>
+                        )}
+                      </div>
+                    </button>
+                    {selectedRoute === index && elevation && (
+                      <ElevationChart profile={elevation} geometry={route.geometry} />
+                    )}
+                  </div>
                 )
               })}
             </div>
 
+            {/* Planned Departure */}
+            {!isNavigating && departure && (
+              <div className="mt-4 p-3 rounded-lg bg-blue-50 text-sm">
+                <div className="font-medium text-gray-900">
+                  {tripTiming.mode === 'arrive_by'
+                    ? `Leave at ${formatTripTime(departure.departAt)}`
+                    : `Arrive around ${formatTripTime(departure.arriveAt)}`}
+                </div>
+                <div className="text-gray-600">
+                  {tripTiming.mode === 'arrive_by' ? 'Leave between' : 'Likely between'}{' '}
+                  {formatTripTime(departure.earliest)} and {formatTripTime(departure.latest)}
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {departure.trips > 0
+                    ? `From ${departure.trips} of your past trips`
+                    : 'Allowing for usual delays; no past trips to learn from yet. Trips you navigate while signed in are used here.'}
+                  {!departure.trafficAware && ' · travel time is for current traffic'}
+                </div>
+              </div>
+            )}
+
+            {!isNavigating && currentRoute && (
+              <div className="flex gap-2 mt-4">
+                <button
+                  onClick={previewRoute}
+                  className="flex items-center justify-center px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  <Film className="w-4 h-4 mr-1" />
+                  {isPreviewing ? 'Stop preview' : 'Preview'}
+                </button>
+                <button
+                  onClick={() => {
+                    camera?.stopPreview()
+                    setIsPreviewing(false)
+                    startNavigation()
+                  }}
+                  className="flex-1 flex items-center justify-center bg-ola-green hover:bg-green-600 text-white font-medium py-2 rounded-lg transition-colors"
+                >
+                  <Navigation className="w-4 h-4 mr-2" />
+                  Start navigation
+                </button>
+              </div>
+            )}
+
             {/* Route Steps - Clean and Focused */}
-            {routes[selectedRoute] && routes[selectedRoute].steps.length > 0 && (
+            {currentRoute && currentRoute.steps.length > 0 && (
               <div className="mt-6 border-t pt-4">
                 <h3 className="font-semibold text-gray-900 mb-3 flex items-center">
                   <Navigation className="w-4 h-4 mr-2 text-ola-green" />
                   Turn-by-turn directions
                 </h3>
                 <div className="space-y-3 max-h-64 overflow-y-auto">
-                  {routes[selectedRoute].steps.slice(0, 8).map((step: any, index: number) => (
-                    <div key={index} className="flex items-start">
+                  {currentRoute.steps.map((step, index) => (
+                    <div
+                      key={index}
+                      className={`flex items-start ${index < currentStepIndex ? 'opacity-40' : ''} ${
+                        index === currentStepIndex ? 'bg-green-50 rounded-lg -mx-2 px-2 py-1' : ''
+                      }`}
+                      aria-current={index === currentStepIndex ? 'step' : undefined}
+                    >
                       <div className="w-6 h-6 rounded-full bg-ola-green text-white flex items-center justify-center mr-3 mt-0.5 flex-shrink-0 text-xs font-medium">
                         {index + 1}
                       </div>
@@ -729,22 +962,17 @@ const NavigationPanel = ({ map, onClose, currentLocation }: NavigationPanelProps
                         <div className="text-sm text-gray-900 font-medium">
                           {getStepInstruction(step)}
                         </div>
-                        {(step.readable_distance || step.distance) && (
+                        {step.distance > 0 && (
                           <div className="text-xs text-gray-500 mt-1">
-                            {step.readable_distance || step.distance?.text || step.distance}
-                            {(step.readable_duration || step.duration) && 
-                              ` • ${step.readable_duration || step.duration?.text || step.duration}`
+                            {step.readable_distance || formatDistance(step.distance)}
+                            {step.duration > 0 &&
+                              ` • ${step.readable_duration || formatDuration(step.duration)}`
                             }
                           </div>
                         )}
                       </div>
                     </div>
                   ))}
-                  {routes[selectedRoute].steps.length > 8 && (
-                    <div className="text-center py-2 text-sm text-gray-500 bg-gray-50 rounded-lg">
-                      +{routes[selectedRoute].steps.length - 8} more steps
-                    </div>
-                  )}
                 </div>
               </div>
             )}
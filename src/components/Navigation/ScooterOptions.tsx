@@ -0,0 +1,52 @@
+import { useAppStore } from '../../store'
+
+type ScooterField = 'scooter_top_speed_kmh' | 'scooter_max_road_speed_kmh' | 'scooter_range_km'
+
+const FIELDS: { id: ScooterField; label: string; unit: string }[] = [
+  { id: 'scooter_top_speed_kmh', label: 'Top speed', unit: 'km/h' },
+  { id: 'scooter_max_road_speed_kmh', label: 'Avoid roads over', unit: 'km/h' },
+  { id: 'scooter_range_km', label: 'Range', unit: 'km' }
+]
+
+// The scooter's limits that routes are ranked against. Values are saved when a field loses focus,
+// so typing a number doesn't fetch routes for every digit.
+const ScooterOptions = () => {
+  const preferences = useAppStore(state => state.preferences)
+  const { setPreference } = useAppStore.getState()
+
+  const save = (id: ScooterField, input: HTMLInputElement) => {
+    const value = input.valueAsNumber
+    if (!Number.isFinite(value) || value <= 0) {
+      input.value = String(preferences[id])
+      return
+    }
+    if (value !== preferences[id]) setPreference(id, value)
+  }
+
+  return (
+    <div className="grid grid-cols-3 gap-2 text-sm">
+      {FIELDS.map(({ id, label, unit }) => (
+        <label key={id} className="text-gray-500">
+          <span className="block text-xs">{label}</span>
+          <span className="flex items-center">
+            <input
+              key={preferences[id]}
+              type="number"
+              min={1}
+              defaultValue={preferences[id]}
+              onBlur={(e) => save(id, e.currentTarget)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') e.currentTarget.blur()
+              }}
+              aria-label={label}
+              className="w-full min-w-0 border border-gray-300 rounded px-2 py-1 text-gray-900"
+            />
+            <span className="ml-1 text-xs">{unit}</span>
+          </span>
+        </label>
+      ))}
+    </div>
+  )
+}
+
+export default ScooterOptions
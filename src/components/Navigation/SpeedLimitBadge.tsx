@@ -0,0 +1,36 @@
+import { useAppStore } from '../../store'
+import { speedLimitAt } from '../../utils/speedLimits'
+
+// The limit where the driver is, styled like the roadside sign, with their speed beside it.
+// Turns red while they are over the limit by more than their tolerance.
+const SpeedLimitBadge = () => {
+  const speedLimits = useAppStore(state => state.speedLimits)
+  const progress = useAppStore(state => state.navigationProgress)
+  const speed = useAppStore(state => state.currentLocation?.speed)
+  const overSpeed = useAppStore(state => state.overSpeedEvents[state.overSpeedEvents.length - 1]?.endedAt === null)
+
+  const limit = progress && !progress.offRoute ? speedLimitAt(speedLimits, progress.along) : null
+  if (limit === null) return null
+
+  return (
+    <div className="flex flex-col items-center mr-3 flex-shrink-0">
+      <div
+        className={`w-11 h-11 rounded-full border-4 border-red-600 flex items-center justify-center font-bold ${
+          overSpeed ? 'bg-red-600 text-white animate-pulse' : 'bg-white text-gray-900'
+        }`}
+        role="img"
+        aria-label={`Speed limit ${limit}`}
+        title={overSpeed ? 'Over the speed limit' : 'Speed limit'}
+      >
+        {limit}
+      </div>
+      {speed != null && (
+        <div className={`text-xs mt-1 ${overSpeed ? 'font-bold' : 'opacity-80'}`}>
+          {Math.round(speed * 3.6)} km/h
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SpeedLimitBadge
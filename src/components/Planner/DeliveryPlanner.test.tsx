@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react'
+import DeliveryPlanner from './DeliveryPlanner'
+import { DeliveryPlanError, planDeliveryRun } from '../../services'
+import { useAppStore } from '../../store'
+import type { DeliveryPlan } from '../../types'
+
+vi.mock('../../services', () => ({
+  olaApi: {},
+  planDeliveryRun: vi.fn(),
+  DeliveryPlanError: class extends Error {
+    constructor(message: string, readonly unresolved: string[] = []) {
+      super(message)
+    }
+  },
+  isAbortError: (error: unknown) => error instanceof DOMException && error.name === 'AbortError'
+}))
+
+vi.mock('olamaps-web-sdk', () => ({
+  OlaMaps: class {
+    addMarker() {
+      const marker = { setLngLat: () => marker, addTo: () => marker, remove: vi.fn() }
+      return marker
+    }
+  }
+}))
+
+const plan = vi.mocked(planDeliveryRun)
+const depot = { name: 'Depot', address: 'Okhla, New Delhi', lat: 28.53, lng: 77.27 }
+
+const deliveryPlan: DeliveryPlan = {
+  start: depot,
+  end: null,
+  departure: 540,
+  finish: 585,
+  distanceMetres: 12400,
+  geometry: '_p~iF~ps|U_ulLnnqC',
+  method: 'local',
+  stops: [
+    {
+      address: 'Lodhi Garden',
+      serviceMinutes: 5,
+      location: { name: 'Lodhi Garden', address: 'Lodhi Road, New Delhi', lat: 28.59, lng: 77.22 },
+      arrival: 555,
+      wait: 0,
+      departure: 560,
+      late: false
+    },
+    {
+      address: 'Khan Market',
+      serviceMinutes: 10,
+      window: { start: 570, end: 572 },
+      location: { name: 'Khan Market', address: 'Rabindra Nagar, New Delhi', lat: 28.6, lng: 77.23 },
+      arrival: 575,
+      wait: 0,
+      departure: 585,
+      late: true
+    }
+  ]
+}
+
+const createMap = () => ({
+  isStyleLoaded: () => true,
+  once: vi.fn(),
+  off: vi.fn(),
+  addSource: vi.fn(),
+  addLayer: vi.fn(),
+  getLayer: vi.fn(() => true),
+  getSource: vi.fn(() => true),
+  removeLayer: vi.fn(),
+  removeSource: vi.fn(),
+  fitBounds: vi.fn()
+})
+
+const initialState = useAppStore.getState()
+
+const typeStops = (text: string) => fireEvent.change(screen.getByLabelText('Stops'), { target: { value: text } })
+
+describe('DeliveryPlanner', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    useAppStore.setState(initialState, true)
+    useAppStore.setState({ showPlanner: true })
+  })
+
+  afterEach(() => {
+    cleanup()
+    vi.restoreAllMocks()
+  })
+
+  it('plans the typed stops and lists them with ETAs', async () => {
+    plan.mockResolvedValue(deliveryPlan)
+    render(<DeliveryPlanner />)
+
+    fireEvent.change(screen.getByPlaceholderText('Start address (blank for my location)'), { target: { value: 'Okhla' } })
+    typeStops('Khan Market | 09:30-09:32 | 10\nLodhi Garden')
+    fireEvent.click(screen.getByText('Plan run'))
+
+    expect(await screen.findByText('ETA 09:15')).toBeTruthy()
+    expect(screen.getByText('2 stops • 12.4 km')).toBeTruthy()
+    expect(screen.getByText('1 stop misses its time window')).toBeTruthy()
+    expect(plan).toHaveBeenCalledWith({}, {
+      start: 'Okhla',
+      end: null,
+      returnToStart: false,
+      stops: [
+        { address: 'Khan Market', serviceMinutes: 10, window: { start: 570, end: 572 } },
+        { address: 'Lodhi Garden', serviceMinutes: 5 }
+      ],
+      departure: 540
+    }, expect.objectContaining({ priority: 'high' }))
+  })
+
+  it('starts from the current location when no start is typed', async () => {
+    plan.mockResolvedValue(deliveryPlan)
+    useAppStore.setState({ currentLocation: { lat: 28.53, lng: 77.27 } })
+    render(<DeliveryPlanner />)
+
+    typeStops('Lodhi Garden')
+    fireEvent.click(screen.getByText('Plan run'))
+
+    await waitFor(() => expect(plan).toHaveBeenCalled())
+    expect(plan.mock.calls[0][1].start).toMatchObject({ name: 'My location', lat: 28.53 })
+  })
+
+  it('reports unreadable lines without planning', () => {
+    render(<DeliveryPlanner />)
+
+    fireEvent.change(screen.getByPlaceholderText('Start address (blank for my location)'), { target: { value: 'Okhla' } })
+    typeStops('Khan Market | whenever')
+    fireEvent.click(screen.getByText('Plan run'))
+
+    expect(screen.getByText('Line 1: can\'t read "whenever"')).toBeTruthy()
+    expect(plan).not.toHaveBeenCalled()
+  })
+
+  it('lists addresses that could not be found', async () => {
+    plan.mockRejectedValue(new DeliveryPlanError('Couldn\'t find an address', ['Atlantis']))
+    render(<DeliveryPlanner />)
+
+    fireEvent.change(screen.getByPlaceholderText('Start address (blank for my location)'), { target: { value: 'Okhla' } })
+    typeStops('Atlantis')
+    fireEvent.click(screen.getByText('Plan run'))
+
+    expect(await screen.findByText('Not found: Atlantis')).toBeTruthy()
+  })
+
+  it('imports stops from a file', async () => {
+    render(<DeliveryPlanner />)
+    typeStops('Khan Market')
+
+    const file = new File([], 'stops.txt', { type: 'text/plain' })
+    // jsdom's File has no text()
+    Object.defineProperty(file, 'text', { value: async () => 'Lodhi Garden | 5\nIndia Gate' })
+    fireEvent.change(screen.getByTestId('stops-file'), { target: { files: [file] } })
+
+    await waitFor(() => expect(useAppStore.getState().plannerDraft.stops).toBe('Khan Market\nLodhi Garden | 5\nIndia Gate'))
+  })
+
+  it('draws the run on the map and removes it when closed', () => {
+    const map = createMap()
+    useAppStore.setState({ map, deliveryPlan })
+    const { unmount } = render(<DeliveryPlanner />)
+
+    expect(map.addLayer).toHaveBeenCalledWith(expect.objectContaining({ id: 'delivery-run' }))
+    expect(map.fitBounds).toHaveBeenCalledWith([[77.22, 28.53], [77.27, 28.6]], expect.anything())
+
+    unmount()
+    expect(map.removeLayer).toHaveBeenCalledWith('delivery-run')
+    expect(useAppStore.getState().deliveryPlan).toBe(deliveryPlan)
+  })
+
+  it('drops a pending draw when the panel closes before the map loads', () => {
+    const map = { ...createMap(), isStyleLoaded: () => false }
+    useAppStore.setState({ map, deliveryPlan })
+    const { unmount } = render(<DeliveryPlanner />)
+
+    expect(map.addLayer).not.toHaveBeenCalled()
+    const draw = map.once.mock.calls[0][1]
+
+    unmount()
+    expect(map.off).toHaveBeenCalledWith('load', draw)
+  })
+})
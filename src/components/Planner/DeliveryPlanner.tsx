@@ -0,0 +1,306 @@
+import { useEffect, useRef, useState } from 'react'
+import { X, Truck, Upload, Clock, AlertTriangle } from 'lucide-react'
+import { OlaMaps } from 'olamaps-web-sdk'
+import { olaApi, isAbortError, planDeliveryRun, DeliveryPlanError } from '../../services'
+import { useAppStore } from '../../store'
+import type { DeliveryPlan, SelectedPlace } from '../../types'
+import { decodePolyline } from '../../utils/polyline'
+import { formatDistance } from '../../utils/directions'
+import { formatClock, parseClock, parseStopList } from '../../utils/deliveryRun'
+import { CameraController } from '../../utils/cameraController'
+
+const RUN_LAYER_ID = 'delivery-run'
+
+const stopElement = (label: string, color: string) => {
+  const element = document.createElement('div')
+  element.textContent = label
+  element.style.cssText = `
+    width: 24px;
+    height: 24px;
+    border-radius: 50%;
+    background: ${color};
+    border: 2px solid white;
+    color: white;
+    font-size: 12px;
+    font-weight: 600;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    box-shadow: 0 1px 4px rgba(0, 0, 0, 0.3);
+  `
+  return element
+}
+
+const DeliveryPlanner = () => {
+  const map = useAppStore(state => state.map)
+  const currentLocation = useAppStore(state => state.currentLocation)
+  const draft = useAppStore(state => state.plannerDraft)
+  const plan = useAppStore(state => state.deliveryPlan)
+  const { setShowPlanner, setPlannerDraft, setDeliveryPlan } = useAppStore.getState()
+  const [isPlanning, setIsPlanning] = useState(false)
+  const [errors, setErrors] = useState<string[]>([])
+  const planAbortRef = useRef<AbortController>()
+  const markersRef = useRef<any[]>([])
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Draw the run whenever it changes, and take it off the map when the panel closes
+  useEffect(() => {
+    if (!map || !plan) return () => clearPlanFromMap()
+    const draw = () => drawPlan(plan)
+
+    if (map.isStyleLoaded()) {
+      draw()
+    } else {
+      map.once('load', draw)
+    }
+    return () => {
+      map.off('load', draw)
+      clearPlanFromMap()
+    }
+  }, [map, plan])
+
+  useEffect(() => () => planAbortRef.current?.abort(), [])
+
+  const drawPlan = (plan: DeliveryPlan) => {
+    const apiKey = import.meta.env.VITE_OLA_MAPS_API_KEY
+    const addMarker = (place: SelectedPlace, element: HTMLElement) => {
+      const marker = new OlaMaps({ apiKey })
+        .addMarker({ offset: [0, 0], anchor: 'center', element })
+        .setLngLat([place.lng, place.lat])
+        .addTo(map)
+      markersRef.current.push(marker)
+    }
+
+    addMarker(plan.start, stopElement('S', '#00C851'))
+    plan.stops.forEach((stop, index) => addMarker(stop.location, stopElement(String(index + 1), stop.late ? '#FF4444' : '#FF9500')))
+    if (plan.end && plan.end !== plan.start) addMarker(plan.end, stopElement('E', '#333333'))
+
+    const points = [plan.start, ...plan.stops.map(stop => stop.location), ...(plan.end ? [plan.end] : [])]
+    if (plan.geometry) {
+      map.addSource(RUN_LAYER_ID, {
+        type: 'geojson',
+        data: {
+          type: 'Feature',
+          properties: {},
+          geometry: { type: 'LineString', coordinates: decodePolyline(plan.geometry) }
+        }
+      })
+      map.addLayer({
+        id: RUN_LAYER_ID,
+        type: 'line',
+        source: RUN_LAYER_ID,
+        layout: { 'line-join': 'round', 'line-cap': 'round' },
+        paint: { 'line-color': '#FF6B35', 'line-width': 5, 'line-opacity': 0.8 }
+      })
+    }
+
+    new CameraController(map).fitLine(points.map(point => [point.lng, point.lat]))
+  }
+
+  const clearPlanFromMap = () => {
+    markersRef.current.forEach(marker => marker.remove())
+    markersRef.current = []
+    if (!map) return
+    if (map.getLayer(RUN_LAYER_ID)) map.removeLayer(RUN_LAYER_ID)
+    if (map.getSource(RUN_LAYER_ID)) map.removeSource(RUN_LAYER_ID)
+  }
+
+  // Imported lines are appended to whatever is already typed
+  const importStops = async (file: File) => {
+    try {
+      const text = await file.text()
+      setPlannerDraft({ stops: draft.stops.trim() ? `${draft.stops.trimEnd()}\n${text}` : text })
+    } catch (error) {
+      console.error('Error reading stops file:', error)
+      setErrors([`Could not read ${file.name}`])
+    }
+  }
+
+  const planRun = async () => {
+    const { stops, errors: lineErrors } = parseStopList(draft.stops)
+    const departure = parseClock(draft.departure)
+    const problems = [...lineErrors]
+    if (departure === null) problems.push('Enter a departure time as HH:MM')
+
+    const start: string | SelectedPlace | null = draft.start.trim() ||
+      (currentLocation && { ...currentLocation, name: 'My location', address: 'Current location' })
+    if (!start) problems.push('Enter a start address')
+
+    setErrors(problems)
+    if (problems.length > 0 || !start || departure === null) return
+
+    planAbortRef.current?.abort()
+    const controller = new AbortController()
+    planAbortRef.current = controller
+
+    setIsPlanning(true)
+    try {
+      const plan = await planDeliveryRun(olaApi, {
+        start,
+        end: draft.end.trim() || null,
+        returnToStart: draft.returnToStart,
+        stops,
+        departure
+      }, { signal: controller.signal, priority: 'high' })
+      setDeliveryPlan(plan)
+    } catch (error) {
+      if (isAbortError(error)) return
+      console.error('Error planning delivery run:', error)
+      if (error instanceof DeliveryPlanError) {
+        setErrors([error.message, ...error.unresolved.map(address => `Not found: ${address}`)])
+      } else {
+        setErrors(['Could not plan the run. Please try again.'])
+      }
+    } finally {
+      if (planAbortRef.current === controller) setIsPlanning(false)
+    }
+  }
+
+  const lateCount = plan?.stops.filter(stop => stop.late).length ?? 0
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg h-full flex flex-col">
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b">
+        <div className="flex items-center">
+          <Truck className="w-5 h-5 text-ola-green mr-2" />
+          <h2 className="font-semibold text-gray-900">Delivery run</h2>
+        </div>
+        <button
+          onClick={() => setShowPlanner(false)}
+          className="text-gray-400 hover:text-gray-600"
+          title="Close planner"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* Run Inputs */}
+      <div className="p-4 space-y-3 border-b">
+        <input
+          value={draft.start}
+          onChange={(e) => setPlannerDraft({ start: e.target.value })}
+          placeholder="Start address (blank for my location)"
+          className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+        />
+        <input
+          value={draft.end}
+          onChange={(e) => setPlannerDraft({ end: e.target.value })}
+          placeholder="End address (blank to finish at the last stop)"
+          disabled={draft.returnToStart}
+          className="w-full border border-gray-300 rounded px-3 py-2 text-sm disabled:bg-gray-100"
+        />
+        <div className="flex items-center justify-between text-sm">
+          <label className="flex items-center text-gray-700">
+            <input
+              type="checkbox"
+              checked={draft.returnToStart}
+              onChange={(e) => setPlannerDraft({ returnToStart: e.target.checked })}
+              className="mr-2"
+            />
+            Return to start
+          </label>
+          <label className="flex items-center text-gray-700">
+            <Clock className="w-4 h-4 mr-1 text-gray-400" />
+            <input
+              type="time"
+              value={draft.departure}
+              onChange={(e) => setPlannerDraft({ departure: e.target.value })}
+              aria-label="Departure time"
+              className="border border-gray-300 rounded px-2 py-1"
+            />
+          </label>
+        </div>
+        <textarea
+          value={draft.stops}
+          onChange={(e) => setPlannerDraft({ stops: e.target.value })}
+          placeholder={'One stop per line, optionally with a time window and minutes on site:\nKhan Market | 10:00-12:00 | 10'}
+          rows={6}
+          aria-label="Stops"
+          className="w-full border border-gray-300 rounded px-3 py-2 text-sm font-mono"
+        />
+        <div className="flex gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center px-3 py-2 text-sm border border-gray-300 rounded hover:bg-gray-50"
+          >
+            <Upload className="w-4 h-4 mr-1" />
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".txt,.tsv,text/plain,text/tab-separated-values"
+            className="hidden"
+            data-testid="stops-file"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) importStops(file)
+              e.target.value = ''
+            }}
+          />
+          <button
+            onClick={planRun}
+            disabled={isPlanning}
+            className="flex-1 bg-ola-green hover:bg-green-600 text-white text-sm px-3 py-2 rounded disabled:opacity-50"
+          >
+            {isPlanning ? 'Planning...' : 'Plan run'}
+          </button>
+        </div>
+        {errors.length > 0 && (
+          <ul className="text-sm text-red-600 space-y-1">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+      </div>
+
+      {/* Planned Run */}
+      <div className="flex-1 overflow-y-auto">
+        {plan && (
+          <div className="p-4">
+            <div className="flex items-center justify-between mb-1">
+              <span className="font-semibold text-gray-900">
+                {plan.stops.length} stops • {formatDistance(plan.distanceMetres)}
+              </span>
+              <span className="text-sm text-gray-600">
+                {formatClock(plan.departure)} – {formatClock(plan.finish)}
+              </span>
+            </div>
+            <div className="text-xs text-gray-500 mb-3">
+              {plan.method === 'optimizer' ? 'Order optimised by Ola Maps' : 'Order planned on this device'}
+              {!plan.geometry && ' • times are estimates'}
+            </div>
+            {lateCount > 0 && (
+              <div className="flex items-center text-sm text-red-600 mb-3">
+                <AlertTriangle className="w-4 h-4 mr-1" />
+                {lateCount === 1 ? '1 stop misses its time window' : `${lateCount} stops miss their time windows`}
+              </div>
+            )}
+
+            <ol className="space-y-2">
+              {plan.stops.map((stop, index) => (
+                <li key={`${index}-${stop.address}`} className="flex items-start">
+                  <div className={`w-6 h-6 flex-shrink-0 rounded-full text-white text-xs font-semibold flex items-center justify-center mr-3 ${stop.late ? 'bg-red-500' : 'bg-orange-400'}`}>
+                    {index + 1}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-gray-900 truncate">{stop.address}</div>
+                    <div className="text-xs text-gray-500 truncate">{stop.location.address}</div>
+                    <div className="text-xs text-gray-600">
+                      ETA {formatClock(stop.arrival)}
+                      {stop.wait > 0 && ` • wait ${Math.round(stop.wait)} min`}
+                      {stop.window && ` • window ${formatClock(stop.window.start)}–${formatClock(stop.window.end)}`}
+                      {stop.late && <span className="text-red-600 font-medium"> • late</span>}
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default DeliveryPlanner
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react'
+import ReachabilityPanel from './ReachabilityPanel'
+import { fetchIsochrones } from '../../services'
+import { useAppStore } from '../../store'
+import type { TravelMode } from '../../types'
+
+vi.mock('../../services', () => ({
+  olaApi: {},
+  fetchIsochrones: vi.fn()
+}))
+
+const contours = (mode: TravelMode) => ({
+  type: 'FeatureCollection' as const,
+  features: [{
+    type: 'Feature' as const,
+    properties: { minutes: 10, mode },
+    geometry: { type: 'Polygon' as const, coordinates: [[[77.2, 28.6], [77.21, 28.6], [77.2, 28.61], [77.2, 28.6]]] }
+  }]
+})
+
+const createMap = (styleLoaded = true) => {
+  const layers = new Set<string>()
+  const sources = new Set<string>()
+  const onLoad: (() => void)[] = []
+  return {
+    isStyleLoaded: () => styleLoaded,
+    once: vi.fn((_event: string, listener: () => void) => onLoad.push(listener)),
+    off: vi.fn(),
+    fireLoad: () => onLoad.splice(0).forEach(listener => listener()),
+    addSource: vi.fn((id: string) => sources.add(id)),
+    addLayer: vi.fn((layer: { id: string }) => layers.add(layer.id)),
+    getLayer: (id: string) => layers.has(id) || undefined,
+    getSource: (id: string) => sources.has(id) || undefined,
+    removeLayer: vi.fn((id: string) => layers.delete(id)),
+    removeSource: vi.fn((id: string) => sources.delete(id)),
+    fitBounds: vi.fn(),
+    layers
+  }
+}
+
+const initialState = useAppStore.getState()
+
+describe('ReachabilityPanel', () => {
+  beforeEach(() => {
+    useAppStore.setState(initialState, true)
+    useAppStore.setState({ toolPanel: 'reachability', travelMode: 'walking' })
+    vi.mocked(fetchIsochrones).mockImplementation(async (_api, request) => contours(request.mode))
+  })
+
+  afterEach(() => {
+    cleanup()
+    vi.clearAllMocks()
+  })
+
+  it('draws filled contours for each chosen mode from the selected place', async () => {
+    const map = createMap()
+    useAppStore.setState({ map, selectedPlace: { name: 'India Gate', address: 'Rajpath', lat: 28.6129, lng: 77.2295 } })
+    render(<ReachabilityPanel />)
+
+    expect(screen.getByText('India Gate')).toBeTruthy()
+    fireEvent.click(screen.getByLabelText('Cycling'))
+    fireEvent.change(screen.getByDisplayValue('5, 10, 15'), { target: { value: '10, 20' } })
+    await act(async () => fireEvent.click(screen.getByText('Show reachable area')))
+
+    expect(vi.mocked(fetchIsochrones).mock.calls.map(([, request]) => request)).toMatchObject([
+      { center: { lat: 28.6129, lng: 77.2295 }, mode: 'walking', minutes: [10, 20] },
+      { center: { lat: 28.6129, lng: 77.2295 }, mode: 'bicycling', minutes: [10, 20] }
+    ])
+    expect([...map.layers].sort()).toEqual([
+      'isochrone-bicycling-fill', 'isochrone-bicycling-line', 'isochrone-walking-fill', 'isochrone-walking-line'
+    ])
+
+    cleanup()
+    expect(map.layers.size).toBe(0)
+  })
+
+  it('waits for the map style before adding its layers', async () => {
+    const map = createMap(false)
+    useAppStore.setState({ map })
+    render(<ReachabilityPanel />)
+
+    await act(async () => fireEvent.click(screen.getByText('Show reachable area')))
+    expect(map.addSource).not.toHaveBeenCalled()
+
+    map.fireLoad()
+    expect([...map.layers].sort()).toEqual(['isochrone-walking-fill', 'isochrone-walking-line'])
+  })
+
+  it('asks for whole minutes within range', () => {
+    render(<ReachabilityPanel />)
+
+    fireEvent.change(screen.getByDisplayValue('5, 10, 15'), { target: { value: '5, 120' } })
+
+    expect(screen.getByText(/Enter whole minutes from 1 to 60/)).toBeTruthy()
+    expect((screen.getByText('Show reachable area') as HTMLButtonElement).disabled).toBe(true)
+  })
+})
@@ -0,0 +1,171 @@
+import { useEffect, useState } from 'react'
+import { X, Timer } from 'lucide-react'
+import { olaApi, fetchIsochrones } from '../../services'
+import { useAppStore } from '../../store'
+import type { TravelMode } from '../../types'
+import { CameraController } from '../../utils/cameraController'
+import { MAX_ISOCHRONE_MINUTES, parseMinutes } from '../../utils/isochrone'
+import { ROUTE_COLORS } from '../../utils/routeLayers'
+
+type Isochrones = Awaited<ReturnType<typeof fetchIsochrones>>
+
+const MODES: { id: TravelMode; label: string }[] = [
+  { id: 'driving', label: 'Driving' },
+  { id: 'electric_scooter', label: 'E-Scooter' },
+  { id: 'bicycling', label: 'Cycling' },
+  { id: 'walking', label: 'Walking' }
+]
+
+const layerId = (mode: TravelMode) => `isochrone-${mode}`
+
+// Shades the areas reachable from a place within a few minutes, one set of filled contours per
+// travel mode. Travel times come from the distance matrix, sampled around the origin.
+const ReachabilityPanel = () => {
+  const map = useAppStore(state => state.map)
+  const selectedPlace = useAppStore(state => state.selectedPlace)
+  const currentLocation = useAppStore(state => state.currentLocation)
+  const mapCenter = useAppStore(state => state.mapView.center)
+  const travelMode = useAppStore(state => state.travelMode)
+  const scooterTopSpeed = useAppStore(state => state.preferences.scooter_top_speed_kmh)
+  const { setToolPanel } = useAppStore.getState()
+  const [modes, setModes] = useState<TravelMode[]>([travelMode])
+  const [minutesText, setMinutesText] = useState('5, 10, 15')
+  const [results, setResults] = useState<Partial<Record<TravelMode, Isochrones>>>({})
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const origin = selectedPlace
+    ? { label: selectedPlace.name, point: { lat: selectedPlace.lat, lng: selectedPlace.lng } }
+    : currentLocation
+      ? { label: 'Your location', point: { lat: currentLocation.lat, lng: currentLocation.lng } }
+      : { label: 'Map centre', point: mapCenter }
+  const minutes = parseMinutes(minutesText)
+
+  // Draw each mode's contours, and take them off the map when the panel closes
+  useEffect(() => {
+    if (!map) return
+    const drawn = Object.keys(results) as TravelMode[]
+    const draw = () => drawn.forEach(mode => {
+      const id = layerId(mode)
+      map.addSource(id, { type: 'geojson', data: results[mode] })
+      map.addLayer({
+        id: `${id}-fill`,
+        type: 'fill',
+        source: id,
+        paint: { 'fill-color': ROUTE_COLORS[mode], 'fill-opacity': 0.15 }
+      })
+      map.addLayer({
+        id: `${id}-line`,
+        type: 'line',
+        source: id,
+        paint: { 'line-color': ROUTE_COLORS[mode], 'line-width': 1.5, 'line-opacity': 0.7 }
+      })
+    })
+
+    if (map.isStyleLoaded()) {
+      draw()
+    } else {
+      map.once('load', draw)
+    }
+    // The largest contour of each mode comes first
+    const outline = drawn.flatMap(mode => results[mode]?.features[0]?.geometry.coordinates[0] ?? [])
+    if (outline.length > 0) new CameraController(map).fitLine(outline)
+
+    return () => {
+      map.off('load', draw)
+      drawn.forEach(mode => {
+        const id = layerId(mode)
+        if (map.getLayer(`${id}-line`)) map.removeLayer(`${id}-line`)
+        if (map.getLayer(`${id}-fill`)) map.removeLayer(`${id}-fill`)
+        if (map.getSource(id)) map.removeSource(id)
+      })
+    }
+  }, [map, results])
+
+  const toggleMode = (mode: TravelMode) =>
+    setModes(current => current.includes(mode) ? current.filter(m => m !== mode) : [...current, mode])
+
+  const compute = async () => {
+    if (!minutes) return
+    setIsLoading(true)
+    setError(null)
+    try {
+      const computed = await Promise.all(modes.map(mode =>
+        fetchIsochrones(olaApi, { center: origin.point, mode, minutes, scooterTopSpeedKmh: scooterTopSpeed })
+      ))
+      setResults(Object.fromEntries(modes.map((mode, i) => [mode, computed[i]])))
+    } catch (error) {
+      setError(`Could not work out the reachable area: ${(error as Error).message}`)
+    }
+    setIsLoading(false)
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg">
+      {/* Header */}
+      <div className="flex items-center justify-between p-3 border-b">
+        <div className="flex items-center">
+          <Timer className="w-5 h-5 text-blue-600 mr-2" />
+          <h2 className="font-semibold text-gray-900">Reachability</h2>
+        </div>
+        <button
+          onClick={() => setToolPanel(null)}
+          className="text-gray-400 hover:text-gray-600"
+          title="Close reachability"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-3 space-y-3 text-sm">
+        <div>
+          <div className="text-xs text-gray-500">From</div>
+          <div className="font-medium text-gray-900 truncate">{origin.label}</div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-1">
+          {MODES.map(({ id, label }) => (
+            <label key={id} className="flex items-center text-gray-700">
+              <input
+                type="checkbox"
+                checked={modes.includes(id)}
+                onChange={() => toggleMode(id)}
+                className="mr-2"
+              />
+              <span className="inline-block w-3 h-3 rounded-sm mr-1" style={{ backgroundColor: ROUTE_COLORS[id] }} />
+              {label}
+            </label>
+          ))}
+        </div>
+
+        <label className="block">
+          <span className="text-xs text-gray-500">Minutes</span>
+          <input
+            type="text"
+            value={minutesText}
+            onChange={(e) => setMinutesText(e.target.value)}
+            className="w-full mt-1 px-2 py-1 border border-gray-300 rounded"
+          />
+        </label>
+        {!minutes && <p className="text-red-600">Enter whole minutes from 1 to {MAX_ISOCHRONE_MINUTES}, such as 5, 10, 15</p>}
+
+        <button
+          onClick={compute}
+          disabled={!minutes || modes.length === 0 || isLoading}
+          className="w-full bg-ola-green hover:bg-green-600 text-white px-3 py-2 rounded disabled:opacity-50"
+        >
+          {isLoading ? 'Working out travel times…' : 'Show reachable area'}
+        </button>
+        {error && <p className="text-red-600">{error}</p>}
+
+        {Object.keys(results).length > 0 && (
+          <button onClick={() => setResults({})} className="text-xs text-gray-500 hover:text-gray-700">
+            Clear from map
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ReachabilityPanel
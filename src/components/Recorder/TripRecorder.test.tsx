@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react'
+import TripRecorder from './TripRecorder'
+import { fetchRecordedTrips, matchTrace, saveRecordedTrip } from '../../services'
+import { useAppStore } from '../../store'
+import { decodePolyline } from '../../utils/polyline'
+
+vi.mock('../../services', () => ({
+  olaApi: {},
+  supabase: {},
+  fetchRecordedTrips: vi.fn(),
+  matchTrace: vi.fn(),
+  saveRecordedTrip: vi.fn()
+}))
+
+const fix = (north: number, seconds: number) => ({ lat: 28.6 + north * 0.001, lng: 77.2, accuracy: 5, timestamp: seconds * 1000 })
+
+const initialState = useAppStore.getState()
+
+describe('TripRecorder', () => {
+  beforeEach(() => {
+    useAppStore.setState(initialState, true)
+    useAppStore.setState({ toolPanel: 'recorder' })
+    vi.mocked(fetchRecordedTrips).mockResolvedValue([])
+    vi.mocked(matchTrace).mockImplementation(async (_api, trace) => trace.map(point => ({ lat: point.lat, lng: 77.2001 })))
+    vi.mocked(saveRecordedTrip).mockResolvedValue('trip-1')
+  })
+
+  afterEach(() => {
+    cleanup()
+    vi.restoreAllMocks()
+    vi.clearAllMocks()
+  })
+
+  it('records fixes, matches them to roads and saves the trip', async () => {
+    render(<TripRecorder />)
+
+    fireEvent.click(screen.getByText('Start recording'))
+    act(() => {
+      const { addRecordedFix } = useAppStore.getState()
+      addRecordedFix(fix(0, 0))
+      // Drift while waiting at a signal
+      addRecordedFix(fix(0.001, 5))
+      addRecordedFix(fix(1, 60))
+    })
+    expect(screen.getByText('2 points · 111 m')).toBeTruthy()
+
+    await act(async () => fireEvent.click(screen.getByTitle('Stop recording')))
+
+    expect(matchTrace).toHaveBeenCalledWith(expect.anything(), [fix(0, 0), fix(1, 60)], { enhancePath: true })
+    const [, trip] = vi.mocked(saveRecordedTrip).mock.calls[0]
+    expect(decodePolyline(trip.geometry)).toEqual([[77.2001, 28.6], [77.2001, 28.601]])
+    expect(useAppStore.getState().recording).toBeNull()
+    expect(screen.getByTitle('Hide on map')).toBeTruthy()
+  })
+
+  it('keeps an unmatched trace, and says so when it could not be saved', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.mocked(matchTrace).mockRejectedValue(new Error('Rate limited'))
+    vi.mocked(saveRecordedTrip).mockResolvedValue(null)
+    render(<TripRecorder />)
+
+    fireEvent.click(screen.getByText('Start recording'))
+    act(() => {
+      useAppStore.getState().addRecordedFix(fix(0, 0))
+      useAppStore.getState().addRecordedFix(fix(1, 60))
+    })
+    await act(async () => fireEvent.click(screen.getByTitle('Stop recording')))
+
+    const [, trip] = vi.mocked(saveRecordedTrip).mock.calls[0]
+    expect(decodePolyline(trip.geometry)).toEqual([[77.2, 28.6], [77.2, 28.601]])
+    expect(screen.getByText(/Sign in to keep recordings/)).toBeTruthy()
+  })
+
+  it('lists saved recordings for export', async () => {
+    vi.mocked(fetchRecordedTrips).mockResolvedValue([
+      { id: 'trip-9', geometry: '_p~iF~ps|U_ulLnnqC', distance: 12500, duration: 1800, startTime: Date.UTC(2024, 4, 6, 8, 30), endTime: Date.UTC(2024, 4, 6, 9) }
+    ])
+    const createObjectURL = vi.fn(() => 'blob:trip')
+    // jsdom has no object URLs and can't follow the download link
+    Object.assign(URL, { createObjectURL, revokeObjectURL: vi.fn() })
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+    render(<TripRecorder />)
+
+    expect(await screen.findByText('12.5 km · 30 min')).toBeTruthy()
+    fireEvent.click(screen.getByTitle('Export KML'))
+
+    expect(createObjectURL).toHaveBeenCalledWith(expect.any(Blob))
+    expect((click.mock.instances[0] as unknown as HTMLAnchorElement).download).toBe('trip-2024-05-06.kml')
+  })
+})
@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react'
+import { X, Disc, Square, Eye } from 'lucide-react'
+import { olaApi, supabase, fetchRecordedTrips, matchTrace, saveRecordedTrip } from '../../services'
+import { useAppStore } from '../../store'
+import ExportButtons from '../Data/ExportButtons'
+import type { RecordedTrip } from '../../types'
+import { CameraController } from '../../utils/cameraController'
+import { formatDistance, formatDuration } from '../../utils/directions'
+import type { GeoDocument } from '../../utils/geoFormats'
+import { decodePolyline, encodePolyline } from '../../utils/polyline'
+import { pathDistance } from '../../utils/traceRecorder'
+
+const TRIP_LAYER_ID = 'recorded-trip'
+
+const tripName = (trip: RecordedTrip) =>
+  new Date(trip.startTime).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })
+
+const tripDocument = (trip: RecordedTrip): GeoDocument => {
+  const name = `Trip on ${tripName(trip)}`
+  return { name, time: trip.startTime, tracks: [{ name, coordinates: decodePolyline(trip.geometry) }], points: [] }
+}
+
+// Records the device's trace, matches it to the roads with snapToRoad and keeps it in
+// navigation_sessions. Past recordings can be shown on the map or exported.
+const TripRecorder = () => {
+  const map = useAppStore(state => state.map)
+  const recording = useAppStore(state => state.recording)
+  const enhancePath = useAppStore(state => state.preferences.trace_enhance_path)
+  const { setToolPanel, startRecording, stopRecording, setPreference } = useAppStore.getState()
+  const [trips, setTrips] = useState<RecordedTrip[]>([])
+  const [viewing, setViewing] = useState<RecordedTrip | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchRecordedTrips(supabase)
+      .then(saved => setTrips(current => [...current, ...saved.filter(trip => !current.some(t => t.id === trip.id))]))
+      .catch(error => console.warn('Recorded trips unavailable:', error))
+  }, [])
+
+  // Draw the trip being viewed, and take it off the map when the panel closes
+  useEffect(() => {
+    if (!map || !viewing) return
+    const line = decodePolyline(viewing.geometry)
+    const draw = () => {
+      map.addSource(TRIP_LAYER_ID, {
+        type: 'geojson',
+        data: { type: 'Feature', properties: {}, geometry: { type: 'LineString', coordinates: line } }
+      })
+      map.addLayer({
+        id: TRIP_LAYER_ID,
+        type: 'line',
+        source: TRIP_LAYER_ID,
+        layout: { 'line-join': 'round', 'line-cap': 'round' },
+        paint: { 'line-color': '#DC2626', 'line-width': 5, 'line-opacity': 0.8 }
+      })
+    }
+
+    if (map.isStyleLoaded()) {
+      draw()
+    } else {
+      map.once('load', draw)
+    }
+    new CameraController(map).fitLine(line)
+
+    return () => {
+      map.off('load', draw)
+      if (map.getLayer(TRIP_LAYER_ID)) map.removeLayer(TRIP_LAYER_ID)
+      if (map.getSource(TRIP_LAYER_ID)) map.removeSource(TRIP_LAYER_ID)
+    }
+  }, [map, viewing])
+
+  const finish = async () => {
+    const recorded = stopRecording()
+    if (!recorded) return
+    if (recorded.fixes.length < 2) {
+      setMessage('Not enough movement was recorded to save a trip')
+      return
+    }
+
+    setIsSaving(true)
+    setMessage(null)
+    const endTime = Date.now()
+    // An unmatched trace is still worth keeping
+    const path = await matchTrace(olaApi, recorded.fixes, { enhancePath }).catch(error => {
+      console.warn('Could not match the trace to roads:', error)
+      return recorded.fixes
+    })
+    const trip = {
+      geometry: encodePolyline(path.map(point => [point.lng, point.lat])),
+      distance: pathDistance(path),
+      duration: (endTime - recorded.startedAt) / 1000,
+      startTime: recorded.startedAt,
+      endTime
+    }
+
+    let id: string | null = null
+    try {
+      id = await saveRecordedTrip(supabase, trip)
+      if (!id) setMessage('Sign in to keep recordings; this one is only kept until the app closes')
+    } catch (error) {
+      setMessage((error as Error).message)
+    }
+    const saved = { ...trip, id: id ?? `local-${trip.startTime}` }
+    setTrips(current => [saved, ...current])
+    setViewing(saved)
+    setIsSaving(false)
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg">
+      {/* Header */}
+      <div className="flex items-center justify-between p-3 border-b">
+        <div className="flex items-center">
+          <Disc className="w-5 h-5 text-red-600 mr-2" />
+          <h2 className="font-semibold text-gray-900">Trip recorder</h2>
+        </div>
+        <button
+          onClick={() => setToolPanel(null)}
+          className="text-gray-400 hover:text-gray-600"
+          title="Close recorder"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* Recording */}
+      <div className="p-3 space-y-2 border-b text-sm">
+        {recording ? (
+          <div className="flex items-center justify-between bg-red-50 rounded px-3 py-2">
+            <div>
+              <div className="font-medium text-red-700">Recording</div>
+              <div className="text-xs text-gray-600">
+                {recording.fixes.length} points · {formatDistance(pathDistance(recording.fixes))}
+              </div>
+            </div>
+            <button
+              onClick={finish}
+              className="text-red-700 hover:text-red-900"
+              title="Stop recording"
+            >
+              <Square className="w-5 h-5" />
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => {
+              setMessage(null)
+              startRecording()
+            }}
+            disabled={isSaving}
+            className="w-full bg-red-600 hover:bg-red-700 text-white px-3 py-2 rounded disabled:opacity-50"
+          >
+            {isSaving ? 'Matching to roads…' : 'Start recording'}
+          </button>
+        )}
+        <label className="flex items-center text-gray-700">
+          <input
+            type="checkbox"
+            checked={enhancePath}
+            onChange={(e) => setPreference('trace_enhance_path', e.target.checked)}
+            className="mr-2"
+          />
+          Follow road curves when matching
+        </label>
+        {message && <p className="text-gray-600">{message}</p>}
+      </div>
+
+      {/* Recorded Trips */}
+      <div className="max-h-64 overflow-y-auto">
+        {trips.length === 0 ? (
+          <p className="p-3 text-sm text-gray-500">No recorded trips yet</p>
+        ) : (
+          trips.map(trip => (
+            <div key={trip.id} className={`px-3 py-2 border-b last:border-b-0 text-sm ${viewing?.id === trip.id ? 'bg-gray-50' : ''}`}>
+              <div className="flex items-center justify-between">
+                <div className="min-w-0">
+                  <div className="font-medium text-gray-900 truncate">{tripName(trip)}</div>
+                  <div className="text-xs text-gray-500">{formatDistance(trip.distance)} · {formatDuration(trip.duration)}</div>
+                </div>
+                <button
+                  onClick={() => setViewing(viewing?.id === trip.id ? null : trip)}
+                  className="ml-2 text-gray-500 hover:text-gray-800"
+                  title={viewing?.id === trip.id ? 'Hide on map' : 'Show on map'}
+                >
+                  <Eye className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="mt-1">
+                <ExportButtons document={() => tripDocument(trip)} fileName={`trip-${new Date(trip.startTime).toISOString().slice(0, 10)}`} />
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default TripRecorder
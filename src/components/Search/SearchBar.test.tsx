@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react'
+import SearchBar from './SearchBar'
+import { olaApi } from '../../services'
+import { useAppStore } from '../../store'
+import type { SearchResult } from '../../types'
+
+vi.mock('../../services', () => ({
+  olaApi: {
+    autocomplete: vi.fn(),
+    getPlaceDetails: vi.fn(),
+    reverseGeocode: vi.fn()
+  },
+  isAbortError: (error: unknown) => error instanceof DOMException && error.name === 'AbortError'
+}))
+
+const api = vi.mocked(olaApi)
+
+const indiaGate: SearchResult = {
+  place_id: 'ola-india-gate',
+  name: 'India Gate',
+  address: 'Kartavya Path, New Delhi',
+  location: { lat: 28.6129, lng: 77.2295 },
+  place_type: 'tourist_attraction',
+  rating: 4.6
+}
+
+const initialState = useAppStore.getState()
+
+const typeQuery = (value: string) =>
+  fireEvent.change(screen.getByPlaceholderText('Search for places, addresses...'), { target: { value } })
+
+describe('SearchBar', () => {
+  beforeEach(() => {
+    useAppStore.setState(initialState, true)
+    api.autocomplete.mockResolvedValue([indiaGate])
+  })
+
+  afterEach(() => {
+    cleanup()
+    vi.restoreAllMocks()
+  })
+
+  it('shows autocomplete results for the debounced query', async () => {
+    useAppStore.setState({ currentLocation: { lat: 28.63, lng: 77.21 } })
+    render(<SearchBar onLocationSelect={vi.fn()} />)
+
+    typeQuery('Ind')
+    typeQuery('India')
+
+    expect(await screen.findByText('India Gate')).toBeTruthy()
+    expect(screen.getByText('4.6')).toBeTruthy()
+    expect(api.autocomplete).toHaveBeenCalledTimes(1)
+    expect(api.autocomplete).toHaveBeenCalledWith('India', { lat: 28.63, lng: 77.21 }, expect.objectContaining({ retries: 1 }))
+  })
+
+  it('does not search for a single character', async () => {
+    render(<SearchBar onLocationSelect={vi.fn()} />)
+
+    typeQuery('I')
+    await new Promise(resolve => setTimeout(resolve, 400))
+
+    expect(api.autocomplete).not.toHaveBeenCalled()
+  })
+
+  it('cancels the previous lookup when the query changes', async () => {
+    api.autocomplete.mockReturnValueOnce(new Promise(() => {}))
+    render(<SearchBar onLocationSelect={vi.fn()} />)
+
+    typeQuery('In')
+    await waitFor(() => expect(api.autocomplete).toHaveBeenCalledTimes(1))
+    const firstSignal = api.autocomplete.mock.calls[0][2]?.signal
+
+    typeQuery('India')
+    await screen.findByText('India Gate')
+
+    expect(firstSignal?.aborted).toBe(true)
+  })
+
+  it('selects a result and remembers it as a recent search', async () => {
+    const onLocationSelect = vi.fn()
+    render(<SearchBar onLocationSelect={onLocationSelect} />)
+
+    typeQuery('India')
+    fireEvent.click(await screen.findByText('India Gate'))
+
+    await waitFor(() => expect(onLocationSelect).toHaveBeenCalledWith({
+      lat: 28.6129,
+      lng: 77.2295,
+      address: 'Kartavya Path, New Delhi',
+      name: 'India Gate',
+      place_id: 'ola-india-gate'
+    }))
+    expect(useAppStore.getState().recentSearches[0].place_id).toBe('ola-india-gate')
+  })
+
+  it('looks up coordinates for recent searches saved without them', async () => {
+    const stale = { ...indiaGate, location: undefined } as unknown as SearchResult
+    useAppStore.setState({ recentSearches: [stale] })
+    api.getPlaceDetails.mockResolvedValue({ ...indiaGate, types: [] })
+    const onLocationSelect = vi.fn()
+    render(<SearchBar onLocationSelect={onLocationSelect} />)
+
+    fireEvent.focus(screen.getByPlaceholderText('Search for places, addresses...'))
+    fireEvent.click(await screen.findByText('India Gate'))
+
+    await waitFor(() => expect(onLocationSelect).toHaveBeenCalledWith(expect.objectContaining({ lat: 28.6129, lng: 77.2295 })))
+    expect(api.getPlaceDetails).toHaveBeenCalledWith('ola-india-gate')
+  })
+
+  it('fills in the current address from reverse geocoding', async () => {
+    api.reverseGeocode.mockResolvedValue([
+      { name: 'Connaught Place', address: 'Connaught Place, New Delhi', location: { lat: 28.6315, lng: 77.2167 }, types: [] }
+    ])
+    const onLocationSelect = vi.fn()
+    useAppStore.setState({ currentLocation: { lat: 28.6315, lng: 77.2167 } })
+    render(<SearchBar onLocationSelect={onLocationSelect} showLocateButton />)
+
+    fireEvent.click(screen.getByTitle('Use my location'))
+
+    await waitFor(() => expect(onLocationSelect).toHaveBeenCalledWith({
+      lat: 28.6315,
+      lng: 77.2167,
+      address: 'Connaught Place, New Delhi',
+      name: 'Connaught Place'
+    }))
+  })
+
+  it('falls back to a generic label when reverse geocoding fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    api.reverseGeocode.mockRejectedValue(new Error('offline'))
+    const onLocationSelect = vi.fn()
+    useAppStore.setState({ currentLocation: { lat: 28.6315, lng: 77.2167 } })
+    render(<SearchBar onLocationSelect={onLocationSelect} showLocateButton />)
+
+    fireEvent.click(screen.getByTitle('Use my location'))
+
+    await waitFor(() => expect(onLocationSelect).toHaveBeenCalledWith(expect.objectContaining({ name: 'Your Location' })))
+  })
+})
@@ -1,40 +1,36 @@
 import { useState, useEffect, useRef } from 'react'
 import { Search, MapPin, Clock, Star, Locate } from 'lucide-react'
-import { olaApi } from '../../services'
-
-interface SearchResult {
-  place_id: string
-  name: string
-  address: string
-  location: { lat: number; lng: number }
-  rating?: number
-  place_type: string
-}
+import { olaApi, isAbortError } from '../../services'
+import { useAppStore } from '../../store'
+import type { SearchResult, SelectedPlace } from '../../types'
 
 interface SearchBarProps {
-  onLocationSelect: (location: { lat: number; lng: number; address: string; name: string }) => void
-  currentLocation?: { lat: number; lng: number } | null
+  onLocationSelect: (location: SelectedPlace) => void
   showLocateButton?: boolean
   hasSelectedLocation?: boolean
+  placeholder?: string
 }
 
-const SearchBar = ({ onLocationSelect, currentLocation, showLocateButton = false, hasSelectedLocation = false }: SearchBarProps) => {
+const SearchBar = ({
+  onLocationSelect,
+  showLocateButton = false,
+  hasSelectedLocation = false,
+  placeholder = 'Search for places, addresses...'
+}: SearchBarProps) => {
+  const currentLocation = useAppStore(state => state.currentLocation)
+  const recentSearches = useAppStore(state => state.recentSearches)
+  const addRecentSearch = useAppStore(state => state.addRecentSearch)
   const [query, setQuery] = useState('')
   const [results, setResults] = useState<SearchResult[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [showResults, setShowResults] = useState(false)
-  const [recentSearches, setRecentSearches] = useState<SearchResult[]>([])
   const searchTimeoutRef = useRef<NodeJS.Timeout>()
+  const searchAbortRef = useRef<AbortController>()
   const inputRef = useRef<HTMLInputElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
 
-  useEffect(() => {
-    // Load recent searches from localStorage
-    const saved = localStorage.getItem('recent_searches')
-    if (saved) {
-      setRecentSearches(JSON.parse(saved))
-    }
-  }, [])
+  // Drop any in-flight autocomplete when the search bar unmounts
+  useEffect(() => () => searchAbortRef.current?.abort(), [])
 
   useEffect(() => {
     // Handle click outside to close search results
@@ -56,33 +52,35 @@ const SearchBar = ({ onLocationSelect, currentLocation, showLocateButton = false
     }
 
     if (query.length < 2) {
+      searchAbortRef.current?.abort()
       setResults([])
       setShowResults(false)
       return
     }
 
     searchTimeoutRef.current = setTimeout(async () => {
+      // Cancel the previous lookup so a slow response can't overwrite newer results
+      searchAbortRef.current?.abort()
+      const controller = new AbortController()
+      searchAbortRef.current = controller
+
       setIsLoading(true)
       try {
-        const response = await olaApi.autocomplete(query, currentLocation || undefined)
-        
-        // Transform Ola Maps response to our SearchResult format
-        const transformedResults: SearchResult[] = response.predictions?.map((prediction: any) => ({
-          place_id: prediction.place_id,
-          name: prediction.structured_formatting?.main_text || prediction.description,
-          address: prediction.structured_formatting?.secondary_text || prediction.description,
-          location: prediction.geometry?.location || { lat: 0, lng: 0 },
-          place_type: prediction.types?.[0] || 'place',
-          rating: prediction.rating
-        })) || []
+        const predictions = await olaApi.autocomplete(query, currentLocation || undefined, {
+          signal: controller.signal,
+          retries: 1
+        })
 
-        setResults(transformedResults)
+        setResults(predictions)
         setShowResults(true)
       } catch (error) {
+        if (isAbortError(error)) return
         console.error('Search error:', error)
         setResults([])
       } finally {
-        setIsLoading(false)
+        if (searchAbortRef.current === controller) {
+          setIsLoading(false)
+        }
       }
     }, 300)
 
@@ -95,24 +93,22 @@ const SearchBar = ({ onLocationSelect, currentLocation, showLocateButton = false
 
   const handleResultSelect = async (result: SearchResult) => {
     try {
-      // Get place details if we don't have coordinates
+      // Recent searches saved before responses were validated may lack coordinates
       let location = result.location
-      if (!location.lat || !location.lng) {
+      if (!location?.lat || !location?.lng) {
         const details = await olaApi.getPlaceDetails(result.place_id)
-        location = details.result?.geometry?.location || location
+        location = details.location
       }
 
       onLocationSelect({
         lat: location.lat,
         lng: location.lng,
         address: result.address,
-        name: result.name
+        name: result.name,
+        place_id: result.place_id
       })
 
-      // Add to recent searches
-      const updatedRecent = [result, ...recentSearches.filter(r => r.place_id !== result.place_id)].slice(0, 5)
-      setRecentSearches(updatedRecent)
-      localStorage.setItem('recent_searches', JSON.stringify(updatedRecent))
+      addRecentSearch(result)
 
       setQuery(result.name)
       setShowResults(false)
@@ -149,9 +145,9 @@ const SearchBar = ({ onLocationSelect, currentLocation, showLocateButton = false
       setIsLoading(true)
       try {
         // Use reverse geocoding to get the actual address
-        const response = await olaApi.reverseGeocode(currentLocation.lat, currentLocation.lng)
-        const address = response.results?.[0]?.formatted_address || 'Current Location'
-        const name = response.results?.[0]?.name || 'Your Location'
+        const [nearest] = await olaApi.reverseGeocode(currentLocation.lat, currentLocation.lng)
+        const address = nearest?.address || 'Current Location'
+        const name = nearest?.name || 'Your Location'
         
         onLocationSelect({
           lat: currentLocation.lat,
@@ -193,7 +189,7 @@ const SearchBar = ({ onLocationSelect, currentLocation, showLocateButton = false
             onChange={(e) => setQuery(e.target.value)}
             onFocus={handleInputFocus}
             onBlur={handleInputBlur}
-            placeholder="Search for places, addresses..."
+            placeholder={placeholder}
             className="flex-1 outline-none text-gray-800 placeholder-gray-500"
           />
           {showLocateButton && currentLocation && (
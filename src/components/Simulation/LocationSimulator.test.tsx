@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi, type Mock } from 'vitest'
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react'
+import LocationSimulator from './LocationSimulator'
+import { useAppStore } from '../../store'
+import { encodePolyline } from '../../utils/polyline'
+import type { RouteInfo } from '../../types'
+
+// Just enough of an SDK marker to see where the simulator puts it
+interface FakeMarker {
+  setLngLat: Mock<[number[]], FakeMarker>
+  addTo: () => FakeMarker
+  remove: Mock<[], void>
+}
+
+const { markers } = vi.hoisted(() => ({ markers: [] as FakeMarker[] }))
+
+vi.mock('olamaps-web-sdk', () => ({
+  OlaMaps: class {
+    addMarker() {
+      const marker: FakeMarker = { setLngLat: vi.fn((_lngLat: number[]) => marker), addTo: () => marker, remove: vi.fn() }
+      markers.push(marker)
+      return marker
+    }
+  }
+}))
+
+const route: RouteInfo = {
+  distance: '2.1 km',
+  duration: '5 min',
+  legs: [],
+  geometry: encodePolyline([[77.2, 28.6], [77.21, 28.6], [77.21, 28.61]]),
+  summary: 'Via Janpath',
+  routeIndex: 1,
+  steps: []
+}
+
+const gpx = `<gpx><trk><trkseg>
+  <trkpt lat="28.6" lon="77.2"><time>2024-03-01T09:00:00Z</time></trkpt>
+  <trkpt lat="28.601" lon="77.2"><time>2024-03-01T09:00:10Z</time></trkpt>
+</trkseg></trk></gpx>`
+
+const textFile = (name: string, text: string) => {
+  const file = new File([], name)
+  // jsdom's File has no text()
+  Object.defineProperty(file, 'text', { value: async () => text })
+  return file
+}
+
+const initialState = useAppStore.getState()
+
+describe('LocationSimulator', () => {
+  beforeEach(() => {
+    useAppStore.setState(initialState, true)
+    useAppStore.setState({ showSimulator: true })
+    markers.length = 0
+  })
+
+  afterEach(() => {
+    cleanup()
+    vi.restoreAllMocks()
+  })
+
+  it('drives the selected route at the chosen speed', () => {
+    useAppStore.setState({ routes: [route], travelMode: 'walking' })
+    render(<LocationSimulator />)
+
+    expect((screen.getByLabelText('Speed') as HTMLInputElement).value).toBe('5')
+    fireEvent.change(screen.getByLabelText('Speed'), { target: { value: '36' } })
+    fireEvent.change(screen.getByLabelText('GPS noise'), { target: { value: '0' } })
+    fireEvent.click(screen.getByText('Drive selected route'))
+
+    const simulation = useAppStore.getState().locationSimulation
+    expect(simulation).toMatchObject({ label: 'Via Janpath', paused: false })
+
+    const onFix = vi.fn()
+    simulation?.provider.start(onFix)
+    simulation?.provider.stop()
+    expect(onFix).toHaveBeenCalledWith(expect.objectContaining({ lat: 28.6, lng: 77.2, speed: 10 }))
+    expect(screen.getByText('Playing')).toBeTruthy()
+  })
+
+  it('needs a route before it can drive one', () => {
+    render(<LocationSimulator />)
+
+    expect((screen.getByText('Get directions to drive a route') as HTMLButtonElement).disabled).toBe(true)
+  })
+
+  it('replays a recorded track', async () => {
+    render(<LocationSimulator />)
+
+    fireEvent.change(screen.getByTestId('track-file'), { target: { files: [textFile('commute.gpx', gpx)] } })
+
+    expect(await screen.findByText('commute.gpx')).toBeTruthy()
+  })
+
+  it('reports tracks without points', async () => {
+    render(<LocationSimulator />)
+
+    fireEvent.change(screen.getByTestId('track-file'), { target: { files: [textFile('empty.nmea', 'nothing here')] } })
+
+    expect(await screen.findByText('No track points found in empty.nmea')).toBeTruthy()
+    expect(useAppStore.getState().locationSimulation).toBeNull()
+  })
+
+  it('pauses, and hands location back to the device when closed', () => {
+    useAppStore.setState({ routes: [route] })
+    render(<LocationSimulator />)
+    fireEvent.click(screen.getByText('Drive selected route'))
+
+    fireEvent.click(screen.getByTitle('Pause'))
+    expect(useAppStore.getState().locationSimulation?.paused).toBe(true)
+    expect(screen.getByTitle('Resume')).toBeTruthy()
+
+    fireEvent.click(screen.getByTitle('Close simulator'))
+    expect(useAppStore.getState()).toMatchObject({ showSimulator: false, locationSimulation: null })
+  })
+
+  it('marks the simulated position on the map until the simulation stops', () => {
+    useAppStore.setState({ map: {}, routes: [route] })
+    render(<LocationSimulator />)
+    fireEvent.click(screen.getByText('Drive selected route'))
+
+    act(() => useAppStore.getState().setCurrentLocation({ lat: 28.6, lng: 77.205 }))
+    expect(markers).toHaveLength(1)
+    expect(markers[0].setLngLat).toHaveBeenLastCalledWith([77.205, 28.6])
+
+    fireEvent.click(screen.getByTitle('Stop simulation'))
+    expect(markers[0].remove).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,226 @@
+import { useEffect, useRef, useState } from 'react'
+import { X, PlayCircle, Pause, Play, Square, Upload } from 'lucide-react'
+import { OlaMaps } from 'olamaps-web-sdk'
+import { ReplayLocationProvider } from '../../services'
+import { useAppStore } from '../../store'
+import type { LocationFix, TravelMode } from '../../types'
+import { decodePolyline } from '../../utils/polyline'
+import { parseTrackFile, simulateRoute } from '../../utils/trackReplay'
+
+// A typical pace for each mode, as the starting speed for a simulated drive
+const DEFAULT_SPEED_KMH: Record<TravelMode, number> = {
+  driving: 40,
+  electric_scooter: 25,
+  bicycling: 15,
+  walking: 5
+}
+
+const REPLAY_RATES = [1, 2, 5, 10]
+
+const positionElement = () => {
+  const element = document.createElement('div')
+  element.style.cssText = `
+    width: 18px;
+    height: 18px;
+    border-radius: 50%;
+    background: #7C3AED;
+    border: 3px solid white;
+    box-shadow: 0 0 0 6px rgba(124, 58, 237, 0.25);
+  `
+  return element
+}
+
+const LocationSimulator = () => {
+  const map = useAppStore(state => state.map)
+  const route = useAppStore(state => state.routes[state.selectedRoute])
+  const travelMode = useAppStore(state => state.travelMode)
+  const simulation = useAppStore(state => state.locationSimulation)
+  const currentLocation = useAppStore(state => state.currentLocation)
+  const { setShowSimulator, setLocationSimulation } = useAppStore.getState()
+  const [speedKmh, setSpeedKmh] = useState(DEFAULT_SPEED_KMH[travelMode])
+  const [noiseMetres, setNoiseMetres] = useState(5)
+  const [rate, setRate] = useState(1)
+  const [error, setError] = useState<string | null>(null)
+  const markerRef = useRef<any>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // The geolocate control only marks the device, so show the simulated position ourselves
+  useEffect(() => {
+    if (!map || !simulation || !currentLocation) return
+
+    if (!markerRef.current) {
+      markerRef.current = new OlaMaps({ apiKey: import.meta.env.VITE_OLA_MAPS_API_KEY })
+        .addMarker({ offset: [0, 0], anchor: 'center', element: positionElement() })
+        .setLngLat([currentLocation.lng, currentLocation.lat])
+        .addTo(map)
+    } else {
+      markerRef.current.setLngLat([currentLocation.lng, currentLocation.lat])
+    }
+  }, [map, simulation, currentLocation])
+
+  useEffect(() => {
+    if (simulation) return
+    markerRef.current?.remove()
+    markerRef.current = null
+  }, [simulation])
+
+  useEffect(() => () => markerRef.current?.remove(), [])
+
+  const load = (label: string, fixes: LocationFix[], replayRate: number = 1) => {
+    // Playback ends paused on the last fix; resuming starts it over
+    const provider = new ReplayLocationProvider(fixes, {
+      rate: replayRate,
+      onEnd: () => {
+        const { locationSimulation } = useAppStore.getState()
+        if (locationSimulation?.provider === provider) setLocationSimulation({ ...locationSimulation, paused: true })
+      }
+    })
+    setError(null)
+    setLocationSimulation({ label, provider, paused: false })
+  }
+
+  const driveRoute = () => {
+    if (!route) return
+    try {
+      load(route.summary, simulateRoute(decodePolyline(route.geometry), { speedKmh, noiseMetres }))
+    } catch (error) {
+      setError((error as Error).message)
+    }
+  }
+
+  const replayFile = async (file: File) => {
+    let text: string
+    try {
+      text = await file.text()
+    } catch (error) {
+      console.error('Error reading track file:', error)
+      setError(`Could not read ${file.name}`)
+      return
+    }
+
+    try {
+      load(file.name, parseTrackFile(file.name, text), rate)
+    } catch (error) {
+      setError((error as Error).message)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg">
+      {/* Header */}
+      <div className="flex items-center justify-between p-3 border-b">
+        <div className="flex items-center">
+          <PlayCircle className="w-5 h-5 text-purple-600 mr-2" />
+          <h2 className="font-semibold text-gray-900">Location simulator</h2>
+        </div>
+        <button
+          onClick={() => setShowSimulator(false)}
+          className="text-gray-400 hover:text-gray-600"
+          title="Close simulator"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* Playback */}
+      {simulation && (
+        <div className="p-3 border-b bg-purple-50 flex items-center justify-between">
+          <div className="min-w-0 mr-2">
+            <div className="text-sm font-medium text-gray-900 truncate">{simulation.label}</div>
+            <div className="text-xs text-gray-500">{simulation.paused ? 'Paused' : 'Playing'}</div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setLocationSimulation({ ...simulation, paused: !simulation.paused })}
+              className="text-purple-700 hover:text-purple-900"
+              title={simulation.paused ? 'Resume' : 'Pause'}
+            >
+              {simulation.paused ? <Play className="w-5 h-5" /> : <Pause className="w-5 h-5" />}
+            </button>
+            <button
+              onClick={() => setLocationSimulation(null)}
+              className="text-purple-700 hover:text-purple-900"
+              title="Stop simulation"
+            >
+              <Square className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Drive the Selected Route */}
+      <div className="p-3 space-y-2 border-b text-sm">
+        <div className="flex items-center gap-3">
+          <label className="flex items-center text-gray-700">
+            <input
+              type="number"
+              min={1}
+              max={200}
+              value={speedKmh}
+              onChange={(e) => setSpeedKmh(Number(e.target.value))}
+              aria-label="Speed"
+              className="w-16 border border-gray-300 rounded px-2 py-1 mr-1"
+            />
+            km/h
+          </label>
+          <label className="flex items-center text-gray-700">
+            ±
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={noiseMetres}
+              onChange={(e) => setNoiseMetres(Number(e.target.value))}
+              aria-label="GPS noise"
+              className="w-14 border border-gray-300 rounded px-2 py-1 mx-1"
+            />
+            m noise
+          </label>
+        </div>
+        <button
+          onClick={driveRoute}
+          disabled={!route}
+          className="w-full bg-purple-600 hover:bg-purple-700 text-white px-3 py-2 rounded disabled:opacity-50"
+        >
+          {route ? 'Drive selected route' : 'Get directions to drive a route'}
+        </button>
+      </div>
+
+      {/* Replay a Recording */}
+      <div className="p-3 space-y-2 text-sm">
+        <div className="flex gap-2">
+          <select
+            value={rate}
+            onChange={(e) => setRate(Number(e.target.value))}
+            aria-label="Replay speed"
+            className="border border-gray-300 rounded px-2 py-1"
+          >
+            {REPLAY_RATES.map(r => <option key={r} value={r}>{r}×</option>)}
+          </select>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex-1 flex items-center justify-center px-3 py-1 border border-gray-300 rounded hover:bg-gray-50"
+          >
+            <Upload className="w-4 h-4 mr-1" />
+            Replay GPX / NMEA
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".gpx,.nmea,.txt,.log,application/gpx+xml"
+            className="hidden"
+            data-testid="track-file"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) replayFile(file)
+              e.target.value = ''
+            }}
+          />
+        </div>
+        {error && <p className="text-red-600">{error}</p>}
+      </div>
+    </div>
+  )
+}
+
+export default LocationSimulator
@@ -1,53 +1,17 @@
 import { useEffect, useState, useRef } from 'react'
 import { OlaMaps } from 'olamaps-web-sdk'
+import { useAppStore } from '../../store'
+import { advanceSignal, getInitialCountdown, getInitialState, type SimulatedSignal } from '../../utils/signals'
 
-interface TrafficSignal {
-  id: string
-  lat: number
-  lng: number
-  name: string
-  currentState: 'red' | 'yellow' | 'green' | 'walk'
-  countdown: number
-  pedestrianWalk: boolean
-  cycleCount: number // Track cycles for walk signal timing
-  completedCycles: number // Track completed full cycles for walk timing
-}
-
-interface TrafficSignalOverlayProps {
-  map: any
-  currentLocation: { lat: number; lng: number }
-}
+type TrafficSignal = SimulatedSignal
 
-const TrafficSignalOverlay = ({ map, currentLocation }: TrafficSignalOverlayProps) => {
+const TrafficSignalOverlay = () => {
+  const map = useAppStore(state => state.map)
+  const currentLocation = useAppStore(state => state.currentLocation)
   const [trafficSignals, setTrafficSignals] = useState<TrafficSignal[]>([])
   const [signalMarkers, setSignalMarkers] = useState<any[]>([])
   const intervalRef = useRef<NodeJS.Timeout>()
 
-  // Helper functions for signal simulation with consistent timing
-  const getInitialState = (signalIndex: number): 'red' | 'yellow' | 'green' => {
-    // Use different starting states for different signals to create realistic staggering
-    const states = ['red', 'green', 'yellow'] as const
-    return states[signalIndex % 3]
-  }
-
-  const getInitialCountdown = (state: 'red' | 'yellow' | 'green' | 'walk', signalIndex: number): number => {
-    // Return random countdown within the proper range for each state
-    const baseCountdowns = {
-      red: 45,    // Red always lasts exactly 45 seconds
-      green: 30,  // Green always lasts exactly 30 seconds  
-      yellow: 6,  // Yellow always lasts exactly 6 seconds
-      walk: 20    // Walk signal lasts exactly 20 seconds
-    }
-    
-    // Start at random point in the cycle for more realistic simulation
-    const maxTime = baseCountdowns[state]
-    const minTime = Math.max(5, Math.floor(maxTime * 0.2)) // Start with at least 20% of time remaining
-    
-    // Use signalIndex as seed for consistent but different starting points
-    const seed = (signalIndex * 7 + 13) % (maxTime - minTime + 1)
-    return minTime + seed
-  }
-
   useEffect(() => {
     if (!map || !currentLocation) return
 
@@ -157,78 +121,7 @@ const TrafficSignalOverlay = ({ map, currentLocation }: TrafficSignalOverlayProp
   }
 
   const updateSignalStates = () => {
-    setTrafficSignals(prev => prev.map(signal => {
-      let newCountdown = signal.countdown - 1
-      let newState = signal.currentState
-      let newPedestrianWalk = false
-      let newCycleCount = signal.cycleCount
-      let newCompletedCycles = signal.completedCycles || 0
-
-      // When countdown reaches 0, change state according to the exact sequence
-      if (newCountdown <= 0) {
-        switch (signal.currentState) {
-          case 'red':
-            // Red (45s) → Green (30s)
-            newState = 'green'
-            newCountdown = 30
-            console.log(`Signal ${signal.id}: Red → Green, countdown: ${newCountdown}`)
-            break
-            
-          case 'green':
-            // Green (30s) → Yellow (6s)  
-            newState = 'yellow'
-            newCountdown = 6
-            console.log(`Signal ${signal.id}: Green → Yellow, countdown: ${newCountdown}`)
-            break
-            
-          case 'yellow':
-            // Yellow (6s) → Check if 2 cycles completed for walk signal
-            newCompletedCycles = newCompletedCycles + 1
-            
-            if (newCompletedCycles >= 2) {
-              // After 2 complete cycles, show walk signal for 20 seconds
-              newState = 'walk'
-              newCountdown = 20
-              newPedestrianWalk = true
-              newCompletedCycles = 0 // Reset completed cycles
-              console.log(`Signal ${signal.id}: Yellow → Walk (after 2 cycles), countdown: ${newCountdown}`)
-            } else {
-              // Normal cycle: Yellow → Red (45s)
-              newState = 'red'
-              newCountdown = 45
-              console.log(`Signal ${signal.id}: Yellow → Red, countdown: ${newCountdown}, completed cycles: ${newCompletedCycles}`)
-            }
-            break
-            
-          case 'walk':
-            // Walk (20s) → Red (45s) to start new cycle
-            newState = 'red'
-            newCountdown = 45
-            newPedestrianWalk = false
-            console.log(`Signal ${signal.id}: Walk → Red, countdown: ${newCountdown}`)
-            break
-        }
-      } else {
-        // Maintain pedestrian walk state during walk phase
-        if (signal.currentState === 'walk') {
-          newPedestrianWalk = true
-        }
-        
-        // Debug logging for countdown
-        if (signal.countdown % 10 === 0 || signal.countdown <= 5) {
-          console.log(`Signal ${signal.id}: ${signal.currentState} countdown: ${newCountdown}`)
-        }
-      }
-
-      return {
-        ...signal,
-        currentState: newState,
-        countdown: newCountdown,
-        pedestrianWalk: newPedestrianWalk,
-        cycleCount: newCycleCount,
-        completedCycles: newCompletedCycles
-      }
-    }))
+    setTrafficSignals(prev => prev.map(advanceSignal))
   }
 
   const fetchTrafficSignals = async () => {
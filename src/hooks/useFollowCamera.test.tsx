@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { act, cleanup, renderHook } from '@testing-library/react'
+import { useFollowCamera } from './useFollowCamera'
+import { useAppStore } from '../store'
+
+const createMap = () => ({
+  on: vi.fn(),
+  off: vi.fn(),
+  easeTo: vi.fn()
+})
+
+const initialState = useAppStore.getState()
+
+const moveTo = (heading: number) =>
+  act(() => useAppStore.getState().setCurrentLocation({ lat: 28.6, lng: 77.2, heading }))
+
+describe('useFollowCamera', () => {
+  let map: ReturnType<typeof createMap>
+
+  beforeEach(() => {
+    useAppStore.setState(initialState, true)
+    map = createMap()
+    useAppStore.setState({ map })
+  })
+
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('follows the driver heading-up once navigation starts', () => {
+    renderHook(() => useFollowCamera())
+    moveTo(45)
+    expect(map.easeTo).not.toHaveBeenCalled()
+
+    act(() => useAppStore.getState().startNavigation())
+    moveTo(90)
+
+    expect(map.easeTo).toHaveBeenLastCalledWith(expect.objectContaining({ center: [77.2, 28.6], bearing: 90, pitch: 55 }))
+  })
+
+  it('lets go when the map is dragged, until re-centred', () => {
+    useAppStore.getState().startNavigation()
+    renderHook(() => useFollowCamera())
+    const onDragStart = map.on.mock.calls.find(([event]) => event === 'dragstart')?.[1] as () => void
+
+    act(() => onDragStart())
+    map.easeTo.mockClear()
+    moveTo(90)
+    expect(map.easeTo).not.toHaveBeenCalled()
+
+    act(() => useAppStore.getState().setFollowMode('north-up'))
+    expect(map.easeTo).toHaveBeenLastCalledWith(expect.objectContaining({ bearing: 0 }))
+  })
+})
@@ -0,0 +1,26 @@
+import { useEffect, useMemo } from 'react'
+import { useAppStore } from '../store'
+import { CameraController } from '../utils/cameraController'
+
+// Keeps the camera on the driver while navigating; panning the map by hand lets go
+export const useFollowCamera = () => {
+  const map = useAppStore(state => state.map)
+  const isNavigating = useAppStore(state => state.isNavigating)
+  const isFollowing = useAppStore(state => state.isFollowing)
+  const followMode = useAppStore(state => state.followMode)
+  const currentLocation = useAppStore(state => state.currentLocation)
+  const camera = useMemo(() => (map ? new CameraController(map) : null), [map])
+
+  useEffect(() => {
+    if (!map || !isNavigating) return
+    // Only user gestures start a drag; the camera's own moves don't
+    const onDragStart = () => useAppStore.getState().setFollowing(false)
+    map.on('dragstart', onDragStart)
+    return () => map.off('dragstart', onDragStart)
+  }, [map, isNavigating])
+
+  useEffect(() => {
+    if (!camera || !isNavigating || !isFollowing || !currentLocation) return
+    camera.follow(currentLocation, followMode, useAppStore.getState().mapView)
+  }, [camera, isNavigating, isFollowing, followMode, currentLocation])
+}
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react'
+import { useSpeedLimits } from './useSpeedLimits'
+import { fetchSpeedLimitSegments } from '../services'
+import { useAppStore } from '../store'
+import type { RouteInfo } from '../types'
+import type { NavigationProgress } from '../utils/turnByTurn'
+
+vi.mock('../services', () => ({
+  olaApi: {},
+  fetchSpeedLimitSegments: vi.fn(),
+  isAbortError: (error: unknown) => error instanceof DOMException && error.name === 'AbortError'
+}))
+
+const route: RouteInfo = {
+  distance: '2.0 km',
+  duration: '4 min',
+  legs: [],
+  steps: [],
+  geometry: 'encoded',
+  summary: 'Via Janpath',
+  routeIndex: 1
+}
+
+const progress = (along: number): NavigationProgress => ({
+  position: { lat: 28.6, lng: 77.2 },
+  segmentIndex: 0,
+  along,
+  stepIndex: 0,
+  distanceToManeuver: 500,
+  distanceRemaining: 2000 - along,
+  distanceFromRoute: 0,
+  offRoute: false,
+  arrived: false
+})
+
+// A fix at a speed in km/h, and the progress the turn-by-turn hook would work out from it
+const driveAt = (kmh: number, along: number, timestamp: number) => act(() => {
+  const { setCurrentLocation, setNavigationProgress } = useAppStore.getState()
+  setCurrentLocation({ lat: 28.6, lng: 77.2 + along / 100000, speed: kmh / 3.6, timestamp })
+  setNavigationProgress(progress(along))
+})
+
+const initialState = useAppStore.getState()
+
+describe('useSpeedLimits', () => {
+  beforeEach(() => {
+    useAppStore.setState(initialState, true)
+    useAppStore.setState({ routes: [route], isNavigating: true })
+    vi.mocked(fetchSpeedLimitSegments).mockResolvedValue([
+      { start: 0, end: 1000, limit: 50 },
+      { start: 1000, end: 2000, limit: 30 }
+    ])
+  })
+
+  afterEach(() => {
+    cleanup()
+    vi.clearAllMocks()
+  })
+
+  it('fetches the limits along the route once navigation starts', async () => {
+    renderHook(() => useSpeedLimits())
+
+    await waitFor(() => expect(useAppStore.getState().speedLimits).toHaveLength(2))
+    expect(fetchSpeedLimitSegments).toHaveBeenCalledWith(expect.anything(), 'encoded', expect.objectContaining({ priority: 'low' }))
+  })
+
+  it('records each spell over the limit plus the tolerance', async () => {
+    renderHook(() => useSpeedLimits())
+    await waitFor(() => expect(useAppStore.getState().speedLimits).toHaveLength(2))
+
+    driveAt(54, 100, 1000)
+    driveAt(58, 200, 2000)
+    driveAt(62, 300, 3000)
+    driveAt(48, 400, 4000)
+    // 34 km/h is within the tolerance of the 30 limit; 40 is not
+    driveAt(34, 1100, 5000)
+    driveAt(40, 1200, 6000)
+
+    expect(useAppStore.getState().overSpeedEvents).toEqual([
+      { startedAt: 2000, endedAt: 4000, lat: 28.6, lng: 77.202, limit: 50, maxSpeed: 62 },
+      { startedAt: 6000, endedAt: null, lat: 28.6, lng: 77.212, limit: 30, maxSpeed: 40 }
+    ])
+  })
+
+  it('leaves walkers and cyclists alone', () => {
+    useAppStore.setState({ travelMode: 'bicycling' })
+    renderHook(() => useSpeedLimits())
+
+    expect(fetchSpeedLimitSegments).not.toHaveBeenCalled()
+  })
+})
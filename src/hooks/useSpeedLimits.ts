@@ -0,0 +1,44 @@
+import { useEffect } from 'react'
+import { olaApi, isAbortError, fetchSpeedLimitSegments } from '../services'
+import { useAppStore } from '../store'
+import { followsSpeedLimits, isOverSpeed, speedLimitAt } from '../utils/speedLimits'
+
+// Fetches the speed limits along the route being navigated, and records each spell of driving
+// over the limit by more than the tolerance in the user's preferences
+export const useSpeedLimits = () => {
+  const isNavigating = useAppStore(state => state.isNavigating && followsSpeedLimits(state.travelMode))
+  const geometry = useAppStore(state => state.routes[state.selectedRoute]?.geometry)
+  const progress = useAppStore(state => state.navigationProgress)
+
+  useEffect(() => {
+    if (!isNavigating || !geometry) return
+
+    const controller = new AbortController()
+    fetchSpeedLimitSegments(olaApi, geometry, { signal: controller.signal, priority: 'low' })
+      .then(segments => useAppStore.getState().setSpeedLimits(segments))
+      .catch(error => {
+        if (!isAbortError(error)) console.warn('Speed limits unavailable:', error)
+      })
+    return () => controller.abort()
+  }, [isNavigating, geometry])
+
+  useEffect(() => {
+    if (!isNavigating || !progress) return
+
+    const { currentLocation, speedLimits, overSpeedEvents, preferences, recordOverSpeed } = useAppStore.getState()
+    const last = overSpeedEvents[overSpeedEvents.length - 1]
+    const open = last && last.endedAt === null ? last : null
+    const now = currentLocation?.timestamp ?? Date.now()
+    // Off the route, the limit along it says nothing about the road being driven
+    const limit = progress.offRoute ? null : speedLimitAt(speedLimits, progress.along)
+    const speed = currentLocation?.speed != null ? currentLocation.speed * 3.6 : null
+
+    if (currentLocation && limit !== null && speed !== null && isOverSpeed(speed, limit, preferences.speed_alert_tolerance_kmh)) {
+      recordOverSpeed(open
+        ? { ...open, maxSpeed: Math.max(open.maxSpeed, speed) }
+        : { startedAt: now, endedAt: null, lat: currentLocation.lat, lng: currentLocation.lng, limit, maxSpeed: speed })
+    } else if (open) {
+      recordOverSpeed({ ...open, endedAt: now })
+    }
+  }, [progress])
+}
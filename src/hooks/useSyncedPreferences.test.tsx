@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { act, cleanup, renderHook } from '@testing-library/react'
+import { useSyncedPreferences } from './useSyncedPreferences'
+import { fetchSyncedPreferences, saveSyncedPreferences } from '../services'
+import { useAppStore } from '../store'
+
+vi.mock('../services', () => ({
+  fetchSyncedPreferences: vi.fn(),
+  saveSyncedPreferences: vi.fn(async () => true),
+  supabase: {}
+}))
+
+const initialState = useAppStore.getState()
+
+describe('useSyncedPreferences', () => {
+  beforeEach(() => {
+    useAppStore.setState(initialState, true)
+  })
+
+  afterEach(() => {
+    cleanup()
+    vi.clearAllMocks()
+  })
+
+  it('loads the account settings and saves later changes back', async () => {
+    vi.mocked(fetchSyncedPreferences).mockResolvedValue({ route_avoid: ['tolls'] })
+    renderHook(() => useSyncedPreferences({} as never))
+    await act(async () => {})
+
+    expect(useAppStore.getState().preferences.route_avoid).toEqual(['tolls'])
+    expect(saveSyncedPreferences).not.toHaveBeenCalled()
+
+    act(() => useAppStore.getState().setPreference('route_avoid', ['tolls', 'ferries']))
+
+    expect(saveSyncedPreferences).toHaveBeenCalledWith({}, { route_avoid: ['tolls', 'ferries'], avoid_areas: [] })
+  })
+
+  it('keeps changes local while signed out', async () => {
+    vi.mocked(fetchSyncedPreferences).mockResolvedValue(null)
+    renderHook(() => useSyncedPreferences({} as never))
+    await act(async () => {})
+
+    act(() => useAppStore.getState().setPreference('route_avoid', ['highways']))
+
+    expect(saveSyncedPreferences).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,32 @@
+import { useEffect, useRef } from 'react'
+import { fetchSyncedPreferences, saveSyncedPreferences, supabase, type SyncedPreferences } from '../services'
+import { useAppStore } from '../store'
+
+// Loads the signed-in user's avoid settings from their account, then saves them back whenever
+// they change. Signed out, they live only in this browser's storage.
+export const useSyncedPreferences = (client: Parameters<typeof fetchSyncedPreferences>[0] = supabase) => {
+  const routeAvoid = useAppStore(state => state.preferences.route_avoid)
+  const avoidAreas = useAppStore(state => state.preferences.avoid_areas)
+  // What the account holds; null until loaded, and for as long as nobody is signed in
+  const syncedRef = useRef<SyncedPreferences | null>(null)
+
+  useEffect(() => {
+    fetchSyncedPreferences(client)
+      .then(saved => {
+        if (!saved) return
+        const { setPreferences } = useAppStore.getState()
+        setPreferences(saved)
+        const { route_avoid, avoid_areas } = useAppStore.getState().preferences
+        syncedRef.current = { route_avoid, avoid_areas }
+      })
+      .catch(error => console.warn('Synced preferences unavailable:', error))
+  }, [])
+
+  useEffect(() => {
+    const synced = syncedRef.current
+    if (!synced || (synced.route_avoid === routeAvoid && synced.avoid_areas === avoidAreas)) return
+    const preferences = { route_avoid: routeAvoid, avoid_areas: avoidAreas }
+    syncedRef.current = preferences
+    saveSyncedPreferences(client, preferences).catch(error => console.warn('Preferences not saved:', error))
+  }, [routeAvoid, avoidAreas])
+}
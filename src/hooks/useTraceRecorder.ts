@@ -0,0 +1,13 @@
+import { useEffect } from 'react'
+import { useAppStore } from '../store'
+
+// Feeds each location fix into the trip recording while one is running, whether or not the
+// recorder panel is open
+export const useTraceRecorder = () => {
+  const isRecording = useAppStore(state => state.recording !== null)
+  const currentLocation = useAppStore(state => state.currentLocation)
+
+  useEffect(() => {
+    if (isRecording && currentLocation) useAppStore.getState().addRecordedFix(currentLocation)
+  }, [isRecording, currentLocation])
+}
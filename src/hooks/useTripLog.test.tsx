@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { act, cleanup, renderHook } from '@testing-library/react'
+import { useTripLog } from './useTripLog'
+import { recordTrip } from '../services'
+import { useAppStore } from '../store'
+import type { RouteInfo } from '../types'
+
+vi.mock('../services', () => ({
+  recordTrip: vi.fn(async () => true),
+  supabase: {}
+}))
+
+const place = (name: string, lat: number, lng: number) => ({ name, address: `${name}, New Delhi`, lat, lng })
+
+const route: RouteInfo = {
+  distance: '3.5 km',
+  duration: '10 min',
+  legs: [{ distance: '3.5 km', duration: '10 min', distanceMetres: 3500, durationSeconds: 600 }],
+  steps: [],
+  geometry: 'encoded',
+  summary: 'Via Janpath',
+  routeIndex: 1
+}
+
+const initialState = useAppStore.getState()
+
+describe('useTripLog', () => {
+  beforeEach(() => {
+    useAppStore.setState(initialState, true)
+    useAppStore.setState({ origin: place('Connaught Place', 28.6315, 77.2167), destination: place('India Gate', 28.6129, 77.2295), routes: [route] })
+  })
+
+  afterEach(() => {
+    cleanup()
+    vi.clearAllMocks()
+  })
+
+  it('saves the trip from where it started, closing a spell still over the limit', () => {
+    renderHook(() => useTripLog({} as never))
+    const origin = useAppStore.getState().origin
+
+    act(() => useAppStore.getState().startNavigation())
+    act(() => {
+      const { applyReroute, recordOverSpeed } = useAppStore.getState()
+      applyReroute(place('Current location', 28.62, 77.22), [], [route])
+      recordOverSpeed({ startedAt: 1000, endedAt: null, lat: 28.62, lng: 77.22, limit: 50, maxSpeed: 61 })
+    })
+    act(() => useAppStore.getState().stopNavigation())
+
+    expect(recordTrip).toHaveBeenCalledTimes(1)
+    const [, trip] = vi.mocked(recordTrip).mock.calls[0]
+    expect(trip).toMatchObject({ start: origin, estimatedDuration: 600, distance: 3500, status: 'cancelled' })
+    expect(trip.overSpeedEvents).toEqual([expect.objectContaining({ startedAt: 1000, endedAt: trip.endTime })])
+  })
+
+  it('marks the trip completed once the driver has arrived', () => {
+    renderHook(() => useTripLog({} as never))
+
+    act(() => useAppStore.getState().startNavigation())
+    act(() => useAppStore.getState().setNavigationProgress({
+      position: { lat: 28.6129, lng: 77.2295 },
+      segmentIndex: 0,
+      along: 3500,
+      stepIndex: 0,
+      distanceToManeuver: 0,
+      distanceRemaining: 0,
+      distanceFromRoute: 0,
+      offRoute: false,
+      arrived: true
+    }))
+    act(() => useAppStore.getState().stopNavigation())
+
+    expect(vi.mocked(recordTrip).mock.calls[0][1].status).toBe('completed')
+  })
+})
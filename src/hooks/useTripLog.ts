@@ -0,0 +1,56 @@
+import { useEffect, useRef } from 'react'
+import { recordTrip, supabase } from '../services'
+import { useAppStore } from '../store'
+import type { SelectedPlace } from '../types'
+
+interface TripStart {
+  start: SelectedPlace
+  startTime: number
+  estimatedDuration: number
+  distance: number
+}
+
+// Saves each navigated trip to navigation_sessions when navigation ends: completed once the
+// driver has arrived, cancelled otherwise
+export const useTripLog = (client: Parameters<typeof recordTrip>[0] = supabase) => {
+  const isNavigating = useAppStore(state => state.isNavigating)
+  const arrived = useAppStore(state => state.navigationProgress?.arrived ?? false)
+  const tripRef = useRef<TripStart | null>(null)
+  const arrivedRef = useRef(false)
+
+  // Reroutes replace the origin and routes, so the trip is captured as it starts
+  useEffect(() => {
+    const state = useAppStore.getState()
+    if (isNavigating) {
+      const route = state.routes[state.selectedRoute]
+      if (!state.origin || !route) return
+      tripRef.current = {
+        start: state.origin,
+        startTime: Date.now(),
+        estimatedDuration: route.legs.reduce((total, leg) => total + leg.durationSeconds, 0),
+        distance: route.legs.reduce((total, leg) => total + leg.distanceMetres, 0)
+      }
+      arrivedRef.current = false
+      return
+    }
+
+    const trip = tripRef.current
+    tripRef.current = null
+    if (!trip || !state.destination) return
+
+    const endTime = Date.now()
+    recordTrip(client, {
+      ...trip,
+      end: state.destination,
+      actualDuration: (endTime - trip.startTime) / 1000,
+      endTime,
+      status: arrivedRef.current ? 'completed' : 'cancelled',
+      // A spell still going when navigation ended finishes there
+      overSpeedEvents: state.overSpeedEvents.map(event => (event.endedAt === null ? { ...event, endedAt: endTime } : event))
+    }).catch(error => console.warn('Trip not saved:', error))
+  }, [isNavigating])
+
+  useEffect(() => {
+    if (arrived) arrivedRef.current = true
+  }, [arrived])
+}
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react'
+import { useTurnByTurn } from './useTurnByTurn'
+import { olaApi } from '../services'
+import { useAppStore } from '../store'
+import { parseDirections } from '../services/olaParsers'
+import { encodePolyline } from '../utils/polyline'
+import directionsFixture from '../services/mock/fixtures/directions.json'
+import type { LocationFix, RouteInfo } from '../types'
+
+vi.mock('../services', () => ({
+  olaApi: { getDirections: vi.fn() },
+  planScooterRoutes: vi.fn(),
+  isAbortError: (error: unknown) => error instanceof DOMException && error.name === 'AbortError'
+}))
+
+const api = vi.mocked(olaApi)
+const initialState = useAppStore.getState()
+
+const place = (name: string, lat: number, lng: number) => ({ name, address: `${name}, New Delhi`, lat, lng })
+
+// East along 28.6°N, then north
+const route: RouteInfo = {
+  distance: '2.1 km',
+  duration: '5 min',
+  legs: [],
+  geometry: encodePolyline([[77.2, 28.6], [77.21, 28.6], [77.21, 28.61]]),
+  summary: 'Via Janpath',
+  routeIndex: 1,
+  steps: [
+    { instruction: 'Head east on Janpath', distance: 977, duration: 120, start_location: { lat: 28.6, lng: 77.2 }, end_location: { lat: 28.6, lng: 77.21 } },
+    { instruction: 'Turn left onto Rajpath', distance: 1112, duration: 150, start_location: { lat: 28.6, lng: 77.21 }, end_location: { lat: 28.61, lng: 77.21 } }
+  ]
+}
+
+const moveTo = (fix: LocationFix) => act(() => useAppStore.getState().setCurrentLocation(fix))
+
+describe('useTurnByTurn', () => {
+  beforeEach(() => {
+    useAppStore.setState(initialState, true)
+    useAppStore.setState({
+      origin: place('Start', 28.6, 77.2),
+      destination: place('End', 28.61, 77.21),
+      waypoints: [place('Behind', 28.6, 77.203), place('Ahead', 28.605, 77.21)],
+      routes: [route],
+      isNavigating: true
+    })
+    api.getDirections.mockResolvedValue(parseDirections(directionsFixture))
+  })
+
+  afterEach(() => {
+    cleanup()
+    vi.restoreAllMocks()
+  })
+
+  it('tracks progress along the selected route', () => {
+    renderHook(() => useTurnByTurn())
+
+    moveTo({ lat: 28.6, lng: 77.205, heading: 90 })
+
+    const progress = useAppStore.getState().navigationProgress
+    expect(progress).toMatchObject({ stepIndex: 0, offRoute: false })
+    expect(progress?.distanceToManeuver).toBeCloseTo(488, -1)
+  })
+
+  it('ignores fixes while not navigating', () => {
+    useAppStore.setState({ isNavigating: false })
+    renderHook(() => useTurnByTurn())
+
+    moveTo({ lat: 28.6, lng: 77.205 })
+
+    expect(useAppStore.getState().navigationProgress).toBeNull()
+  })
+
+  it('reroutes from the current position after consecutive off-route fixes', async () => {
+    renderHook(() => useTurnByTurn())
+    moveTo({ lat: 28.6, lng: 77.206, heading: 90 })
+
+    moveTo({ lat: 28.59, lng: 77.207, heading: 180 })
+    expect(api.getDirections).not.toHaveBeenCalled()
+    moveTo({ lat: 28.589, lng: 77.207, heading: 180 })
+
+    await waitFor(() => expect(useAppStore.getState().origin?.name).toBe('Current location'))
+    expect(api.getDirections).toHaveBeenCalledTimes(1)
+    expect(api.getDirections).toHaveBeenCalledWith(
+      expect.objectContaining({ lat: 28.589, lng: 77.207 }),
+      expect.objectContaining({ name: 'End' }),
+      'driving',
+      [expect.objectContaining({ name: 'Ahead' })],
+      expect.objectContaining({ priority: 'high' })
+    )
+
+    const state = useAppStore.getState()
+    expect(state.waypoints.map(w => w.name)).toEqual(['Ahead'])
+    expect(state.routes[0].summary).toBe('Via Janpath, Kartavya Path')
+    expect(state.isRerouting).toBe(false)
+    expect(state.isNavigating).toBe(true)
+  })
+
+  it('keeps going on the old route when rerouting fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    api.getDirections.mockRejectedValue(new Error('offline'))
+    renderHook(() => useTurnByTurn())
+
+    moveTo({ lat: 28.59, lng: 77.207 })
+    moveTo({ lat: 28.589, lng: 77.207 })
+
+    await waitFor(() => expect(api.getDirections).toHaveBeenCalled())
+    await waitFor(() => expect(useAppStore.getState().isRerouting).toBe(false))
+    expect(useAppStore.getState().routes).toEqual([route])
+  })
+})
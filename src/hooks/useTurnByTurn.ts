@@ -0,0 +1,87 @@
+import { useEffect, useMemo, useRef } from 'react'
+import { olaApi, isAbortError, planScooterRoutes } from '../services'
+import { useAppStore } from '../store'
+import type { LocationFix, SelectedPlace } from '../types'
+import { rankByAvoidAreas } from '../utils/avoidAreas'
+import { directionsMode, toRouteInfo } from '../utils/directions'
+import { snapToLine } from '../utils/geo'
+import { prepareTrack, trackProgress, type NavigationTrack } from '../utils/turnByTurn'
+
+// Consecutive off-route fixes before rerouting, so one bad GPS reading doesn't trigger it
+export const OFF_ROUTE_CONFIRMATIONS = 2
+
+// Fetches a new route from where the driver is now, dropping the stops already passed
+const reroute = async (fix: LocationFix, track: NavigationTrack, along: number, signal: AbortSignal) => {
+  const { destination, waypoints, travelMode, preferences, setRerouting, applyReroute } = useAppStore.getState()
+  if (!destination) return
+
+  const remaining = waypoints.filter(waypoint => snapToLine(track.line, waypoint).along > along)
+  const here: SelectedPlace = {
+    lat: fix.lat,
+    lng: fix.lng,
+    name: 'Current location',
+    address: `${fix.lat.toFixed(5)},${fix.lng.toFixed(5)}`
+  }
+
+  setRerouting(true)
+  try {
+    const response = await olaApi.getDirections(
+      here,
+      destination,
+      directionsMode(travelMode),
+      remaining.length > 0 ? remaining : undefined,
+      { signal, priority: 'high', avoid: preferences.route_avoid }
+    )
+    if (response.routes.length === 0) throw new Error('No route from the current location')
+    const routes = travelMode === 'electric_scooter'
+      ? await planScooterRoutes(olaApi, response.routes.map(toRouteInfo), preferences, { signal, priority: 'high' })
+      : response.routes.map(toRouteInfo)
+    applyReroute(here, remaining, rankByAvoidAreas(routes, preferences.avoid_areas))
+  } catch (error) {
+    if (isAbortError(error)) return
+    console.error('Error rerouting:', error)
+    setRerouting(false)
+  }
+}
+
+// Follows location fixes along the selected route while navigation is active
+export const useTurnByTurn = () => {
+  const isNavigating = useAppStore(state => state.isNavigating)
+  const currentLocation = useAppStore(state => state.currentLocation)
+  const route = useAppStore(state => state.routes[state.selectedRoute])
+  const offRouteCountRef = useRef(0)
+  const rerouteAbortRef = useRef<AbortController>()
+
+  const track = useMemo(() => (route?.geometry ? prepareTrack(route) : null), [route])
+
+  // A new route (selected, or fetched by a reroute) starts a fresh count
+  useEffect(() => {
+    offRouteCountRef.current = 0
+  }, [track])
+
+  useEffect(() => {
+    if (!isNavigating) {
+      rerouteAbortRef.current?.abort()
+      offRouteCountRef.current = 0
+    }
+  }, [isNavigating])
+
+  useEffect(() => () => rerouteAbortRef.current?.abort(), [])
+
+  useEffect(() => {
+    if (!isNavigating || !currentLocation || !track) return
+
+    const { navigationProgress, isRerouting, setNavigationProgress } = useAppStore.getState()
+    const progress = trackProgress(track, currentLocation, navigationProgress)
+    setNavigationProgress(progress)
+
+    offRouteCountRef.current = progress.offRoute ? offRouteCountRef.current + 1 : 0
+    if (offRouteCountRef.current < OFF_ROUTE_CONFIRMATIONS || isRerouting) return
+
+    offRouteCountRef.current = 0
+    const controller = new AbortController()
+    rerouteAbortRef.current = controller
+    // Stops behind the last on-route position have been visited
+    reroute(currentLocation, track, navigationProgress?.along ?? 0, controller.signal)
+  }, [currentLocation, track, isNavigating])
+}
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { act, cleanup, render, screen, waitFor } from '@testing-library/react'
+import { MemoryRouter, useLocation } from 'react-router-dom'
+import { useUrlSync } from './useUrlSync'
+import { olaApi } from '../services'
+import { useAppStore } from '../store'
+
+vi.mock('../services', () => ({
+  olaApi: { getPlaceDetails: vi.fn() },
+  isAbortError: (error: unknown) => error instanceof DOMException && error.name === 'AbortError'
+}))
+
+const api = vi.mocked(olaApi)
+const initialState = useAppStore.getState()
+
+const Probe = () => {
+  useUrlSync()
+  const location = useLocation()
+  return <output>{location.pathname + location.search}</output>
+}
+
+const renderAt = (url: string) => render(
+  <MemoryRouter initialEntries={[url]}>
+    <Probe />
+  </MemoryRouter>
+)
+
+const currentUrl = () => screen.getByRole('status').textContent
+
+describe('useUrlSync', () => {
+  beforeEach(() => {
+    useAppStore.setState(initialState, true)
+  })
+
+  afterEach(() => {
+    cleanup()
+    vi.restoreAllMocks()
+  })
+
+  it('writes the map view to the root URL', async () => {
+    renderAt('/')
+
+    await waitFor(() => expect(currentUrl()).toBe('/@28.7041,77.1025,12z'))
+  })
+
+  it('restores the map view from the URL', async () => {
+    const map = { jumpTo: vi.fn() }
+    useAppStore.setState({ map })
+
+    renderAt('/@12.97159,77.59456,15z,30h,45t')
+
+    await waitFor(() => expect(useAppStore.getState().mapView).toEqual({
+      center: { lat: 12.97159, lng: 77.59456 },
+      zoom: 15,
+      bearing: 30,
+      pitch: 45
+    }))
+    expect(map.jumpTo).toHaveBeenCalledWith({ center: [77.59456, 12.97159], zoom: 15, bearing: 30, pitch: 45 })
+    expect(currentUrl()).toBe('/@12.97159,77.59456,15z,30h,45t')
+  })
+
+  it('follows panning', async () => {
+    renderAt('/@28.6,77.2,14z')
+    await waitFor(() => expect(useAppStore.getState().mapView.zoom).toBe(14))
+
+    act(() => useAppStore.getState().setMapView({ center: { lat: 28.65, lng: 77.25 }, zoom: 16 }))
+
+    await waitFor(() => expect(currentUrl()).toBe('/@28.65,77.25,16z'))
+  })
+
+  it('opens the navigation panel pre-filled from a directions link', async () => {
+    renderAt('/dir/Connaught%20Place@28.6315,77.2167/India%20Gate@28.6129,77.2295?mode=walking&via=28.62%2C77.22')
+
+    await waitFor(() => expect(useAppStore.getState().showNavigation).toBe(true))
+    expect(useAppStore.getState()).toMatchObject({
+      origin: { name: 'Connaught Place', lat: 28.6315 },
+      destination: { name: 'India Gate', lng: 77.2295 },
+      waypoints: [{ lat: 28.62, lng: 77.22 }],
+      travelMode: 'walking'
+    })
+    expect(currentUrl()).toBe('/dir/Connaught%20Place@28.6315,77.2167/India%20Gate@28.6129,77.2295?mode=walking&via=28.62%2C77.22')
+  })
+
+  it('updates the directions link when the travel mode changes', async () => {
+    renderAt('/dir/28.6315,77.2167/28.6129,77.2295')
+    await waitFor(() => expect(useAppStore.getState().showNavigation).toBe(true))
+
+    act(() => useAppStore.getState().setTravelMode('bicycling'))
+
+    await waitFor(() => expect(currentUrl()).toBe('/dir/28.6315,77.2167/28.6129,77.2295?mode=bicycling'))
+  })
+
+  it('opens the place card for a place link', async () => {
+    api.getPlaceDetails.mockResolvedValue({
+      place_id: 'ola-india-gate',
+      name: 'India Gate',
+      address: 'Kartavya Path, New Delhi',
+      location: { lat: 28.6129, lng: 77.2295 },
+      place_type: 'tourist_attraction',
+      types: []
+    })
+
+    renderAt('/place/ola-india-gate')
+
+    await waitFor(() => expect(useAppStore.getState().selectedPlace).toMatchObject({ name: 'India Gate', place_id: 'ola-india-gate' }))
+    expect(currentUrl()).toBe('/place/ola-india-gate')
+  })
+
+  it('falls back to the map view when a place link cannot be loaded', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    api.getPlaceDetails.mockRejectedValue(new Error('Not found'))
+
+    renderAt('/place/missing')
+
+    await waitFor(() => expect(currentUrl()).toBe('/@28.7041,77.1025,12z'))
+  })
+})
@@ -0,0 +1,92 @@
+import { useEffect, useRef } from 'react'
+import { useLocation, useNavigate } from 'react-router-dom'
+import { olaApi, isAbortError } from '../services'
+import { useAppStore } from '../store'
+import { formatAppUrl, parseAppUrl, urlKind, type AppUrl } from '../utils/appUrl'
+
+// Restores state from the URL, then keeps the URL describing what's on screen
+const applyAppUrl = async (url: AppUrl, signal: AbortSignal) => {
+  const store = useAppStore.getState()
+
+  switch (url.kind) {
+    case 'view': {
+      store.setShowNavigation(false)
+      store.setSelectedPlace(null)
+      if (!url.view) return
+
+      store.setMapView(url.view)
+      store.map?.jumpTo({
+        center: [url.view.center.lng, url.view.center.lat],
+        zoom: url.view.zoom,
+        bearing: url.view.bearing,
+        pitch: url.view.pitch
+      })
+      return
+    }
+
+    case 'dir':
+      store.setOrigin(url.origin)
+      store.setDestination(url.destination)
+      store.setWaypoints(url.waypoints)
+      store.setTravelMode(url.travelMode)
+      store.setShowNavigation(true)
+      return
+
+    case 'place': {
+      const details = await olaApi.getPlaceDetails(url.placeId, { signal, priority: 'high' })
+      store.setShowNavigation(false)
+      store.setSelectedPlace({
+        lat: details.location.lat,
+        lng: details.location.lng,
+        name: details.name,
+        address: details.address,
+        place_id: details.place_id
+      })
+    }
+  }
+}
+
+export const useUrlSync = () => {
+  const location = useLocation()
+  const navigate = useNavigate()
+  // The URL we last wrote ourselves; seeing it again must not re-apply it
+  const writtenUrlRef = useRef<string | null>(null)
+  // True while a link is still loading (a place lookup), so we don't overwrite it meanwhile
+  const restoringRef = useRef(false)
+  const targetUrl = useAppStore(formatAppUrl)
+
+  // URL → store: first load, back/forward and pasted links
+  useEffect(() => {
+    const current = location.pathname + location.search
+    if (current === writtenUrlRef.current) return
+
+    const controller = new AbortController()
+    restoringRef.current = true
+    applyAppUrl(parseAppUrl(location.pathname, location.search), controller.signal)
+      .catch(error => {
+        if (!isAbortError(error)) console.error(`Could not open ${current}:`, error)
+      })
+      .finally(() => {
+        if (controller.signal.aborted) return
+        restoringRef.current = false
+
+        // Normalise hand-written or failed links to the canonical URL for what's now on screen
+        const target = formatAppUrl(useAppStore.getState())
+        writtenUrlRef.current = target
+        if (target !== current) navigate(target, { replace: true })
+      })
+
+    return () => controller.abort()
+  }, [location.pathname, location.search])
+
+  // store → URL: panning replaces the entry, switching between view/place/directions pushes one
+  useEffect(() => {
+    if (restoringRef.current) return
+
+    const current = location.pathname + location.search
+    if (targetUrl === current) return
+
+    writtenUrlRef.current = targetUrl
+    navigate(targetUrl, { replace: urlKind(targetUrl) === urlKind(current) })
+  }, [targetUrl])
+}
@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { act, cleanup, renderHook } from '@testing-library/react'
+import { useVoiceGuidance } from './useVoiceGuidance'
+import { TextSpeechSink, WebSpeechSink } from '../services'
+import { useAppStore } from '../store'
+import type { NavigationProgress } from '../utils/turnByTurn'
+import type { RouteInfo, RouteStep } from '../types'
+
+const step = (instruction: string, maneuver: string): RouteStep => ({
+  instruction,
+  maneuver,
+  distance: 0,
+  duration: 0,
+  start_location: { lat: 28.6, lng: 77.2 },
+  end_location: { lat: 28.6, lng: 77.2 }
+})
+
+const route: RouteInfo = {
+  distance: '2.1 km',
+  duration: '5 min',
+  legs: [],
+  geometry: '',
+  summary: 'Via Janpath',
+  routeIndex: 1,
+  steps: [
+    step('Head east on Janpath', 'depart'),
+    step('Turn left onto Rajpath', 'turn-left'),
+    step('You have arrived at India Gate', 'arrive')
+  ]
+}
+
+const progress = (stepIndex: number, distanceToManeuver: number): NavigationProgress => ({
+  position: { lat: 28.6, lng: 77.2 },
+  segmentIndex: 0,
+  along: 0,
+  stepIndex,
+  distanceToManeuver,
+  distanceRemaining: 1000,
+  distanceFromRoute: 0,
+  offRoute: false,
+  arrived: false
+})
+
+const moveTo = (stepIndex: number, distanceToManeuver: number) =>
+  act(() => useAppStore.getState().setNavigationProgress(progress(stepIndex, distanceToManeuver)))
+
+const initialState = useAppStore.getState()
+
+describe('useVoiceGuidance', () => {
+  let sink: TextSpeechSink
+
+  beforeEach(() => {
+    useAppStore.setState(initialState, true)
+    useAppStore.setState({ routes: [route], isNavigating: true })
+    sink = new TextSpeechSink()
+  })
+
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('speaks each prompt once as the maneuver approaches', () => {
+    renderHook(() => useVoiceGuidance(sink))
+
+    moveTo(0, 800)
+    moveTo(0, 480)
+    moveTo(0, 350)
+    moveTo(0, 30)
+    moveTo(0, 20)
+
+    expect(sink.texts).toEqual(['In 500 metres, turn left onto Rajpath', 'Turn left now'])
+  })
+
+  it('speaks Hindi when it is the chosen language', () => {
+    useAppStore.getState().setPreference('voice_language', 'hi')
+    renderHook(() => useVoiceGuidance(sink))
+
+    moveTo(0, 480)
+
+    expect(sink.spoken).toEqual([{ text: '500 मीटर में बाएँ मुड़ें', language: 'hi' }])
+  })
+
+  it('stays silent when voice guidance is off, without replaying prompts when it comes back on', () => {
+    useAppStore.getState().setPreference('navigation_voice', false)
+    renderHook(() => useVoiceGuidance(sink))
+
+    moveTo(0, 480)
+    act(() => useAppStore.getState().setPreference('navigation_voice', true))
+    moveTo(0, 400)
+    moveTo(0, 30)
+
+    expect(sink.texts).toEqual(['Turn left now'])
+  })
+
+  it('announces rerouting and starts afresh on the new route', () => {
+    renderHook(() => useVoiceGuidance(sink))
+    moveTo(0, 480)
+
+    act(() => useAppStore.getState().setRerouting(true))
+    act(() => useAppStore.getState().applyReroute(
+      { name: 'Current location', address: '28.6,77.2', lat: 28.6, lng: 77.2 },
+      [],
+      [{ ...route, summary: 'Via Kasturba Gandhi Marg' }]
+    ))
+    moveTo(0, 450)
+
+    expect(sink.texts).toEqual([
+      'In 500 metres, turn left onto Rajpath',
+      'Recalculating route',
+      'In 500 metres, turn left onto Rajpath'
+    ])
+  })
+
+  it('warns once each time the driver goes over the speed limit', () => {
+    renderHook(() => useVoiceGuidance(sink))
+    const { recordOverSpeed } = useAppStore.getState()
+    const event = { startedAt: 1000, endedAt: null, lat: 28.6, lng: 77.2, limit: 50, maxSpeed: 58 }
+
+    act(() => recordOverSpeed(event))
+    act(() => recordOverSpeed({ ...event, maxSpeed: 63 }))
+    act(() => recordOverSpeed({ ...event, maxSpeed: 63, endedAt: 9000 }))
+
+    expect(sink.texts).toEqual(['Slow down, the speed limit is 50'])
+  })
+})
+
+describe('WebSpeechSink', () => {
+  it('speaks in the chosen language, cutting off the previous prompt', () => {
+    const utterances: SpeechSynthesisUtterance[] = []
+    let cancels = 0
+    const synth = {
+      cancel: () => { cancels++ },
+      speak: (utterance: SpeechSynthesisUtterance) => { utterances.push(utterance) },
+      getVoices: () => [{ lang: 'en-US' }, { lang: 'hi_IN' }]
+    } as unknown as SpeechSynthesis
+    const previous = globalThis.SpeechSynthesisUtterance
+    globalThis.SpeechSynthesisUtterance = class {
+      lang = ''
+      voice: unknown = null
+      constructor(readonly text: string) {}
+    } as unknown as typeof SpeechSynthesisUtterance
+
+    try {
+      new WebSpeechSink(synth).speak('अभी बाएँ मुड़ें', 'hi')
+    } finally {
+      globalThis.SpeechSynthesisUtterance = previous
+    }
+
+    expect(cancels).toBe(1)
+    expect(utterances[0]).toMatchObject({ text: 'अभी बाएँ मुड़ें', lang: 'hi-IN', voice: { lang: 'hi_IN' } })
+  })
+
+  it('does nothing where the browser cannot speak', () => {
+    expect(() => new WebSpeechSink(undefined).speak('Turn left now', 'en')).not.toThrow()
+  })
+})
@@ -0,0 +1,48 @@
+import { useEffect, useRef } from 'react'
+import { WebSpeechSink, type SpeechSink } from '../services'
+import { useAppStore } from '../store'
+import { duePrompt, PHRASES, type GuidancePrompt } from '../utils/voiceGuidance'
+
+const browserSpeech = new WebSpeechSink()
+
+// Speaks prompts for upcoming maneuvers while navigating, unless voice guidance is switched off
+export const useVoiceGuidance = (sink: SpeechSink = browserSpeech) => {
+  const isNavigating = useAppStore(state => state.isNavigating)
+  const progress = useAppStore(state => state.navigationProgress)
+  const isRerouting = useAppStore(state => state.isRerouting)
+  const route = useAppStore(state => state.routes[state.selectedRoute])
+  const enabled = useAppStore(state => state.preferences.navigation_voice)
+  const language = useAppStore(state => state.preferences.voice_language)
+  const lastOverSpeed = useAppStore(state => state.overSpeedEvents[state.overSpeedEvents.length - 1])
+  const lastPromptRef = useRef<GuidancePrompt | null>(null)
+
+  // Step numbers start over on a new route
+  useEffect(() => {
+    lastPromptRef.current = null
+  }, [route, isNavigating])
+
+  useEffect(() => {
+    if (!enabled || !isNavigating) sink.cancel()
+  }, [enabled, isNavigating, sink])
+
+  useEffect(() => () => sink.cancel(), [sink])
+
+  useEffect(() => {
+    if (isNavigating && isRerouting && enabled) sink.speak(PHRASES[language].rerouting, language)
+  }, [isRerouting])
+
+  // Once per spell over the speed limit, as it starts
+  useEffect(() => {
+    if (isNavigating && enabled && lastOverSpeed?.endedAt === null) sink.speak(PHRASES[language].overSpeed(lastOverSpeed.limit), language)
+  }, [lastOverSpeed?.startedAt])
+
+  useEffect(() => {
+    if (!isNavigating || !progress || !route) return
+
+    const prompt = duePrompt(progress, route.steps, language, lastPromptRef.current)
+    if (!prompt) return
+    // Recorded while muted too, so switching voice back on doesn't replay a maneuver already passed
+    lastPromptRef.current = prompt
+    if (enabled) sink.speak(prompt.text, language)
+  }, [progress])
+}
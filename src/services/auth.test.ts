@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from 'vitest'
+import { ClientCredentialsAuthProvider } from './auth'
+import { OlaAuthError } from './errors'
+
+const tokenResponse = (accessToken: string, expiresIn = 3600) =>
+  new Response(JSON.stringify({ access_token: accessToken, expires_in: expiresIn }), { headers: { 'Content-Type': 'application/json' } })
+
+const createProvider = (fetchFn: ReturnType<typeof vi.fn>, now: () => number = () => 0) =>
+  new ClientCredentialsAuthProvider({
+    clientId: 'client',
+    clientSecret: 'secret',
+    tokenUrl: 'https://auth.example.com/token',
+    refreshMarginMs: 60000,
+    fetchFn: fetchFn as unknown as typeof fetch,
+    now
+  })
+
+describe('ClientCredentialsAuthProvider', () => {
+  it('reuses a token until it is inside the refresh margin', async () => {
+    let clock = 0
+    let issued = 0
+    const fetchFn = vi.fn(async () => tokenResponse(`token-${++issued}`))
+    const provider = createProvider(fetchFn, () => clock)
+
+    expect((await provider.getToken()).accessToken).toBe('token-1')
+    clock = 3600 * 1000 - 60001
+    expect((await provider.getToken()).accessToken).toBe('token-1')
+    clock = 3600 * 1000 - 60000
+    expect((await provider.getToken()).accessToken).toBe('token-2')
+
+    expect(fetchFn).toHaveBeenCalledTimes(2)
+    const [url, init] = fetchFn.mock.calls[0] as unknown as [string, RequestInit]
+    expect(url).toBe('https://auth.example.com/token')
+    expect(new URLSearchParams(init.body as string).get('grant_type')).toBe('client_credentials')
+  })
+
+  it('shares one token request between concurrent callers', async () => {
+    let respond: (response: Response) => void = () => {}
+    const fetchFn = vi.fn(() => new Promise<Response>(resolve => { respond = resolve }))
+    const provider = createProvider(fetchFn)
+
+    const headers = [{}, {}, {}] as Record<string, string>[]
+    const authorized = Promise.all(headers.map(h => provider.authorize(new URL('https://api.olamaps.io'), h)))
+    respond(tokenResponse('shared'))
+    await authorized
+
+    expect(fetchFn).toHaveBeenCalledTimes(1)
+    expect(headers.map(h => h.Authorization)).toEqual(['Bearer shared', 'Bearer shared', 'Bearer shared'])
+  })
+
+  it('asks again after a failed token request rather than repeating the failure', async () => {
+    const fetchFn = vi.fn()
+      .mockResolvedValueOnce(new Response('denied', { status: 401, statusText: 'Unauthorized' }))
+      .mockResolvedValueOnce(tokenResponse('second try'))
+    const provider = createProvider(fetchFn)
+
+    await expect(provider.getToken()).rejects.toBeInstanceOf(OlaAuthError)
+    await expect(provider.getToken()).resolves.toMatchObject({ accessToken: 'second try' })
+    expect(fetchFn).toHaveBeenCalledTimes(2)
+  })
+})
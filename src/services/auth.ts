@@ -0,0 +1,161 @@
+import { OlaAuthError, OlaNetworkError, OlaValidationError } from './errors'
+
+const DEFAULT_TOKEN_URL = 'https://account.olamaps.io/realms/olamaps/protocol/openid-connect/token'
+// Refresh this long before the token's stated expiry so in-flight calls never carry a stale token
+const DEFAULT_REFRESH_MARGIN_MS = 60000
+
+// Applies credentials to an outgoing Ola Maps request
+export interface AuthProvider {
+  authorize(url: URL, headers: Record<string, string>): Promise<void>
+  // Called after a 401. Return true when retrying with fresh credentials could help
+  invalidate(): boolean
+}
+
+export class ApiKeyAuthProvider implements AuthProvider {
+  constructor(private apiKey: string) {}
+
+  async authorize(url: URL) {
+    url.searchParams.set('api_key', this.apiKey)
+  }
+
+  invalidate() {
+    // A rejected API key won't start working on a second attempt
+    return false
+  }
+}
+
+// For requests sent through our proxy, which injects credentials server-side
+export class NoAuthProvider implements AuthProvider {
+  async authorize() {}
+
+  invalidate() {
+    return false
+  }
+}
+
+export interface ClientCredentialsConfig {
+  clientId: string
+  clientSecret: string
+  tokenUrl?: string
+  scope?: string
+  refreshMarginMs?: number
+  // Injectable for tests and local stand-in token endpoints
+  fetchFn?: typeof fetch
+  now?: () => number
+}
+
+interface CachedToken {
+  accessToken: string
+  expiresAt: number
+}
+
+// OAuth 2.0 client-credentials grant with an in-memory token cache
+export class ClientCredentialsAuthProvider implements AuthProvider {
+  private config: Required<ClientCredentialsConfig>
+  private token: CachedToken | null = null
+  private pending: Promise<CachedToken> | null = null
+
+  constructor(config: ClientCredentialsConfig) {
+    this.config = {
+      clientId: config.clientId,
+      clientSecret: config.clientSecret,
+      tokenUrl: config.tokenUrl ?? DEFAULT_TOKEN_URL,
+      scope: config.scope ?? 'openid',
+      refreshMarginMs: config.refreshMarginMs ?? DEFAULT_REFRESH_MARGIN_MS,
+      fetchFn: config.fetchFn ?? ((input, init) => fetch(input, init)),
+      now: config.now ?? Date.now
+    }
+  }
+
+  async authorize(_url: URL, headers: Record<string, string>) {
+    const token = await this.getToken()
+    headers['Authorization'] = `Bearer ${token.accessToken}`
+  }
+
+  invalidate() {
+    this.token = null
+    return true
+  }
+
+  async getToken(): Promise<CachedToken> {
+    if (this.token && this.config.now() < this.token.expiresAt - this.config.refreshMarginMs) {
+      return this.token
+    }
+
+    // Concurrent callers share a single token request
+    if (!this.pending) {
+      this.pending = this.fetchToken().finally(() => {
+        this.pending = null
+      })
+    }
+
+    this.token = await this.pending
+    return this.token
+  }
+
+  private async fetchToken(): Promise<CachedToken> {
+    const { tokenUrl, clientId, clientSecret, scope, fetchFn, now } = this.config
+    const body = new URLSearchParams({
+      grant_type: 'client_credentials',
+      scope,
+      client_id: clientId,
+      client_secret: clientSecret
+    })
+
+    let response: Response
+    try {
+      response = await fetchFn(tokenUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: body.toString()
+      })
+    } catch (error) {
+      throw new OlaNetworkError(tokenUrl, error)
+    }
+
+    if (!response.ok) {
+      throw new OlaAuthError(tokenUrl, response.status, response.statusText)
+    }
+
+    const data = await response.json().catch(() => undefined)
+    if (typeof data?.access_token !== 'string') {
+      throw new OlaValidationError(tokenUrl, 'access_token', 'string', data?.access_token)
+    }
+
+    const expiresIn = Number(data.expires_in)
+    if (!Number.isFinite(expiresIn) || expiresIn <= 0) {
+      throw new OlaValidationError(tokenUrl, 'expires_in', 'positive number', data.expires_in)
+    }
+
+    return {
+      accessToken: data.access_token,
+      expiresAt: now() + expiresIn * 1000
+    }
+  }
+}
+
+// VITE_OLA_MAPS_AUTH_MODE picks the strategy: "api_key" (default), "oauth" or "proxy"
+export const createAuthProviderFromEnv = (): AuthProvider => {
+  const env = import.meta.env
+
+  // Proxy injects credentials server-side; mock mode never leaves the browser
+  if (env.VITE_OLA_MAPS_AUTH_MODE === 'proxy' || env.VITE_OLA_MOCK === 'true') {
+    return new NoAuthProvider()
+  }
+
+  if (env.VITE_OLA_MAPS_AUTH_MODE === 'oauth') {
+    if (!env.VITE_OLA_MAPS_CLIENT_ID || !env.VITE_OLA_MAPS_CLIENT_SECRET) {
+      throw new Error('Missing Ola Maps client credentials for OAuth mode')
+    }
+    return new ClientCredentialsAuthProvider({
+      clientId: env.VITE_OLA_MAPS_CLIENT_ID,
+      clientSecret: env.VITE_OLA_MAPS_CLIENT_SECRET,
+      tokenUrl: env.VITE_OLA_MAPS_TOKEN_URL || undefined
+    })
+  }
+
+  if (!env.VITE_OLA_MAPS_API_KEY) {
+    throw new Error('Missing Ola Maps API credentials')
+  }
+  return new ApiKeyAuthProvider(env.VITE_OLA_MAPS_API_KEY)
+}
@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { IndexedDbStore, MemoryLruStore, ResponseCache, type CacheEntry } from './cache'
+
+const ENDPOINT = '/places/v1/autocomplete'
+const policies = { [ENDPOINT]: { ttlMs: 1000, precision: 3 } }
+
+interface FakeRequest<T> {
+  result?: T
+  error?: unknown
+  onsuccess?: () => void
+  onerror?: () => void
+}
+
+interface FakeCursor {
+  key: string
+  value: CacheEntry | undefined
+  delete: () => void
+  continue: () => void
+}
+
+// Just enough of IndexedDB for IndexedDbStore, backed by a Map: requests settle on the next tick
+const settle = <T>(result: T, error?: unknown): FakeRequest<T> => {
+  const request: FakeRequest<T> = {}
+  setTimeout(() => {
+    if (error) {
+      request.error = error
+      request.onerror?.()
+    } else {
+      request.result = result
+      request.onsuccess?.()
+    }
+  })
+  return request
+}
+
+const fakeIndexedDb = ({ openFails = false, putFails = false } = {}, entries = new Map<string, CacheEntry>()) => {
+  const store = {
+    get: vi.fn((key: string) => settle(entries.get(key))),
+    put: vi.fn((entry: CacheEntry, key: string) => {
+      if (putFails) throw new DOMException('Quota exceeded', 'QuotaExceededError')
+      entries.set(key, entry)
+      return settle(undefined)
+    }),
+    delete: vi.fn((key: string) => {
+      entries.delete(key)
+      return settle(undefined)
+    }),
+    openCursor: () => {
+      const request: FakeRequest<FakeCursor | null> = {}
+      const keys = [...entries.keys()]
+      const step = () => setTimeout(() => {
+        const key = keys.shift()
+        request.result = key === undefined
+          ? null
+          : { key, value: entries.get(key), delete: () => entries.delete(key), continue: step }
+        request.onsuccess?.()
+      })
+      step()
+      return request
+    }
+  }
+  const db = { transaction: () => ({ objectStore: () => store }) }
+  return {
+    open: vi.fn(() => (openFails ? settle(null, new DOMException('Blocked', 'UnknownError')) : settle(db))),
+    store,
+    entries
+  }
+}
+
+describe('MemoryLruStore', () => {
+  it('evicts the least recently used entry once full', async () => {
+    const store = new MemoryLruStore(2)
+    const entry = (value: string) => ({ value, expiresAt: Infinity })
+
+    await store.set('a', entry('a'))
+    await store.set('b', entry('b'))
+    await store.get('a')
+    await store.set('c', entry('c'))
+
+    expect(await store.get('b')).toBeUndefined()
+    expect((await store.get('a'))?.value).toBe('a')
+    expect((await store.get('c'))?.value).toBe('c')
+  })
+})
+
+describe('IndexedDbStore', () => {
+  const HOUR = 60 * 60 * 1000
+  const NOW = 10 * 24 * HOUR
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  const seeded = (expiries: Record<string, number>) =>
+    new Map(Object.entries(expiries).map(([key, expiresAt]): [string, CacheEntry] => [key, { value: key, expiresAt }]))
+
+  it('drops entries long past their expiry when it opens, keeping recent ones for stale use', async () => {
+    const indexedDb = fakeIndexedDb({}, seeded({ ancient: NOW - 2 * 24 * HOUR, recent: NOW - HOUR, fresh: NOW + HOUR }))
+    vi.stubGlobal('indexedDB', indexedDb)
+
+    await new IndexedDbStore(10, () => NOW).get('fresh')
+
+    expect([...indexedDb.entries.keys()]).toEqual(['recent', 'fresh'])
+  })
+
+  it('keeps to its entry cap, dropping those expiring soonest', async () => {
+    const indexedDb = fakeIndexedDb({}, seeded({ later: NOW + 3 * HOUR, soonest: NOW + HOUR, sooner: NOW + 2 * HOUR }))
+    vi.stubGlobal('indexedDB', indexedDb)
+    const store = new IndexedDbStore(2, () => NOW)
+
+    await store.get('later')
+    expect([...indexedDb.entries.keys()].sort()).toEqual(['later', 'sooner'])
+
+    for (let i = 0; i < 100; i++) await store.set(`key-${i}`, { value: i, expiresAt: NOW + 4 * HOUR + i })
+    expect([...indexedDb.entries.keys()].sort()).toEqual(['key-98', 'key-99'])
+  })
+})
+
+describe('ResponseCache', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('refetches once an entry has outlived its policy', async () => {
+    let clock = 0
+    const cache = new ResponseCache({ store: new MemoryLruStore(), policies, now: () => clock })
+    const fetcher = vi.fn(async () => `result at ${clock}`)
+
+    await cache.getOrFetch(ENDPOINT, { input: 'cafe' }, fetcher)
+    clock = 999
+    await expect(cache.getOrFetch(ENDPOINT, { input: 'cafe' }, fetcher)).resolves.toBe('result at 0')
+    clock = 1000
+    await expect(cache.getOrFetch(ENDPOINT, { input: 'cafe' }, fetcher)).resolves.toBe('result at 1000')
+
+    expect(fetcher).toHaveBeenCalledTimes(2)
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 2 })
+  })
+
+  it('cancels a shared fetch only when every caller has cancelled', async () => {
+    const cache = new ResponseCache({ store: new MemoryLruStore(), policies })
+    let fetchSignal: AbortSignal | undefined
+    const fetcher = vi.fn((signal?: AbortSignal) => {
+      fetchSignal = signal
+      return new Promise<string>(() => {})
+    })
+    const callers = [new AbortController(), new AbortController()]
+
+    const pending = callers.map(caller => cache.getOrFetch(ENDPOINT, { input: 'cafe' }, fetcher, caller.signal).catch(e => e.name))
+    await vi.waitFor(() => expect(fetcher).toHaveBeenCalledTimes(1))
+    callers[0].abort()
+    expect(fetchSignal?.aborted).toBe(false)
+    callers[1].abort()
+
+    expect(fetchSignal?.aborted).toBe(true)
+    expect(await Promise.all(pending)).toEqual(['AbortError', 'AbortError'])
+  })
+
+  it('never caches endpoints without a policy', async () => {
+    const cache = new ResponseCache({ store: new MemoryLruStore(), policies })
+    const fetcher = vi.fn(async () => 'fresh')
+
+    await cache.getOrFetch('/routing/v1/directions', {}, fetcher)
+    await cache.getOrFetch('/routing/v1/directions', {}, fetcher)
+
+    expect(fetcher).toHaveBeenCalledTimes(2)
+  })
+
+  it.each([
+    ['cannot be opened', { openFails: true }],
+    ['rejects writes', { putFails: true }]
+  ])('keeps caching in memory when IndexedDB %s', async (_, failure) => {
+    const indexedDb = fakeIndexedDb(failure)
+    vi.stubGlobal('indexedDB', indexedDb)
+    const cache = new ResponseCache({ policies })
+    const fetcher = vi.fn(async () => 'fresh')
+
+    await cache.getOrFetch(ENDPOINT, { input: 'cafe' }, fetcher)
+    await expect(cache.getOrFetch(ENDPOINT, { input: 'cafe' }, fetcher)).resolves.toBe('fresh')
+
+    expect(indexedDb.open).toHaveBeenCalled()
+    expect(fetcher).toHaveBeenCalledTimes(1)
+    expect(console.warn).toHaveBeenCalledWith('IndexedDB cache unavailable:', expect.any(DOMException))
+  })
+
+  it('hands out expired entries only when asked for stale ones', async () => {
+    let clock = 0
+    const cache = new ResponseCache({ store: new MemoryLruStore(), policies, now: () => clock })
+    await cache.getOrFetch(ENDPOINT, { input: 'cafe' }, async () => 'old')
+    clock = 5000
+
+    await expect(cache.peekStale(ENDPOINT, { input: 'cafe' })).resolves.toBe('old')
+    await expect(cache.peekStale(ENDPOINT, { input: 'tea' })).resolves.toBeUndefined()
+    await expect(cache.getOrFetch(ENDPOINT, { input: 'cafe' }, async () => 'new')).resolves.toBe('new')
+    expect(cache.getStats().stale).toBe(1)
+  })
+})
@@ -0,0 +1,378 @@
+import { abortable } from './retry'
+
+export interface CacheEntry {
+  value: unknown
+  expiresAt: number
+}
+
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>
+  set(key: string, entry: CacheEntry): Promise<void>
+  delete(key: string): Promise<void>
+  clear(): Promise<void>
+}
+
+export interface EndpointCachePolicy {
+  ttlMs: number
+  // Decimal places kept for coordinates in the cache key (4 ≈ 11 m, 3 ≈ 110 m)
+  precision: number
+}
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+// Endpoints without a policy are never cached
+export const DEFAULT_CACHE_POLICIES: Record<string, EndpointCachePolicy> = {
+  '/places/v1/autocomplete': { ttlMs: 10 * MINUTE, precision: 3 },
+  '/places/v1/details': { ttlMs: DAY, precision: 5 },
+  '/places/v1/details/advanced': { ttlMs: DAY, precision: 5 },
+  '/places/v1/nearbysearch': { ttlMs: 10 * MINUTE, precision: 3 },
+  '/places/v1/geocode': { ttlMs: DAY, precision: 5 },
+  '/places/v1/reverse-geocode': { ttlMs: HOUR, precision: 4 },
+  '/places/v1/elevation': { ttlMs: 30 * DAY, precision: 5 },
+  // Routing results include live traffic, so keep them short-lived
+  '/routing/v1/directions': { ttlMs: 5 * MINUTE, precision: 4 },
+  '/routing/v1/distanceMatrix': { ttlMs: 5 * MINUTE, precision: 4 },
+  '/routing/v1/speedLimits': { ttlMs: 7 * DAY, precision: 5 }
+}
+
+const COORDINATE_PAIR = /^-?\d+(\.\d+)?,-?\d+(\.\d+)?$/
+
+const roundCoordinates = (value: string, precision: number): string =>
+  value
+    .split('|')
+    .map(part => COORDINATE_PAIR.test(part)
+      ? part.split(',').map(n => Number(n).toFixed(precision)).join(',')
+      : part)
+    .join('|')
+
+// Stable key: endpoint plus sorted params, with "lat,lng" values rounded
+export const buildCacheKey = (endpoint: string, params: Record<string, any>, precision: number): string => {
+  const parts = Object.keys(params)
+    .filter(key => params[key] !== undefined && params[key] !== null)
+    .sort()
+    .map(key => `${key}=${roundCoordinates(String(params[key]), precision)}`)
+  return `${endpoint}?${parts.join('&')}`
+}
+
+// In-memory store that evicts the least recently used entry once full
+export class MemoryLruStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>()
+
+  constructor(private maxEntries: number = 500) {}
+
+  async get(key: string) {
+    const entry = this.entries.get(key)
+    if (entry) {
+      // Re-insert so Map iteration order tracks recency
+      this.entries.delete(key)
+      this.entries.set(key, entry)
+    }
+    return entry
+  }
+
+  async set(key: string, entry: CacheEntry) {
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string
+      this.entries.delete(oldest)
+    }
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key)
+  }
+
+  async clear() {
+    this.entries.clear()
+  }
+}
+
+const DB_NAME = 'ola-maps-cache'
+const STORE_NAME = 'responses'
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+// Expired entries are kept this much longer, for the fallback when the daily budget runs out
+const STALE_RETENTION_MS = DAY
+const PRUNE_EVERY_WRITES = 100
+
+// Persists entries across reloads; every failure degrades to a cache miss. Entries long expired
+// are pruned when the database opens and every so many writes, and beyond maxEntries the ones
+// expiring soonest go first.
+export class IndexedDbStore implements CacheStore {
+  private db: Promise<IDBDatabase> | null = null
+  private writes = 0
+
+  constructor(private maxEntries: number = 2000, private now: () => number = Date.now) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, 1)
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME)
+      this.db = promisify(request).then(async db => {
+        await this.prune(db)
+        return db
+      })
+    }
+    return this.db
+  }
+
+  private async prune(db: IDBDatabase) {
+    try {
+      const cutoff = this.now() - STALE_RETENTION_MS
+      const kept: { key: IDBValidKey; expiresAt: number }[] = []
+      await new Promise<void>((resolve, reject) => {
+        const request = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).openCursor()
+        request.onerror = () => reject(request.error)
+        request.onsuccess = () => {
+          const cursor = request.result
+          if (!cursor) return resolve()
+          const { expiresAt } = cursor.value as CacheEntry
+          if (expiresAt < cutoff) cursor.delete()
+          else kept.push({ key: cursor.key, expiresAt })
+          cursor.continue()
+        }
+      })
+
+      if (kept.length <= this.maxEntries) return
+      kept.sort((a, b) => a.expiresAt - b.expiresAt)
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME)
+      await Promise.all(kept.slice(0, kept.length - this.maxEntries).map(({ key }) => promisify(store.delete(key))))
+    } catch (error) {
+      console.warn('IndexedDB cache could not be pruned:', error)
+    }
+  }
+
+  private async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | undefined> {
+    try {
+      const db = await this.open()
+      return await promisify(action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)))
+    } catch (error) {
+      console.warn('IndexedDB cache unavailable:', error)
+      return undefined
+    }
+  }
+
+  async get(key: string) {
+    return (await this.run('readonly', store => store.get(key))) as CacheEntry | undefined
+  }
+
+  async set(key: string, entry: CacheEntry) {
+    await this.run('readwrite', store => store.put(entry, key))
+    if (++this.writes < PRUNE_EVERY_WRITES) return
+    this.writes = 0
+    await this.open().then(db => this.prune(db), () => undefined)
+  }
+
+  async delete(key: string) {
+    await this.run('readwrite', store => store.delete(key))
+  }
+
+  async clear() {
+    await this.run('readwrite', store => store.clear())
+  }
+}
+
+// Memory in front of a persistent store; persistent hits are promoted into memory
+export class TieredStore implements CacheStore {
+  constructor(private memory: CacheStore, private persistent: CacheStore) {}
+
+  async get(key: string) {
+    const entry = await this.memory.get(key)
+    if (entry) return entry
+
+    const persisted = await this.persistent.get(key)
+    if (persisted) await this.memory.set(key, persisted)
+    return persisted
+  }
+
+  async set(key: string, entry: CacheEntry) {
+    await this.memory.set(key, entry)
+    await this.persistent.set(key, entry)
+  }
+
+  async delete(key: string) {
+    await Promise.all([this.memory.delete(key), this.persistent.delete(key)])
+  }
+
+  async clear() {
+    await Promise.all([this.memory.clear(), this.persistent.clear()])
+  }
+}
+
+export interface EndpointCacheStats {
+  hits: number
+  misses: number
+  // Calls that piggybacked on an identical request already in flight
+  deduplicated: number
+  // Expired entries served because the API budget was exhausted
+  stale: number
+}
+
+export interface CacheStats extends EndpointCacheStats {
+  // Fraction of cacheable calls that never reached the network
+  hitRate: number
+  byEndpoint: Record<string, EndpointCacheStats>
+}
+
+export interface ResponseCacheConfig {
+  store?: CacheStore
+  policies?: Record<string, EndpointCachePolicy>
+  now?: () => number
+}
+
+// One fetch shared by every caller asking for the same key. It is cancelled only once all the
+// callers that joined it have cancelled.
+interface InFlight {
+  promise: Promise<unknown>
+  controller: AbortController
+  callers: number
+  aborted: number
+}
+
+export class ResponseCache {
+  private store: CacheStore
+  private policies: Record<string, EndpointCachePolicy>
+  private now: () => number
+  private inFlight = new Map<string, InFlight>()
+  private stats: Record<string, EndpointCacheStats> = {}
+
+  constructor(config: ResponseCacheConfig = {}) {
+    this.store = config.store ?? createDefaultStore()
+    this.policies = config.policies ?? DEFAULT_CACHE_POLICIES
+    this.now = config.now ?? Date.now
+  }
+
+  isCacheable(endpoint: string): boolean {
+    return endpoint in this.policies
+  }
+
+  keyFor(endpoint: string, params: Record<string, any>): string {
+    return buildCacheKey(endpoint, params, this.policies[endpoint]?.precision ?? 5)
+  }
+
+  // Returns a fresh cached value, joins an identical in-flight call, or runs fetcher. The fetcher
+  // gets a signal that aborts once every caller sharing it has aborted its own signal.
+  async getOrFetch<T>(
+    endpoint: string,
+    params: Record<string, any>,
+    fetcher: (signal?: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const policy = this.policies[endpoint]
+    if (!policy) return fetcher(signal)
+    if (signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError')
+
+    const key = this.keyFor(endpoint, params)
+    let flight = this.inFlight.get(key)
+    if (flight) {
+      this.counters(endpoint).deduplicated++
+    } else {
+      const controller = new AbortController()
+      // Registered synchronously so a second caller arriving during the store lookup joins this one
+      const created: InFlight = {
+        promise: this.lookupOrFetch(key, endpoint, policy, () => fetcher(controller.signal))
+          .finally(() => {
+            if (this.inFlight.get(key) === created) this.inFlight.delete(key)
+          }),
+        controller,
+        callers: 0,
+        aborted: 0
+      }
+      this.inFlight.set(key, created)
+      flight = created
+    }
+    return this.join(key, flight, signal) as Promise<T>
+  }
+
+  private join(key: string, flight: InFlight, signal?: AbortSignal): Promise<unknown> {
+    flight.callers++
+    if (!signal) return flight.promise
+
+    const onAbort = () => {
+      flight.aborted++
+      if (flight.aborted < flight.callers) return
+      // Nobody is waiting any more; later callers start afresh rather than join a cancelled fetch
+      if (this.inFlight.get(key) === flight) this.inFlight.delete(key)
+      flight.controller.abort()
+    }
+    signal.addEventListener('abort', onAbort, { once: true })
+    const detach = () => signal.removeEventListener('abort', onAbort)
+    flight.promise.then(detach, detach)
+    return abortable(flight.promise, signal)
+  }
+
+  private async lookupOrFetch<T>(
+    key: string,
+    endpoint: string,
+    policy: EndpointCachePolicy,
+    fetcher: () => Promise<T>
+  ): Promise<T> {
+    const counters = this.counters(endpoint)
+    const entry = await this.store.get(key)
+    if (entry && entry.expiresAt > this.now()) {
+      counters.hits++
+      return entry.value as T
+    }
+
+    counters.misses++
+    const value = await fetcher()
+    await this.store.set(key, { value, expiresAt: this.now() + policy.ttlMs })
+    return value
+  }
+
+  // Last known value regardless of age; used when we can't afford to ask the API
+  async peekStale<T>(endpoint: string, params: Record<string, any>): Promise<T | undefined> {
+    if (!this.isCacheable(endpoint)) return undefined
+
+    const entry = await this.store.get(this.keyFor(endpoint, params))
+    if (!entry) return undefined
+
+    this.counters(endpoint).stale++
+    return entry.value as T
+  }
+
+  async clear() {
+    this.inFlight.clear()
+    await this.store.clear()
+  }
+
+  getStats(): CacheStats {
+    const totals = Object.values(this.stats).reduce(
+      (sum, s) => ({
+        hits: sum.hits + s.hits,
+        misses: sum.misses + s.misses,
+        deduplicated: sum.deduplicated + s.deduplicated,
+        stale: sum.stale + s.stale
+      }),
+      { hits: 0, misses: 0, deduplicated: 0, stale: 0 }
+    )
+    const calls = totals.hits + totals.misses + totals.deduplicated + totals.stale
+
+    return {
+      ...totals,
+      hitRate: calls === 0 ? 0 : (totals.hits + totals.deduplicated + totals.stale) / calls,
+      byEndpoint: JSON.parse(JSON.stringify(this.stats))
+    }
+  }
+
+  private counters(endpoint: string): EndpointCacheStats {
+    if (!this.stats[endpoint]) {
+      this.stats[endpoint] = { hits: 0, misses: 0, deduplicated: 0, stale: 0 }
+    }
+    return this.stats[endpoint]
+  }
+}
+
+const createDefaultStore = (): CacheStore => {
+  const memory = new MemoryLruStore()
+  if (typeof indexedDB === 'undefined') return memory
+  return new TieredStore(memory, new IndexedDbStore())
+}
@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { DeliveryPlanError, planDeliveryRun } from './deliveryPlanner'
+import { OlaHttpError } from './errors'
+import type { OptimizeConstraints } from './olaApi'
+import type { DirectionsRoute, GeocodeResult, SelectedPlace } from '../types'
+
+// Places on a line of longitude, one minute of driving per 0.01°
+const PLACES: Record<string, number> = { Depot: 77.0, 'Khan Market': 77.03, 'Lodhi Garden': 77.01, 'India Gate': 77.02, Okhla: 77.05 }
+
+const geocodeResult = (name: string): GeocodeResult => ({
+  name,
+  address: `${name}, New Delhi`,
+  location: { lat: 28.6, lng: PLACES[name] },
+  types: []
+})
+
+const secondsBetween = (a: { lng: number }, b: { lng: number }) => Math.round(Math.abs(a.lng - b.lng) * 6000)
+
+const routeThrough = (points: { lat: number; lng: number }[]): DirectionsRoute => ({
+  summary: '',
+  overview_polyline: 'encoded',
+  warnings: [],
+  waypoint_order: [],
+  legs: points.slice(1).map((end, i) => ({
+    distance: secondsBetween(points[i], end) * 10,
+    duration: secondsBetween(points[i], end),
+    start_location: points[i],
+    end_location: end,
+    steps: []
+  }))
+})
+
+const createApi = () => ({
+  geocode: vi.fn(async (address: string) => (address in PLACES ? [geocodeResult(address)] : [])),
+  optimizeRoute: vi.fn(async (locations: { lat: number; lng: number }[], _constraints?: OptimizeConstraints) => {
+    // Visit in order of longitude, like a driver heading east
+    const order = locations.map((_, i) => i).sort((a, b) => locations[a].lng - locations[b].lng)
+    return { waypoint_order: order, routes: [routeThrough(order.map(i => locations[i]))] }
+  }),
+  getDistanceMatrix: vi.fn(async (origins: { lat: number; lng: number }[], destinations: { lat: number; lng: number }[]) => ({
+    rows: origins.map(origin => destinations.map(destination => {
+      const duration = secondsBetween(origin, destination)
+      return { status: 'OK', distance: duration * 10, duration }
+    }))
+  })),
+  getDirections: vi.fn(async (origin: { lat: number; lng: number }, destination: { lat: number; lng: number }, _mode?: string, waypoints: { lat: number; lng: number }[] = []) => ({
+    routes: [routeThrough([origin, ...waypoints, destination])]
+  }))
+})
+
+const stop = (address: string, serviceMinutes: number = 5) => ({ address, serviceMinutes })
+
+describe('planDeliveryRun', () => {
+  let api: ReturnType<typeof createApi>
+
+  beforeEach(() => {
+    api = createApi()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('orders the stops with the route optimizer and times each one', async () => {
+    const plan = await planDeliveryRun(api, {
+      start: 'Depot',
+      stops: [stop('Khan Market'), stop('Lodhi Garden'), stop('India Gate')],
+      departure: 540
+    })
+
+    expect(plan.method).toBe('optimizer')
+    expect(plan.stops.map(s => s.address)).toEqual(['Lodhi Garden', 'India Gate', 'Khan Market'])
+    expect(plan.stops.map(s => s.arrival)).toEqual([541, 547, 553])
+    expect(plan.finish).toBe(558)
+    expect(plan.distanceMetres).toBe(1800)
+    expect(plan.geometry).toBe('encoded')
+    expect(api.optimizeRoute).toHaveBeenCalledWith(
+      expect.any(Array),
+      { source: 'first', destination: 'any', roundTrip: false },
+      {}
+    )
+    expect(api.getDistanceMatrix).not.toHaveBeenCalled()
+  })
+
+  it('keeps a fixed end last', async () => {
+    const plan = await planDeliveryRun(api, {
+      start: 'Depot',
+      end: 'Lodhi Garden',
+      stops: [stop('Khan Market'), stop('India Gate')],
+      departure: 540
+    })
+
+    expect(plan.end?.name).toBe('Lodhi Garden')
+    const [locations, constraints] = api.optimizeRoute.mock.calls[0]
+    expect(locations[locations.length - 1]).toMatchObject({ lng: 77.01 })
+    expect(constraints).toMatchObject({ destination: 'last' })
+  })
+
+  it('falls back to the local heuristic when the optimizer fails', async () => {
+    api.optimizeRoute.mockRejectedValue(new OlaHttpError('/routing/v1/routeOptimizer', 403, 'Forbidden'))
+
+    const plan = await planDeliveryRun(api, {
+      start: 'Depot',
+      returnToStart: true,
+      stops: [stop('Khan Market'), stop('Lodhi Garden'), stop('India Gate')],
+      departure: 540
+    })
+
+    expect(plan.method).toBe('local')
+    expect(plan.end).toBe(plan.start)
+    // Any order along a line and back costs the same; the heuristic must still return every stop once
+    expect([...plan.stops.map(s => s.address)].sort()).toEqual(['India Gate', 'Khan Market', 'Lodhi Garden'])
+    expect(plan.finish).toBe(540 + 6 + 15)
+    const [origin, destination, , waypoints] = api.getDirections.mock.calls[0]
+    expect(destination).toEqual(origin)
+    expect(waypoints).toHaveLength(3)
+  })
+
+  it('plans runs with time windows locally', async () => {
+    const plan = await planDeliveryRun(api, {
+      start: 'Depot',
+      stops: [stop('Lodhi Garden'), { ...stop('Khan Market'), window: { start: 540, end: 544 } }],
+      departure: 540
+    })
+
+    expect(api.optimizeRoute).not.toHaveBeenCalled()
+    expect(plan.method).toBe('local')
+    expect(plan.stops.map(s => [s.address, s.late])).toEqual([['Khan Market', false], ['Lodhi Garden', false]])
+  })
+
+  it('times the run from the distance matrix when directions fail', async () => {
+    api.optimizeRoute.mockRejectedValue(new Error('unavailable'))
+    api.getDirections.mockRejectedValue(new Error('unavailable'))
+
+    const plan = await planDeliveryRun(api, { start: 'Depot', stops: [stop('Okhla', 0)], departure: 540 })
+
+    expect(plan.geometry).toBeNull()
+    expect(plan.stops[0].arrival).toBe(545)
+    expect(plan.distanceMetres).toBe(3000)
+  })
+
+  it('starts from a known place without geocoding it', async () => {
+    const here: SelectedPlace = { name: 'My location', address: 'Current location', lat: 28.6, lng: 77.0 }
+
+    const plan = await planDeliveryRun(api, { start: here, stops: [stop('Okhla')], departure: 540 })
+
+    expect(plan.start).toBe(here)
+    expect(api.geocode).toHaveBeenCalledTimes(1)
+  })
+
+  it('lists every address it could not find', async () => {
+    const run = planDeliveryRun(api, {
+      start: 'Depot',
+      stops: [stop('Khan Market'), stop('Atlantis'), stop('El Dorado')],
+      departure: 540
+    })
+
+    await expect(run).rejects.toBeInstanceOf(DeliveryPlanError)
+    await expect(run).rejects.toMatchObject({ message: 'Couldn\'t find 2 addresses', unresolved: ['Atlantis', 'El Dorado'] })
+    expect(api.optimizeRoute).not.toHaveBeenCalled()
+  })
+
+  it('rejects empty and oversized runs', async () => {
+    await expect(planDeliveryRun(api, { start: 'Depot', stops: [], departure: 540 })).rejects.toThrow('Add at least one stop')
+    const many = Array.from({ length: 21 }, () => stop('Okhla'))
+    await expect(planDeliveryRun(api, { start: 'Depot', stops: many, departure: 540 })).rejects.toThrow('at most 20 stops')
+  })
+})
@@ -0,0 +1,155 @@
+import type OlaApiService from './olaApi'
+import type { RequestOptions } from './olaApi'
+import { isAbortError } from './errors'
+import type { DeliveryPlan, DeliveryStopInput, DirectionsRoute, SelectedPlace } from '../types'
+import { legsForOrder, orderStopsLocally, scheduleStops } from '../utils/deliveryRun'
+
+// Plans a multi-drop run: geocode every address, let Ola's route optimizer pick the order,
+// and fall back to a local heuristic over the distance matrix when it can't be used.
+
+export const MAX_DELIVERY_STOPS = 20
+// Stands in for matrix cells Ola couldn't route, so those pairs sort last
+const UNREACHABLE_SECONDS = 24 * 60 * 60
+
+type PlannerApi = Pick<OlaApiService, 'geocode' | 'optimizeRoute' | 'getDistanceMatrix' | 'getDirections'>
+
+export interface DeliveryRunRequest {
+  // An address to geocode, or a place we already have coordinates for (e.g. current location)
+  start: string | SelectedPlace
+  // Where the run must finish; leave out to finish at whichever stop comes last
+  end?: string | SelectedPlace | null
+  // Finish back at the start; takes precedence over `end`
+  returnToStart?: boolean
+  stops: DeliveryStopInput[]
+  // Minutes after midnight
+  departure: number
+}
+
+export class DeliveryPlanError extends Error {
+  // Addresses that geocoding found nothing for
+  readonly unresolved: string[]
+
+  constructor(message: string, unresolved: string[] = []) {
+    super(message)
+    this.name = 'DeliveryPlanError'
+    this.unresolved = unresolved
+  }
+}
+
+const resolvePlace = async (api: PlannerApi, input: string | SelectedPlace, options: RequestOptions): Promise<SelectedPlace> => {
+  if (typeof input !== 'string') return input
+
+  const [result] = await api.geocode(input, options)
+  if (!result) throw new DeliveryPlanError(`No match for "${input}"`, [input])
+  return { lat: result.location.lat, lng: result.location.lng, name: result.name || input, address: result.address, place_id: result.place_id }
+}
+
+// Geocode everything at once, reporting every address that failed rather than just the first
+const resolveAll = async (api: PlannerApi, inputs: (string | SelectedPlace)[], options: RequestOptions) => {
+  const results = await Promise.allSettled(inputs.map(input => resolvePlace(api, input, options)))
+
+  const unresolved: string[] = []
+  const places = results.map((result, i) => {
+    if (result.status === 'fulfilled') return result.value
+    if (isAbortError(result.reason)) throw result.reason
+    const input = inputs[i]
+    unresolved.push(typeof input === 'string' ? input : input.name)
+    return null
+  })
+
+  if (unresolved.length > 0) {
+    throw new DeliveryPlanError(`Couldn't find ${unresolved.length === 1 ? 'an address' : `${unresolved.length} addresses`}`, unresolved)
+  }
+  return places as SelectedPlace[]
+}
+
+// The optimizer answers with a permutation of the locations it was given; we want stop indices
+const stopOrderFrom = (waypointOrder: number[], stopCount: number): number[] => {
+  const order = waypointOrder.filter(i => i >= 1 && i <= stopCount).map(i => i - 1)
+  if (new Set(order).size !== stopCount || order.length !== stopCount) {
+    throw new Error(`Unexpected waypoint_order ${JSON.stringify(waypointOrder)}`)
+  }
+  return order
+}
+
+const totalDistance = (route: DirectionsRoute) => route.legs.reduce((sum, leg) => sum + leg.distance, 0)
+
+export const planDeliveryRun = async (
+  api: PlannerApi,
+  request: DeliveryRunRequest,
+  options: RequestOptions = {}
+): Promise<DeliveryPlan> => {
+  const { stops } = request
+  if (stops.length === 0) throw new DeliveryPlanError('Add at least one stop')
+  if (stops.length > MAX_DELIVERY_STOPS) {
+    throw new DeliveryPlanError(`A run can have at most ${MAX_DELIVERY_STOPS} stops`)
+  }
+
+  const fixedEnd = !request.returnToStart && request.end ? request.end : null
+  const [start, ...rest] = await resolveAll(api, [request.start, ...(fixedEnd ? [fixedEnd] : []), ...stops.map(s => s.address)], options)
+  const endPlace = fixedEnd ? rest.shift()! : null
+  const stopPlaces = rest
+  const end = request.returnToStart ? start : endPlace
+  const legCount = stops.length + (end ? 1 : 0)
+
+  let order: number[] | null = null
+  let route: DirectionsRoute | null = null
+  let method: DeliveryPlan['method'] = 'optimizer'
+
+  // The optimizer knows nothing of time windows, so runs that have them are planned locally
+  if (!stops.some(stop => stop.window)) {
+    try {
+      const optimized = await api.optimizeRoute(
+        [start, ...stopPlaces, ...(endPlace ? [endPlace] : [])],
+        { source: 'first', destination: endPlace ? 'last' : 'any', roundTrip: !!request.returnToStart },
+        options
+      )
+      order = stopOrderFrom(optimized.waypoint_order, stops.length)
+      const [best] = optimized.routes
+      if (best?.legs.length === legCount) route = best
+    } catch (error) {
+      if (isAbortError(error)) throw error
+      console.warn('Route optimizer unavailable, planning locally:', error)
+    }
+  }
+
+  let durations: number[][] | null = null
+  let distances: number[][] | null = null
+  if (!order) {
+    method = 'local'
+    const points = [start, ...stopPlaces, ...(end ? [end] : [])]
+    const matrix = await api.getDistanceMatrix(points, points, options)
+    durations = matrix.rows.map(row => row.map(cell => cell.duration ?? UNREACHABLE_SECONDS))
+    distances = matrix.rows.map(row => row.map(cell => cell.distance ?? 0))
+    order = orderStopsLocally(durations, stops, request.departure, !!end)
+  }
+
+  // Road geometry for the chosen order; matrix estimates still give ETAs if this fails
+  if (!route) {
+    const visits = order.map(i => stopPlaces[i])
+    const destination = end ?? visits[visits.length - 1]
+    const waypoints = end ? visits : visits.slice(0, -1)
+    try {
+      const directions = await api.getDirections(start, destination, 'driving', waypoints.length > 0 ? waypoints : undefined, options)
+      route = directions.routes[0] ?? null
+    } catch (error) {
+      if (isAbortError(error) || !durations) throw error
+      console.warn('Could not fetch the run geometry, using matrix estimates:', error)
+    }
+  }
+
+  const legSeconds = route ? route.legs.map(leg => leg.duration) : legsForOrder(durations!, order, !!end)
+  const visiting = order.map(i => stops[i])
+  const { timings, finish } = scheduleStops(visiting, legSeconds, request.departure)
+
+  return {
+    start,
+    end,
+    stops: visiting.map((stop, i) => ({ ...stop, location: stopPlaces[order![i]], ...timings[i] })),
+    departure: request.departure,
+    finish,
+    distanceMetres: route ? totalDistance(route) : legsForOrder(distances!, order, !!end).reduce((a, b) => a + b, 0),
+    geometry: route?.overview_polyline ?? null,
+    method
+  }
+}
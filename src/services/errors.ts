@@ -0,0 +1,112 @@
+// Base class for every error raised by OlaApiService
+export class OlaApiError extends Error {
+  readonly endpoint: string
+  // X-Request-Id sent with the failing call; quote it in support tickets
+  requestId?: string
+
+  constructor(message: string, endpoint: string, requestId?: string) {
+    super(message)
+    this.name = 'OlaApiError'
+    this.endpoint = endpoint
+    this.requestId = requestId
+  }
+}
+
+// Non-2xx response that doesn't fall into one of the more specific classes below
+export class OlaHttpError extends OlaApiError {
+  readonly status: number
+
+  constructor(endpoint: string, status: number, statusText: string, requestId?: string) {
+    super(`Ola Maps API error: ${status} ${statusText}`, endpoint, requestId)
+    this.name = 'OlaHttpError'
+    this.status = status
+  }
+
+  get retryable(): boolean {
+    return this.status >= 500
+  }
+}
+
+export class OlaRateLimitError extends OlaHttpError {
+  // Parsed Retry-After header, if the server sent one
+  readonly retryAfterMs?: number
+
+  constructor(endpoint: string, statusText: string, retryAfterMs?: number, requestId?: string) {
+    super(endpoint, 429, statusText, requestId)
+    this.name = 'OlaRateLimitError'
+    this.retryAfterMs = retryAfterMs
+  }
+
+  get retryable(): boolean {
+    return true
+  }
+}
+
+// 401/403: bad or expired credentials
+export class OlaAuthError extends OlaHttpError {
+  constructor(endpoint: string, status: number, statusText: string, requestId?: string) {
+    super(endpoint, status, statusText, requestId)
+    this.name = 'OlaAuthError'
+  }
+}
+
+export class OlaNotFoundError extends OlaHttpError {
+  constructor(endpoint: string, statusText: string, requestId?: string) {
+    super(endpoint, 404, statusText, requestId)
+    this.name = 'OlaNotFoundError'
+  }
+}
+
+// fetch itself rejected: offline, DNS, CORS
+export class OlaNetworkError extends OlaApiError {
+  readonly cause: unknown
+
+  constructor(endpoint: string, cause: unknown, requestId?: string) {
+    super(`Network error calling Ola Maps ${endpoint}: ${(cause as Error)?.message || cause}`, endpoint, requestId)
+    this.name = 'OlaNetworkError'
+    this.cause = cause
+  }
+}
+
+export class OlaTimeoutError extends OlaApiError {
+  readonly timeoutMs: number
+
+  constructor(endpoint: string, timeoutMs: number, requestId?: string) {
+    super(`Ola Maps ${endpoint} did not respond within ${timeoutMs} ms`, endpoint, requestId)
+    this.name = 'OlaTimeoutError'
+    this.timeoutMs = timeoutMs
+  }
+}
+
+// Our own daily budget for an endpoint family is spent; nothing was sent
+export class OlaQuotaExceededError extends OlaApiError {
+  readonly family: string
+  readonly resetsAt: number
+
+  constructor(endpoint: string, family: string, resetsAt: number) {
+    super(`Daily Ola Maps ${family} budget exhausted; resets at ${new Date(resetsAt).toLocaleTimeString()}`, endpoint)
+    this.name = 'OlaQuotaExceededError'
+    this.family = family
+    this.resetsAt = resetsAt
+  }
+}
+
+// The API answered, but the payload doesn't match the shape we map onto our types
+export class OlaValidationError extends OlaApiError {
+  readonly path: string
+  readonly expected: string
+  readonly received: string
+
+  constructor(endpoint: string, path: string, expected: string, value: unknown) {
+    const received = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value
+    super(`Unexpected Ola Maps response from ${endpoint} at ${path}: expected ${expected}, received ${received}`, endpoint)
+    this.name = 'OlaValidationError'
+    this.path = path
+    this.expected = expected
+    this.received = received
+  }
+}
+
+// Cancelled through an AbortSignal; callers usually just ignore these
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError'
@@ -1,4 +1,20 @@
 import OlaApiService from './olaApi'
 
 export const olaApi = new OlaApiService()
-export { default as supabase } from './supabase'
\ No newline at end of file
+export type { DirectionsOptions, DistanceMatrixOptions, OlaApiConfig, OptimizeConstraints, RequestOptions, SnapToRoadOptions } from './olaApi'
+export * from './auth'
+export * from './cache'
+export * from './rateLimiter'
+export * from './errors'
+export * from './deliveryPlanner'
+export * from './speech'
+export * from './location'
+export * from './tripHistory'
+export * from './scooterRouting'
+export * from './routeElevation'
+export * from './routeSpeedLimits'
+export * from './traceMatching'
+export * from './savedPlaces'
+export * from './userPreferences'
+export * from './isochrones'
+export { default as supabase } from './supabase'
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest'
+import { fetchIsochrones, ISOCHRONE_BATCH_SIZE, ISOCHRONE_TTL_MS } from './isochrones'
+import { MemoryLruStore } from './cache'
+import { ISOCHRONE_BEARINGS, ISOCHRONE_RINGS } from '../utils/isochrone'
+import { haversineDistance, type LatLng } from '../utils/geo'
+import type { DistanceMatrix } from '../types'
+
+const center = { lat: 28.6139, lng: 77.209 }
+const GRID_SIZE = ISOCHRONE_RINGS * ISOCHRONE_BEARINGS
+
+// Travels in a straight line at the given speed, in m/s
+const createApi = (speed: number) => ({
+  getDistanceMatrix: vi.fn(async (origins: LatLng[], destinations: LatLng[], _options?: { mode?: string }): Promise<DistanceMatrix> => ({
+    rows: origins.map(origin => destinations.map(destination => {
+      const distance = haversineDistance(origin, destination)
+      return { status: 'OK', distance, duration: distance / speed }
+    }))
+  }))
+})
+
+describe('fetchIsochrones', () => {
+  it('samples the grid in batches with the travel mode and builds a contour per threshold', async () => {
+    const api = createApi(1.4)
+
+    const isochrones = await fetchIsochrones(api, { center, mode: 'bicycling', minutes: [10, 5] }, { store: new MemoryLruStore() })
+
+    expect(api.getDistanceMatrix).toHaveBeenCalledTimes(Math.ceil(GRID_SIZE / ISOCHRONE_BATCH_SIZE))
+    expect(api.getDistanceMatrix.mock.calls.every(([origins, destinations, options]) =>
+      origins.length === 1 && destinations.length <= ISOCHRONE_BATCH_SIZE && options?.mode === 'cycling'
+    )).toBe(true)
+    expect(isochrones.features.map(feature => feature.properties.minutes)).toEqual([10, 5])
+    const [lng, lat] = isochrones.features[1].geometry.coordinates[0][0]
+    expect(haversineDistance(center, { lat, lng })).toBeCloseTo(1.4 * 5 * 60, -1)
+  })
+
+  it('slows scooters to their top speed', async () => {
+    const api = createApi(15)
+
+    const isochrones = await fetchIsochrones(api, { center, mode: 'electric_scooter', minutes: [5], scooterTopSpeedKmh: 18 }, { store: new MemoryLruStore() })
+
+    expect(api.getDistanceMatrix.mock.calls[0][2]?.mode).toBe('driving')
+    const [lng, lat] = isochrones.features[0].geometry.coordinates[0][0]
+    expect(haversineDistance(center, { lat, lng })).toBeLessThan(5 * 60 * 5 + 1)
+  })
+
+  it('reuses sampled travel times until they expire', async () => {
+    const api = createApi(8)
+    const store = new MemoryLruStore()
+    let time = 0
+    const options = { store, now: () => time }
+    const request = { center, mode: 'driving' as const, minutes: [10] }
+    const calls = Math.ceil(GRID_SIZE / ISOCHRONE_BATCH_SIZE)
+
+    await fetchIsochrones(api, request, options)
+    await fetchIsochrones(api, { ...request, center: { lat: center.lat + 0.00001, lng: center.lng } }, options)
+    expect(api.getDistanceMatrix).toHaveBeenCalledTimes(calls)
+
+    time = ISOCHRONE_TTL_MS + 1
+    await fetchIsochrones(api, request, options)
+    expect(api.getDistanceMatrix).toHaveBeenCalledTimes(calls * 2)
+  })
+})
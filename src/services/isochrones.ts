@@ -0,0 +1,83 @@
+import type OlaApiService from './olaApi'
+import type { RequestOptions } from './olaApi'
+import { MemoryLruStore, type CacheStore } from './cache'
+import type { DistanceMatrixElement, TravelMode } from '../types'
+import { directionsMode } from '../utils/directions'
+import type { LatLng } from '../utils/geo'
+import { isochroneFeatures, isochroneRadius, polarGrid } from '../utils/isochrone'
+
+// Destinations per distance matrix request
+export const ISOCHRONE_BATCH_SIZE = 25
+// Sampled travel times are reused for this long, as the matrix includes live traffic
+export const ISOCHRONE_TTL_MS = 5 * 60 * 1000
+
+type MatrixApi = Pick<OlaApiService, 'getDistanceMatrix'>
+
+export interface IsochroneRequest {
+  center: LatLng
+  mode: TravelMode
+  minutes: number[]
+  // Electric scooters are routed as cars and slowed to their top speed
+  scooterTopSpeedKmh?: number
+}
+
+export interface IsochroneOptions extends RequestOptions {
+  // Where sampled travel times are kept; shared across calls by default
+  store?: CacheStore
+  now?: () => number
+}
+
+const sampleCache = new MemoryLruStore(50)
+
+const travelTime = (element: DistanceMatrixElement | undefined, topSpeedMps?: number): number | null => {
+  if (!element || element.duration === null) return null
+  if (!topSpeedMps || element.distance === null) return element.duration
+  return Math.max(element.duration, element.distance / topSpeedMps)
+}
+
+// Travel times from the centre to each point of the sampling grid. The grid is split into
+// batches the distance matrix accepts, and the rate limiter spaces the requests out.
+const sampleTravelTimes = async (
+  api: MatrixApi,
+  request: IsochroneRequest,
+  radius: number,
+  options: RequestOptions
+): Promise<(number | null)[]> => {
+  const grid = polarGrid(request.center, radius)
+  const topSpeedMps = request.mode === 'electric_scooter' && request.scooterTopSpeedKmh
+    ? request.scooterTopSpeedKmh / 3.6
+    : undefined
+
+  const batches: LatLng[][] = []
+  for (let start = 0; start < grid.length; start += ISOCHRONE_BATCH_SIZE) batches.push(grid.slice(start, start + ISOCHRONE_BATCH_SIZE))
+  const results = await Promise.all(batches.map(batch =>
+    api.getDistanceMatrix([request.center], batch, { ...options, mode: directionsMode(request.mode) })
+  ))
+
+  return results.flatMap((matrix, i) => batches[i].map((_, j) => travelTime(matrix.rows[0]?.[j], topSpeedMps)))
+}
+
+// Areas reachable from a point within each of the given minutes, as a FeatureCollection of
+// polygons, largest first. Repeating a query for the same place and mode reuses the samples.
+export const fetchIsochrones = async (api: MatrixApi, request: IsochroneRequest, options: IsochroneOptions = {}) => {
+  const { store = sampleCache, now = Date.now, ...requestOptions } = options
+  const radius = isochroneRadius(request.mode, Math.max(...request.minutes), request.scooterTopSpeedKmh)
+  const key = [
+    request.mode,
+    request.center.lat.toFixed(4),
+    request.center.lng.toFixed(4),
+    radius,
+    request.scooterTopSpeedKmh ?? ''
+  ].join('|')
+
+  let times: (number | null)[]
+  const cached = await store.get(key)
+  if (cached && cached.expiresAt > now()) {
+    times = cached.value as (number | null)[]
+  } else {
+    times = await sampleTravelTimes(api, request, radius, requestOptions)
+    await store.set(key, { value: times, expiresAt: now() + ISOCHRONE_TTL_MS })
+  }
+
+  return isochroneFeatures(request.center, radius, times, request.minutes, request.mode)
+}
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { GeolocateControlProvider, ReplayLocationProvider } from './location'
+import type { LocationFix } from '../types'
+
+const fixes: LocationFix[] = [
+  { lat: 28.6, lng: 77.2, timestamp: 0 },
+  { lat: 28.601, lng: 77.2, timestamp: 1000 },
+  { lat: 28.602, lng: 77.2, timestamp: 3000 }
+]
+
+describe('ReplayLocationProvider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(Date.UTC(2024, 2, 1, 9))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('plays fixes back with their recorded spacing, stamped with the current time', () => {
+    const onFix = vi.fn()
+    const onEnd = vi.fn()
+    new ReplayLocationProvider(fixes, { onEnd }).start(onFix)
+
+    expect(onFix).toHaveBeenCalledTimes(1)
+    expect(onFix).toHaveBeenLastCalledWith({ lat: 28.6, lng: 77.2, timestamp: Date.UTC(2024, 2, 1, 9) })
+
+    vi.advanceTimersByTime(1000)
+    expect(onFix).toHaveBeenCalledTimes(2)
+    vi.advanceTimersByTime(1999)
+    expect(onFix).toHaveBeenCalledTimes(2)
+    vi.advanceTimersByTime(1)
+    expect(onFix).toHaveBeenLastCalledWith(expect.objectContaining({ lat: 28.602 }))
+    expect(onEnd).toHaveBeenCalledTimes(1)
+  })
+
+  it('speeds up by the playback rate', () => {
+    const onFix = vi.fn()
+    new ReplayLocationProvider(fixes, { rate: 4 }).start(onFix)
+
+    vi.advanceTimersByTime(750)
+
+    expect(onFix).toHaveBeenCalledTimes(3)
+  })
+
+  it('resumes where it was stopped, and starts over once finished', () => {
+    const onFix = vi.fn()
+    const provider = new ReplayLocationProvider(fixes)
+    provider.start(onFix)
+    vi.advanceTimersByTime(1000)
+
+    provider.stop()
+    vi.advanceTimersByTime(5000)
+    expect(onFix).toHaveBeenCalledTimes(2)
+
+    provider.start(onFix)
+    expect(onFix).toHaveBeenLastCalledWith(expect.objectContaining({ lat: 28.602 }))
+
+    provider.start(onFix)
+    expect(onFix).toHaveBeenLastCalledWith(expect.objectContaining({ lat: 28.6 }))
+  })
+})
+
+describe('GeolocateControlProvider', () => {
+  it('relays the control\'s fixes until stopped', () => {
+    const handlers = new Map<string, (e: unknown) => void>()
+    const control = {
+      on: vi.fn((event: string, handler: (e: unknown) => void) => handlers.set(event, handler)),
+      off: vi.fn((event: string) => handlers.delete(event))
+    }
+    const onFix = vi.fn()
+    const provider = new GeolocateControlProvider(control)
+
+    provider.start(onFix)
+    handlers.get('geolocate')?.({
+      coords: { latitude: 28.6, longitude: 77.2, heading: 90, speed: 8, accuracy: 12 },
+      timestamp: 1000
+    })
+    provider.stop()
+
+    expect(onFix).toHaveBeenCalledWith({ lat: 28.6, lng: 77.2, heading: 90, speed: 8, accuracy: 12, timestamp: 1000 })
+    expect(handlers.has('geolocate')).toBe(false)
+  })
+})
@@ -0,0 +1,79 @@
+import type { LocationFix } from '../types'
+
+// A source of position fixes: the device's GPS, or a replay standing in for it
+export interface LocationProvider {
+  // Delivers fixes until stopped. Starting again after a stop carries on where it left off.
+  start(onFix: (fix: LocationFix) => void): void
+  stop(): void
+}
+
+// Relays fixes from the Ola Maps geolocate control, which owns the browser's location watch
+export class GeolocateControlProvider implements LocationProvider {
+  private handler?: (e: any) => void
+
+  constructor(private control: any) {}
+
+  start(onFix: (fix: LocationFix) => void) {
+    this.stop()
+    this.handler = (e: any) => onFix({
+      lat: e.coords.latitude,
+      lng: e.coords.longitude,
+      heading: e.coords.heading,
+      speed: e.coords.speed,
+      accuracy: e.coords.accuracy,
+      timestamp: e.timestamp
+    })
+    this.control.on('geolocate', this.handler)
+  }
+
+  stop() {
+    if (!this.handler) return
+    this.control.off('geolocate', this.handler)
+    this.handler = undefined
+  }
+}
+
+export interface ReplayOptions {
+  // Playback speed relative to the recording: 2 replays a track twice as fast
+  rate?: number
+  // Called after the last fix; the next start plays from the beginning
+  onEnd?: () => void
+}
+
+// Plays back a list of fixes, spaced by the gaps between their timestamps.
+// Each fix is delivered stamped with the current time, as a live one would be.
+export class ReplayLocationProvider implements LocationProvider {
+  private index = 0
+  private timer?: ReturnType<typeof setTimeout>
+
+  constructor(private fixes: LocationFix[], private options: ReplayOptions = {}) {}
+
+  start(onFix: (fix: LocationFix) => void) {
+    this.stop()
+    if (this.fixes.length === 0) return
+
+    const rate = this.options.rate ?? 1
+    const play = () => {
+      const fix = this.fixes[this.index]
+      onFix({ ...fix, timestamp: Date.now() })
+
+      const next = this.fixes[this.index + 1]
+      if (!next) {
+        this.index = 0
+        this.timer = undefined
+        this.options.onEnd?.()
+        return
+      }
+
+      this.index++
+      const gap = (next.timestamp ?? 0) - (fix.timestamp ?? 0)
+      this.timer = setTimeout(play, Math.max(0, gap / rate))
+    }
+    play()
+  }
+
+  stop() {
+    clearTimeout(this.timer)
+    this.timer = undefined
+  }
+}
@@ -0,0 +1,23 @@
+import { installMockFetch, type Recordings } from './mockFetch'
+import { installFixtureRecorder } from './recorder'
+
+export { createMockFetch, installMockFetch } from './mockFetch'
+export type { MockFetchConfig, Recordings } from './mockFetch'
+export { FixtureRecorder, installFixtureRecorder, sanitize } from './recorder'
+
+export const isMockMode = () => import.meta.env.VITE_OLA_MOCK === 'true'
+
+// fixtures/recorded.json is optional, so load it through a glob that may match nothing
+const loadRecordings = (): Recordings => {
+  const modules = import.meta.glob<{ default: Recordings }>('./fixtures/recorded.json', { eager: true })
+  return Object.values(modules)[0]?.default ?? {}
+}
+
+// Called once from main.tsx before the app renders
+export const setupDevNetwork = () => {
+  if (isMockMode()) {
+    installMockFetch({ recordings: loadRecordings() })
+  } else if (import.meta.env.VITE_OLA_RECORD_FIXTURES === 'true') {
+    installFixtureRecorder()
+  }
+}
@@ -0,0 +1,325 @@
+import placesFixture from './fixtures/places.json'
+import directionsFixture from './fixtures/directions.json'
+import { buildCacheKey } from '../cache'
+import { haversineDistance, type LatLng } from '../../utils/geo'
+import { encodePolyline } from '../../utils/polyline'
+
+// Serves Ola Maps responses from local fixtures so the app and tests run without credentials.
+// Recorded responses (see recorder.ts) win; otherwise answers are derived from the fixtures.
+
+export interface RecordedResponse {
+  status: number
+  body: unknown
+}
+
+export type Recordings = Record<string, RecordedResponse>
+
+export interface MockFetchConfig {
+  recordings?: Recordings
+  // Simulated network latency
+  latencyMs?: number
+  // Requests that aren't Ola REST calls go here
+  passthrough?: typeof fetch
+}
+
+type Place = (typeof placesFixture.places)[number]
+
+const places: Place[] = placesFixture.places
+const OLA_PATH = /\/(places|routing)\/v1\/.+$/
+// Speeds used to synthesise durations, metres per second
+const SPEEDS: Record<string, number> = { driving: 8.3, walking: 1.4, cycling: 4.2 }
+const ROAD_NAMES = ['Ring Road', 'Janpath', 'Kasturba Gandhi Marg', 'Mathura Road', 'Aurobindo Marg', 'Rohtak Road']
+
+export const recordingKey = (endpoint: string, params: URLSearchParams): string => {
+  const values: Record<string, string> = {}
+  params.forEach((value, key) => {
+    if (key !== 'api_key') values[key] = value
+  })
+  return buildCacheKey(endpoint, values, 5)
+}
+
+// "/api/ola/places/v1/details" -> "/places/v1/details"
+export const olaEndpointOf = (pathname: string): string | null => {
+  const match = pathname.match(OLA_PATH)
+  return match ? match[0] : null
+}
+
+const parsePoint = (value: string | null): LatLng | null => {
+  if (!value) return null
+  const [lat, lng] = value.split(',').map(Number)
+  return Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : null
+}
+
+const parsePoints = (value: string | null): LatLng[] =>
+  (value || '').split('|').map(parsePoint).filter((p): p is LatLng => p !== null)
+
+const toPrediction = (place: Place, from?: LatLng | null) => ({
+  description: `${place.name}, ${place.formatted_address}`,
+  place_id: place.place_id,
+  reference: place.place_id,
+  geometry: place.geometry,
+  structured_formatting: {
+    main_text: place.name,
+    secondary_text: place.formatted_address
+  },
+  types: place.types,
+  distance_meters: from ? Math.round(haversineDistance(from, place.geometry.location)) : undefined
+})
+
+const toGeocodeResult = (place: Place) => ({
+  place_id: place.place_id,
+  name: place.name,
+  formatted_address: place.formatted_address,
+  geometry: { location: place.geometry.location, location_type: 'ROOFTOP' },
+  types: place.types,
+  address_components: []
+})
+
+const nearestPlace = (point: LatLng): Place =>
+  places.reduce((best, place) =>
+    haversineDistance(point, place.geometry.location) < haversineDistance(point, best.geometry.location) ? place : best)
+
+const matches = (place: Place, query: string) =>
+  `${place.name} ${place.formatted_address}`.toLowerCase().includes(query.trim().toLowerCase())
+
+const readable = (metres: number, seconds: number) => ({
+  readable_distance: metres >= 1000 ? `${(metres / 1000).toFixed(1)} km` : `${Math.round(metres)} m`,
+  readable_duration: `${Math.max(1, Math.round(seconds / 60))} min`
+})
+
+// Two-segment "L" route between stops; variant picks which axis is travelled first
+const synthesizeRoute = (stops: LatLng[], mode: string, variant: number) => {
+  const speed = SPEEDS[mode] ?? SPEEDS.driving
+  const coordinates: number[][] = []
+  const advisory: string[] = []
+
+  const legs = stops.slice(1).map((end, i) => {
+    const start = stops[i]
+    const corner = variant === 0 ? { lat: end.lat, lng: start.lng } : { lat: start.lat, lng: end.lng }
+    const roads = [ROAD_NAMES[(i + variant) % ROAD_NAMES.length], ROAD_NAMES[(i + variant + 1) % ROAD_NAMES.length]]
+    const segments: [LatLng, LatLng, string, string][] = [
+      [start, corner, `Head ${corner.lat >= start.lat ? 'north' : 'south'} on ${roads[0]}`, 'depart'],
+      [corner, end, `Turn ${variant === 0 ? 'left' : 'right'} onto ${roads[1]}`, variant === 0 ? 'turn-left' : 'turn-right'],
+      [end, end, 'You have arrived at your destination', 'arrive']
+    ]
+
+    const steps = segments.map(([from, to, instructions, maneuver]) => {
+      const distance = Math.round(haversineDistance(from, to) * 1.15)
+      const duration = Math.round(distance / speed)
+      return {
+        instructions,
+        maneuver,
+        distance,
+        duration,
+        ...readable(distance, duration),
+        start_location: from,
+        end_location: to
+      }
+    })
+
+    // travel_advisory entries are "startIndex,endIndex,congestion" over the overview polyline
+    const startIndex = Math.max(0, coordinates.length - 1)
+    if (i === 0) coordinates.push([start.lng, start.lat])
+    coordinates.push([corner.lng, corner.lat], [end.lng, end.lat])
+    advisory.push(`${startIndex},${coordinates.length - 1},${(i * 7 + variant * 5) % 13}`)
+
+    const distance = steps.reduce((sum, s) => sum + s.distance, 0)
+    const duration = steps.reduce((sum, s) => sum + s.duration, 0)
+    return { distance, duration, ...readable(distance, duration), start_location: start, end_location: end, steps }
+  })
+
+  return {
+    summary: '',
+    overview_polyline: encodePolyline(coordinates),
+    travel_advisory: advisory.join(' | '),
+    warnings: [],
+    waypoint_order: stops.slice(1, -1).map((_, i) => i),
+    legs
+  }
+}
+
+const nearFixture = (point: LatLng, fixture: { lat: number; lng: number }) => haversineDistance(point, fixture) < 300
+
+const directions = (params: URLSearchParams) => {
+  const origin = parsePoint(params.get('origin'))
+  const destination = parsePoint(params.get('destination'))
+  if (!origin || !destination) return null
+
+  const waypoints = parsePoints(params.get('waypoints'))
+  const mode = params.get('travel_mode') || params.get('mode') || 'driving'
+  const fixtureLeg = directionsFixture.routes[0].legs[0]
+
+  // The recorded Connaught Place -> India Gate trip, when the request is close enough to it
+  if (waypoints.length === 0 && nearFixture(origin, fixtureLeg.start_location) && nearFixture(destination, fixtureLeg.end_location)) {
+    return directionsFixture
+  }
+
+  const stops = [origin, ...waypoints, destination]
+  return {
+    status: 'SUCCESS',
+    geocoded_waypoints: [],
+    routes: [synthesizeRoute(stops, mode, 0), synthesizeRoute(stops, mode, 1)]
+  }
+}
+
+const elevationAt = (point: LatLng) => 216 + Math.round((Math.sin(point.lat * 900) + Math.cos(point.lng * 700)) * 40) / 10
+
+type Handler = (params: URLSearchParams) => unknown | null
+
+const handlers: Record<string, Handler> = {
+  '/places/v1/autocomplete': (params) => ({
+    status: 'ok',
+    predictions: places
+      .filter(place => matches(place, params.get('input') || ''))
+      .map(place => toPrediction(place, parsePoint(params.get('location'))))
+  }),
+  '/places/v1/details': (params) => {
+    const place = places.find(p => p.place_id === params.get('place_id'))
+    return place ? { status: 'ok', result: place } : null
+  },
+  '/places/v1/details/advanced': (params) => handlers['/places/v1/details'](params),
+  '/places/v1/nearbysearch': (params) => {
+    const location = parsePoint(params.get('location'))
+    const radius = Number(params.get('radius') || 5000)
+    const types = params.get('types')
+    return {
+      status: 'ok',
+      predictions: places
+        .filter(place => !location || haversineDistance(location, place.geometry.location) <= radius)
+        .filter(place => !types || types.split(',').some(type => place.types.includes(type)))
+        .map(place => toPrediction(place, location))
+    }
+  },
+  '/places/v1/nearbysearch/advanced': (params) => handlers['/places/v1/nearbysearch'](params),
+  '/places/v1/textsearch': (params) => ({
+    status: 'ok',
+    predictions: places.filter(place => matches(place, params.get('input') || '')).map(place => toPrediction(place))
+  }),
+  '/places/v1/geocode': (params) => ({
+    status: 'ok',
+    geocodingResults: places.filter(place => matches(place, params.get('address') || '')).map(toGeocodeResult)
+  }),
+  '/places/v1/reverse-geocode': (params) => {
+    const point = parsePoint(params.get('latlng'))
+    return point ? { status: 'ok', results: [toGeocodeResult(nearestPlace(point))] } : null
+  },
+  '/places/v1/elevation': (params) => {
+    if (params.has('locations')) {
+      return { status: 'ok', results: parsePoints(params.get('locations')).map(point => ({ elevation: elevationAt(point), location: point })) }
+    }
+    const point = parsePoint(params.get('location'))
+    return point ? { status: 'ok', results: [{ elevation: elevationAt(point), location: point }] } : null
+  },
+  '/routing/v1/directions': directions,
+  '/routing/v1/distanceMatrix': (params) => {
+    const destinations = parsePoints(params.get('destinations'))
+    const speed = SPEEDS[params.get('mode') ?? 'driving'] ?? SPEEDS.driving
+    return {
+      status: 'SUCCESS',
+      rows: parsePoints(params.get('origins')).map(origin => ({
+        elements: destinations.map(destination => {
+          const distance = Math.round(haversineDistance(origin, destination) * 1.3)
+          return { status: 'OK', distance, duration: Math.round(distance / speed) }
+        })
+      }))
+    }
+  },
+  '/routing/v1/snapToRoad': (params) => {
+    const points = parsePoints(params.get('points'))
+    const enhance = params.get('enhancePath') === 'true'
+    // An enhanced path gains a midpoint between each pair, without an original_index, as Ola's does
+    return {
+      status: 'SUCCESS',
+      snapped_points: points.flatMap((location, original_index) => {
+        const snapped = { location, original_index, snapped_type: 'road' }
+        const next = points[original_index + 1]
+        if (!enhance || !next) return [snapped]
+        return [snapped, { location: { lat: (location.lat + next.lat) / 2, lng: (location.lng + next.lng) / 2 }, snapped_type: 'road' }]
+      })
+    }
+  },
+  '/routing/v1/speedLimits': (params) => ({
+    status: 'SUCCESS',
+    snapped_points: parsePoints(params.get('points')).map((location, original_index) => ({
+      location,
+      original_index,
+      snapped_type: 'road',
+      speed_limit: [40, 50, 60][original_index % 3]
+    }))
+  }),
+  '/routing/v1/routeOptimizer': (params) => {
+    const locations = parsePoints(params.get('locations'))
+    if (locations.length < 2) return null
+
+    // Greedy nearest-neighbour order from the first location, keeping the last one last when asked
+    const fixedEnd = params.get('destination') === 'last' && locations.length > 2
+    const order = [0]
+    const remaining = locations.slice(1, fixedEnd ? -1 : undefined).map((_, i) => i + 1)
+    while (remaining.length > 0) {
+      const last = locations[order[order.length - 1]]
+      remaining.sort((a, b) => haversineDistance(last, locations[a]) - haversineDistance(last, locations[b]))
+      order.push(remaining.shift()!)
+    }
+    if (fixedEnd) order.push(locations.length - 1)
+
+    const stops = order.map(i => locations[i])
+    if (params.get('round_trip') === 'true') stops.push(locations[0])
+    const route = synthesizeRoute(stops, 'driving', 0)
+    return { status: 'SUCCESS', routes: [{ ...route, waypoint_order: order }] }
+  },
+  '/routing/v1/nearestRoads': (params) => ({
+    status: 'SUCCESS',
+    results: parsePoints(params.get('points')).map((point, original_index) => ({
+      lat: point.lat + 0.0001,
+      lng: point.lng,
+      distance: 11.1,
+      original_index,
+      status: 'VALID'
+    }))
+  })
+}
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+export const createMockFetch = (config: MockFetchConfig = {}): typeof fetch => {
+  const { recordings = {}, latencyMs = 150 } = config
+  const passthrough = config.passthrough ?? globalThis.fetch.bind(globalThis)
+
+  return async (input, init) => {
+    const raw = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url
+    const url = new URL(raw, typeof window !== 'undefined' ? window.location.origin : 'http://localhost')
+
+    // Stand-in for the OAuth token endpoint, so client-credentials mode works offline too
+    if (url.pathname.endsWith('/protocol/openid-connect/token') || url.pathname === '/mock/token') {
+      await delay(latencyMs)
+      return jsonResponse(200, { access_token: 'mock-access-token', token_type: 'Bearer', expires_in: 3600 })
+    }
+
+    const endpoint = olaEndpointOf(url.pathname)
+    if (!endpoint) return passthrough(input, init)
+
+    await delay(latencyMs)
+
+    const recorded = recordings[recordingKey(endpoint, url.searchParams)]
+    if (recorded) return jsonResponse(recorded.status, recorded.body)
+
+    const handler = handlers[endpoint]
+    const body = handler?.(url.searchParams)
+    if (!body) return jsonResponse(404, { status: 'NOT_FOUND', error_message: `No mock fixture for ${endpoint}` })
+
+    return jsonResponse(200, body)
+  }
+}
+
+// Replace window.fetch for Ola calls; everything else still goes to the network
+export const installMockFetch = (config: MockFetchConfig = {}) => {
+  const original = window.fetch.bind(window)
+  window.fetch = createMockFetch({ passthrough: original, ...config })
+  console.info('Ola Maps mock mode: REST calls are served from local fixtures')
+  return () => {
+    window.fetch = original
+  }
+}
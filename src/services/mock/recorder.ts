@@ -0,0 +1,83 @@
+import { olaEndpointOf, recordingKey, type Recordings } from './mockFetch'
+
+// Captures real Ola responses while you use the app, then exports them as a fixture file
+// that createMockFetch serves back verbatim. Enable with VITE_OLA_RECORD_FIXTURES=true and run
+// `__olaRecorder.download()` from the browser console; save the file as fixtures/recorded.json.
+
+const SECRET_KEYS = /^(api_key|access_token|refresh_token|client_secret|client_id|authorization)$/i
+
+// Drop anything that looks like a credential, at any depth
+export const sanitize = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(sanitize)
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .filter(([key]) => !SECRET_KEYS.test(key))
+        .map(([key, nested]) => [key, sanitize(nested)])
+    )
+  }
+  return value
+}
+
+export class FixtureRecorder {
+  private recordings: Recordings = {}
+
+  // Wrap a fetch so successful Ola REST responses are recorded on the way through
+  wrap(fetchFn: typeof fetch): typeof fetch {
+    return async (input, init) => {
+      const response = await fetchFn(input, init)
+      const raw = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url
+      const url = new URL(raw, window.location.origin)
+      const endpoint = olaEndpointOf(url.pathname)
+
+      if (endpoint) {
+        try {
+          const body = await response.clone().json()
+          this.recordings[recordingKey(endpoint, url.searchParams)] = {
+            status: response.status,
+            body: sanitize(body)
+          }
+        } catch (error) {
+          console.warn(`Fixture recorder skipped ${endpoint}:`, error)
+        }
+      }
+
+      return response
+    }
+  }
+
+  get size(): number {
+    return Object.keys(this.recordings).length
+  }
+
+  toJSON(): Recordings {
+    return this.recordings
+  }
+
+  download(filename: string = 'recorded.json') {
+    const blob = new Blob([JSON.stringify(this.recordings, null, 2)], { type: 'application/json' })
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(blob)
+    link.download = filename
+    link.click()
+    URL.revokeObjectURL(link.href)
+  }
+
+  clear() {
+    this.recordings = {}
+  }
+}
+
+declare global {
+  interface Window {
+    __olaRecorder?: FixtureRecorder
+  }
+}
+
+export const installFixtureRecorder = (): FixtureRecorder => {
+  const recorder = new FixtureRecorder()
+  window.fetch = recorder.wrap(window.fetch.bind(window))
+  window.__olaRecorder = recorder
+  console.info('Ola Maps fixture recorder active: call __olaRecorder.download() to save responses')
+  return recorder
+}
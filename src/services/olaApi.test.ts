@@ -0,0 +1,254 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import OlaApiService from './olaApi'
+import { ApiKeyAuthProvider, type AuthProvider } from './auth'
+import { MemoryLruStore, ResponseCache } from './cache'
+import { RateLimiter } from './rateLimiter'
+import { OlaNotFoundError, OlaRateLimitError, OlaValidationError, isAbortError } from './errors'
+import { createMockFetch } from './mock/mockFetch'
+
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } })
+
+const createService = (overrides: ConstructorParameters<typeof OlaApiService>[0] = {}) =>
+  new OlaApiService({
+    auth: new ApiKeyAuthProvider('test-key'),
+    baseUrl: 'https://api.olamaps.io',
+    cache: null,
+    rateLimiter: null,
+    ...overrides
+  })
+
+describe('OlaApiService', () => {
+  const fetchMock = vi.fn<Parameters<typeof fetch>, ReturnType<typeof fetch>>()
+
+  beforeEach(() => {
+    fetchMock.mockReset()
+    vi.stubGlobal('fetch', fetchMock)
+    // Zero backoff so retries don't slow the suite down
+    vi.spyOn(Math, 'random').mockReturnValue(0)
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('returns typed predictions from the mock fixtures', async () => {
+    fetchMock.mockImplementation(createMockFetch({ latencyMs: 0 }))
+
+    const results = await createService().autocomplete('India Gate')
+
+    expect(results[0]).toMatchObject({ name: 'India Gate', location: { lat: expect.any(Number), lng: expect.any(Number) } })
+  })
+
+  it('authorises the request and tags it with a request id', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ status: 'ok', predictions: [] }))
+    const service = createService()
+
+    await service.autocomplete('cafe', undefined, { requestId: 'req-123' })
+
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(new URL(url as string).searchParams.get('api_key')).toBe('test-key')
+    expect((init?.headers as Record<string, string>)['X-Request-Id']).toBe('req-123')
+    expect(service.lastRequestId).toBe('req-123')
+  })
+
+  it('retries server errors and then succeeds', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({}, 503))
+      .mockResolvedValueOnce(jsonResponse({ status: 'ok', predictions: [] }))
+
+    await expect(createService().autocomplete('cafe')).resolves.toEqual([])
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('gives up once the retry budget is spent', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse({}, 429, { 'Retry-After': '0' }))
+
+    await expect(createService().autocomplete('cafe', undefined, { retries: 2 })).rejects.toBeInstanceOf(OlaRateLimitError)
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+
+  it('does not retry a 404', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({}, 404))
+
+    await expect(createService().getPlaceDetails('missing')).rejects.toBeInstanceOf(OlaNotFoundError)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('rejects payloads that do not match the schema', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ status: 'ok', predictions: [{ description: 'No geometry' }] }))
+
+    const error = await createService().autocomplete('cafe', undefined, { requestId: 'req-9' }).catch(e => e)
+
+    expect(error).toBeInstanceOf(OlaValidationError)
+    expect(error.requestId).toBe('req-9')
+  })
+
+  it('re-authorises once after a 401', async () => {
+    const auth: AuthProvider = {
+      authorize: vi.fn(async (_url: URL, headers: Record<string, string>) => {
+        headers.Authorization = 'Bearer token'
+      }),
+      invalidate: vi.fn(() => true)
+    }
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({}, 401))
+      .mockResolvedValueOnce(jsonResponse({ status: 'ok', predictions: [] }))
+
+    await createService({ auth }).autocomplete('cafe', undefined, { retries: 0 })
+
+    expect(auth.invalidate).toHaveBeenCalledTimes(1)
+    expect(auth.authorize).toHaveBeenCalledTimes(2)
+  })
+
+  it('surfaces caller cancellation as an AbortError', async () => {
+    // Behaves like fetch: rejects straight away if the signal is already aborted
+    fetchMock.mockImplementation((_input, init) => new Promise((_resolve, reject) => {
+      const abort = () => reject(new DOMException('Aborted', 'AbortError'))
+      if (init?.signal?.aborted) abort()
+      init?.signal?.addEventListener('abort', abort)
+    }))
+    const controller = new AbortController()
+
+    const pending = createService().autocomplete('cafe', undefined, { signal: controller.signal })
+    controller.abort()
+
+    expect(isAbortError(await pending.catch(e => e))).toBe(true)
+  })
+
+  it('sends a planned departure only to a directions endpoint that takes one', async () => {
+    fetchMock.mockImplementation(createMockFetch({ latencyMs: 0 }))
+    const origin = { lat: 28.6315, lng: 77.2167 }
+    const destination = { lat: 28.6129, lng: 77.2295 }
+    const departureTime = Date.UTC(2024, 4, 6, 3, 30)
+
+    await createService().getDirections(origin, destination, 'driving', undefined, { departureTime })
+    await createService({ timedDirections: true }).getDirections(origin, destination, 'driving', undefined, { departureTime })
+
+    const [live, timed] = fetchMock.mock.calls.map(([url]) => new URL(url as string).searchParams)
+    expect(live.has('departure_time')).toBe(false)
+    expect(timed.get('departure_time')).toBe(String(departureTime / 1000))
+  })
+
+  it('asks for directions that keep off tolls and ferries', async () => {
+    fetchMock.mockImplementation(createMockFetch({ latencyMs: 0 }))
+
+    await createService().getDirections({ lat: 28.6315, lng: 77.2167 }, { lat: 28.6129, lng: 77.2295 }, 'driving', undefined, { avoid: ['tolls', 'ferries'] })
+
+    expect(new URL(fetchMock.mock.calls[0][0] as string).searchParams.get('avoid')).toBe('tolls|ferries')
+  })
+
+  it('looks up elevations for several points in one call', async () => {
+    fetchMock.mockImplementation(createMockFetch({ latencyMs: 0 }))
+
+    const samples = await createService().getElevations([{ lat: 28.6, lng: 77.2 }, { lat: 28.61, lng: 77.21 }])
+
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(init?.method).toBe('POST')
+    expect(new URL(url as string).searchParams.get('locations')).toBe('28.6,77.2|28.61,77.21')
+    expect(samples.map(sample => sample.location)).toEqual([{ lat: 28.6, lng: 77.2 }, { lat: 28.61, lng: 77.21 }])
+  })
+
+  it('asks snapToRoad to fill in the path only when told to', async () => {
+    fetchMock.mockImplementation(createMockFetch({ latencyMs: 0 }))
+    const service = createService()
+    const path = [{ lat: 28.6, lng: 77.2 }, { lat: 28.61, lng: 77.21 }]
+
+    const plain = await service.snapToRoad(path)
+    const enhanced = await service.snapToRoad(path, { enhancePath: true })
+
+    const enhancePath = (call: number) => new URL(fetchMock.mock.calls[call][0] as string).searchParams.get('enhancePath')
+    expect([enhancePath(0), enhancePath(1)]).toEqual(['false', 'true'])
+    expect(plain).toHaveLength(2)
+    expect(enhanced.map(point => point.original_index)).toEqual([0, undefined, 1])
+  })
+
+  it('sends the travel mode with a distance matrix request', async () => {
+    fetchMock.mockImplementation(createMockFetch({ latencyMs: 0 }))
+    const service = createService()
+    const origin = [{ lat: 28.6, lng: 77.2 }]
+    const destination = [{ lat: 28.61, lng: 77.21 }]
+
+    const driving = await service.getDistanceMatrix(origin, destination)
+    const walking = await service.getDistanceMatrix(origin, destination, { mode: 'walking' })
+
+    const mode = (call: number) => new URL(fetchMock.mock.calls[call][0] as string).searchParams.get('mode')
+    expect([mode(0), mode(1)]).toEqual([null, 'walking'])
+    expect(walking.rows[0][0].duration).toBeGreaterThan(driving.rows[0][0].duration!)
+  })
+
+  describe('with a response cache', () => {
+    it('serves repeat and concurrent calls from one request', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({ status: 'ok', predictions: [] }))
+      const service = createService({ cache: new ResponseCache({ store: new MemoryLruStore() }) })
+
+      await Promise.all([service.autocomplete('cafe'), service.autocomplete('cafe')])
+      await service.autocomplete('cafe')
+
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+      expect(service.getCacheStats()).toMatchObject({ hits: 1, misses: 1, deduplicated: 1 })
+    })
+
+    it('never sends a call whose only caller has cancelled it', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({ status: 'ok', predictions: [] }))
+      const service = createService({ cache: new ResponseCache({ store: new MemoryLruStore() }) })
+      const controller = new AbortController()
+
+      const pending = service.autocomplete('cafe', undefined, { signal: controller.signal })
+      controller.abort()
+
+      expect(isAbortError(await pending.catch(e => e))).toBe(true)
+      expect(fetchMock).not.toHaveBeenCalled()
+      await expect(service.autocomplete('cafe')).resolves.toEqual([])
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it('keeps a shared call going while any of its callers still wants it', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({ status: 'ok', predictions: [] }))
+      const service = createService({ cache: new ResponseCache({ store: new MemoryLruStore() }) })
+      const first = new AbortController()
+      const second = new AbortController()
+
+      const cancelled = service.autocomplete('cafe', undefined, { signal: first.signal })
+      const kept = service.autocomplete('cafe', undefined, { signal: second.signal })
+      first.abort()
+
+      expect(isAbortError(await cancelled.catch(e => e))).toBe(true)
+      await expect(kept).resolves.toEqual([])
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it('falls back to a stale entry once the daily budget is spent', async () => {
+      let clock = Date.now()
+      const now = () => clock
+      fetchMock.mockImplementation(async () => jsonResponse({ status: 'ok', predictions: [] }))
+      const service = createService({
+        cache: new ResponseCache({ store: new MemoryLruStore(), now }),
+        rateLimiter: new RateLimiter({ dailyLimits: { places: 1, routing: 1 }, storage: null, now })
+      })
+
+      await service.autocomplete('cafe')
+      clock += 15 * 60 * 1000
+
+      await expect(service.autocomplete('cafe')).resolves.toEqual([])
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+      expect(service.getCacheStats()?.stale).toBe(1)
+    })
+
+    it('does not serve a stale entry when the API fails for any other reason', async () => {
+      let clock = Date.now()
+      const now = () => clock
+      fetchMock.mockImplementationOnce(async () => jsonResponse({ status: 'ok', predictions: [] }))
+      fetchMock.mockImplementation(async () => jsonResponse({ error: 'down' }, 503))
+      const service = createService({ cache: new ResponseCache({ store: new MemoryLruStore(), now }) })
+
+      await service.autocomplete('cafe')
+      clock += 15 * 60 * 1000
+
+      await expect(service.autocomplete('cafe', undefined, { retries: 0 })).rejects.toMatchObject({ status: 503 })
+      expect(service.getCacheStats()?.stale).toBe(0)
+    })
+  })
+})
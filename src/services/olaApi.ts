@@ -1,116 +1,425 @@
+import { createAuthProviderFromEnv, type AuthProvider } from './auth'
+import { ResponseCache, type CacheStats } from './cache'
+import { RateLimiter, type RequestPriority, type UsageSnapshot } from './rateLimiter'
+import {
+  OlaApiError,
+  OlaAuthError,
+  OlaHttpError,
+  OlaNetworkError,
+  OlaNotFoundError,
+  OlaQuotaExceededError,
+  OlaRateLimitError,
+  OlaTimeoutError,
+  OlaValidationError
+} from './errors'
+import {
+  parseAutocomplete,
+  parseDirections,
+  parseDistanceMatrix,
+  parseElevation,
+  parseElevations,
+  parseGeocode,
+  parseNearbySearch,
+  parseNearestRoads,
+  parsePlaceDetails,
+  parseReverseGeocode,
+  parseRouteOptimizer,
+  parseSnapToRoad,
+  parseSpeedLimits,
+  parseTextSearch
+} from './olaParsers'
+import {
+  DEFAULT_RETRY_POLICY,
+  computeBackoff,
+  createRequestId,
+  parseRetryAfter,
+  sleep,
+  type RetryPolicy
+} from './retry'
+import type {
+  DirectionsResult,
+  DistanceMatrix,
+  ElevationSample,
+  GeocodeResult,
+  NearestRoad,
+  OptimizedRoute,
+  PlaceDetails,
+  RouteAvoidance,
+  SearchResult,
+  SnappedPoint,
+  SpeedLimitPoint
+} from '../types'
+
 const API_BASE_URL = 'https://api.olamaps.io'
+const DEFAULT_TIMEOUT_MS = 10000
+// Don't sit on a 429 longer than this; surface OlaRateLimitError instead
+const MAX_RETRY_AFTER_MS = 30000
+
+export interface RequestOptions {
+  signal?: AbortSignal
+  // Per-attempt timeout; defaults to DEFAULT_TIMEOUT_MS
+  timeoutMs?: number
+  // Retries for 429, 5xx, network errors and timeouts; 0 disables
+  retries?: number
+  // Supply your own X-Request-Id, e.g. to correlate with app logs
+  requestId?: string
+  // 'no-store' skips the response cache for this call
+  cache?: 'default' | 'no-store'
+  // Queue position under the client-side rate limiter; defaults to 'normal'
+  priority?: RequestPriority
+}
+
+// Route optimizer options; the API's defaults apply to anything left out
+export interface OptimizeConstraints {
+  // 'first' keeps locations[0] as the start
+  source?: 'first' | 'any'
+  // 'last' keeps the final location as the end
+  destination?: 'last' | 'any'
+  // Come back to the start after the last location
+  roundTrip?: boolean
+}
+
+// Directions for a planned trip rather than for right now; milliseconds since the epoch.
+// Only sent when the service is configured with timedDirections.
+export interface DirectionsOptions extends RequestOptions {
+  departureTime?: number
+  arrivalTime?: number
+  // Road features to keep off, where the route allows
+  avoid?: RouteAvoidance[]
+}
+
+export interface SnapToRoadOptions extends RequestOptions {
+  // Adds points between the given ones so the snapped path follows the road's curves
+  enhancePath?: boolean
+}
+
+export interface DistanceMatrixOptions extends RequestOptions {
+  // driving, walking or cycling; the API's default is driving
+  mode?: string
+}
+
+export interface OlaApiConfig {
+  // Defaults to the strategy selected by VITE_OLA_MAPS_AUTH_MODE
+  auth?: AuthProvider
+  // api.olamaps.io, or our proxy such as "/api/ola"; defaults to VITE_OLA_API_BASE_URL
+  baseUrl?: string
+  // Pass null to disable response caching
+  cache?: ResponseCache | null
+  // Pass null to disable client-side rate limiting and the daily budget
+  rateLimiter?: RateLimiter | null
+  // The directions endpoint accepts departure_time/arrival_time. Ola's public endpoint plans
+  // for live traffic only, so this defaults to VITE_OLA_TIMED_DIRECTIONS, normally unset.
+  timedDirections?: boolean
+}
+
+const isRetryable = (error: unknown): boolean => {
+  if (error instanceof OlaHttpError) return error.retryable
+  return error instanceof OlaNetworkError || error instanceof OlaTimeoutError
+}
+
+const toHttpError = (response: Response, endpoint: string, requestId: string): OlaHttpError => {
+  const { status, statusText } = response
+  if (status === 429) {
+    return new OlaRateLimitError(endpoint, statusText, parseRetryAfter(response.headers.get('Retry-After')), requestId)
+  }
+  if (status === 401 || status === 403) return new OlaAuthError(endpoint, status, statusText, requestId)
+  if (status === 404) return new OlaNotFoundError(endpoint, statusText, requestId)
+  return new OlaHttpError(endpoint, status, statusText, requestId)
+}
 
 class OlaApiService {
-  private apiKey: string
-  private clientId: string
-  private clientSecret: string
+  private auth: AuthProvider
+  private baseUrl: string
+  private cache: ResponseCache | null
+  private rateLimiter: RateLimiter | null
+  private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY
+  // X-Request-Id of the most recent call, for "report a problem" flows
+  lastRequestId?: string
+  // Whether getDirections can plan for a departure or arrival time
+  readonly supportsTimedDirections: boolean
 
-  constructor() {
-    this.apiKey = import.meta.env.VITE_OLA_MAPS_API_KEY
-    this.clientId = import.meta.env.VITE_OLA_MAPS_CLIENT_ID
-    this.clientSecret = import.meta.env.VITE_OLA_MAPS_CLIENT_SECRET
+  constructor(config: OlaApiConfig = {}) {
+    this.auth = config.auth ?? createAuthProviderFromEnv()
+    this.cache = config.cache === undefined ? new ResponseCache() : config.cache
+    this.rateLimiter = config.rateLimiter === undefined ? new RateLimiter() : config.rateLimiter
+    this.baseUrl = (config.baseUrl ?? import.meta.env.VITE_OLA_API_BASE_URL ?? API_BASE_URL).replace(/\/+$/, '')
+    this.supportsTimedDirections = config.timedDirections ?? import.meta.env.VITE_OLA_TIMED_DIRECTIONS === 'true'
+  }
 
-    if (!this.apiKey || !this.clientId || !this.clientSecret) {
-      throw new Error('Missing Ola Maps API credentials')
-    }
+  // Hit/miss counters for the response cache, i.e. how many API calls were saved
+  getCacheStats(): CacheStats | null {
+    return this.cache?.getStats() ?? null
   }
 
-  private async makeRequest(endpoint: string, params: Record<string, any> = {}, method: string = 'GET') {
-    const url = new URL(endpoint, API_BASE_URL)
-    
-    // Add api_key as query parameter
-    url.searchParams.append('api_key', this.apiKey)
-    
+  async clearCache() {
+    await this.cache?.clear()
+  }
+
+  // Remaining daily budget and queue depth per endpoint family
+  getUsage(): UsageSnapshot | null {
+    return this.rateLimiter?.getUsage() ?? null
+  }
+
+  private async makeRequest(
+    endpoint: string,
+    params: Record<string, any> = {},
+    method: string = 'GET',
+    options: RequestOptions = {}
+  ): Promise<unknown> {
+    // Concatenate rather than resolve so a proxy base path like /api/ola is kept
+    const origin = typeof window !== 'undefined' ? window.location.origin : API_BASE_URL
+    const url = new URL(`${this.baseUrl}${endpoint}`, origin)
+
     Object.keys(params).forEach(key => {
       if (params[key] !== undefined && params[key] !== null) {
         url.searchParams.append(key, params[key].toString())
       }
     })
 
-    const response = await fetch(url.toString(), {
-      method: method,
-      headers: {
-        'X-Request-Id': 'XXX',
+    // One ID per logical call, shared by its retries so support can trace them together
+    const requestId = options.requestId ?? createRequestId()
+    this.lastRequestId = requestId
+    const retries = options.retries ?? this.retryPolicy.retries
+    let reauthorized = false
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        if (options.signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError')
+        await this.rateLimiter?.schedule(endpoint, options.priority, options.signal)
+        return await this.fetchOnce(url, endpoint, method, requestId, options)
+      } catch (error) {
+        // An expired or revoked token gets exactly one fresh attempt, outside the retry budget
+        if (error instanceof OlaAuthError && error.status === 401 && !reauthorized && this.auth.invalidate()) {
+          reauthorized = true
+          attempt--
+          continue
+        }
+
+        if (attempt >= retries || !isRetryable(error)) throw error
+
+        const retryAfter = error instanceof OlaRateLimitError ? error.retryAfterMs : undefined
+        if (retryAfter !== undefined && retryAfter > MAX_RETRY_AFTER_MS) throw error
+
+        const delay = retryAfter ?? computeBackoff(attempt, this.retryPolicy)
+        console.warn(`Retrying ${endpoint} in ${delay} ms (attempt ${attempt + 1}/${retries}, request ${requestId})`)
+        await sleep(delay, options.signal)
+      }
+    }
+  }
+
+  private async fetchOnce(
+    baseUrl: URL,
+    endpoint: string,
+    method: string,
+    requestId: string,
+    options: RequestOptions
+  ): Promise<unknown> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    const controller = new AbortController()
+    let timedOut = false
+
+    const timer = setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, timeoutMs)
+    const onAbort = () => controller.abort()
+    if (options.signal?.aborted) controller.abort()
+    options.signal?.addEventListener('abort', onAbort, { once: true })
+
+    try {
+      const url = new URL(baseUrl)
+      const headers: Record<string, string> = {
+        'X-Request-Id': requestId,
         'Content-Type': 'application/json'
       }
-    })
 
-    if (!response.ok) {
-      throw new Error(`Ola Maps API error: ${response.status} ${response.statusText}`)
+      let response: Response
+      try {
+        await this.auth.authorize(url, headers)
+        response = await fetch(url.toString(), {
+          method: method,
+          headers,
+          signal: controller.signal
+        })
+      } catch (error) {
+        // Token endpoint failures already carry a specific error class
+        if (error instanceof OlaApiError) throw error
+        throw this.toFetchError(error, endpoint, requestId, timedOut, timeoutMs, options.signal)
+      }
+
+      if (!response.ok) {
+        throw toHttpError(response, endpoint, requestId)
+      }
+
+      try {
+        return await response.json()
+      } catch (error) {
+        if (timedOut || options.signal?.aborted) {
+          throw this.toFetchError(error, endpoint, requestId, timedOut, timeoutMs, options.signal)
+        }
+        const invalid = new OlaValidationError(endpoint, 'response', 'JSON body', undefined)
+        invalid.requestId = requestId
+        throw invalid
+      }
+    } finally {
+      clearTimeout(timer)
+      options.signal?.removeEventListener('abort', onAbort)
+    }
+  }
+
+  private toFetchError(
+    error: unknown,
+    endpoint: string,
+    requestId: string,
+    timedOut: boolean,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): unknown {
+    if (timedOut) return new OlaTimeoutError(endpoint, timeoutMs, requestId)
+    // Caller cancelled: surface the AbortError untouched
+    if (signal?.aborted) return error
+    return new OlaNetworkError(endpoint, error, requestId)
+  }
+
+  // Serve from the response cache when the endpoint has a cache policy, otherwise fetch
+  private async request<T>(
+    endpoint: string,
+    params: Record<string, any>,
+    parse: (data: unknown) => T,
+    options: RequestOptions = {},
+    method: string = 'GET'
+  ): Promise<T> {
+    const cache = this.cache
+    if (!cache || options.cache === 'no-store' || !cache.isCacheable(endpoint)) {
+      return this.fetchAndParse(endpoint, params, parse, options, method)
+    }
+
+    // The fetch may be shared with other callers, so it is only cancelled once all of them cancel
+    const { signal, ...shared } = options
+    try {
+      return await cache.getOrFetch(
+        endpoint,
+        params,
+        sharedSignal => this.fetchAndParse(endpoint, params, parse, { ...shared, signal: sharedSignal }, method),
+        signal
+      )
+    } catch (error) {
+      // Out of budget for today: fall back to whatever we cached earlier, however old
+      if (error instanceof OlaQuotaExceededError) {
+        const stale = await cache.peekStale<T>(endpoint, params)
+        if (stale !== undefined) return stale
+      }
+      throw error
     }
+  }
 
-    return response.json()
+  // Fetch and map a response, tagging schema mismatches with the request ID
+  private async fetchAndParse<T>(
+    endpoint: string,
+    params: Record<string, any>,
+    parse: (data: unknown) => T,
+    options: RequestOptions,
+    method: string
+  ): Promise<T> {
+    const requestId = options.requestId ?? createRequestId()
+    const data = await this.makeRequest(endpoint, params, method, { ...options, requestId })
+    try {
+      return parse(data)
+    } catch (error) {
+      if (error instanceof OlaValidationError) error.requestId = requestId
+      throw error
+    }
   }
 
   // Autocomplete API
-  async autocomplete(query: string, location?: { lat: number; lng: number }) {
+  async autocomplete(query: string, location?: { lat: number; lng: number }, options?: RequestOptions): Promise<SearchResult[]> {
     const params: any = { input: query }
     if (location) {
       params.location = `${location.lat},${location.lng}`
     }
-    return this.makeRequest('/places/v1/autocomplete', params)
+    return this.request('/places/v1/autocomplete', params, parseAutocomplete, options)
   }
 
   // Place Details API
-  async getPlaceDetails(placeId: string) {
-    return this.makeRequest('/places/v1/details', { place_id: placeId })
+  async getPlaceDetails(placeId: string, options?: RequestOptions): Promise<PlaceDetails> {
+    return this.request('/places/v1/details', { place_id: placeId }, (data) => parsePlaceDetails(data), options)
   }
 
   // Advanced Place Details API
-  async getAdvancedPlaceDetails(placeId: string) {
-    return this.makeRequest('/places/v1/details/advanced', { place_id: placeId })
+  async getAdvancedPlaceDetails(placeId: string, options?: RequestOptions): Promise<PlaceDetails> {
+    const endpoint = '/places/v1/details/advanced'
+    return this.request(endpoint, { place_id: placeId }, (data) => parsePlaceDetails(data, endpoint), options)
   }
 
   // Nearby Search API
-  async nearbySearch(location: { lat: number; lng: number }, layers?: string, types?: string, radius?: number) {
+  async nearbySearch(
+    location: { lat: number; lng: number },
+    layers?: string,
+    types?: string,
+    radius?: number,
+    options?: RequestOptions
+  ): Promise<SearchResult[]> {
     const params: any = {
       location: `${location.lat},${location.lng}`
     }
     if (layers) params.layers = layers
     if (types) params.types = types
     if (radius) params.radius = radius
-    return this.makeRequest('/places/v1/nearbysearch', params)
+    return this.request('/places/v1/nearbysearch', params, (data) => parseNearbySearch(data), options)
   }
 
   // Advanced Nearby Search API
-  async advancedNearbySearch(location: { lat: number; lng: number }, layers?: string, types?: string, radius?: number) {
+  async advancedNearbySearch(
+    location: { lat: number; lng: number },
+    layers?: string,
+    types?: string,
+    radius?: number,
+    options?: RequestOptions
+  ): Promise<SearchResult[]> {
     const params: any = {
       location: `${location.lat},${location.lng}`
     }
     if (layers) params.layers = layers
     if (types) params.types = types
     if (radius) params.radius = radius
-    return this.makeRequest('/places/v1/nearbysearch/advanced', params)
+    const endpoint = '/places/v1/nearbysearch/advanced'
+    return this.request(endpoint, params, (data) => parseNearbySearch(data, endpoint), options)
   }
 
   // Photo API
-  async getPhoto(photoReference: string) {
-    return this.makeRequest('/places/v1/photo', { photo_reference: photoReference })
+  async getPhoto(photoReference: string, options?: RequestOptions) {
+    return this.makeRequest('/places/v1/photo', { photo_reference: photoReference }, 'GET', options)
   }
 
   // Text Search API
-  async textSearch(query: string) {
-    return this.makeRequest('/places/v1/textsearch', { input: query })
+  async textSearch(query: string, options?: RequestOptions): Promise<SearchResult[]> {
+    return this.request('/places/v1/textsearch', { input: query }, parseTextSearch, options)
   }
 
   // Address Validation API
-  async validateAddress(address: string) {
-    return this.makeRequest('/places/v1/addressvalidation', { address })
+  async validateAddress(address: string, options?: RequestOptions) {
+    return this.makeRequest('/places/v1/addressvalidation', { address }, 'GET', options)
   }
 
   // Elevation API
-  async getElevation(location: { lat: number; lng: number }) {
-    return this.makeRequest('/places/v1/elevation', { location: `${location.lat},${location.lng}` })
+  async getElevation(location: { lat: number; lng: number }, options?: RequestOptions): Promise<ElevationSample> {
+    return this.request('/places/v1/elevation', { location: `${location.lat},${location.lng}` }, parseElevation, options)
+  }
+
+  // Elevations for several points in one call, in the order given
+  async getElevations(locations: { lat: number; lng: number }[], options?: RequestOptions): Promise<ElevationSample[]> {
+    const params = { locations: locations.map(l => `${l.lat},${l.lng}`).join('|') }
+    return this.request('/places/v1/elevation', params, parseElevations, options, 'POST')
   }
 
   // Geocoding API (Forward Geocoding)
-  async geocode(address: string) {
-    return this.makeRequest('/places/v1/geocode', { address })
+  async geocode(address: string, options?: RequestOptions): Promise<GeocodeResult[]> {
+    return this.request('/places/v1/geocode', { address }, parseGeocode, options)
   }
 
   // Reverse Geocoding API
-  async reverseGeocode(lat: number, lng: number) {
-    return this.makeRequest('/places/v1/reverse-geocode', { latlng: `${lat},${lng}` })
+  async reverseGeocode(lat: number, lng: number, options?: RequestOptions): Promise<GeocodeResult[]> {
+    return this.request('/places/v1/reverse-geocode', { latlng: `${lat},${lng}` }, parseReverseGeocode, options)
   }
 
   // Directions API
@@ -118,8 +427,9 @@ class OlaApiService {
     origin: { lat: number; lng: number },
     destination: { lat: number; lng: number },
     mode: string = 'driving',
-    waypoints?: { lat: number; lng: number }[]
-  ) {
+    waypoints?: { lat: number; lng: number }[],
+    options: DirectionsOptions = {}
+  ): Promise<DirectionsResult> {
     const params: any = {
       origin: `${origin.lat},${origin.lng}`,
       destination: `${destination.lat},${destination.lng}`,
@@ -130,61 +440,84 @@ class OlaApiService {
       params.waypoints = waypoints.map(wp => `${wp.lat},${wp.lng}`).join('|')
     }
 
+    const { departureTime, arrivalTime, avoid, ...requestOptions } = options
+    if (avoid && avoid.length > 0) {
+      params.avoid = avoid.join('|')
+    }
+
+    // Sent as Unix seconds
+    if (this.supportsTimedDirections) {
+      if (departureTime !== undefined) params.departure_time = Math.round(departureTime / 1000)
+      if (arrivalTime !== undefined) params.arrival_time = Math.round(arrivalTime / 1000)
+    }
+
     console.log('Directions API request params:', params)
-    return this.makeRequest('/routing/v1/directions', params, 'POST')
+    return this.request('/routing/v1/directions', params, parseDirections, requestOptions, 'POST')
   }
 
   // Distance Matrix API
   async getDistanceMatrix(
     origins: { lat: number; lng: number }[],
-    destinations: { lat: number; lng: number }[]
-  ) {
+    destinations: { lat: number; lng: number }[],
+    options: DistanceMatrixOptions = {}
+  ): Promise<DistanceMatrix> {
+    const { mode, ...requestOptions } = options
     const params = {
       origins: origins.map(o => `${o.lat},${o.lng}`).join('|'),
-      destinations: destinations.map(d => `${d.lat},${d.lng}`).join('|')
+      destinations: destinations.map(d => `${d.lat},${d.lng}`).join('|'),
+      mode
     }
 
-    return this.makeRequest('/routing/v1/distanceMatrix', params)
+    return this.request('/routing/v1/distanceMatrix', params, parseDistanceMatrix, requestOptions)
   }
 
   // Snap to Road API
-  async snapToRoad(path: { lat: number; lng: number }[]) {
+  async snapToRoad(path: { lat: number; lng: number }[], options: SnapToRoadOptions = {}): Promise<SnappedPoint[]> {
+    const { enhancePath = false, ...requestOptions } = options
     const params = {
       points: path.map(p => `${p.lat},${p.lng}`).join('|'),
-      enhancePath: false
+      enhancePath
     }
-    return this.makeRequest('/routing/v1/snapToRoad', params)
+    return this.request('/routing/v1/snapToRoad', params, parseSnapToRoad, requestOptions)
   }
 
   // Speed Limits API
-  async getSpeedLimits(path: { lat: number; lng: number }[]) {
+  async getSpeedLimits(path: { lat: number; lng: number }[], options?: RequestOptions): Promise<SpeedLimitPoint[]> {
     const params = {
       points: path.map(p => `${p.lat},${p.lng}`).join('|'),
       snapStrategy: 'snaptoroad'
     }
-    return this.makeRequest('/routing/v1/speedLimits', params)
+    return this.request('/routing/v1/speedLimits', params, parseSpeedLimits, options)
   }
 
   // Route Optimizer API
-  async optimizeRoute(locations: { lat: number; lng: number }[]) {
-    const params = {
+  async optimizeRoute(
+    locations: { lat: number; lng: number }[],
+    constraints: OptimizeConstraints = {},
+    options?: RequestOptions
+  ): Promise<OptimizedRoute> {
+    const params: Record<string, string | boolean> = {
       locations: locations.map(l => `${l.lat},${l.lng}`).join('|')
     }
-    return this.makeRequest('/routing/v1/routeOptimizer', params, 'POST')
+    if (constraints.source) params.source = constraints.source
+    if (constraints.destination) params.destination = constraints.destination
+    if (constraints.roundTrip !== undefined) params.round_trip = constraints.roundTrip
+    return this.request('/routing/v1/routeOptimizer', params, parseRouteOptimizer, options, 'POST')
   }
 
   // Nearest Roads API
-  async getNearestRoads(point: { lat: number; lng: number }, radius: number = 100) {
+  async getNearestRoads(point: { lat: number; lng: number }, radius: number = 100, options?: RequestOptions): Promise<NearestRoad[]> {
     const params = {
       points: `${point.lat},${point.lng}`,
       radius
     }
-    return this.makeRequest('/routing/v1/nearestRoads', params)
+    return this.request('/routing/v1/nearestRoads', params, parseNearestRoads, options)
   }
 
   // Get traffic signals near a location (uses Nearby Search with specific type)
-  async getTrafficSignals(location: { lat: number; lng: number }, radius: number = 500) {
-    return this.nearbySearch(location, 'venue', 'traffic_light', radius)
+  async getTrafficSignals(location: { lat: number; lng: number }, radius: number = 500, options?: RequestOptions): Promise<SearchResult[]> {
+    // Signal lookups are background work and yield to user-initiated calls
+    return this.nearbySearch(location, 'venue', 'traffic_light', radius, { priority: 'low', ...options })
   }
 }
 
@@ -0,0 +1,340 @@
+import { OlaValidationError } from './errors'
+import type {
+  DirectionsResult,
+  DirectionsRoute,
+  DistanceMatrix,
+  ElevationSample,
+  GeocodeResult,
+  Location,
+  NearestRoad,
+  OptimizedRoute,
+  PlaceDetails,
+  RouteLeg,
+  RouteStep,
+  SearchResult,
+  SnappedPoint,
+  SpeedLimitPoint
+} from '../types'
+
+type JsonObject = Record<string, unknown>
+
+// Small schema reader bound to one endpoint, so every mismatch reports where it happened
+class PayloadReader {
+  constructor(private endpoint: string) {}
+
+  fail(path: string, expected: string, value: unknown): never {
+    throw new OlaValidationError(this.endpoint, path, expected, value)
+  }
+
+  object(value: unknown, path: string): JsonObject {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.fail(path, 'object', value)
+    }
+    return value as JsonObject
+  }
+
+  array(value: unknown, path: string): unknown[] {
+    if (!Array.isArray(value)) this.fail(path, 'array', value)
+    return value
+  }
+
+  optionalArray(value: unknown, path: string): unknown[] {
+    return value === undefined || value === null ? [] : this.array(value, path)
+  }
+
+  number(value: unknown, path: string): number {
+    // Ola occasionally serialises numbers as strings, e.g. "28.7041"
+    const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+    if (typeof parsed !== 'number' || !Number.isFinite(parsed)) this.fail(path, 'number', value)
+    return parsed
+  }
+
+  optionalNumber(value: unknown, path: string): number | undefined {
+    return value === undefined || value === null ? undefined : this.number(value, path)
+  }
+
+  string(value: unknown, path: string): string {
+    if (typeof value !== 'string') this.fail(path, 'string', value)
+    return value
+  }
+
+  optionalString(value: unknown, path: string): string | undefined {
+    return value === undefined || value === null ? undefined : this.string(value, path)
+  }
+
+  location(value: unknown, path: string): Location {
+    const raw = this.object(value, path)
+    const lat = this.number(raw.lat, `${path}.lat`)
+    const lng = this.number(raw.lng ?? raw.lon, `${path}.lng`)
+    if (lat < -90 || lat > 90) this.fail(`${path}.lat`, 'latitude in [-90, 90]', lat)
+    if (lng < -180 || lng > 180) this.fail(`${path}.lng`, 'longitude in [-180, 180]', lng)
+    return { lat, lng }
+  }
+
+  // Distance matrix and legs sometimes wrap values as { value, text }
+  measurement(value: unknown, path: string): number {
+    if (typeof value === 'object' && value !== null) {
+      return this.number((value as JsonObject).value, `${path}.value`)
+    }
+    return this.number(value, path)
+  }
+}
+
+const parsePrediction = (r: PayloadReader, value: unknown, path: string): SearchResult => {
+  const raw = r.object(value, path)
+  const formatting = raw.structured_formatting === undefined
+    ? {}
+    : r.object(raw.structured_formatting, `${path}.structured_formatting`)
+  const description = r.optionalString(raw.description, `${path}.description`)
+  const name = r.optionalString(formatting.main_text, `${path}.structured_formatting.main_text`)
+    ?? r.optionalString(raw.name, `${path}.name`)
+    ?? description
+  const address = r.optionalString(formatting.secondary_text, `${path}.structured_formatting.secondary_text`)
+    ?? r.optionalString(raw.formatted_address, `${path}.formatted_address`)
+    ?? description
+
+  if (!name) r.fail(`${path}.description`, 'string', raw.description)
+
+  const geometry = r.object(raw.geometry, `${path}.geometry`)
+  const types = r.optionalArray(raw.types, `${path}.types`)
+    .map((type, i) => r.string(type, `${path}.types[${i}]`))
+
+  return {
+    place_id: r.string(raw.place_id, `${path}.place_id`),
+    name,
+    address: address ?? name,
+    location: r.location(geometry.location, `${path}.geometry.location`),
+    rating: r.optionalNumber(raw.rating, `${path}.rating`),
+    place_type: types[0] || 'place'
+  }
+}
+
+const parsePredictionList = (endpoint: string, data: unknown): SearchResult[] => {
+  const r = new PayloadReader(endpoint)
+  const body = r.object(data, 'response')
+  return r.optionalArray(body.predictions, 'predictions')
+    .map((prediction, i) => parsePrediction(r, prediction, `predictions[${i}]`))
+}
+
+export const parseAutocomplete = (data: unknown) => parsePredictionList('/places/v1/autocomplete', data)
+
+export const parseNearbySearch = (data: unknown, endpoint = '/places/v1/nearbysearch') =>
+  parsePredictionList(endpoint, data)
+
+export const parseTextSearch = (data: unknown) => parsePredictionList('/places/v1/textsearch', data)
+
+export const parsePlaceDetails = (data: unknown, endpoint = '/places/v1/details'): PlaceDetails => {
+  const r = new PayloadReader(endpoint)
+  const body = r.object(data, 'response')
+  const result = r.object(body.result, 'result')
+  const geometry = r.object(result.geometry, 'result.geometry')
+  const types = r.optionalArray(result.types, 'result.types')
+    .map((type, i) => r.string(type, `result.types[${i}]`))
+  const name = r.string(result.name, 'result.name')
+
+  return {
+    place_id: r.string(result.place_id, 'result.place_id'),
+    name,
+    address: r.optionalString(result.formatted_address, 'result.formatted_address') ?? name,
+    location: r.location(geometry.location, 'result.geometry.location'),
+    rating: r.optionalNumber(result.rating, 'result.rating'),
+    place_type: types[0] || 'place',
+    types,
+    phone: r.optionalString(result.formatted_phone_number, 'result.formatted_phone_number'),
+    website: r.optionalString(result.website, 'result.website')
+  }
+}
+
+const parseGeocodeResult = (r: PayloadReader, value: unknown, path: string): GeocodeResult => {
+  const raw = r.object(value, path)
+  const geometry = r.object(raw.geometry, `${path}.geometry`)
+  const address = r.string(raw.formatted_address, `${path}.formatted_address`)
+
+  return {
+    place_id: r.optionalString(raw.place_id, `${path}.place_id`),
+    name: r.optionalString(raw.name, `${path}.name`) || address,
+    address,
+    location: r.location(geometry.location, `${path}.geometry.location`),
+    types: r.optionalArray(raw.types, `${path}.types`).map((type, i) => r.string(type, `${path}.types[${i}]`))
+  }
+}
+
+export const parseGeocode = (data: unknown): GeocodeResult[] => {
+  const r = new PayloadReader('/places/v1/geocode')
+  const body = r.object(data, 'response')
+  return r.optionalArray(body.geocodingResults, 'geocodingResults')
+    .map((result, i) => parseGeocodeResult(r, result, `geocodingResults[${i}]`))
+}
+
+export const parseReverseGeocode = (data: unknown): GeocodeResult[] => {
+  const r = new PayloadReader('/places/v1/reverse-geocode')
+  const body = r.object(data, 'response')
+  return r.optionalArray(body.results, 'results')
+    .map((result, i) => parseGeocodeResult(r, result, `results[${i}]`))
+}
+
+export const parseElevation = (data: unknown): ElevationSample => {
+  const r = new PayloadReader('/places/v1/elevation')
+  const body = r.object(data, 'response')
+  const results = r.array(body.results, 'results')
+  const sample = r.object(results[0], 'results[0]')
+
+  return {
+    location: r.location(sample.location, 'results[0].location'),
+    elevation: r.number(sample.elevation, 'results[0].elevation')
+  }
+}
+
+export const parseElevations = (data: unknown): ElevationSample[] => {
+  const r = new PayloadReader('/places/v1/elevation')
+  const body = r.object(data, 'response')
+
+  return r.array(body.results, 'results').map((result, i) => {
+    const sample = r.object(result, `results[${i}]`)
+    return {
+      location: r.location(sample.location, `results[${i}].location`),
+      elevation: r.number(sample.elevation, `results[${i}].elevation`)
+    }
+  })
+}
+
+const parseStep = (r: PayloadReader, value: unknown, path: string): RouteStep => {
+  const raw = r.object(value, path)
+
+  return {
+    instruction: r.optionalString(raw.instructions, `${path}.instructions`) ?? '',
+    maneuver: r.optionalString(raw.maneuver, `${path}.maneuver`),
+    distance: r.measurement(raw.distance, `${path}.distance`),
+    duration: r.measurement(raw.duration, `${path}.duration`),
+    readable_distance: r.optionalString(raw.readable_distance, `${path}.readable_distance`),
+    readable_duration: r.optionalString(raw.readable_duration, `${path}.readable_duration`),
+    start_location: r.location(raw.start_location, `${path}.start_location`),
+    end_location: r.location(raw.end_location, `${path}.end_location`),
+    bearing_before: r.optionalNumber(raw.bearing_before, `${path}.bearing_before`),
+    bearing_after: r.optionalNumber(raw.bearing_after, `${path}.bearing_after`)
+  }
+}
+
+const parseLeg = (r: PayloadReader, value: unknown, path: string): RouteLeg => {
+  const raw = r.object(value, path)
+
+  return {
+    distance: r.measurement(raw.distance, `${path}.distance`),
+    duration: r.measurement(raw.duration, `${path}.duration`),
+    readable_distance: r.optionalString(raw.readable_distance, `${path}.readable_distance`),
+    readable_duration: r.optionalString(raw.readable_duration, `${path}.readable_duration`),
+    start_location: r.location(raw.start_location, `${path}.start_location`),
+    end_location: r.location(raw.end_location, `${path}.end_location`),
+    start_address: r.optionalString(raw.start_address, `${path}.start_address`),
+    end_address: r.optionalString(raw.end_address, `${path}.end_address`),
+    steps: r.optionalArray(raw.steps, `${path}.steps`).map((step, i) => parseStep(r, step, `${path}.steps[${i}]`))
+  }
+}
+
+const parseRoute = (r: PayloadReader, value: unknown, path: string): DirectionsRoute => {
+  const raw = r.object(value, path)
+  const legs = r.array(raw.legs, `${path}.legs`).map((leg, i) => parseLeg(r, leg, `${path}.legs[${i}]`))
+  if (legs.length === 0) r.fail(`${path}.legs`, 'at least one leg', raw.legs)
+
+  // overview_polyline is either the encoded string or { points: string }
+  const polyline = typeof raw.overview_polyline === 'object' && raw.overview_polyline !== null
+    ? (raw.overview_polyline as JsonObject).points
+    : raw.overview_polyline
+
+  return {
+    summary: r.optionalString(raw.summary, `${path}.summary`) ?? '',
+    overview_polyline: r.string(polyline, `${path}.overview_polyline`),
+    legs,
+    travel_advisory: r.optionalString(raw.travel_advisory, `${path}.travel_advisory`),
+    warnings: r.optionalArray(raw.warnings, `${path}.warnings`).map((w, i) => r.string(w, `${path}.warnings[${i}]`)),
+    waypoint_order: r.optionalArray(raw.waypoint_order, `${path}.waypoint_order`)
+      .map((index, i) => r.number(index, `${path}.waypoint_order[${i}]`))
+  }
+}
+
+export const parseDirections = (data: unknown): DirectionsResult => {
+  const r = new PayloadReader('/routing/v1/directions')
+  const body = r.object(data, 'response')
+
+  return {
+    routes: r.array(body.routes, 'routes').map((route, i) => parseRoute(r, route, `routes[${i}]`))
+  }
+}
+
+export const parseRouteOptimizer = (data: unknown): OptimizedRoute => {
+  const r = new PayloadReader('/routing/v1/routeOptimizer')
+  const body = r.object(data, 'response')
+  const routes = r.array(body.routes, 'routes').map((route, i) => parseRoute(r, route, `routes[${i}]`))
+
+  return {
+    waypoint_order: routes[0]?.waypoint_order ?? [],
+    routes
+  }
+}
+
+export const parseDistanceMatrix = (data: unknown): DistanceMatrix => {
+  const r = new PayloadReader('/routing/v1/distanceMatrix')
+  const body = r.object(data, 'response')
+
+  return {
+    rows: r.array(body.rows, 'rows').map((row, i) => {
+      const elements = r.array(r.object(row, `rows[${i}]`).elements, `rows[${i}].elements`)
+      return elements.map((element, j) => {
+        const path = `rows[${i}].elements[${j}]`
+        const raw = r.object(element, path)
+        const status = r.optionalString(raw.status, `${path}.status`) ?? 'OK'
+        const ok = status === 'OK'
+
+        return {
+          status,
+          distance: ok ? r.measurement(raw.distance, `${path}.distance`) : null,
+          duration: ok ? r.measurement(raw.duration, `${path}.duration`) : null
+        }
+      })
+    })
+  }
+}
+
+const parseSnappedPoint = (r: PayloadReader, value: unknown, path: string): SnappedPoint => {
+  const raw = r.object(value, path)
+
+  return {
+    location: r.location(raw.location, `${path}.location`),
+    original_index: r.optionalNumber(raw.original_index, `${path}.original_index`),
+    snapped_type: r.optionalString(raw.snapped_type, `${path}.snapped_type`)
+  }
+}
+
+export const parseSnapToRoad = (data: unknown): SnappedPoint[] => {
+  const r = new PayloadReader('/routing/v1/snapToRoad')
+  const body = r.object(data, 'response')
+  return r.array(body.snapped_points, 'snapped_points')
+    .map((point, i) => parseSnappedPoint(r, point, `snapped_points[${i}]`))
+}
+
+export const parseSpeedLimits = (data: unknown): SpeedLimitPoint[] => {
+  const r = new PayloadReader('/routing/v1/speedLimits')
+  const body = r.object(data, 'response')
+  return r.array(body.snapped_points, 'snapped_points').map((point, i) => {
+    const path = `snapped_points[${i}]`
+    const raw = r.object(point, path)
+    return {
+      ...parseSnappedPoint(r, point, path),
+      speed_limit: r.optionalNumber(raw.speed_limit ?? raw.speedLimit, `${path}.speed_limit`) ?? null
+    }
+  })
+}
+
+export const parseNearestRoads = (data: unknown): NearestRoad[] => {
+  const r = new PayloadReader('/routing/v1/nearestRoads')
+  const body = r.object(data, 'response')
+  return r.array(body.results, 'results').map((result, i) => {
+    const path = `results[${i}]`
+    const raw = r.object(result, path)
+    return {
+      location: r.location(raw.location ?? raw, path),
+      distance: r.number(raw.distance, `${path}.distance`),
+      original_index: r.optionalNumber(raw.original_index, `${path}.original_index`)
+    }
+  })
+}
@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { DailyBudget, RateLimiter, TokenBucket } from './rateLimiter'
+import { OlaQuotaExceededError } from './errors'
+
+describe('TokenBucket', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('serves high-priority waiters ahead of low-priority ones already queued', async () => {
+    const bucket = new TokenBucket({ capacity: 1, refillPerSecond: 1 })
+    const order: string[] = []
+    await bucket.acquire()
+
+    const waiting = [
+      bucket.acquire('low').then(() => order.push('low')),
+      bucket.acquire('normal').then(() => order.push('normal')),
+      bucket.acquire('high').then(() => order.push('high'))
+    ]
+    expect(bucket.queued).toBe(3)
+
+    await vi.advanceTimersByTimeAsync(3000)
+    await Promise.all(waiting)
+
+    expect(order).toEqual(['high', 'normal', 'low'])
+  })
+
+  it('rejects an aborted waiter and gives its turn to the next one', async () => {
+    const bucket = new TokenBucket({ capacity: 1, refillPerSecond: 1 })
+    await bucket.acquire()
+    const controller = new AbortController()
+
+    const aborted = bucket.acquire('high', controller.signal)
+    const next = vi.fn()
+    bucket.acquire('normal').then(next)
+    controller.abort()
+
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' })
+    expect(bucket.queued).toBe(1)
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(next).toHaveBeenCalled()
+    expect(bucket.queued).toBe(0)
+  })
+
+  it('rejects straight away when the signal is already aborted', async () => {
+    const bucket = new TokenBucket({ capacity: 1, refillPerSecond: 1 })
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(bucket.acquire('normal', controller.signal)).rejects.toMatchObject({ name: 'AbortError' })
+    expect(bucket.queued).toBe(0)
+  })
+})
+
+describe('DailyBudget', () => {
+  const at = (hours: number, minutes = 0) => new Date(2024, 4, 6, hours, minutes).getTime()
+
+  it('starts a fresh count at local midnight', () => {
+    let clock = at(23, 59)
+    const budget = new DailyBudget({ places: 2, routing: 2 }, null, () => clock)
+    budget.consume('places')
+    budget.consume('places')
+    expect(budget.hasRoom('places', 'high')).toBe(false)
+    expect(budget.resetsAt()).toBe(new Date(2024, 4, 7).getTime())
+
+    clock = at(24, 1)
+
+    expect(budget.hasRoom('places', 'high')).toBe(true)
+    expect(budget.remaining('places')).toBe(2)
+  })
+
+  it('keeps the last 10% for requests that are not low priority', () => {
+    const budget = new DailyBudget({ places: 10, routing: 10 }, null, () => at(12))
+    for (let i = 0; i < 9; i++) budget.consume('routing')
+
+    expect(budget.hasRoom('routing', 'low')).toBe(false)
+    expect(budget.hasRoom('routing', 'normal')).toBe(true)
+    expect(budget.hasRoom('places', 'low')).toBe(true)
+  })
+
+  it('carries today\'s count across reloads but not into tomorrow', () => {
+    const saved = new Map<string, string>()
+    const storage = { getItem: (key: string) => saved.get(key) ?? null, setItem: (key: string, value: string) => void saved.set(key, value) }
+    new DailyBudget({ places: 5, routing: 5 }, storage, () => at(9)).consume('places')
+
+    expect(new DailyBudget({ places: 5, routing: 5 }, storage, () => at(18)).remaining('places')).toBe(4)
+    expect(new DailyBudget({ places: 5, routing: 5 }, storage, () => at(33)).remaining('places')).toBe(5)
+  })
+})
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('refuses with OlaQuotaExceededError once the family\'s budget is spent', async () => {
+    const limiter = new RateLimiter({ dailyLimits: { places: 1, routing: 5 }, storage: null })
+
+    await limiter.schedule('/places/v1/autocomplete')
+
+    await expect(limiter.schedule('/places/v1/geocode')).rejects.toBeInstanceOf(OlaQuotaExceededError)
+    await expect(limiter.schedule('/routing/v1/directions')).resolves.toBeUndefined()
+    expect(limiter.getUsage().remaining).toEqual({ places: 0, routing: 4 })
+  })
+
+  it('lets queued high-priority directions go ahead of a low-priority places lookup', async () => {
+    const limiter = new RateLimiter({
+      buckets: { places: { capacity: 5, refillPerSecond: 5 }, routing: { capacity: 1, refillPerSecond: 1 } },
+      dailyLimits: { places: 100, routing: 100 },
+      storage: null
+    })
+    const order: string[] = []
+    await limiter.schedule('/routing/v1/directions', 'high')
+
+    const waiting = [
+      limiter.schedule('/routing/v1/directions', 'high').then(() => order.push('directions')),
+      limiter.schedule('/places/v1/nearbysearch', 'low').then(() => order.push('signals'))
+    ]
+    await vi.advanceTimersByTimeAsync(0)
+    expect(order).toEqual([])
+    expect(limiter.getUsage().queued).toEqual({ places: 1, routing: 1 })
+
+    await vi.advanceTimersByTimeAsync(1000)
+    await Promise.all(waiting)
+
+    expect(order).toEqual(['directions', 'signals'])
+  })
+
+  it('lets a held low-priority call be cancelled', async () => {
+    const limiter = new RateLimiter({
+      buckets: { places: { capacity: 5, refillPerSecond: 5 }, routing: { capacity: 1, refillPerSecond: 1 } },
+      dailyLimits: { places: 100, routing: 100 },
+      storage: null
+    })
+    const controller = new AbortController()
+    await limiter.schedule('/routing/v1/directions', 'high')
+    void limiter.schedule('/routing/v1/directions', 'high').catch(() => {})
+
+    const held = limiter.schedule('/places/v1/nearbysearch', 'low', controller.signal)
+    controller.abort()
+
+    await expect(held).rejects.toMatchObject({ name: 'AbortError' })
+    expect(limiter.getUsage().queued.places).toBe(0)
+  })
+})
@@ -0,0 +1,270 @@
+import { OlaQuotaExceededError } from './errors'
+
+export type EndpointFamily = 'places' | 'routing'
+// 'high' for things the user is waiting on (directions), 'low' for background lookups (signals)
+export type RequestPriority = 'high' | 'normal' | 'low'
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { high: 0, normal: 1, low: 2 }
+
+export interface TokenBucketConfig {
+  capacity: number
+  refillPerSecond: number
+}
+
+interface Waiter {
+  rank: number
+  seq: number
+  resolve: () => void
+  reject: (error: unknown) => void
+  signal?: AbortSignal
+  onAbort?: () => void
+}
+
+// Token bucket whose waiters are served by priority, then arrival order
+export class TokenBucket {
+  private tokens: number
+  private updatedAt: number
+  private queue: Waiter[] = []
+  private seq = 0
+  private timer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(private config: TokenBucketConfig, private now: () => number = Date.now) {
+    this.tokens = config.capacity
+    this.updatedAt = now()
+  }
+
+  acquire(priority: RequestPriority = 'normal', signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new DOMException('The operation was aborted.', 'AbortError'))
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { rank: PRIORITY_RANK[priority], seq: this.seq++, resolve, reject, signal }
+
+      if (signal) {
+        waiter.onAbort = () => {
+          this.queue = this.queue.filter(w => w !== waiter)
+          reject(new DOMException('The operation was aborted.', 'AbortError'))
+        }
+        signal.addEventListener('abort', waiter.onAbort, { once: true })
+      }
+
+      const index = this.queue.findIndex(w => w.rank > waiter.rank)
+      this.queue.splice(index === -1 ? this.queue.length : index, 0, waiter)
+      this.drain()
+    })
+  }
+
+  get queued(): number {
+    return this.queue.length
+  }
+
+  private refill() {
+    const now = this.now()
+    const elapsed = (now - this.updatedAt) / 1000
+    this.tokens = Math.min(this.config.capacity, this.tokens + elapsed * this.config.refillPerSecond)
+    this.updatedAt = now
+  }
+
+  private drain() {
+    this.refill()
+
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      const waiter = this.queue.shift()!
+      this.tokens -= 1
+      if (waiter.onAbort) waiter.signal?.removeEventListener('abort', waiter.onAbort)
+      waiter.resolve()
+    }
+
+    if (this.queue.length > 0 && !this.timer) {
+      const waitMs = Math.ceil(((1 - this.tokens) / this.config.refillPerSecond) * 1000)
+      this.timer = setTimeout(() => {
+        this.timer = null
+        this.drain()
+      }, waitMs)
+    }
+  }
+}
+
+interface StorageLike {
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+}
+
+const BUDGET_STORAGE_KEY = 'ola_api_budget'
+
+// Per-family call counter that resets at local midnight and survives reloads
+export class DailyBudget {
+  private day: string
+  private used: Record<EndpointFamily, number> = { places: 0, routing: 0 }
+
+  constructor(
+    private limits: Record<EndpointFamily, number>,
+    private storage: StorageLike | null = typeof localStorage !== 'undefined' ? localStorage : null,
+    private now: () => number = Date.now
+  ) {
+    this.day = this.today()
+    const saved = this.storage?.getItem(BUDGET_STORAGE_KEY)
+    if (saved) {
+      try {
+        const parsed = JSON.parse(saved)
+        if (parsed.day === this.day) this.used = { ...this.used, ...parsed.used }
+      } catch {
+        // Corrupt entry: start the day fresh
+      }
+    }
+  }
+
+  // Low-priority calls stop once 90% is spent, keeping headroom for the user's own requests
+  hasRoom(family: EndpointFamily, priority: RequestPriority): boolean {
+    this.rollover()
+    const limit = this.limits[family]
+    const ceiling = priority === 'low' ? limit * 0.9 : limit
+    return this.used[family] < ceiling
+  }
+
+  consume(family: EndpointFamily) {
+    this.rollover()
+    this.used[family]++
+    this.storage?.setItem(BUDGET_STORAGE_KEY, JSON.stringify({ day: this.day, used: this.used }))
+  }
+
+  remaining(family: EndpointFamily): number {
+    this.rollover()
+    return Math.max(0, this.limits[family] - this.used[family])
+  }
+
+  resetsAt(): number {
+    const midnight = new Date(this.now())
+    midnight.setHours(24, 0, 0, 0)
+    return midnight.getTime()
+  }
+
+  private today(): string {
+    const date = new Date(this.now())
+    return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`
+  }
+
+  private rollover() {
+    const today = this.today()
+    if (today !== this.day) {
+      this.day = today
+      this.used = { places: 0, routing: 0 }
+    }
+  }
+}
+
+export interface RateLimiterConfig {
+  buckets?: Record<EndpointFamily, TokenBucketConfig>
+  dailyLimits?: Record<EndpointFamily, number>
+  storage?: StorageLike | null
+  now?: () => number
+}
+
+const envLimit = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+export const DEFAULT_BUCKETS: Record<EndpointFamily, TokenBucketConfig> = {
+  places: { capacity: 10, refillPerSecond: 5 },
+  routing: { capacity: 5, refillPerSecond: 2 }
+}
+
+export const familyOf = (endpoint: string): EndpointFamily =>
+  endpoint.startsWith('/routing/') ? 'routing' : 'places'
+
+export interface UsageSnapshot {
+  remaining: Record<EndpointFamily, number>
+  queued: Record<EndpointFamily, number>
+  resetsAt: number
+}
+
+interface HeldCall {
+  family: EndpointFamily
+  resolve: () => void
+  reject: (error: unknown) => void
+  signal?: AbortSignal
+  onAbort?: () => void
+}
+
+export class RateLimiter {
+  private buckets: Record<EndpointFamily, TokenBucket>
+  private budget: DailyBudget
+  // High-priority calls waiting on a bucket, and the low-priority calls held back until there are none
+  private highQueued = 0
+  private held: HeldCall[] = []
+
+  constructor(config: RateLimiterConfig = {}) {
+    const now = config.now ?? Date.now
+    const buckets = config.buckets ?? DEFAULT_BUCKETS
+    this.buckets = {
+      places: new TokenBucket(buckets.places, now),
+      routing: new TokenBucket(buckets.routing, now)
+    }
+    this.budget = new DailyBudget(
+      config.dailyLimits ?? {
+        places: envLimit(import.meta.env.VITE_OLA_DAILY_BUDGET_PLACES, 5000),
+        routing: envLimit(import.meta.env.VITE_OLA_DAILY_BUDGET_ROUTING, 2500)
+      },
+      config.storage,
+      now
+    )
+  }
+
+  // Resolves once the call may go out; rejects with OlaQuotaExceededError when the day's budget is spent
+  async schedule(endpoint: string, priority: RequestPriority = 'normal', signal?: AbortSignal): Promise<void> {
+    const family = familyOf(endpoint)
+    if (!this.budget.hasRoom(family, priority)) {
+      throw new OlaQuotaExceededError(endpoint, family, this.budget.resetsAt())
+    }
+    // The buckets only order calls within a family, yet directions and the signal lookups along
+    // them compete for the same screen; background work waits for the user's calls in both
+    if (priority === 'low' && this.highQueued > 0) await this.hold(family, signal)
+
+    if (priority === 'high') this.highQueued++
+    try {
+      // Only charge the budget once the call actually leaves the queue
+      await this.buckets[family].acquire(priority, signal)
+    } finally {
+      if (priority === 'high' && --this.highQueued === 0) this.release()
+    }
+    this.budget.consume(family)
+  }
+
+  getUsage(): UsageSnapshot {
+    const held = (family: EndpointFamily) => this.held.filter(call => call.family === family).length
+    return {
+      remaining: { places: this.budget.remaining('places'), routing: this.budget.remaining('routing') },
+      queued: { places: this.buckets.places.queued + held('places'), routing: this.buckets.routing.queued + held('routing') },
+      resetsAt: this.budget.resetsAt()
+    }
+  }
+
+  private hold(family: EndpointFamily, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new DOMException('The operation was aborted.', 'AbortError'))
+    }
+
+    return new Promise((resolve, reject) => {
+      const call: HeldCall = { family, resolve, reject, signal }
+      if (signal) {
+        call.onAbort = () => {
+          this.held = this.held.filter(c => c !== call)
+          reject(new DOMException('The operation was aborted.', 'AbortError'))
+        }
+        signal.addEventListener('abort', call.onAbort, { once: true })
+      }
+      this.held.push(call)
+    })
+  }
+
+  private release() {
+    const held = this.held
+    this.held = []
+    held.forEach(call => {
+      if (call.onAbort) call.signal?.removeEventListener('abort', call.onAbort)
+      call.resolve()
+    })
+  }
+}
@@ -0,0 +1,70 @@
+export interface RetryPolicy {
+  retries: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000
+}
+
+// Exponential backoff with full jitter: a random delay in [0, base * 2^attempt]
+export const computeBackoff = (attempt: number, policy: RetryPolicy, random: () => number = Math.random): number => {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt)
+  return Math.round(random() * ceiling)
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+export const parseRetryAfter = (header: string | null, now: number = Date.now()): number | undefined => {
+  if (!header) return undefined
+
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+
+  const date = Date.parse(header)
+  if (!Number.isNaN(date)) return Math.max(0, date - now)
+
+  return undefined
+}
+
+// setTimeout that rejects with the signal's AbortError when cancelled
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The operation was aborted.', 'AbortError'))
+      return
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new DOMException('The operation was aborted.', 'AbortError'))
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+
+// Settles with the promise, or rejects with AbortError as soon as the signal fires
+export const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise
+  if (signal.aborted) return Promise.reject(new DOMException('The operation was aborted.', 'AbortError'))
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new DOMException('The operation was aborted.', 'AbortError'))
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
+
+export const createRequestId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it, vi } from 'vitest'
+import { ELEVATION_BATCH_SIZE, fetchElevationProfile } from './routeElevation'
+import { encodePolyline } from '../utils/polyline'
+
+// About 10.7 km east along 28.6°N, so more samples than fit in one batch
+const geometry = encodePolyline([[77.2, 28.6], [77.31, 28.6]])
+
+describe('fetchElevationProfile', () => {
+  it('looks up the samples in batches and builds the profile from them', async () => {
+    const api = {
+      getElevations: vi.fn(async (points: { lat: number; lng: number }[]) =>
+        points.map(location => ({ location, elevation: 200 + (location.lng - 77.2) * 1000 })))
+    }
+
+    const profile = await fetchElevationProfile(api, geometry)
+
+    const batches = api.getElevations.mock.calls.map(([points]) => points.length)
+    expect(batches.length).toBeGreaterThan(1)
+    expect(Math.max(...batches)).toBeLessThanOrEqual(ELEVATION_BATCH_SIZE)
+    expect(profile.samples).toHaveLength(batches.reduce((a, b) => a + b, 0))
+    expect(profile).toMatchObject({ ascent: 110, descent: 0 })
+  })
+
+  it('rejects a response missing samples', async () => {
+    const api = { getElevations: vi.fn(async () => []) }
+
+    await expect(fetchElevationProfile(api, geometry)).rejects.toThrow(/Expected \d+ elevations, got 0/)
+  })
+})
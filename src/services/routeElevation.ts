@@ -0,0 +1,31 @@
+import type OlaApiService from './olaApi'
+import type { RequestOptions } from './olaApi'
+import type { ElevationProfile } from '../types'
+import { buildElevationProfile, MAX_ELEVATION_SAMPLES, SAMPLE_INTERVAL_METRES } from '../utils/elevationProfile'
+import { sampleLine } from '../utils/geo'
+import { decodePolyline } from '../utils/polyline'
+
+// Points per elevation request
+export const ELEVATION_BATCH_SIZE = 50
+
+type ElevationApi = Pick<OlaApiService, 'getElevations'>
+
+// Samples a route's geometry and looks up the elevations in batches. Each batch goes through the
+// response cache, so a route seen before is profiled without calling Ola again.
+export const fetchElevationProfile = async (
+  api: ElevationApi,
+  geometry: string,
+  options: RequestOptions = {}
+): Promise<ElevationProfile> => {
+  const { points, along } = sampleLine(decodePolyline(geometry), SAMPLE_INTERVAL_METRES, MAX_ELEVATION_SAMPLES)
+
+  const batches: (typeof points)[] = []
+  for (let i = 0; i < points.length; i += ELEVATION_BATCH_SIZE) batches.push(points.slice(i, i + ELEVATION_BATCH_SIZE))
+  const results = await Promise.all(batches.map(batch => api.getElevations(batch, options)))
+
+  const elevations = results.flat().map(sample => sample.elevation)
+  if (elevations.length !== points.length) {
+    throw new Error(`Expected ${points.length} elevations, got ${elevations.length}`)
+  }
+  return buildElevationProfile(along, elevations)
+}
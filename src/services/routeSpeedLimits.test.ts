@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest'
+import { fetchSpeedLimitSegments, SPEED_LIMIT_BATCH_SIZE } from './routeSpeedLimits'
+import { encodePolyline } from '../utils/polyline'
+import type { SpeedLimitPoint } from '../types'
+
+// About 21 km east along 28.6°N: 50 km/h for the first half, 70 km/h after
+const geometry = encodePolyline([[77.2, 28.6], [77.415, 28.6]])
+
+describe('fetchSpeedLimitSegments', () => {
+  it('looks the route up in overlapping chunks and joins the limits into segments', async () => {
+    const api = {
+      getSpeedLimits: vi.fn(async (path: { lat: number; lng: number }[]): Promise<SpeedLimitPoint[]> =>
+        path.map((location, original_index) => ({ location, original_index, speed_limit: location.lng < 77.3075 ? 50 : 70 })))
+    }
+
+    const segments = await fetchSpeedLimitSegments(api, geometry)
+
+    const chunks = api.getSpeedLimits.mock.calls.map(([path]) => path)
+    expect(chunks.length).toBeGreaterThan(2)
+    expect(Math.max(...chunks.map(path => path.length))).toBeLessThanOrEqual(SPEED_LIMIT_BATCH_SIZE)
+    expect(chunks[1][0]).toEqual(chunks[0][chunks[0].length - 1])
+    expect(segments.map(segment => segment.limit)).toEqual([50, 70])
+    expect(segments[0].end).toBe(segments[1].start)
+    expect(segments[1].end).toBeGreaterThan(20000)
+  })
+  it('ignores points the API adds between the samples', async () => {
+    const api = {
+      // The eastern half has no known limit, but a faster road is found next to every sample
+      getSpeedLimits: vi.fn(async (path: { lat: number; lng: number }[]): Promise<SpeedLimitPoint[]> =>
+        path.flatMap((location, original_index) => [
+          { location, original_index, speed_limit: location.lng < 77.3075 ? 50 : null },
+          { location, speed_limit: 90 }
+        ]))
+    }
+
+    const segments = await fetchSpeedLimitSegments(api, geometry)
+
+    expect(segments.map(segment => segment.limit)).toEqual([50])
+    expect(segments[0].end).toBeLessThan(11000)
+  })
+})
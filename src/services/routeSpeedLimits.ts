@@ -0,0 +1,39 @@
+import type OlaApiService from './olaApi'
+import type { RequestOptions } from './olaApi'
+import type { SpeedLimitSegment } from '../types'
+import { sampleLine } from '../utils/geo'
+import { decodePolyline } from '../utils/polyline'
+import { LIMIT_SAMPLE_METRES, MAX_ROUTE_LIMIT_SAMPLES, toSpeedLimitSegments } from '../utils/speedLimits'
+
+// Points per speed limits request
+export const SPEED_LIMIT_BATCH_SIZE = 100
+
+type SpeedLimitApi = Pick<OlaApiService, 'getSpeedLimits'>
+
+// Speed limits along a whole route, however long. The samples are looked up in chunks the API
+// accepts, and each chunk goes through the response cache on its own.
+export const fetchSpeedLimitSegments = async (
+  api: SpeedLimitApi,
+  geometry: string,
+  options: RequestOptions = {}
+): Promise<SpeedLimitSegment[]> => {
+  const { points, along } = sampleLine(decodePolyline(geometry), LIMIT_SAMPLE_METRES, MAX_ROUTE_LIMIT_SAMPLES)
+
+  const chunks: number[] = []
+  // Chunks overlap by a point so every stretch between samples falls inside one of them
+  for (let start = 0; start < points.length - 1; start += SPEED_LIMIT_BATCH_SIZE - 1) chunks.push(start)
+  const results = await Promise.all(chunks.map(start =>
+    api.getSpeedLimits(points.slice(start, start + SPEED_LIMIT_BATCH_SIZE), options)
+  ))
+
+  const limits: (number | null)[] = points.map(() => null)
+  results.forEach((result, chunk) => {
+    result.forEach(point => {
+      // Points the API adds along the road have no sample to belong to
+      if (point.original_index === undefined) return
+      const index = chunks[chunk] + point.original_index
+      if (index < limits.length && point.speed_limit) limits[index] = point.speed_limit
+    })
+  })
+  return toSpeedLimitSegments(along, limits)
+}
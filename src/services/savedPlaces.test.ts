@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest'
+import { fetchSavedPlaces, savePlaces } from './savedPlaces'
+
+const place = (name: string, lat: number, lng: number, place_id?: string) =>
+  ({ name, address: `${name}, New Delhi`, lat, lng, ...(place_id ? { place_id } : {}) })
+
+describe('fetchSavedPlaces', () => {
+  it('reads favourites, keeping Ola place ids where there are any', async () => {
+    const query: Record<string, ReturnType<typeof vi.fn>> = {}
+    query.select = vi.fn(() => query)
+    query.eq = vi.fn(() => query)
+    query.order = vi.fn(() => query)
+    query.limit = vi.fn(async () => ({
+      data: [
+        { id: 'p1', ola_place_id: 'ola-1', name: 'India Gate', address: 'India Gate, New Delhi', lat: '28.61290000', lng: '77.22950000' },
+        { id: 'p2', ola_place_id: null, name: 'Office', address: 'Office, New Delhi', lat: 28.6, lng: 77.2 }
+      ],
+      error: null
+    }))
+    const client = { from: vi.fn(() => query) }
+
+    const places = await fetchSavedPlaces(client as never)
+
+    expect(client.from).toHaveBeenCalledWith('user_places')
+    expect(query.eq).toHaveBeenCalledWith('is_favorite', true)
+    expect(places).toEqual([
+      { id: 'p1', ...place('India Gate', 28.6129, 77.2295, 'ola-1') },
+      { id: 'p2', ...place('Office', 28.6, 77.2) }
+    ])
+  })
+})
+
+describe('savePlaces', () => {
+  const createClient = (user: { id: string } | null, error: { message: string } | null = null) => {
+    const select = vi.fn(async () => ({ data: error ? null : [{ id: 'p1' }, { id: 'p2' }], error }))
+    const insert = vi.fn((_rows: Record<string, unknown>[]) => ({ select }))
+    return {
+      client: { auth: { getUser: vi.fn(async () => ({ data: { user } })) }, from: vi.fn(() => ({ insert })) },
+      insert
+    }
+  }
+
+  const places = [place('India Gate', 28.6129, 77.2295, 'ola-1'), place('Office', 28.6, 77.2)]
+
+  it('inserts every place in one go as a favourite', async () => {
+    const { client, insert } = createClient({ id: 'user-1' })
+
+    const saved = await savePlaces(client as never, places)
+
+    expect(insert).toHaveBeenCalledTimes(1)
+    expect(insert.mock.calls[0][0]).toEqual([
+      { user_id: 'user-1', ola_place_id: 'ola-1', name: 'India Gate', address: 'India Gate, New Delhi', lat: 28.6129, lng: 77.2295, is_favorite: true },
+      { user_id: 'user-1', ola_place_id: null, name: 'Office', address: 'Office, New Delhi', lat: 28.6, lng: 77.2, is_favorite: true }
+    ])
+    expect(saved?.map(p => p.id)).toEqual(['p1', 'p2'])
+  })
+
+  it('saves nothing while signed out and reports insert errors', async () => {
+    const signedOut = createClient(null)
+    await expect(savePlaces(signedOut.client as never, places)).resolves.toBeNull()
+    expect(signedOut.insert).not.toHaveBeenCalled()
+
+    const failing = createClient({ id: 'user-1' }, { message: 'permission denied' })
+    await expect(savePlaces(failing.client as never, places)).rejects.toThrow('Could not save places: permission denied')
+  })
+})
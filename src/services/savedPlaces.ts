@@ -0,0 +1,55 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { SavedPlace, SelectedPlace } from '../types'
+
+// Favourite places in user_places. As with trips, row level security keeps each user to their
+// own places, and nothing is saved while signed out.
+
+const MAX_SAVED_PLACES = 500
+
+interface PlaceRow {
+  id: string
+  ola_place_id: string | null
+  name: string
+  address: string
+  lat: number | string
+  lng: number | string
+}
+
+export const fetchSavedPlaces = async (client: Pick<SupabaseClient, 'from'>, limit: number = MAX_SAVED_PLACES): Promise<SavedPlace[]> => {
+  const { data, error } = await client
+    .from('user_places')
+    .select('id, ola_place_id, name, address, lat, lng')
+    .eq('is_favorite', true)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw new Error(`Could not load saved places: ${error.message}`)
+  return ((data ?? []) as PlaceRow[]).map(row => ({
+    id: row.id,
+    name: row.name,
+    address: row.address,
+    lat: Number(row.lat),
+    lng: Number(row.lng),
+    ...(row.ola_place_id ? { place_id: row.ola_place_id } : {})
+  }))
+}
+
+// Saves places as favourites in one insert. Resolves to the saved places, or null when signed out.
+export const savePlaces = async (client: Pick<SupabaseClient, 'from' | 'auth'>, places: SelectedPlace[]): Promise<SavedPlace[] | null> => {
+  const { data: { user } } = await client.auth.getUser()
+  if (!user) return null
+  if (places.length === 0) return []
+
+  const { data, error } = await client.from('user_places').insert(places.map(place => ({
+    user_id: user.id,
+    ola_place_id: place.place_id ?? null,
+    name: place.name,
+    address: place.address,
+    lat: place.lat,
+    lng: place.lng,
+    is_favorite: true
+  }))).select('id')
+
+  if (error) throw new Error(`Could not save places: ${error.message}`)
+  return ((data ?? []) as { id: string }[]).map((row, i) => ({ ...places[i], id: row.id }))
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest'
+import { planScooterRoutes } from './scooterRouting'
+import { encodePolyline } from '../utils/polyline'
+import type { RouteInfo } from '../types'
+
+const settings = { scooter_top_speed_kmh: 45, scooter_max_road_speed_kmh: 60, scooter_range_km: 80 }
+
+const route = (routeIndex: number): RouteInfo => ({
+  routeIndex,
+  summary: `Route ${routeIndex}`,
+  distance: '2.0 km',
+  duration: '2 min',
+  legs: [{ distance: '2.0 km', duration: '2 min', distanceMetres: 2000, durationSeconds: 120 }],
+  steps: [],
+  geometry: encodePolyline([[77.2, 28.6], [77.21, 28.6], [77.22, 28.6]])
+})
+
+describe('planScooterRoutes', () => {
+  it('ranks routes by the speed limits along them, without limits where they fail', async () => {
+    const api = {
+      getSpeedLimits: vi.fn()
+        .mockRejectedValueOnce(new Error('Service unavailable'))
+        .mockResolvedValueOnce([90, 90, 90].map((speed_limit, i) => ({ location: { lat: 28.6, lng: 77.2 }, original_index: i, speed_limit })))
+    }
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const routes = await planScooterRoutes(api, [route(1), route(2)], settings)
+
+    expect(api.getSpeedLimits).toHaveBeenCalledWith([
+      { lat: 28.6, lng: 77.2 }, { lat: 28.6, lng: 77.21 }, { lat: 28.6, lng: 77.22 }
+    ], {})
+    expect(routes.map(r => r.routeIndex)).toEqual([1])
+    expect(routes[0].scooter).toMatchObject({ durationSeconds: 160, fastRoadMetres: 0 })
+  })
+
+  it('stops when the request is cancelled', async () => {
+    const abort = new DOMException('Aborted', 'AbortError')
+    const api = { getSpeedLimits: vi.fn().mockRejectedValue(abort) }
+
+    await expect(planScooterRoutes(api, [route(1)], settings)).rejects.toBe(abort)
+  })
+})
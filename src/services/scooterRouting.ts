@@ -0,0 +1,30 @@
+import type OlaApiService from './olaApi'
+import type { RequestOptions } from './olaApi'
+import { isAbortError } from './errors'
+import type { RouteInfo, SpeedLimitPoint } from '../types'
+import { applyScooterProfile, sampleRoute, type ScooterSettings } from '../utils/scooterProfile'
+
+type ScooterApi = Pick<OlaApiService, 'getSpeedLimits'>
+
+// Looks up the speed limits along each driving alternative and re-ranks them for an electric
+// scooter. A route whose limits can't be fetched is still offered, capped at the top speed only.
+export const planScooterRoutes = async (
+  api: ScooterApi,
+  routes: RouteInfo[],
+  settings: ScooterSettings,
+  options: RequestOptions = {}
+): Promise<RouteInfo[]> => {
+  const results = await Promise.allSettled(routes.map(route => {
+    const { points } = sampleRoute(route)
+    return points.length > 1 ? api.getSpeedLimits(points, options) : Promise.resolve([])
+  }))
+
+  const limitsByRoute = results.map((result): SpeedLimitPoint[] => {
+    if (result.status === 'fulfilled') return result.value
+    if (isAbortError(result.reason)) throw result.reason
+    console.warn('Speed limits unavailable, ranking the route without them:', result.reason)
+    return []
+  })
+
+  return applyScooterProfile(routes, limitsByRoute, settings)
+}
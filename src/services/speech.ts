@@ -0,0 +1,57 @@
+import type { VoiceLanguage } from '../types'
+
+// Where spoken navigation prompts go
+export interface SpeechSink {
+  speak(text: string, language: VoiceLanguage): void
+  // Stops whatever is being said and drops anything queued
+  cancel(): void
+}
+
+const SPEECH_LOCALES: Record<VoiceLanguage, string> = {
+  en: 'en-IN',
+  hi: 'hi-IN'
+}
+
+// Speaks through the browser's Web Speech API; silent where the browser has none
+export class WebSpeechSink implements SpeechSink {
+  constructor(
+    private synth: SpeechSynthesis | undefined = typeof window !== 'undefined' ? window.speechSynthesis : undefined
+  ) {}
+
+  speak(text: string, language: VoiceLanguage) {
+    if (!this.synth || typeof SpeechSynthesisUtterance === 'undefined') return
+
+    // A prompt still being read out is already stale; the new one replaces it
+    this.synth.cancel()
+    const locale = SPEECH_LOCALES[language]
+    const utterance = new SpeechSynthesisUtterance(text)
+    utterance.lang = locale
+
+    // Prefer an Indian voice, then any voice for the language
+    const voices = this.synth.getVoices()
+    const voice = voices.find(v => v.lang.replace('_', '-') === locale) ??
+      voices.find(v => v.lang.startsWith(language))
+    if (voice) utterance.voice = voice
+
+    this.synth.speak(utterance)
+  }
+
+  cancel() {
+    this.synth?.cancel()
+  }
+}
+
+// Collects prompts as text instead of speaking them
+export class TextSpeechSink implements SpeechSink {
+  readonly spoken: { text: string; language: VoiceLanguage }[] = []
+
+  speak(text: string, language: VoiceLanguage) {
+    this.spoken.push({ text, language })
+  }
+
+  cancel() {}
+
+  get texts(): string[] {
+    return this.spoken.map(prompt => prompt.text)
+  }
+}
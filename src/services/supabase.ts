@@ -1,7 +1,9 @@
 import { createClient } from '@supabase/supabase-js'
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
+const mockMode = import.meta.env.VITE_OLA_MOCK === 'true'
+// Offline development doesn't need a Supabase project; the client is created but never reached
+const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || (mockMode ? 'http://localhost:54321' : '')
+const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || (mockMode ? 'mock-anon-key' : '')
 
 if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables')
@@ -0,0 +1,38 @@
+import { describe, expect, it, vi } from 'vitest'
+import { matchTrace, SNAP_BATCH_SIZE } from './traceMatching'
+import type { SnappedPoint } from '../types'
+
+const trace = (count: number) => Array.from({ length: count }, (_, i) => ({ lat: 28.6 + i * 0.0001, lng: 77.2 }))
+
+// Snaps each point onto a road a little east of it, with a filler point after each when enhancing
+const createApi = () => ({
+  snapToRoad: vi.fn(async (path: { lat: number; lng: number }[], options?: { enhancePath?: boolean }): Promise<SnappedPoint[]> =>
+    path.flatMap((point, i) => [
+      { location: { lat: point.lat, lng: 77.2001 }, original_index: i },
+      ...(options?.enhancePath && i < path.length - 1 ? [{ location: { lat: point.lat + 0.00005, lng: 77.2001 } }] : [])
+    ]))
+})
+
+describe('matchTrace', () => {
+  it('snaps a long trace in chunks and stitches them without repeating the shared points', async () => {
+    const api = createApi()
+    const points = trace(SNAP_BATCH_SIZE + 50)
+
+    const matched = await matchTrace(api, points)
+
+    expect(api.snapToRoad).toHaveBeenCalledTimes(2)
+    expect(api.snapToRoad.mock.calls[1][0][0]).toEqual(points[SNAP_BATCH_SIZE - 1])
+    expect(matched.map(point => point.lat)).toEqual(points.map(point => point.lat))
+    expect(matched.every(point => point.lng === 77.2001)).toBe(true)
+  })
+
+  it('passes enhancePath through and keeps the points it adds', async () => {
+    const api = createApi()
+    const controller = new AbortController()
+
+    const matched = await matchTrace(api, trace(3), { enhancePath: true, signal: controller.signal })
+
+    expect(api.snapToRoad).toHaveBeenCalledWith(trace(3), { enhancePath: true, signal: controller.signal })
+    expect(matched).toHaveLength(5)
+  })
+})
@@ -0,0 +1,25 @@
+import type OlaApiService from './olaApi'
+import type { SnapToRoadOptions } from './olaApi'
+import type { LatLng } from '../utils/geo'
+
+// Points per snapToRoad request
+export const SNAP_BATCH_SIZE = 100
+
+type SnapApi = Pick<OlaApiService, 'snapToRoad'>
+
+// A recorded trace matched to the roads it was driven on. Long traces are snapped in chunks that
+// share their end points, so the stitched path has no gaps between them.
+export const matchTrace = async (api: SnapApi, trace: LatLng[], options: SnapToRoadOptions = {}): Promise<LatLng[]> => {
+  if (trace.length < 2) return trace
+
+  const chunks: number[] = []
+  for (let start = 0; start < trace.length - 1; start += SNAP_BATCH_SIZE - 1) chunks.push(start)
+  const results = await Promise.all(chunks.map(start =>
+    api.snapToRoad(trace.slice(start, start + SNAP_BATCH_SIZE), options)
+  ))
+
+  // Each later chunk starts on the point the one before ended on
+  return results.flatMap((snapped, chunk) => snapped
+    .filter(point => chunk === 0 || point.original_index !== 0)
+    .map(point => point.location))
+}
@@ -0,0 +1,161 @@
+import { describe, expect, it, vi } from 'vitest'
+import { fetchRecordedTrips, fetchTripHistory, recordTrip, saveRecordedTrip } from './tripHistory'
+import type { TripLog } from '../types'
+import { encodePolyline } from '../utils/polyline'
+
+// A stand-in for the Supabase query builder: every filter returns the builder, the last call resolves
+const createClient = (result: { data: unknown[] | null; error: { message: string } | null }) => {
+  const query = {} as Record<'select' | 'eq' | 'not' | 'order' | 'limit', ReturnType<typeof vi.fn>>
+  query.select = vi.fn(() => query)
+  query.eq = vi.fn(() => query)
+  query.not = vi.fn(() => query)
+  query.order = vi.fn(() => query)
+  query.limit = vi.fn(async () => result)
+  return { client: { from: vi.fn(() => query) }, query }
+}
+
+describe('fetchTripHistory', () => {
+  it('reads completed sessions into trip records', async () => {
+    const { client, query } = createClient({
+      data: [
+        { start_lat: '28.63150000', start_lng: '77.21670000', end_lat: '28.61290000', end_lng: '77.22950000', estimated_duration: 1200, actual_duration: 1500, start_time: '2024-05-06T08:30:00+00:00' },
+        { start_lat: '28.6', start_lng: '77.2', end_lat: '28.5', end_lng: '77.3', estimated_duration: null, actual_duration: 900, start_time: '2024-05-05T08:30:00+00:00' }
+      ],
+      error: null
+    })
+
+    const trips = await fetchTripHistory(client as never, 50)
+
+    expect(client.from).toHaveBeenCalledWith('navigation_sessions')
+    expect(query.eq).toHaveBeenCalledWith('status', 'completed')
+    expect(query.limit).toHaveBeenCalledWith(50)
+    expect(trips).toEqual([{
+      start: { lat: 28.6315, lng: 77.2167 },
+      end: { lat: 28.6129, lng: 77.2295 },
+      estimatedDuration: 1200,
+      actualDuration: 1500,
+      startTime: Date.UTC(2024, 4, 6, 8, 30)
+    }])
+  })
+
+  it('reports query errors', async () => {
+    const { client } = createClient({ data: null, error: { message: 'permission denied' } })
+
+    await expect(fetchTripHistory(client as never)).rejects.toThrow('Could not load trip history: permission denied')
+  })
+})
+
+describe('recordTrip', () => {
+  const trip: TripLog = {
+    start: { name: 'Connaught Place', address: 'Connaught Place, New Delhi', lat: 28.6315, lng: 77.2167 },
+    end: { name: 'India Gate', address: 'Rajpath, New Delhi', lat: 28.6129, lng: 77.2295 },
+    estimatedDuration: 600,
+    actualDuration: 754.4,
+    distance: 3500,
+    startTime: Date.UTC(2024, 4, 6, 8, 30),
+    endTime: Date.UTC(2024, 4, 6, 8, 42, 34),
+    status: 'completed',
+    overSpeedEvents: [{ startedAt: Date.UTC(2024, 4, 6, 8, 35), endedAt: Date.UTC(2024, 4, 6, 8, 35, 20), lat: 28.62, lng: 77.22, limit: 50, maxSpeed: 61.7 }]
+  }
+
+  const createClient = (user: { id: string } | null, error: { message: string } | null = null) => {
+    const insert = vi.fn(async () => ({ error }))
+    return {
+      client: { auth: { getUser: vi.fn(async () => ({ data: { user } })) }, from: vi.fn(() => ({ insert })) },
+      insert
+    }
+  }
+
+  it('saves the trip with its over-speed events for the signed-in user', async () => {
+    const { client, insert } = createClient({ id: 'user-1' })
+
+    await expect(recordTrip(client as never, trip)).resolves.toBe(true)
+
+    expect(client.from).toHaveBeenCalledWith('navigation_sessions')
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({
+      user_id: 'user-1',
+      end_address: 'Rajpath, New Delhi',
+      actual_duration: 754,
+      status: 'completed',
+      overspeed_events: [{
+        started_at: '2024-05-06T08:35:00.000Z',
+        ended_at: '2024-05-06T08:35:20.000Z',
+        lat: 28.62,
+        lng: 77.22,
+        limit: 50,
+        max_speed: 62
+      }]
+    }))
+  })
+
+  it('saves nothing while signed out and reports insert errors', async () => {
+    const signedOut = createClient(null)
+    await expect(recordTrip(signedOut.client as never, trip)).resolves.toBe(false)
+    expect(signedOut.insert).not.toHaveBeenCalled()
+
+    const failing = createClient({ id: 'user-1' }, { message: 'permission denied' })
+    await expect(recordTrip(failing.client as never, trip)).rejects.toThrow('Could not save the trip: permission denied')
+  })
+})
+
+describe('recorded trips', () => {
+  const geometry = encodePolyline([[77.2167, 28.6315], [77.22, 28.62], [77.2295, 28.6129]])
+
+  it('reads sessions with a trace', async () => {
+    const { client, query } = createClient({
+      data: [{ id: 'trip-1', trace_polyline: geometry, distance: '2650.40', actual_duration: 540, start_time: '2024-05-06T08:30:00+00:00', end_time: '2024-05-06T08:39:00+00:00' }],
+      error: null
+    })
+
+    const trips = await fetchRecordedTrips(client as never)
+
+    expect(query.not).toHaveBeenCalledWith('trace_polyline', 'is', null)
+    expect(trips).toEqual([{
+      id: 'trip-1',
+      geometry,
+      distance: 2650.4,
+      duration: 540,
+      startTime: Date.UTC(2024, 4, 6, 8, 30),
+      endTime: Date.UTC(2024, 4, 6, 8, 39)
+    }])
+  })
+
+  const createSavingClient = (user: { id: string } | null, error: { message: string } | null = null) => {
+    const single = vi.fn(async () => ({ data: error ? null : { id: 'trip-2' }, error }))
+    const insert = vi.fn((_row: Record<string, unknown>) => ({ select: () => ({ single }) }))
+    return {
+      client: { auth: { getUser: vi.fn(async () => ({ data: { user } })) }, from: vi.fn(() => ({ insert })) },
+      insert
+    }
+  }
+
+  const recorded = { geometry, distance: 2650.437, duration: 540.6, startTime: Date.UTC(2024, 4, 6, 8, 30), endTime: Date.UTC(2024, 4, 6, 8, 39) }
+
+  it('saves a recording from end to end of its trace', async () => {
+    const { client, insert } = createSavingClient({ id: 'user-1' })
+
+    await expect(saveRecordedTrip(client as never, recorded)).resolves.toBe('trip-2')
+
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({
+      user_id: 'user-1',
+      start_lat: 28.6315,
+      start_lng: 77.2167,
+      end_lat: 28.6129,
+      end_lng: 77.2295,
+      actual_duration: 541,
+      distance: 2650.44,
+      status: 'completed',
+      trace_polyline: geometry
+    }))
+    expect(insert.mock.calls[0][0]).not.toHaveProperty('estimated_duration')
+  })
+
+  it('saves nothing while signed out and reports insert errors', async () => {
+    const signedOut = createSavingClient(null)
+    await expect(saveRecordedTrip(signedOut.client as never, recorded)).resolves.toBeNull()
+    expect(signedOut.insert).not.toHaveBeenCalled()
+
+    const failing = createSavingClient({ id: 'user-1' }, { message: 'permission denied' })
+    await expect(saveRecordedTrip(failing.client as never, recorded)).rejects.toThrow('Could not save the recording: permission denied')
+  })
+})
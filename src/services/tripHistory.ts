@@ -0,0 +1,143 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { RecordedTrip, TripLog, TripRecord } from '../types'
+import { decodePolyline } from '../utils/polyline'
+
+// Trips in navigation_sessions: navigated trips, read back for their durations, and traces from
+// the trip recorder. Row level security limits these to the signed-in user's own sessions, so
+// signed-out users get an empty history.
+
+const MAX_TRIPS = 200
+
+interface SessionRow {
+  start_lat: number | string
+  start_lng: number | string
+  end_lat: number | string
+  end_lng: number | string
+  estimated_duration: number | null
+  actual_duration: number | null
+  start_time: string | null
+}
+
+// DECIMAL columns come back from PostgREST as strings. Recorded trips have no estimate, so they
+// are left out of the history departure estimates learn from.
+const toRecord = (row: SessionRow): TripRecord | null => {
+  const startTime = row.start_time ? Date.parse(row.start_time) : NaN
+  if (!row.estimated_duration || !row.actual_duration || Number.isNaN(startTime)) return null
+  return {
+    start: { lat: Number(row.start_lat), lng: Number(row.start_lng) },
+    end: { lat: Number(row.end_lat), lng: Number(row.end_lng) },
+    estimatedDuration: row.estimated_duration,
+    actualDuration: row.actual_duration,
+    startTime
+  }
+}
+
+export const fetchTripHistory = async (client: Pick<SupabaseClient, 'from'>, limit: number = MAX_TRIPS): Promise<TripRecord[]> => {
+  const { data, error } = await client
+    .from('navigation_sessions')
+    .select('start_lat, start_lng, end_lat, end_lng, estimated_duration, actual_duration, start_time')
+    .eq('status', 'completed')
+    .not('actual_duration', 'is', null)
+    .order('start_time', { ascending: false })
+    .limit(limit)
+
+  if (error) throw new Error(`Could not load trip history: ${error.message}`)
+  return ((data ?? []) as SessionRow[]).flatMap(row => toRecord(row) ?? [])
+}
+
+// Saves a finished trip, with any spells over the speed limit. Sessions belong to a user, so
+// nothing is saved while signed out; resolves to whether the trip was saved.
+export const recordTrip = async (client: Pick<SupabaseClient, 'from' | 'auth'>, trip: TripLog): Promise<boolean> => {
+  const { data: { user } } = await client.auth.getUser()
+  if (!user) return false
+
+  const { error } = await client.from('navigation_sessions').insert({
+    user_id: user.id,
+    start_lat: trip.start.lat,
+    start_lng: trip.start.lng,
+    end_lat: trip.end.lat,
+    end_lng: trip.end.lng,
+    start_address: trip.start.address,
+    end_address: trip.end.address,
+    estimated_duration: Math.round(trip.estimatedDuration),
+    actual_duration: Math.round(trip.actualDuration),
+    distance: trip.distance,
+    start_time: new Date(trip.startTime).toISOString(),
+    end_time: new Date(trip.endTime).toISOString(),
+    status: trip.status,
+    overspeed_events: trip.overSpeedEvents.map(event => ({
+      started_at: new Date(event.startedAt).toISOString(),
+      ended_at: event.endedAt === null ? null : new Date(event.endedAt).toISOString(),
+      lat: event.lat,
+      lng: event.lng,
+      limit: event.limit,
+      max_speed: Math.round(event.maxSpeed)
+    }))
+  })
+
+  if (error) throw new Error(`Could not save the trip: ${error.message}`)
+  return true
+}
+
+const MAX_RECORDED_TRIPS = 50
+
+interface RecordedRow {
+  id: string
+  trace_polyline: string
+  distance: number | string | null
+  actual_duration: number | null
+  start_time: string
+  end_time: string | null
+}
+
+export const fetchRecordedTrips = async (client: Pick<SupabaseClient, 'from'>, limit: number = MAX_RECORDED_TRIPS): Promise<RecordedTrip[]> => {
+  const { data, error } = await client
+    .from('navigation_sessions')
+    .select('id, trace_polyline, distance, actual_duration, start_time, end_time')
+    .not('trace_polyline', 'is', null)
+    .order('start_time', { ascending: false })
+    .limit(limit)
+
+  if (error) throw new Error(`Could not load recorded trips: ${error.message}`)
+  return ((data ?? []) as RecordedRow[]).map(row => {
+    const startTime = Date.parse(row.start_time)
+    const duration = row.actual_duration ?? 0
+    return {
+      id: row.id,
+      geometry: row.trace_polyline,
+      distance: Number(row.distance ?? 0),
+      duration,
+      startTime,
+      endTime: row.end_time ? Date.parse(row.end_time) : startTime + duration * 1000
+    }
+  })
+}
+
+// Saves a recorded trip; like recordTrip, only for a signed-in user. Resolves to the saved
+// session's id, or null when signed out.
+export const saveRecordedTrip = async (client: Pick<SupabaseClient, 'from' | 'auth'>, trip: Omit<RecordedTrip, 'id'>): Promise<string | null> => {
+  const { data: { user } } = await client.auth.getUser()
+  if (!user) return null
+
+  const path = decodePolyline(trip.geometry)
+  if (path.length === 0) throw new Error('Could not save the recording: it has no points')
+  const [startLng, startLat] = path[0]
+  const [endLng, endLat] = path[path.length - 1]
+
+  const { data, error } = await client.from('navigation_sessions').insert({
+    user_id: user.id,
+    start_lat: startLat,
+    start_lng: startLng,
+    end_lat: endLat,
+    end_lng: endLng,
+    actual_duration: Math.round(trip.duration),
+    distance: Math.round(trip.distance * 100) / 100,
+    start_time: new Date(trip.startTime).toISOString(),
+    end_time: new Date(trip.endTime).toISOString(),
+    status: 'completed',
+    trace_polyline: trip.geometry
+  }).select('id').single()
+
+  if (error) throw new Error(`Could not save the recording: ${error.message}`)
+  return (data as { id: string }).id
+}
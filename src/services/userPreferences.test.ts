@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from 'vitest'
+import { fetchSyncedPreferences, saveSyncedPreferences } from './userPreferences'
+
+const area = { id: 'a1', name: 'Market', polygon: [[77.2, 28.6], [77.21, 28.6], [77.21, 28.61]] }
+
+const createClient = (user: { id: string } | null, preferences: Record<string, unknown> | null, updateError: { message: string } | null = null) => {
+  const query: Record<string, ReturnType<typeof vi.fn>> = {}
+  query.select = vi.fn(() => query)
+  query.eq = vi.fn(() => query)
+  query.maybeSingle = vi.fn(async () => ({ data: preferences ? { preferences } : null, error: null }))
+  const updateEq = vi.fn(async () => ({ error: updateError }))
+  const update = vi.fn((_row: Record<string, unknown>) => ({ eq: updateEq }))
+  return {
+    client: { auth: { getUser: vi.fn(async () => ({ data: { user } })) }, from: vi.fn(() => ({ ...query, update })) },
+    update,
+    updateEq
+  }
+}
+
+describe('fetchSyncedPreferences', () => {
+  it('reads the avoid settings from the user row and ignores the rest', async () => {
+    const { client } = createClient({ id: 'user-1' }, { theme: 'dark', route_avoid: ['tolls'], avoid_areas: [area] })
+
+    await expect(fetchSyncedPreferences(client as never)).resolves.toEqual({ route_avoid: ['tolls'], avoid_areas: [area] })
+    expect(client.from).toHaveBeenCalledWith('users')
+  })
+
+  it('resolves to null while signed out', async () => {
+    const { client } = createClient(null, null)
+
+    await expect(fetchSyncedPreferences(client as never)).resolves.toBeNull()
+    expect(client.from).not.toHaveBeenCalled()
+  })
+})
+
+describe('saveSyncedPreferences', () => {
+  it('updates the avoid settings while keeping the other saved preferences', async () => {
+    const { client, update, updateEq } = createClient({ id: 'user-1' }, { theme: 'dark', route_avoid: [] })
+
+    await expect(saveSyncedPreferences(client as never, { route_avoid: ['ferries'], avoid_areas: [area] })).resolves.toBe(true)
+
+    expect(update.mock.calls[0][0]).toEqual({ preferences: { theme: 'dark', route_avoid: ['ferries'], avoid_areas: [area] } })
+    expect(updateEq).toHaveBeenCalledWith('id', 'user-1')
+  })
+
+  it('saves nothing while signed out and reports update errors', async () => {
+    const signedOut = createClient(null, null)
+    await expect(saveSyncedPreferences(signedOut.client as never, { route_avoid: [], avoid_areas: [] })).resolves.toBe(false)
+    expect(signedOut.update).not.toHaveBeenCalled()
+
+    const failing = createClient({ id: 'user-1' }, {}, { message: 'permission denied' })
+    await expect(saveSyncedPreferences(failing.client as never, { route_avoid: [], avoid_areas: [] }))
+      .rejects.toThrow('Could not save preferences: permission denied')
+  })
+})
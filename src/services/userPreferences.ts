@@ -0,0 +1,38 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { UserPreferences } from '../types'
+
+// Preferences that follow a signed-in user to other devices, kept in users.preferences. The
+// rest stay in this browser only. Nothing is read or written while signed out.
+
+export const SYNCED_PREFERENCES = ['route_avoid', 'avoid_areas'] as const
+
+export type SyncedPreferences = Pick<UserPreferences, (typeof SYNCED_PREFERENCES)[number]>
+
+const pickSynced = (preferences: Record<string, unknown>): Partial<SyncedPreferences> =>
+  Object.fromEntries(SYNCED_PREFERENCES.filter(key => Array.isArray(preferences[key])).map(key => [key, preferences[key]]))
+
+const loadPreferences = async (client: Pick<SupabaseClient, 'from'>, userId: string): Promise<Record<string, unknown>> => {
+  const { data, error } = await client.from('users').select('preferences').eq('id', userId).maybeSingle()
+  if (error) throw new Error(`Could not load preferences: ${error.message}`)
+  return ((data as { preferences: Record<string, unknown> | null } | null)?.preferences) ?? {}
+}
+
+// The signed-in user's synced preferences, or null when signed out
+export const fetchSyncedPreferences = async (client: Pick<SupabaseClient, 'from' | 'auth'>): Promise<Partial<SyncedPreferences> | null> => {
+  const { data: { user } } = await client.auth.getUser()
+  if (!user) return null
+  return pickSynced(await loadPreferences(client, user.id))
+}
+
+// Writes the synced preferences over the user's, keeping the others saved there; resolves to
+// whether they were saved
+export const saveSyncedPreferences = async (client: Pick<SupabaseClient, 'from' | 'auth'>, preferences: SyncedPreferences): Promise<boolean> => {
+  const { data: { user } } = await client.auth.getUser()
+  if (!user) return false
+
+  const saved = await loadPreferences(client, user.id)
+  const { error } = await client.from('users').update({ preferences: { ...saved, ...preferences } }).eq('id', user.id)
+
+  if (error) throw new Error(`Could not save preferences: ${error.message}`)
+  return true
+}
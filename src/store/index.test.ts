@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { DEFAULT_PREFERENCES, routeRequestKey, useAppStore } from '.'
+import type { SearchResult, SelectedPlace } from '../types'
+
+const place = (name: string, lat: number, lng: number): SelectedPlace => ({ name, address: `${name}, New Delhi`, lat, lng })
+
+const searchResult = (id: number): SearchResult => ({
+  place_id: `place-${id}`,
+  name: `Place ${id}`,
+  address: 'New Delhi',
+  location: { lat: 28.6, lng: 77.2 },
+  place_type: 'establishment'
+})
+
+const initialState = useAppStore.getState()
+
+describe('useAppStore', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    useAppStore.setState(initialState, true)
+  })
+
+  it('swaps the ends of a trip and reverses its via-points', () => {
+    const { setOrigin, setDestination, setWaypoints, swapOriginDestination } = useAppStore.getState()
+    setOrigin(place('Connaught Place', 28.6315, 77.2167))
+    setDestination(place('India Gate', 28.6129, 77.2295))
+    setWaypoints([place('Janpath', 28.62, 77.22), place('Rajpath', 28.614, 77.225)])
+
+    swapOriginDestination()
+
+    const { origin, destination, waypoints } = useAppStore.getState()
+    expect(origin?.name).toBe('India Gate')
+    expect(destination?.name).toBe('Connaught Place')
+    expect(waypoints.map(w => w.name)).toEqual(['Rajpath', 'Janpath'])
+  })
+
+  it('adds, removes and reorders via-points', () => {
+    const { addWaypoint, removeWaypoint, moveWaypoint } = useAppStore.getState()
+    addWaypoint(place('Janpath', 28.62, 77.22))
+    addWaypoint(place('Rajpath', 28.614, 77.225))
+    addWaypoint(place('Mandi House', 28.625, 77.234), 1)
+    const names = () => useAppStore.getState().waypoints.map(w => w.name)
+    expect(names()).toEqual(['Janpath', 'Mandi House', 'Rajpath'])
+
+    moveWaypoint(2, 0)
+    expect(names()).toEqual(['Rajpath', 'Janpath', 'Mandi House'])
+    moveWaypoint(2, 3)
+    expect(names()).toEqual(['Rajpath', 'Janpath', 'Mandi House'])
+
+    removeWaypoint(1)
+    expect(names()).toEqual(['Rajpath', 'Mandi House'])
+  })
+
+  it('keys routes by mode, ends and via-points', () => {
+    const base = {
+      origin: place('A', 28.1, 77.1),
+      destination: place('B', 28.2, 77.2),
+      waypoints: [],
+      travelMode: 'driving' as const
+    }
+
+    expect(routeRequestKey(base)).toBe(routeRequestKey({ ...base, origin: { ...base.origin, name: 'Renamed' } }))
+    expect(routeRequestKey(base)).not.toBe(routeRequestKey({ ...base, travelMode: 'walking' }))
+    expect(routeRequestKey(base)).not.toBe(routeRequestKey({ ...base, waypoints: [place('C', 28.15, 77.15)] }))
+    expect(routeRequestKey(base)).toBe(routeRequestKey(base, { timing: { mode: 'now' }, avoid: [] }))
+    expect(routeRequestKey(base, { timing: { mode: 'depart_at', time: 1 } })).not.toBe(routeRequestKey(base, { timing: { mode: 'arrive_by', time: 1 } }))
+    expect(routeRequestKey(base, { avoid: ['tolls', 'ferries'] })).toBe(routeRequestKey(base, { avoid: ['ferries', 'tolls'] }))
+    expect(routeRequestKey(base, { avoid: ['tolls'] })).not.toBe(routeRequestKey(base))
+    expect(routeRequestKey(base, { scooter: DEFAULT_PREFERENCES })).not.toBe(
+      routeRequestKey(base, { scooter: { ...DEFAULT_PREFERENCES, scooter_max_road_speed_kmh: 50 } })
+    )
+  })
+
+  it('resets the selected route when new routes arrive', () => {
+    const { selectRoute, setRoutes } = useAppStore.getState()
+    selectRoute(1)
+
+    setRoutes([], 'key')
+
+    expect(useAppStore.getState()).toMatchObject({ selectedRoute: 0, routesKey: 'key' })
+  })
+
+  it('restarts the trip from the current position when rerouted', () => {
+    const { setOrigin, setDestination, setWaypoints, startNavigation, setNavigationProgress, setRerouting, applyReroute } = useAppStore.getState()
+    setOrigin(place('Connaught Place', 28.6315, 77.2167))
+    setDestination(place('India Gate', 28.6129, 77.2295))
+    setWaypoints([place('Janpath', 28.62, 77.22), place('Rajpath', 28.614, 77.225)])
+    startNavigation()
+    setNavigationProgress({
+      position: { lat: 28.62, lng: 77.22 },
+      segmentIndex: 3,
+      along: 1200,
+      stepIndex: 1,
+      distanceToManeuver: 100,
+      distanceRemaining: 1500,
+      distanceFromRoute: 80,
+      offRoute: true,
+      arrived: false
+    })
+    setRerouting(true)
+
+    const here = place('Current location', 28.618, 77.223)
+    applyReroute(here, [place('Rajpath', 28.614, 77.225)], [])
+
+    const state = useAppStore.getState()
+    expect(state).toMatchObject({ origin: here, isNavigating: true, isRerouting: false, navigationProgress: null })
+    expect(state.routesKey).toBe(routeRequestKey(state))
+  })
+
+  it('shows either the directions panel or the delivery planner', () => {
+    const { setShowNavigation, setShowPlanner } = useAppStore.getState()
+    setShowNavigation(true)
+    setShowPlanner(true)
+    expect(useAppStore.getState()).toMatchObject({ showNavigation: false, showPlanner: true })
+
+    setShowNavigation(true)
+    expect(useAppStore.getState()).toMatchObject({ showNavigation: true, showPlanner: false })
+  })
+
+  it('keeps the five most recent searches without duplicates', () => {
+    const { addRecentSearch } = useAppStore.getState()
+    for (let i = 1; i <= 6; i++) addRecentSearch(searchResult(i))
+    addRecentSearch(searchResult(4))
+
+    expect(useAppStore.getState().recentSearches.map(r => r.place_id))
+      .toEqual(['place-4', 'place-6', 'place-5', 'place-3', 'place-2'])
+  })
+
+  it('persists preferences, recent searches and travel mode only', () => {
+    const { setPreference, setTravelMode, setOrigin, addRecentSearch } = useAppStore.getState()
+    setPreference('show_signals', false)
+    setTravelMode('walking')
+    addRecentSearch(searchResult(1))
+    setOrigin(place('Connaught Place', 28.6315, 77.2167))
+
+    const saved = JSON.parse(localStorage.getItem('ola-maps-store')!).state
+    expect(Object.keys(saved).sort()).toEqual(['preferences', 'recentSearches', 'travelMode'])
+    expect(saved.preferences.show_signals).toBe(false)
+  })
+
+  it('fills in preferences missing from an older saved state', async () => {
+    localStorage.setItem('ola-maps-store', JSON.stringify({ state: { preferences: { theme: 'dark' } }, version: 0 }))
+
+    await useAppStore.persist.rehydrate()
+
+    expect(useAppStore.getState().preferences).toEqual({ ...DEFAULT_PREFERENCES, theme: 'dark' })
+  })
+})
@@ -0,0 +1,49 @@
+import { create } from 'zustand'
+import { createJSONStorage, persist } from 'zustand/middleware'
+import { createMapSlice } from './mapSlice'
+import { createNavigationSlice } from './navigationSlice'
+import { createPlannerSlice } from './plannerSlice'
+import { createPreferencesSlice } from './preferencesSlice'
+import { createRecorderSlice } from './recorderSlice'
+import { createSearchSlice } from './searchSlice'
+import type { AppState } from './types'
+
+export const useAppStore = create<AppState>()(
+  persist(
+    (...a) => ({
+      ...createMapSlice(...a),
+      ...createNavigationSlice(...a),
+      ...createSearchSlice(...a),
+      ...createPreferencesSlice(...a),
+      ...createPlannerSlice(...a),
+      ...createRecorderSlice(...a)
+    }),
+    {
+      name: 'ola-maps-store',
+      storage: createJSONStorage(() => localStorage),
+      // Only durable user choices survive a reload; map instances and routes do not
+      partialize: (state) => ({
+        preferences: state.preferences,
+        recentSearches: state.recentSearches,
+        travelMode: state.travelMode
+      }),
+      // Preferences added in later releases keep their defaults for returning users
+      merge: (persisted, current) => {
+        const saved = (persisted ?? {}) as Partial<AppState>
+        return { ...current, ...saved, preferences: { ...current.preferences, ...saved.preferences } }
+      }
+    }
+  )
+)
+
+export type { AppState } from './types'
+export type { LocationSimulation, MapSlice, ToolPanel } from './mapSlice'
+export type { NavigationSlice } from './navigationSlice'
+export type { SearchSlice } from './searchSlice'
+export type { PreferencesSlice } from './preferencesSlice'
+export type { PlannerDraft, PlannerSlice } from './plannerSlice'
+export type { RecorderSlice, TraceRecording } from './recorderSlice'
+export { DEFAULT_MAP_VIEW } from './mapSlice'
+export { routeRequestKey } from './navigationSlice'
+export { DEFAULT_PREFERENCES } from './preferencesSlice'
+export { EMPTY_PLANNER_DRAFT } from './plannerSlice'
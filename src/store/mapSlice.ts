@@ -0,0 +1,94 @@
+import type { LocationFix, MapState } from '../types'
+import type { LocationProvider } from '../services'
+import type { FollowMode } from '../utils/camera'
+import type { SliceCreator } from './types'
+
+// Replayed fixes standing in for the device's location
+export interface LocationSimulation {
+  // What is being replayed, e.g. "Route via Janpath" or a track's file name
+  label: string
+  provider: LocationProvider
+  paused: boolean
+}
+
+// Panels that share the spot below the map controls; only one is open at a time
+export type ToolPanel = 'recorder' | 'data' | 'reachability'
+
+export interface MapSlice {
+  // The Ola Maps SDK instance; null until MapContainer has initialised it
+  map: any | null
+  isMapLoaded: boolean
+  mapView: MapState
+  currentLocation: LocationFix | null
+  showSearch: boolean
+  showNavigation: boolean
+  // The directions and delivery planner panels share a spot, so opening one closes the other
+  showPlanner: boolean
+  showSimulator: boolean
+  toolPanel: ToolPanel | null
+  // While set, the device's own fixes are ignored, even when the simulation is paused
+  locationSimulation: LocationSimulation | null
+  // The camera tracks the driver during navigation until the map is panned by hand
+  isFollowing: boolean
+  followMode: FollowMode
+  setMap: (map: any | null) => void
+  setMapLoaded: (loaded: boolean) => void
+  setMapView: (view: Partial<MapState>) => void
+  setCurrentLocation: (location: LocationFix | null) => void
+  toggleSearch: () => void
+  setShowNavigation: (show: boolean) => void
+  setShowPlanner: (show: boolean) => void
+  setShowSimulator: (show: boolean) => void
+  setToolPanel: (panel: ToolPanel | null) => void
+  setLocationSimulation: (simulation: LocationSimulation | null) => void
+  setFollowing: (following: boolean) => void
+  setFollowMode: (mode: FollowMode) => void
+}
+
+export const DEFAULT_MAP_VIEW: MapState = {
+  center: {
+    lat: parseFloat(import.meta.env.VITE_DEFAULT_LAT || '28.7041'),
+    lng: parseFloat(import.meta.env.VITE_DEFAULT_LNG || '77.1025')
+  },
+  zoom: parseInt(import.meta.env.VITE_DEFAULT_ZOOM || '12'),
+  bearing: 0,
+  pitch: 0
+}
+
+export const createMapSlice: SliceCreator<MapSlice> = (set) => ({
+  map: null,
+  isMapLoaded: false,
+  mapView: DEFAULT_MAP_VIEW,
+  currentLocation: null,
+  showSearch: true,
+  showNavigation: false,
+  showPlanner: false,
+  showSimulator: false,
+  toolPanel: null,
+  locationSimulation: null,
+  isFollowing: false,
+  followMode: 'heading-up',
+  // A new (or removed) map instance has not fired its load event yet
+  setMap: (map) => set({ map, isMapLoaded: false }),
+  setMapLoaded: (isMapLoaded) => set({ isMapLoaded }),
+  setMapView: (view) => set(state => ({ mapView: { ...state.mapView, ...view } })),
+  setCurrentLocation: (currentLocation) => set({ currentLocation }),
+  toggleSearch: () => set(state => ({ showSearch: !state.showSearch })),
+  setShowNavigation: (showNavigation) => set(state => ({
+    showNavigation,
+    showPlanner: showNavigation ? false : state.showPlanner
+  })),
+  setShowPlanner: (showPlanner) => set(state => ({
+    showPlanner,
+    showNavigation: showPlanner ? false : state.showNavigation
+  })),
+  // Closing the simulator hands location back to the device
+  setShowSimulator: (showSimulator) => set(state => ({
+    showSimulator,
+    locationSimulation: showSimulator ? state.locationSimulation : null
+  })),
+  setToolPanel: (toolPanel) => set({ toolPanel }),
+  setLocationSimulation: (locationSimulation) => set({ locationSimulation }),
+  setFollowing: (isFollowing) => set({ isFollowing }),
+  setFollowMode: (followMode) => set({ followMode, isFollowing: true })
+})
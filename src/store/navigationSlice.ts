@@ -0,0 +1,148 @@
+import type { OverSpeedEvent, RouteAvoidance, RouteInfo, SelectedPlace, SpeedLimitSegment, TravelMode, TripTiming } from '../types'
+import type { ScooterSettings } from '../utils/scooterProfile'
+import type { NavigationProgress } from '../utils/turnByTurn'
+import type { SliceCreator } from './types'
+
+export interface NavigationSlice {
+  origin: SelectedPlace | null
+  destination: SelectedPlace | null
+  waypoints: SelectedPlace[]
+  travelMode: TravelMode
+  // Leave now, or plan for a departure or arrival time
+  tripTiming: TripTiming
+  routes: RouteInfo[]
+  selectedRoute: number
+  // routeRequestKey() of the request that produced `routes`, so a remounted panel can reuse them
+  routesKey: string | null
+  // Live turn-by-turn guidance along routes[selectedRoute]
+  isNavigating: boolean
+  navigationProgress: NavigationProgress | null
+  isRerouting: boolean
+  // Posted limits along routes[selectedRoute], fetched once navigation starts
+  speedLimits: SpeedLimitSegment[]
+  // Spells over the speed limit on the current trip, oldest first
+  overSpeedEvents: OverSpeedEvent[]
+  setOrigin: (origin: SelectedPlace | null) => void
+  setDestination: (destination: SelectedPlace | null) => void
+  swapOriginDestination: () => void
+  setWaypoints: (waypoints: SelectedPlace[]) => void
+  // Inserts before `index`, or appends as the last stop before the destination
+  addWaypoint: (waypoint: SelectedPlace, index?: number) => void
+  removeWaypoint: (index: number) => void
+  moveWaypoint: (from: number, to: number) => void
+  setTravelMode: (mode: TravelMode) => void
+  setTripTiming: (timing: TripTiming) => void
+  setRoutes: (routes: RouteInfo[], key: string) => void
+  selectRoute: (index: number) => void
+  clearNavigation: () => void
+  startNavigation: () => void
+  stopNavigation: () => void
+  setNavigationProgress: (progress: NavigationProgress | null) => void
+  setRerouting: (rerouting: boolean) => void
+  setSpeedLimits: (segments: SpeedLimitSegment[]) => void
+  // Adds an event, or updates the latest one when it started at the same time
+  recordOverSpeed: (event: OverSpeedEvent) => void
+  // Replaces the trip with one starting where the driver is now, keeping the routes already fetched for it
+  applyReroute: (origin: SelectedPlace, waypoints: SelectedPlace[], routes: RouteInfo[]) => void
+}
+
+// Identifies a directions request by its inputs. Pass the timing only when it is sent with the
+// request, and the scooter settings only when the routes were ranked with them.
+export const routeRequestKey = (
+  state: Pick<NavigationSlice, 'origin' | 'destination' | 'waypoints' | 'travelMode'>,
+  request: { timing?: TripTiming; avoid?: RouteAvoidance[]; scooter?: ScooterSettings } = {}
+): string => {
+  const { timing, avoid = [], scooter } = request
+  const point = (place: SelectedPlace | null) => place ? `${place.lat},${place.lng}` : ''
+  const when = timing && timing.mode !== 'now' ? [`${timing.mode}@${timing.time}`] : []
+  const avoiding = avoid.length > 0 ? [`avoid:${[...avoid].sort().join(',')}`] : []
+  const riding = scooter
+    ? [`scooter:${scooter.scooter_top_speed_kmh},${scooter.scooter_max_road_speed_kmh},${scooter.scooter_range_km}`]
+    : []
+  return [state.travelMode, point(state.origin), ...state.waypoints.map(point), point(state.destination), ...when, ...avoiding, ...riding].join('|')
+}
+
+export const createNavigationSlice: SliceCreator<NavigationSlice> = (set, get) => ({
+  origin: null,
+  destination: null,
+  waypoints: [],
+  travelMode: 'driving',
+  tripTiming: { mode: 'now' },
+  routes: [],
+  selectedRoute: 0,
+  routesKey: null,
+  isNavigating: false,
+  navigationProgress: null,
+  isRerouting: false,
+  speedLimits: [],
+  overSpeedEvents: [],
+  setOrigin: (origin) => set({ origin }),
+  setDestination: (destination) => set({ destination }),
+  swapOriginDestination: () => set(state => ({
+    origin: state.destination,
+    destination: state.origin,
+    waypoints: [...state.waypoints].reverse()
+  })),
+  setWaypoints: (waypoints) => set({ waypoints }),
+  addWaypoint: (waypoint, index) => set(state => {
+    const waypoints = [...state.waypoints]
+    waypoints.splice(index ?? waypoints.length, 0, waypoint)
+    return { waypoints }
+  }),
+  removeWaypoint: (index) => set(state => ({ waypoints: state.waypoints.filter((_, i) => i !== index) })),
+  moveWaypoint: (from, to) => set(state => {
+    if (to < 0 || to >= state.waypoints.length || from === to) return {}
+    const waypoints = [...state.waypoints]
+    const [moved] = waypoints.splice(from, 1)
+    waypoints.splice(to, 0, moved)
+    return { waypoints }
+  }),
+  setTravelMode: (travelMode) => set({ travelMode }),
+  setTripTiming: (tripTiming) => set({ tripTiming }),
+  // Progress and speed limits are measured along one route, so they start over whenever the route changes
+  setRoutes: (routes, routesKey) => set({ routes, routesKey, selectedRoute: 0, navigationProgress: null, speedLimits: [] }),
+  selectRoute: (selectedRoute) => set({ selectedRoute, navigationProgress: null, speedLimits: [] }),
+  clearNavigation: () => set({
+    origin: null,
+    destination: null,
+    waypoints: [],
+    tripTiming: { mode: 'now' },
+    routes: [],
+    selectedRoute: 0,
+    routesKey: null,
+    isNavigating: false,
+    navigationProgress: null,
+    isRerouting: false,
+    speedLimits: [],
+    overSpeedEvents: []
+  }),
+  startNavigation: () => set({ isNavigating: true, navigationProgress: null, isRerouting: false, isFollowing: true, overSpeedEvents: [] }),
+  // The over-speed events stay until the next trip starts, so the finished trip can be saved with them
+  stopNavigation: () => set({ isNavigating: false, navigationProgress: null, isRerouting: false, speedLimits: [] }),
+  setNavigationProgress: (navigationProgress) => set({ navigationProgress }),
+  setRerouting: (isRerouting) => set({ isRerouting }),
+  setSpeedLimits: (speedLimits) => set({ speedLimits }),
+  recordOverSpeed: (event) => set(state => {
+    const events = [...state.overSpeedEvents]
+    const last = events[events.length - 1]
+    if (last && last.startedAt === event.startedAt) events[events.length - 1] = event
+    else events.push(event)
+    return { overSpeedEvents: events }
+  }),
+  applyReroute: (origin, waypoints, routes) => set({
+    origin,
+    waypoints,
+    routes,
+    selectedRoute: 0,
+    routesKey: routeRequestKey(
+      { origin, waypoints, destination: get().destination, travelMode: get().travelMode },
+      {
+        avoid: get().preferences.route_avoid,
+        scooter: get().travelMode === 'electric_scooter' ? get().preferences : undefined
+      }
+    ),
+    navigationProgress: null,
+    isRerouting: false,
+    speedLimits: []
+  })
+})
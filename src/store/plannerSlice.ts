@@ -0,0 +1,36 @@
+import type { DeliveryPlan } from '../types'
+import type { SliceCreator } from './types'
+
+// What's typed into the delivery planner, kept so closing the panel doesn't lose it
+export interface PlannerDraft {
+  // Blank means "start from my location"
+  start: string
+  end: string
+  returnToStart: boolean
+  // One stop per line, see parseStopList
+  stops: string
+  // "HH:MM"
+  departure: string
+}
+
+export interface PlannerSlice {
+  plannerDraft: PlannerDraft
+  deliveryPlan: DeliveryPlan | null
+  setPlannerDraft: (draft: Partial<PlannerDraft>) => void
+  setDeliveryPlan: (plan: DeliveryPlan | null) => void
+}
+
+export const EMPTY_PLANNER_DRAFT: PlannerDraft = {
+  start: '',
+  end: '',
+  returnToStart: false,
+  stops: '',
+  departure: '09:00'
+}
+
+export const createPlannerSlice: SliceCreator<PlannerSlice> = (set) => ({
+  plannerDraft: EMPTY_PLANNER_DRAFT,
+  deliveryPlan: null,
+  setPlannerDraft: (draft) => set(state => ({ plannerDraft: { ...state.plannerDraft, ...draft } })),
+  setDeliveryPlan: (deliveryPlan) => set({ deliveryPlan })
+})
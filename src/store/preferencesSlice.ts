@@ -0,0 +1,30 @@
+import type { UserPreferences } from '../types'
+import type { SliceCreator } from './types'
+
+export interface PreferencesSlice {
+  preferences: UserPreferences
+  setPreference: <K extends keyof UserPreferences>(key: K, value: UserPreferences[K]) => void
+  setPreferences: (preferences: Partial<UserPreferences>) => void
+}
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  theme: 'light',
+  map_style: 'default',
+  show_traffic: true,
+  show_signals: true,
+  navigation_voice: true,
+  voice_language: 'en',
+  route_avoid: [],
+  avoid_areas: [],
+  scooter_top_speed_kmh: 45,
+  scooter_max_road_speed_kmh: 60,
+  scooter_range_km: 80,
+  speed_alert_tolerance_kmh: 5,
+  trace_enhance_path: true
+}
+
+export const createPreferencesSlice: SliceCreator<PreferencesSlice> = (set) => ({
+  preferences: DEFAULT_PREFERENCES,
+  setPreference: (key, value) => set(state => ({ preferences: { ...state.preferences, [key]: value } })),
+  setPreferences: (preferences) => set(state => ({ preferences: { ...state.preferences, ...preferences } }))
+})
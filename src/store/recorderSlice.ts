@@ -0,0 +1,33 @@
+import type { LocationFix } from '../types'
+import { acceptFix } from '../utils/traceRecorder'
+import type { SliceCreator } from './types'
+
+// A GPS trace being recorded; only fixes that pass acceptFix are kept
+export interface TraceRecording {
+  startedAt: number
+  fixes: LocationFix[]
+}
+
+export interface RecorderSlice {
+  recording: TraceRecording | null
+  startRecording: () => void
+  addRecordedFix: (fix: LocationFix) => void
+  // Ends the recording and hands back what was recorded
+  stopRecording: () => TraceRecording | null
+}
+
+export const createRecorderSlice: SliceCreator<RecorderSlice> = (set, get) => ({
+  recording: null,
+  startRecording: () => set({ recording: { startedAt: Date.now(), fixes: [] } }),
+  addRecordedFix: (fix) => set(state => {
+    const { recording } = state
+    if (!recording) return {}
+    const last = recording.fixes[recording.fixes.length - 1] ?? null
+    return acceptFix(last, fix) ? { recording: { ...recording, fixes: [...recording.fixes, fix] } } : {}
+  }),
+  stopRecording: () => {
+    const { recording } = get()
+    set({ recording: null })
+    return recording
+  }
+})
@@ -0,0 +1,40 @@
+import type { SavedPlace, SearchResult, SelectedPlace } from '../types'
+import type { SliceCreator } from './types'
+
+const MAX_RECENT_SEARCHES = 5
+// Where SearchBar kept recent searches before the store existed
+const LEGACY_RECENTS_KEY = 'recent_searches'
+
+export interface SearchSlice {
+  // Last place picked in the main search bar, offered as a directions destination
+  selectedPlace: SelectedPlace | null
+  recentSearches: SearchResult[]
+  // Favourites from user_places, newest first; loaded when first needed
+  savedPlaces: SavedPlace[] | null
+  setSelectedPlace: (place: SelectedPlace | null) => void
+  addRecentSearch: (result: SearchResult) => void
+  setSavedPlaces: (places: SavedPlace[]) => void
+  addSavedPlaces: (places: SavedPlace[]) => void
+}
+
+const loadLegacyRecents = (): SearchResult[] => {
+  try {
+    const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(LEGACY_RECENTS_KEY) : null
+    return saved ? JSON.parse(saved) : []
+  } catch {
+    return []
+  }
+}
+
+export const createSearchSlice: SliceCreator<SearchSlice> = (set) => ({
+  selectedPlace: null,
+  recentSearches: loadLegacyRecents(),
+  savedPlaces: null,
+  setSelectedPlace: (selectedPlace) => set({ selectedPlace }),
+  addRecentSearch: (result) => set(state => ({
+    recentSearches: [result, ...state.recentSearches.filter(r => r.place_id !== result.place_id)]
+      .slice(0, MAX_RECENT_SEARCHES)
+  })),
+  setSavedPlaces: (savedPlaces) => set({ savedPlaces }),
+  addSavedPlaces: (places) => set(state => ({ savedPlaces: [...places, ...(state.savedPlaces ?? [])] }))
+})
@@ -0,0 +1,12 @@
+import type { StateCreator } from 'zustand'
+import type { MapSlice } from './mapSlice'
+import type { NavigationSlice } from './navigationSlice'
+import type { PlannerSlice } from './plannerSlice'
+import type { PreferencesSlice } from './preferencesSlice'
+import type { RecorderSlice } from './recorderSlice'
+import type { SearchSlice } from './searchSlice'
+
+export type AppState = MapSlice & NavigationSlice & SearchSlice & PreferencesSlice & PlannerSlice & RecorderSlice
+
+// Each slice sees the whole store, so actions can read or update other slices
+export type SliceCreator<T> = StateCreator<AppState, [['zustand/persist', unknown]], [], T>
@@ -59,10 +59,297 @@ export interface User {
   created_at: string
 }
 
+// Languages spoken navigation prompts are available in
+export type VoiceLanguage = 'en' | 'hi'
+
+// Road features directions can be asked to keep off
+export type RouteAvoidance = 'tolls' | 'highways' | 'ferries'
+
+// An area drawn on the map for routes to stay out of, e.g. a flooded underpass
+export interface AvoidArea {
+  id: string
+  name: string
+  // [lng, lat] vertices, not repeating the first at the end
+  polygon: number[][]
+}
+
 export interface UserPreferences {
   theme: 'light' | 'dark'
   map_style: 'default' | 'satellite' | 'terrain'
   show_traffic: boolean
   show_signals: boolean
   navigation_voice: boolean
-}
\ No newline at end of file
+  voice_language: VoiceLanguage
+  route_avoid: RouteAvoidance[]
+  avoid_areas: AvoidArea[]
+  // Electric scooter profile, in km/h and km
+  scooter_top_speed_kmh: number
+  scooter_max_road_speed_kmh: number
+  scooter_range_km: number
+  // How far over the speed limit, in km/h, before navigation warns
+  speed_alert_tolerance_kmh: number
+  // Whether recorded trips are matched with snapToRoad's enhancePath, which follows road curves
+  trace_enhance_path: boolean
+}
+export interface PlaceDetails extends SearchResult {
+  types: string[]
+  phone?: string
+  website?: string
+}
+
+export interface GeocodeResult {
+  place_id?: string
+  name: string
+  address: string
+  location: Location
+  types: string[]
+}
+
+export interface ElevationSample {
+  location: Location
+  elevation: number
+}
+
+// Height along a route, sampled at regular intervals of its geometry
+export interface ElevationProfile {
+  // Metres along the decoded route geometry, and metres above sea level there
+  samples: { along: number; elevation: number }[]
+  // Total climbing and descending, in metres
+  ascent: number
+  descent: number
+  // Steepest grade between samples, in percent; negative when it is downhill
+  steepestGrade: number
+}
+
+export interface RouteStep {
+  instruction: string
+  maneuver?: string
+  distance: number // metres
+  duration: number // seconds
+  readable_distance?: string
+  readable_duration?: string
+  start_location: Location
+  end_location: Location
+  bearing_before?: number
+  bearing_after?: number
+}
+
+export interface RouteLeg {
+  distance: number // metres
+  duration: number // seconds
+  readable_distance?: string
+  readable_duration?: string
+  start_location: Location
+  end_location: Location
+  start_address?: string
+  end_address?: string
+  steps: RouteStep[]
+}
+
+export interface DirectionsRoute {
+  summary: string
+  overview_polyline: string
+  legs: RouteLeg[]
+  travel_advisory?: string
+  warnings: string[]
+  waypoint_order: number[]
+}
+
+export interface DirectionsResult {
+  routes: DirectionsRoute[]
+}
+
+export interface DistanceMatrixElement {
+  status: string
+  distance: number | null // metres
+  duration: number | null // seconds
+}
+
+export interface DistanceMatrix {
+  rows: DistanceMatrixElement[][]
+}
+
+export interface SnappedPoint {
+  location: Location
+  original_index?: number
+  snapped_type?: string
+}
+
+export interface SpeedLimitPoint extends SnappedPoint {
+  speed_limit: number | null // km/h
+}
+
+export interface OptimizedRoute {
+  waypoint_order: number[]
+  routes: DirectionsRoute[]
+}
+
+export interface NearestRoad {
+  location: Location
+  distance: number // metres from the query point
+  original_index?: number
+}
+
+// A place picked in a search box: always has coordinates and a label
+export interface SelectedPlace {
+  lat: number
+  lng: number
+  address: string
+  name: string
+  // Set when the place came from Ola search, which makes it linkable as /place/:placeId
+  place_id?: string
+}
+
+// A favourite kept in user_places
+export interface SavedPlace extends SelectedPlace {
+  id: string
+}
+
+export type TravelMode = 'driving' | 'walking' | 'bicycling' | 'electric_scooter'
+
+// Distance and time for one leg of a route, or a whole route
+export interface LegSummary {
+  distance: string
+  duration: string
+  distanceMetres: number
+  durationSeconds: number
+}
+
+// One directions alternative, prepared for display in the navigation panel
+export interface RouteInfo {
+  // Totals across all legs
+  distance: string
+  duration: string
+  // One per stop after the origin: legs[i] ends at waypoint i, the last at the destination
+  legs: LegSummary[]
+  steps: RouteStep[]
+  geometry: string
+  summary: string
+  routeIndex: number
+  travelAdvisory?: string
+  // Names of the avoid areas the route passes through
+  avoidAreasCrossed?: string[]
+  // Set for electric scooter routes, whose durations are already adjusted for the scooter
+  scooter?: ScooterEstimate
+}
+
+// How a route suits an electric scooter, from the speed limits along it
+export interface ScooterEstimate {
+  // Travel time on the scooter, allowing for its top speed
+  durationSeconds: number
+  // Ola's estimate for a car, before capping at the scooter's top speed
+  carDurationSeconds: number
+  // Share of the scooter's range the trip uses, in percent
+  batteryPercent: number
+  // Metres on roads signed faster than the rider wants to ride
+  fastRoadMetres: number
+  // Lower is better: the scooter's travel time, weighted against faster, busier roads
+  score: number
+}
+
+// A delivery stop as typed into the planner, before geocoding. Times are minutes after midnight.
+export interface DeliveryStopInput {
+  address: string
+  // Minutes spent at the stop unloading
+  serviceMinutes: number
+  window?: { start: number; end: number }
+}
+
+export interface PlannedStop extends DeliveryStopInput {
+  location: SelectedPlace
+  arrival: number
+  // Minutes spent waiting for the window to open
+  wait: number
+  departure: number
+  late: boolean
+}
+
+export interface DeliveryPlan {
+  start: SelectedPlace
+  // Null when the run ends at its last stop
+  end: SelectedPlace | null
+  stops: PlannedStop[]
+  departure: number
+  finish: number
+  distanceMetres: number
+  // Encoded polyline of the whole run; null when only matrix estimates were available
+  geometry: string | null
+  // Whether Ola's route optimizer or the local heuristic chose the order
+  method: 'optimizer' | 'local'
+}
+
+// One position report from the device (or a simulated source)
+export interface LocationFix {
+  lat: number
+  lng: number
+  // Compass degrees of travel; null when stationary or unknown
+  heading?: number | null
+  // Metres per second
+  speed?: number | null
+  // Radius of uncertainty in metres
+  accuracy?: number | null
+  timestamp?: number
+}
+
+// When a trip is planned for. Times are milliseconds since the epoch.
+export type TripTiming =
+  | { mode: 'now' }
+  | { mode: 'depart_at'; time: number }
+  | { mode: 'arrive_by'; time: number }
+
+// A finished trip from navigation_sessions, for learning how long trips really take
+export interface TripRecord {
+  start: { lat: number; lng: number }
+  end: { lat: number; lng: number }
+  // Seconds: what Ola estimated, and what the trip took
+  estimatedDuration: number
+  actualDuration: number
+  startTime: number
+}
+
+// A stretch of a route under one posted speed limit; metres along the decoded route geometry
+export interface SpeedLimitSegment {
+  start: number
+  end: number
+  limit: number // km/h
+}
+
+// A spell of driving faster than the limit plus the tolerance. Speeds in km/h, times in ms.
+export interface OverSpeedEvent {
+  startedAt: number
+  // Null while still over the limit
+  endedAt: number | null
+  // Where it began
+  lat: number
+  lng: number
+  limit: number
+  maxSpeed: number
+}
+
+// A navigated trip, as saved to navigation_sessions when navigation ends
+export interface TripLog {
+  start: SelectedPlace
+  end: SelectedPlace
+  // Seconds
+  estimatedDuration: number
+  actualDuration: number
+  // Metres
+  distance: number
+  startTime: number
+  endTime: number
+  status: 'completed' | 'cancelled'
+  overSpeedEvents: OverSpeedEvent[]
+}
+
+// A GPS trace recorded by the trip recorder and matched to the roads it was driven on
+export interface RecordedTrip {
+  // The navigation_sessions id, or a local id for a trip that couldn't be saved
+  id: string
+  // Encoded polyline of the matched path
+  geometry: string
+  // Metres and seconds
+  distance: number
+  duration: number
+  startTime: number
+  endTime: number
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatAppUrl,
+  formatViewSegment,
+  parseAppUrl,
+  parsePointSegment,
+  parseViewSegment,
+  urlKind,
+  type UrlSource
+} from './appUrl'
+import type { SelectedPlace } from '../types'
+
+const connaughtPlace: SelectedPlace = { name: 'Connaught Place', address: 'New Delhi', lat: 28.6315, lng: 77.2167 }
+const indiaGate: SelectedPlace = { name: 'India Gate', address: 'Kartavya Path', lat: 28.6129, lng: 77.2295 }
+
+const source = (overrides: Partial<UrlSource> = {}): UrlSource => ({
+  mapView: { center: { lat: 28.7041, lng: 77.1025 }, zoom: 12, bearing: 0, pitch: 0 },
+  selectedPlace: null,
+  showNavigation: false,
+  origin: null,
+  destination: null,
+  waypoints: [],
+  travelMode: 'driving',
+  ...overrides
+})
+
+describe('map view segment', () => {
+  it('formats centre and zoom, adding bearing and pitch only when set', () => {
+    expect(formatViewSegment(source().mapView)).toBe('@28.7041,77.1025,12z')
+    expect(formatViewSegment({ center: { lat: 28.123456789, lng: 77.5 }, zoom: 14.256, bearing: -30.04, pitch: 45 }))
+      .toBe('@28.12346,77.5,14.26z,-30h,45t')
+  })
+
+  it('parses what it formats', () => {
+    const view = { center: { lat: 12.97159, lng: 77.59456 }, zoom: 15.5, bearing: 90, pitch: 60 }
+    expect(parseViewSegment(formatViewSegment(view))).toEqual(view)
+  })
+
+  it('defaults bearing and pitch', () => {
+    expect(parseViewSegment('@28.6,77.2,14z')).toEqual({ center: { lat: 28.6, lng: 77.2 }, zoom: 14, bearing: 0, pitch: 0 })
+  })
+
+  it('rejects malformed or out-of-range views', () => {
+    expect(parseViewSegment('@28.6,77.2')).toBeNull()
+    expect(parseViewSegment('@98.6,77.2,14z')).toBeNull()
+    expect(parseViewSegment('@28.6,77.2,30z')).toBeNull()
+    expect(parseViewSegment('place')).toBeNull()
+  })
+})
+
+describe('parsePointSegment', () => {
+  it('reads labelled points', () => {
+    expect(parsePointSegment('Connaught%20Place@28.6315,77.2167')).toEqual({
+      name: 'Connaught Place',
+      address: 'Connaught Place',
+      lat: 28.6315,
+      lng: 77.2167
+    })
+  })
+
+  it('labels bare coordinates with themselves', () => {
+    expect(parsePointSegment('28.6315,77.2167')).toMatchObject({ name: '28.6315,77.2167' })
+  })
+
+  it('allows "@" inside labels', () => {
+    expect(parsePointSegment('Cafe%20%40%20CP@28.6315,77.2167')?.name).toBe('Cafe @ CP')
+  })
+
+  it('rejects anything without valid coordinates', () => {
+    expect(parsePointSegment('Connaught%20Place')).toBeNull()
+    expect(parsePointSegment('28.6315,277.2167')).toBeNull()
+    expect(parsePointSegment('%E0%A4%A')).toBeNull()
+  })
+})
+
+describe('parseAppUrl', () => {
+  it('reads the root and view URLs', () => {
+    expect(parseAppUrl('/')).toEqual({ kind: 'view', view: null })
+    expect(parseAppUrl('/@28.6,77.2,14z')).toMatchObject({ kind: 'view', view: { zoom: 14 } })
+    expect(parseAppUrl('/not-a-view')).toEqual({ kind: 'view', view: null })
+  })
+
+  it('reads place URLs', () => {
+    expect(parseAppUrl('/place/ola-platform%3Aabc')).toEqual({ kind: 'place', placeId: 'ola-platform:abc' })
+  })
+
+  it('reads directions with mode and via-points', () => {
+    const url = parseAppUrl(
+      '/dir/Connaught%20Place@28.6315,77.2167/28.6129,77.2295',
+      '?mode=walking&via=Janpath%4028.62,77.22&via=bad'
+    )
+    expect(url).toMatchObject({
+      kind: 'dir',
+      origin: { name: 'Connaught Place' },
+      destination: { lat: 28.6129, lng: 77.2295 },
+      waypoints: [{ name: 'Janpath', lat: 28.62, lng: 77.22 }],
+      travelMode: 'walking'
+    })
+  })
+
+  it('falls back to driving for unknown modes and tolerates missing ends', () => {
+    expect(parseAppUrl('/dir/28.6315,77.2167', '?mode=teleport')).toMatchObject({
+      origin: { lat: 28.6315 },
+      destination: null,
+      travelMode: 'driving'
+    })
+  })
+})
+
+describe('formatAppUrl', () => {
+  it('describes the map view by default', () => {
+    expect(formatAppUrl(source())).toBe('/@28.7041,77.1025,12z')
+  })
+
+  it('links the selected place when it has an Ola id', () => {
+    expect(formatAppUrl(source({ selectedPlace: { ...indiaGate, place_id: 'ola:123' } }))).toBe('/place/ola%3A123')
+    expect(formatAppUrl(source({ selectedPlace: indiaGate }))).toBe('/@28.7041,77.1025,12z')
+  })
+
+  it('links directions once both ends are set', () => {
+    const url = formatAppUrl(source({
+      showNavigation: true,
+      origin: connaughtPlace,
+      destination: indiaGate,
+      waypoints: [{ name: 'Janpath', address: '', lat: 28.62, lng: 77.22 }],
+      travelMode: 'bicycling'
+    }))
+    expect(url).toBe('/dir/Connaught%20Place@28.6315,77.2167/India%20Gate@28.6129,77.2295?mode=bicycling&via=Janpath%4028.62%2C77.22')
+  })
+
+  it('round-trips directions through parseAppUrl', () => {
+    const state = source({ showNavigation: true, origin: connaughtPlace, destination: indiaGate, travelMode: 'walking' })
+    const [pathname, search] = formatAppUrl(state).split('?')
+    const parsed = parseAppUrl(pathname, search)
+    expect(parsed.kind === 'dir' && formatAppUrl({ ...state, ...parsed, showNavigation: true })).toBe(formatAppUrl(state))
+  })
+})
+
+describe('urlKind', () => {
+  it('classifies URLs', () => {
+    expect(urlKind('/@28.6,77.2,14z')).toBe('view')
+    expect(urlKind('/place/abc')).toBe('place')
+    expect(urlKind('/dir/1,2/3,4?mode=walking')).toBe('dir')
+  })
+})
@@ -0,0 +1,156 @@
+import type { MapState, SelectedPlace, TravelMode } from '../types'
+
+// Shareable URLs for the three things worth linking to:
+//   /@28.6315,77.2167,14z[,30h][,45t]              map view (h = bearing, t = pitch)
+//   /place/<placeId>                                a place card
+//   /dir/<origin>/<destination>?mode=walking&via=…  directions; points are [label@]lat,lng
+
+export type AppUrl =
+  | { kind: 'view'; view: MapState | null }
+  | { kind: 'place'; placeId: string }
+  | {
+      kind: 'dir'
+      origin: SelectedPlace | null
+      destination: SelectedPlace | null
+      waypoints: SelectedPlace[]
+      travelMode: TravelMode
+    }
+
+// The slice of app state that decides which URL is shown
+export interface UrlSource {
+  mapView: MapState
+  selectedPlace: SelectedPlace | null
+  showNavigation: boolean
+  origin: SelectedPlace | null
+  destination: SelectedPlace | null
+  waypoints: SelectedPlace[]
+  travelMode: TravelMode
+}
+
+const TRAVEL_MODES: TravelMode[] = ['driving', 'walking', 'bicycling', 'electric_scooter']
+const DEFAULT_MODE: TravelMode = 'driving'
+
+const VIEW_PATTERN = /^@(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?),(\d+(?:\.\d+)?)z(?:,(-?\d+(?:\.\d+)?)h)?(?:,(\d+(?:\.\d+)?)t)?$/
+const COORDINATES_PATTERN = /^(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)$/
+
+// Round and drop trailing zeros so formatting a parsed URL gives the same URL back
+const fixed = (value: number, digits: number): string => String(Number(value.toFixed(digits)))
+
+const isValidLatLng = (lat: number, lng: number) => Math.abs(lat) <= 90 && Math.abs(lng) <= 180
+
+export const formatViewSegment = (view: MapState): string => {
+  let segment = `@${fixed(view.center.lat, 5)},${fixed(view.center.lng, 5)},${fixed(view.zoom, 2)}z`
+  if (Math.abs(view.bearing) >= 0.05) segment += `,${fixed(view.bearing, 1)}h`
+  if (view.pitch >= 0.05) segment += `,${fixed(view.pitch, 1)}t`
+  return segment
+}
+
+export const parseViewSegment = (segment: string): MapState | null => {
+  const match = segment.match(VIEW_PATTERN)
+  if (!match) return null
+
+  const [, lat, lng, zoom, bearing, pitch] = match.map(Number)
+  if (!isValidLatLng(lat, lng) || zoom > 22) return null
+
+  return {
+    center: { lat, lng },
+    zoom,
+    bearing: Number.isNaN(bearing) ? 0 : bearing,
+    pitch: Number.isNaN(pitch) ? 0 : Math.min(pitch, 85)
+  }
+}
+
+const pointParts = (place: SelectedPlace) => {
+  const coordinates = `${fixed(place.lat, 5)},${fixed(place.lng, 5)}`
+  const label = place.name.trim()
+  return { coordinates, label: label === coordinates ? '' : label }
+}
+
+// "Connaught%20Place@28.6315,77.2167", or bare coordinates when there is no label
+export const formatPointSegment = (place: SelectedPlace): string => {
+  const { coordinates, label } = pointParts(place)
+  return label ? `${encodeURIComponent(label)}@${coordinates}` : coordinates
+}
+
+// Query values are encoded by URLSearchParams, so the label stays raw here
+const formatViaParam = (place: SelectedPlace): string => {
+  const { coordinates, label } = pointParts(place)
+  return label ? `${label}@${coordinates}` : coordinates
+}
+
+const parsePoint = (value: string): SelectedPlace | null => {
+  // Labels may themselves contain '@', coordinates never do
+  const at = value.lastIndexOf('@')
+  const label = at === -1 ? '' : value.slice(0, at).trim()
+  const match = value.slice(at + 1).match(COORDINATES_PATTERN)
+  if (!match) return null
+
+  const lat = Number(match[1])
+  const lng = Number(match[2])
+  if (!isValidLatLng(lat, lng)) return null
+
+  const name = label || `${fixed(lat, 5)},${fixed(lng, 5)}`
+  return { lat, lng, name, address: name }
+}
+
+const safeDecode = (segment: string): string | null => {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return null
+  }
+}
+
+export const parsePointSegment = (segment: string): SelectedPlace | null => {
+  const decoded = safeDecode(segment)
+  return decoded === null ? null : parsePoint(decoded)
+}
+
+export const parseAppUrl = (pathname: string, search: string = ''): AppUrl => {
+  const segments = pathname.split('/').filter(Boolean)
+
+  const placeId = segments[0] === 'place' && segments[1] ? safeDecode(segments[1]) : null
+  if (placeId) {
+    return { kind: 'place', placeId }
+  }
+
+  if (segments[0] === 'dir') {
+    const params = new URLSearchParams(search)
+    const mode = params.get('mode') as TravelMode | null
+    return {
+      kind: 'dir',
+      origin: segments[1] ? parsePointSegment(segments[1]) : null,
+      destination: segments[2] ? parsePointSegment(segments[2]) : null,
+      waypoints: params.getAll('via')
+        .map(parsePoint)
+        .filter((point): point is SelectedPlace => point !== null),
+      travelMode: mode && TRAVEL_MODES.includes(mode) ? mode : DEFAULT_MODE
+    }
+  }
+
+  return { kind: 'view', view: segments.length === 1 ? parseViewSegment(segments[0]) : null }
+}
+
+// Directions win over a place card, which wins over the bare map view
+export const formatAppUrl = (source: UrlSource): string => {
+  const { origin, destination } = source
+
+  if (source.showNavigation && origin && destination) {
+    const params = new URLSearchParams()
+    if (source.travelMode !== DEFAULT_MODE) params.set('mode', source.travelMode)
+    source.waypoints.forEach(waypoint => params.append('via', formatViaParam(waypoint)))
+    const query = params.toString()
+    return `/dir/${formatPointSegment(origin)}/${formatPointSegment(destination)}${query ? `?${query}` : ''}`
+  }
+
+  if (!source.showNavigation && source.selectedPlace?.place_id) {
+    return `/place/${encodeURIComponent(source.selectedPlace.place_id)}`
+  }
+
+  return `/${formatViewSegment(source.mapView)}`
+}
+
+export const urlKind = (url: string): AppUrl['kind'] => {
+  const [pathname, search] = url.split('?')
+  return parseAppUrl(pathname, search).kind
+}
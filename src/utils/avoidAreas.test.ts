@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { createAvoidArea, rankByAvoidAreas } from './avoidAreas'
+import { encodePolyline } from './polyline'
+import type { AvoidArea, RouteInfo } from '../types'
+
+const route = (routeIndex: number, line: number[][]): RouteInfo => ({
+  routeIndex,
+  summary: `Route ${routeIndex}`,
+  distance: '2 km',
+  duration: '5 min',
+  legs: [],
+  steps: [],
+  geometry: encodePolyline(line)
+})
+
+// Two ways round a block: along the south side, or up and along the north side
+const south = route(1, [[77.2, 28.6], [77.21, 28.6], [77.22, 28.6]])
+const north = route(2, [[77.2, 28.6], [77.2, 28.61], [77.22, 28.61], [77.22, 28.6]])
+
+const area = (name: string, polygon: number[][]): AvoidArea => ({ id: name, name, polygon })
+const underpass = area('Flooded underpass', [[77.205, 28.595], [77.215, 28.595], [77.215, 28.605], [77.205, 28.605]])
+const market = area('Market street', [[77.205, 28.605], [77.215, 28.605], [77.215, 28.615], [77.205, 28.615]])
+
+describe('rankByAvoidAreas', () => {
+  it('moves routes through an area after the others and names what they cross', () => {
+    const ranked = rankByAvoidAreas([south, north], [underpass])
+
+    expect(ranked.map(r => r.routeIndex)).toEqual([2, 1])
+    expect(ranked.map(r => r.avoidAreasCrossed)).toEqual([[], ['Flooded underpass']])
+  })
+
+  it('keeps or restores Ola\'s order among routes crossing as many areas', () => {
+    expect(rankByAvoidAreas([south, north], []).map(r => r.routeIndex)).toEqual([1, 2])
+    expect(rankByAvoidAreas([south, north], [underpass, market]).map(r => r.routeIndex)).toEqual([1, 2])
+    expect(rankByAvoidAreas([north, south], []).map(r => r.routeIndex)).toEqual([1, 2])
+  })
+})
+
+describe('createAvoidArea', () => {
+  it('numbers unnamed areas', () => {
+    expect(createAvoidArea(underpass.polygon, '  ', [underpass]).name).toBe('Area 2')
+    expect(createAvoidArea(underpass.polygon, 'Mela ground', []).name).toBe('Mela ground')
+  })
+})
@@ -0,0 +1,32 @@
+import type { AvoidArea, RouteInfo } from '../types'
+import { lineIntersectsPolygon } from './geo'
+import { decodePolyline } from './polyline'
+
+// Ola has no notion of areas to avoid, so alternatives are checked against them here. Routes
+// through an area are kept, since they may be the only way, but listed after the rest.
+
+export const MIN_AREA_VERTICES = 3
+
+// Names of the areas a route passes through
+export const areasCrossed = (route: RouteInfo, areas: AvoidArea[]): string[] => {
+  if (areas.length === 0 || !route.geometry) return []
+  const line = decodePolyline(route.geometry)
+  return areas.filter(area => lineIntersectsPolygon(line, area.polygon)).map(area => area.name)
+}
+
+// Flags each route with the areas it crosses and moves the ones that cross any after the rest,
+// fewest areas first; otherwise the scooter ranking or Ola's order (routeIndex) is kept, or
+// restored once areas are removed
+export const rankByAvoidAreas = (routes: RouteInfo[], areas: AvoidArea[]): RouteInfo[] =>
+  routes
+    .map(route => ({ ...route, avoidAreasCrossed: areasCrossed(route, areas) }))
+    .sort((a, b) =>
+      a.avoidAreasCrossed.length - b.avoidAreasCrossed.length ||
+      (a.scooter && b.scooter ? a.scooter.score - b.scooter.score : a.routeIndex - b.routeIndex)
+    )
+
+export const createAvoidArea = (polygon: number[][], name: string, existing: AvoidArea[]): AvoidArea => ({
+  id: `area-${Date.now().toString(36)}-${existing.length}`,
+  name: name.trim() || `Area ${existing.length + 1}`,
+  polygon
+})
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { FIT_MARGIN, followFrame, HEADING_UP_PITCH, lineBounds, overlayPadding, previewFrame } from './camera'
+import { cumulativeDistances } from './geo'
+
+// East along 28.6°N for ~977 m, then north for ~1112 m
+const corner = [[77.2, 28.6], [77.21, 28.6], [77.21, 28.61]]
+
+const rect = (left: number, top: number, right: number, bottom: number) => ({ left, top, right, bottom })
+const map = rect(0, 0, 1280, 800)
+
+describe('lineBounds', () => {
+  it('spans the line from south-west to north-east', () => {
+    expect(lineBounds(corner)).toEqual([[77.2, 28.6], [77.21, 28.61]])
+  })
+})
+
+describe('overlayPadding', () => {
+  it('pads only the margin when nothing is open', () => {
+    expect(overlayPadding(map, [])).toEqual({ top: FIT_MARGIN, right: FIT_MARGIN, bottom: FIT_MARGIN, left: FIT_MARGIN })
+  })
+
+  it('clears a side panel and a search bar along the edges they hug', () => {
+    const panel = rect(16, 80, 400, 784)
+    const searchBar = rect(16, 16, 400, 64)
+
+    expect(overlayPadding(map, [panel, searchBar])).toEqual({ top: 104, right: 40, bottom: 40, left: 440 })
+  })
+
+  it('ignores overlays that are hidden or off the map', () => {
+    expect(overlayPadding(map, [rect(0, 0, 0, 0), rect(1300, 0, 1500, 800)]).left).toBe(FIT_MARGIN)
+  })
+
+  it('leaves room for the line on a narrow screen', () => {
+    const phone = rect(0, 0, 400, 800)
+    const panel = rect(16, 80, 336, 784)
+
+    const padding = overlayPadding(phone, [panel])
+    expect(padding.left + padding.right).toBeLessThanOrEqual(240)
+    expect(padding.left).toBeGreaterThan(padding.right)
+  })
+})
+
+describe('followFrame', () => {
+  const view = { bearing: 30, pitch: 20 }
+
+  it('turns the map to the direction of travel in heading-up mode', () => {
+    expect(followFrame({ lat: 28.6, lng: 77.2, heading: 95 }, 'heading-up', view))
+      .toMatchObject({ center: [77.2, 28.6], bearing: 95, pitch: HEADING_UP_PITCH })
+  })
+
+  it('keeps the current bearing when the fix has no heading', () => {
+    expect(followFrame({ lat: 28.6, lng: 77.2, heading: null as unknown as number }, 'heading-up', view).bearing).toBe(30)
+  })
+
+  it('keeps north up with the chosen pitch', () => {
+    expect(followFrame({ lat: 28.6, lng: 77.2, heading: 95 }, 'north-up', view)).toMatchObject({ bearing: 0, pitch: 20 })
+  })
+})
+
+describe('previewFrame', () => {
+  const distances = cumulativeDistances(corner)
+
+  it('faces down the road', () => {
+    expect(previewFrame(corner, distances, 100, 50).bearing).toBeCloseTo(90, 0)
+    expect(previewFrame(corner, distances, 1500, 50).bearing).toBeCloseTo(0, 0)
+  })
+
+  it('starts turning before the corner', () => {
+    const bearing = previewFrame(corner, distances, 950, 100).bearing
+    expect(bearing).toBeGreaterThan(10)
+    expect(bearing).toBeLessThan(80)
+  })
+
+  it('keeps its heading at the end of the line', () => {
+    const frame = previewFrame(corner, distances, distances[2], 50)
+    expect(frame.center).toEqual([77.21, 28.61])
+    expect(frame.bearing).toBeCloseTo(0, 0)
+  })
+})
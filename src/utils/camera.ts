@@ -0,0 +1,101 @@
+import type { LocationFix } from '../types'
+import { bearing, pointAlong, type LatLng } from './geo'
+
+// Camera framing: fitting lines around the panels floating over the map, following the driver,
+// and the frames of a fly-through along a route.
+
+export interface Padding {
+  top: number
+  right: number
+  bottom: number
+  left: number
+}
+
+export type LngLatBounds = [[number, number], [number, number]]
+
+export type FollowMode = 'north-up' | 'heading-up'
+
+export interface CameraFrame {
+  center: [number, number]
+  bearing: number
+  pitch: number
+  zoom: number
+}
+
+// Space kept between a fitted line and the map edge or an overlay
+export const FIT_MARGIN = 40
+// Never give overlays more than this share of the map's width or height
+const MAX_PADDED_SHARE = 0.6
+
+// Camera for following the driver
+export const FOLLOW_ZOOM = 17
+export const HEADING_UP_PITCH = 55
+// Camera for the route preview
+export const PREVIEW_ZOOM = 15
+export const PREVIEW_PITCH = 60
+
+// [[west, south], [east, north]] around [lng, lat] coordinates
+export const lineBounds = (coordinates: number[][]): LngLatBounds => {
+  const lngs = coordinates.map(([lng]) => lng)
+  const lats = coordinates.map(([, lat]) => lat)
+  return [[Math.min(...lngs), Math.min(...lats)], [Math.max(...lngs), Math.max(...lats)]]
+}
+
+type Rect = Pick<DOMRect, 'top' | 'right' | 'bottom' | 'left'>
+
+// Padding that keeps a fitted line clear of panels floating over the map. Each overlay is
+// taken to hug whichever map edge it covers least of, and pads that edge past it.
+export const overlayPadding = (map: Rect, overlays: Rect[], margin: number = FIT_MARGIN): Padding => {
+  const padding: Padding = { top: margin, right: margin, bottom: margin, left: margin }
+
+  overlays.forEach(overlay => {
+    // Off-map or empty overlays (e.g. not laid out yet) don't cover anything
+    if (overlay.right <= map.left || overlay.left >= map.right || overlay.bottom <= map.top || overlay.top >= map.bottom) return
+    if (overlay.right - overlay.left <= 0 || overlay.bottom - overlay.top <= 0) return
+
+    const covered: [keyof Padding, number][] = [
+      ['left', overlay.right - map.left],
+      ['top', overlay.bottom - map.top],
+      ['right', map.right - overlay.left],
+      ['bottom', map.bottom - overlay.top]
+    ]
+    const [side, depth] = covered.reduce((least, side) => (side[1] < least[1] ? side : least))
+    padding[side] = Math.max(padding[side], depth + margin)
+  })
+
+  // On a small screen the panels can cover most of the map; then fit into what is left
+  const width = map.right - map.left
+  const height = map.bottom - map.top
+  const shrink = (a: keyof Padding, b: keyof Padding, size: number) => {
+    const limit = size * MAX_PADDED_SHARE
+    const total = padding[a] + padding[b]
+    if (total <= limit) return
+    padding[a] = Math.round((padding[a] / total) * limit)
+    padding[b] = Math.round((padding[b] / total) * limit)
+  }
+  shrink('left', 'right', width)
+  shrink('top', 'bottom', height)
+
+  return padding
+}
+
+// Where the camera sits for a position fix. North-up keeps the pitch the user chose;
+// heading-up turns the map to the direction of travel and tilts it to look ahead.
+export const followFrame = (fix: LocationFix, mode: FollowMode, view: { bearing: number; pitch: number }): CameraFrame => {
+  const heading = fix.heading !== null && fix.heading !== undefined && !Number.isNaN(fix.heading) ? fix.heading : null
+  return mode === 'heading-up'
+    ? { center: [fix.lng, fix.lat], bearing: heading ?? view.bearing, pitch: HEADING_UP_PITCH, zoom: FOLLOW_ZOOM }
+    : { center: [fix.lng, fix.lat], bearing: 0, pitch: view.pitch, zoom: FOLLOW_ZOOM }
+}
+
+// The preview camera a given distance along a line, facing a point further on so it turns
+// ahead of bends instead of snapping round at each vertex
+export const previewFrame = (coordinates: number[][], distances: number[], along: number, lookAheadMetres: number): CameraFrame => {
+  const { point } = pointAlong(coordinates, distances, along)
+  const ahead = pointAlong(coordinates, distances, along + lookAheadMetres).point
+  // At the very end there is nothing ahead, so look from a little behind instead
+  const [from, to]: LatLng[] = ahead.lat === point.lat && ahead.lng === point.lng
+    ? [pointAlong(coordinates, distances, along - lookAheadMetres).point, point]
+    : [point, ahead]
+  return { center: [point.lng, point.lat], bearing: bearing(from, to), pitch: PREVIEW_PITCH, zoom: PREVIEW_ZOOM }
+}
@@ -0,0 +1,95 @@
+import type { LocationFix } from '../types'
+import { cumulativeDistances } from './geo'
+import {
+  FIT_MARGIN,
+  followFrame,
+  lineBounds,
+  overlayPadding,
+  previewFrame,
+  type FollowMode,
+  type Padding
+} from './camera'
+
+// Marks a panel floating over the map; fitted lines are kept clear of it
+export const MAP_OVERLAY_ATTRIBUTE = 'data-map-overlay'
+
+const MAX_FIT_ZOOM = 16
+const FOLLOW_EASE_MS = 1000
+// The preview covers this much route per second, within these bounds
+const PREVIEW_METRES_PER_SECOND = 400
+const MIN_PREVIEW_MS = 8000
+const MAX_PREVIEW_MS = 30000
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+// Moves the map's camera: fitting lines, following the driver and flying along a route.
+// Overlays are looked for among the map container's siblings, where MapContainer puts its panels.
+export class CameraController {
+  private previewHandle?: number
+
+  constructor(private map: any) {}
+
+  get isPreviewing(): boolean {
+    return this.previewHandle !== undefined
+  }
+
+  padding(): Padding {
+    const container: HTMLElement | undefined = this.map.getContainer?.()
+    if (!container) return { top: FIT_MARGIN, right: FIT_MARGIN, bottom: FIT_MARGIN, left: FIT_MARGIN }
+
+    const root = container.parentElement ?? container
+    const overlays = Array.from(root.querySelectorAll(`[${MAP_OVERLAY_ATTRIBUTE}]`)).map(overlay => overlay.getBoundingClientRect())
+    return overlayPadding(container.getBoundingClientRect(), overlays)
+  }
+
+  // Shows the whole line, north up and flat, clear of any open panels
+  fitLine(coordinates: number[][]) {
+    if (coordinates.length === 0) return
+    this.stopPreview()
+    this.map.fitBounds(lineBounds(coordinates), {
+      padding: this.padding(),
+      maxZoom: MAX_FIT_ZOOM,
+      bearing: 0,
+      pitch: 0
+    })
+  }
+
+  follow(fix: LocationFix, mode: FollowMode, view: { bearing: number; pitch: number }) {
+    this.map.easeTo({ ...followFrame(fix, mode, view), duration: FOLLOW_EASE_MS, essential: true })
+  }
+
+  // Flies along the line with the camera facing down the road, then fits the whole line
+  previewLine(coordinates: number[][], onEnd?: () => void) {
+    this.stopPreview()
+    if (coordinates.length < 2) return
+
+    const distances = cumulativeDistances(coordinates)
+    const length = distances[distances.length - 1]
+    const duration = clamp((length / PREVIEW_METRES_PER_SECOND) * 1000, MIN_PREVIEW_MS, MAX_PREVIEW_MS)
+    const lookAhead = clamp(length * 0.02, 50, 300)
+    let startTime: number | null = null
+
+    const frame = (time: number) => {
+      startTime ??= time
+      const t = Math.min(1, (time - startTime) / duration)
+      // Ease in and out so the flight doesn't lurch at either end
+      const eased = t * t * (3 - 2 * t)
+      this.map.jumpTo(previewFrame(coordinates, distances, eased * length, lookAhead))
+
+      if (t < 1) {
+        this.previewHandle = requestAnimationFrame(frame)
+        return
+      }
+      this.previewHandle = undefined
+      this.fitLine(coordinates)
+      onEnd?.()
+    }
+    this.previewHandle = requestAnimationFrame(frame)
+  }
+
+  stopPreview() {
+    if (this.previewHandle === undefined) return
+    cancelAnimationFrame(this.previewHandle)
+    this.previewHandle = undefined
+  }
+}
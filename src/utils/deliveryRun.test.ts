@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatClock,
+  legsForOrder,
+  nearestNeighbourOrder,
+  orderStopsLocally,
+  parseClock,
+  parseStopLine,
+  parseStopList,
+  scheduleStops,
+  twoOpt
+} from './deliveryRun'
+import type { DeliveryStopInput } from '../types'
+
+// Start, three stops and nothing else, on a line: 0 - 2 - 1 - 3 (ten minutes apart)
+const positions = [0, 2, 1, 3]
+const lineMatrix = positions.map(a => positions.map(b => Math.abs(a - b) * 600))
+
+const stop = (address: string, overrides: Partial<DeliveryStopInput> = {}): DeliveryStopInput => ({
+  address,
+  serviceMinutes: 0,
+  ...overrides
+})
+
+describe('clock helpers', () => {
+  it('parses and formats HH:MM', () => {
+    expect(parseClock('09:30')).toBe(570)
+    expect(parseClock('9:05')).toBe(545)
+    expect(parseClock('24:00')).toBeNull()
+    expect(formatClock(570)).toBe('09:30')
+    expect(formatClock(545.4)).toBe('09:05')
+  })
+
+  it('marks times past midnight', () => {
+    expect(formatClock(1470)).toBe('00:30 +1d')
+  })
+})
+
+describe('parseStopLine', () => {
+  it('reads the address alone with the default time on site', () => {
+    expect(parseStopLine('Khan Market, New Delhi')).toEqual({ address: 'Khan Market, New Delhi', serviceMinutes: 5 })
+  })
+
+  it('reads a window and minutes on site in either order', () => {
+    const expected = { address: 'Khan Market', serviceMinutes: 10, window: { start: 600, end: 720 } }
+    expect(parseStopLine('Khan Market | 10:00-12:00 | 10')).toEqual(expected)
+    expect(parseStopLine('Khan Market\t10 min\t10:00 - 12:00')).toEqual(expected)
+  })
+
+  it('rejects windows that close before they open and unknown fields', () => {
+    expect(() => parseStopLine('Khan Market | 12:00-10:00')).toThrow('invalid time window')
+    expect(() => parseStopLine('Khan Market | fragile')).toThrow('can\'t read "fragile"')
+    expect(() => parseStopLine(' | 10')).toThrow('missing address')
+  })
+})
+
+describe('parseStopList', () => {
+  it('skips blanks and comments and reports bad lines by number', () => {
+    const { stops, errors } = parseStopList('# morning run\nKhan Market\n\nLodhi Garden | soon\nIndia Gate | 15', 5)
+
+    expect(stops.map(s => [s.address, s.serviceMinutes])).toEqual([['Khan Market', 5], ['India Gate', 15]])
+    expect(errors).toEqual(['Line 4: can\'t read "soon"'])
+  })
+})
+
+describe('scheduleStops', () => {
+  it('adds drive, wait and time on site, and flags late arrivals', () => {
+    const stops = [
+      stop('A', { serviceMinutes: 5, window: { start: 560, end: 600 } }),
+      stop('B', { serviceMinutes: 10, window: { start: 500, end: 565 } })
+    ]
+
+    const { timings, finish } = scheduleStops(stops, [600, 300, 1200], 540)
+
+    expect(timings).toEqual([
+      { arrival: 550, wait: 10, departure: 565, late: false },
+      { arrival: 570, wait: 0, departure: 580, late: true }
+    ])
+    expect(finish).toBe(600)
+  })
+})
+
+describe('legsForOrder', () => {
+  it('walks the matrix from the start through the stops to the end', () => {
+    const withEnd = [...lineMatrix.map(row => [...row, 100]), [100, 100, 100, 100, 0]]
+    expect(legsForOrder(lineMatrix, [1, 0, 2], false)).toEqual([600, 600, 600])
+    expect(legsForOrder(withEnd, [1, 0, 2], true)).toEqual([600, 600, 600, 100])
+  })
+})
+
+describe('local ordering', () => {
+  it('visits the closest stop next', () => {
+    expect(nearestNeighbourOrder(lineMatrix, 3)).toEqual([1, 0, 2])
+  })
+
+  it('reverses stretches while that lowers the cost', () => {
+    // Cost is how far each stop is from its own position
+    const cost = (order: number[]) => order.reduce((sum, value, i) => sum + Math.abs(value - i), 0)
+    expect(twoOpt([0, 3, 2, 1, 4], cost)).toEqual([0, 1, 2, 3, 4])
+  })
+
+  it('gives up a shorter drive to make a time window', () => {
+    const stops = [stop('Far', { window: { start: 540, end: 565 } }), stop('Near', { serviceMinutes: 10 }), stop('Farthest')]
+
+    // Nearest first would reach "Far" at 09:30; going there first arrives at 09:20
+    expect(orderStopsLocally(lineMatrix, stops, 540, false)).toEqual([0, 1, 2])
+  })
+})
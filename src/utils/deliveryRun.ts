@@ -0,0 +1,164 @@
+import type { DeliveryStopInput } from '../types'
+
+// Planner helpers. Clock times are minutes after midnight; matrices are seconds,
+// indexed 0 = start, 1..n = stops in input order, n + 1 = end (when the run has one).
+
+export const DEFAULT_SERVICE_MINUTES = 5
+// Arriving a minute after a window closes costs as much as ten extra minutes of driving
+const LATE_PENALTY = 10
+
+const CLOCK_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/
+const WINDOW_PATTERN = /^(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/
+const MINUTES_PATTERN = /^(\d+)\s*(?:m|min|mins)?$/i
+
+export const parseClock = (value: string): number | null => {
+  const match = value.trim().match(CLOCK_PATTERN)
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null
+}
+
+// "09:05", or "00:30 +1d" once a run goes past midnight
+export const formatClock = (minutes: number): string => {
+  const rounded = Math.round(minutes)
+  const days = Math.floor(rounded / 1440)
+  const time = `${String(Math.floor((rounded % 1440) / 60)).padStart(2, '0')}:${String(rounded % 60).padStart(2, '0')}`
+  return days > 0 ? `${time} +${days}d` : time
+}
+
+// One stop per line: "Address | 09:00-11:00 | 10". The window and minutes on site are
+// optional and may come in either order; tabs work too, for rows pasted from a spreadsheet.
+export const parseStopLine = (line: string, defaultServiceMinutes: number = DEFAULT_SERVICE_MINUTES): DeliveryStopInput => {
+  const [address, ...extras] = line.split(/[|\t]/).map(part => part.trim())
+  if (!address) throw new Error('missing address')
+
+  const stop: DeliveryStopInput = { address, serviceMinutes: defaultServiceMinutes }
+  for (const extra of extras.filter(Boolean)) {
+    const window = extra.match(WINDOW_PATTERN)
+    const minutes = extra.match(MINUTES_PATTERN)
+
+    if (window) {
+      const start = parseClock(window[1])
+      const end = parseClock(window[2])
+      if (start === null || end === null || end <= start) throw new Error(`invalid time window "${extra}"`)
+      stop.window = { start, end }
+    } else if (minutes) {
+      stop.serviceMinutes = Number(minutes[1])
+    } else {
+      throw new Error(`can't read "${extra}"`)
+    }
+  }
+  return stop
+}
+
+// Blank lines and "#" comments are skipped; bad lines are reported by line number
+export const parseStopList = (
+  text: string,
+  defaultServiceMinutes: number = DEFAULT_SERVICE_MINUTES
+): { stops: DeliveryStopInput[]; errors: string[] } => {
+  const stops: DeliveryStopInput[] = []
+  const errors: string[] = []
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim() || line.trim().startsWith('#')) return
+    try {
+      stops.push(parseStopLine(line, defaultServiceMinutes))
+    } catch (error) {
+      errors.push(`Line ${index + 1}: ${(error as Error).message}`)
+    }
+  })
+
+  return { stops, errors }
+}
+
+export interface StopTiming {
+  arrival: number
+  wait: number
+  departure: number
+  late: boolean
+}
+
+// legSeconds[i] is the drive into stops[i]; an extra final leg is the drive to the end
+export const scheduleStops = (
+  stops: DeliveryStopInput[],
+  legSeconds: number[],
+  departure: number
+): { timings: StopTiming[]; finish: number } => {
+  let clock = departure
+  const timings = stops.map((stop, i) => {
+    const arrival = clock + legSeconds[i] / 60
+    const wait = stop.window ? Math.max(0, stop.window.start - arrival) : 0
+    clock = arrival + wait + stop.serviceMinutes
+    return { arrival, wait, departure: clock, late: !!stop.window && arrival > stop.window.end }
+  })
+
+  const finalLeg = legSeconds[stops.length]
+  return { timings, finish: clock + (finalLeg ?? 0) / 60 }
+}
+
+// The matrix legs for visiting stops (0-based, input order) in `order`
+export const legsForOrder = (matrix: number[][], order: number[], hasEnd: boolean): number[] => {
+  const nodes = [0, ...order.map(i => i + 1)]
+  if (hasEnd) nodes.push(matrix.length - 1)
+  return nodes.slice(1).map((node, i) => matrix[nodes[i]][node])
+}
+
+// Greedy: always drive to the closest stop not yet visited
+export const nearestNeighbourOrder = (matrix: number[][], stopCount: number): number[] => {
+  const remaining = new Set(Array.from({ length: stopCount }, (_, i) => i))
+  const order: number[] = []
+  let at = 0
+
+  while (remaining.size > 0) {
+    let next = -1
+    remaining.forEach(stop => {
+      if (next === -1 || matrix[at][stop + 1] < matrix[at][next + 1]) next = stop
+    })
+    order.push(next)
+    remaining.delete(next)
+    at = next + 1
+  }
+  return order
+}
+
+// Reverse any stretch of the order that lowers its cost, until no reversal helps
+export const twoOpt = (order: number[], cost: (order: number[]) => number): number[] => {
+  let best = order
+  let bestCost = cost(order)
+  let improved = true
+
+  while (improved) {
+    improved = false
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)]
+        const candidateCost = cost(candidate)
+        if (candidateCost < bestCost) {
+          best = candidate
+          bestCost = candidateCost
+          improved = true
+        }
+      }
+    }
+  }
+  return best
+}
+
+// Local fallback for the route optimizer: nearest neighbour, then 2-opt on finish time,
+// with missed time windows weighted so that on-time orders win
+export const orderStopsLocally = (
+  matrix: number[][],
+  stops: DeliveryStopInput[],
+  departure: number,
+  hasEnd: boolean
+): number[] => {
+  const cost = (order: number[]) => {
+    const visiting = order.map(i => stops[i])
+    const { timings, finish } = scheduleStops(visiting, legsForOrder(matrix, order, hasEnd), departure)
+    const lateness = timings.reduce((sum, timing, i) => {
+      const window = visiting[i].window
+      return sum + (window ? Math.max(0, timing.arrival - window.end) : 0)
+    }, 0)
+    return finish + LATE_PENALTY * lateness
+  }
+
+  return twoOpt(nearestNeighbourOrder(matrix, stops.length), cost)
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { comparableTrips, formatTripTime, parseDateTimeInput, recommendDeparture, toDateTimeInput } from './departurePlanning'
+import type { TripRecord } from '../types'
+
+const HOUR = 3600 * 1000
+const MINUTE = 60 * 1000
+
+const home = { lat: 28.6315, lng: 77.2167 }
+const office = { lat: 28.6129, lng: 77.2295 }
+const elsewhere = { lat: 28.5355, lng: 77.391 }
+
+// 08:30 UTC on a weekday
+const morning = Date.UTC(2024, 4, 6, 8, 30)
+
+const record = (actualMinutes: number, overrides: Partial<TripRecord> = {}): TripRecord => ({
+  start: home,
+  end: office,
+  estimatedDuration: 20 * 60,
+  actualDuration: actualMinutes * 60,
+  startTime: morning - 7 * 24 * HOUR,
+  ...overrides
+})
+
+const trip = { origin: home, destination: office, durationSeconds: 20 * 60 }
+
+describe('comparableTrips', () => {
+  it('prefers the same journey at the same time of day', () => {
+    const commutes = [record(24), record(26), record(30)]
+    const evenings = [record(40, { startTime: morning + 10 * HOUR }), record(41, { startTime: morning + 10 * HOUR }), record(42, { startTime: morning + 10 * HOUR })]
+
+    expect(comparableTrips([...commutes, ...evenings], trip, morning)).toEqual(commutes)
+  })
+
+  it('widens the search until there are enough trips', () => {
+    const others = [record(22, { end: elsewhere }), record(25, { end: elsewhere }), record(21, { start: elsewhere })]
+
+    expect(comparableTrips([record(24), ...others], trip, morning)).toHaveLength(4)
+    expect(comparableTrips([record(24), record(25)], trip, morning)).toEqual([])
+  })
+
+  it('skips sessions without both durations', () => {
+    expect(comparableTrips([record(24), record(25), record(0)], trip, morning)).toEqual([])
+  })
+})
+
+describe('recommendDeparture', () => {
+  const history = [record(20), record(22), record(24), record(26), record(28)]
+
+  it('works back from the arrival time using how long trips really took', () => {
+    const arriveBy = morning + 30 * MINUTE
+    const plan = recommendDeparture(trip, { mode: 'arrive_by', time: arriveBy }, history)
+
+    // Trips typically take 24 minutes against Ola's 20
+    expect(plan.departAt).toBe(arriveBy - 24 * MINUTE)
+    expect(plan.arriveAt).toBe(arriveBy)
+    expect(plan.earliest).toBeLessThan(plan.departAt)
+    expect(plan.latest).toBeGreaterThan(plan.departAt)
+    expect(plan.earliest).toBe(arriveBy - Math.round(27.2 * MINUTE))
+    expect(plan).toMatchObject({ trips: 5, trafficAware: false })
+  })
+
+  it('gives an arrival window for a set departure', () => {
+    const plan = recommendDeparture({ ...trip, trafficAware: true }, { mode: 'depart_at', time: morning }, history)
+
+    expect(plan).toMatchObject({ departAt: morning, arriveAt: morning + 24 * MINUTE, trafficAware: true })
+    expect(plan.earliest).toBe(morning + Math.round(20.8 * MINUTE))
+  })
+
+  it('allows a fixed margin without history', () => {
+    const plan = recommendDeparture(trip, { mode: 'depart_at', time: morning }, [])
+
+    expect(plan).toMatchObject({
+      arriveAt: morning + 20 * MINUTE,
+      earliest: morning + 18 * MINUTE,
+      latest: morning + 25 * MINUTE,
+      trips: 0
+    })
+  })
+
+  it('plans from the current time when leaving now', () => {
+    expect(recommendDeparture(trip, { mode: 'now' }, [], morning).departAt).toBe(morning)
+  })
+})
+
+describe('trip time formatting', () => {
+  it('round-trips datetime-local values in local time', () => {
+    const time = new Date(2024, 4, 6, 8, 5).getTime()
+
+    expect(toDateTimeInput(time)).toBe('2024-05-06T08:05')
+    expect(parseDateTimeInput('2024-05-06T08:05')).toBe(time)
+    expect(parseDateTimeInput('')).toBeNull()
+  })
+
+  it('adds the weekday to times on another day', () => {
+    const time = new Date(2024, 4, 6, 8, 5).getTime()
+
+    expect(formatTripTime(time, time - HOUR)).toBe('08:05')
+    expect(formatTripTime(time, time - 24 * HOUR)).toBe('Mon 08:05')
+  })
+})
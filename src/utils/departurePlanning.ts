@@ -0,0 +1,135 @@
+import type { TripRecord, TripTiming } from '../types'
+import { haversineDistance, type LatLng } from './geo'
+
+// When to leave, or when you'll arrive, for a trip planned ahead. Ola's estimate is scaled by
+// how the user's past trips compared with Ola's estimates for them, and the spread of those
+// trips gives the confidence band.
+
+export interface PlannedTrip {
+  origin: LatLng
+  destination: LatLng
+  // Ola's estimate for the route, in seconds
+  durationSeconds: number
+  // The estimate was made for the planned time rather than for live traffic
+  trafficAware?: boolean
+}
+
+export interface DepartureRecommendation {
+  departAt: number
+  arriveAt: number
+  // Likely range of whichever end isn't fixed: the arrival for a set departure,
+  // the departure for arrive-by
+  earliest: number
+  latest: number
+  // Past trips the estimate was drawn from; 0 when there were too few and a fixed margin was used
+  trips: number
+  trafficAware: boolean
+}
+
+// Fewer trips than this say more about luck than about the user's driving
+const MIN_TRIPS = 3
+// Trips starting and ending this close count as the same journey
+const SAME_JOURNEY_METRES = 1000
+// Trips starting this close in time of day see similar traffic
+const SIMILAR_HOURS = 2
+// Without history: trips run a little quicker, or a good deal slower, than estimated
+const DEFAULT_RATIOS = { low: 0.9, typical: 1, high: 1.25 }
+
+const HOUR = 3600 * 1000
+const DAY = 24 * HOUR
+
+// Hours between two times of day, going round midnight if that's shorter
+const hoursApart = (a: number, b: number) => {
+  const gap = Math.abs((a % DAY) - (b % DAY))
+  return Math.min(gap, DAY - gap) / HOUR
+}
+
+// Linear interpolation between the nearest ranks of sorted values
+const quantile = (sorted: number[], q: number) => {
+  const rank = (sorted.length - 1) * q
+  const below = Math.floor(rank)
+  const above = Math.min(below + 1, sorted.length - 1)
+  return sorted[below] + (sorted[above] - sorted[below]) * (rank - below)
+}
+
+// The most specific set of past trips there are enough of: the same journey around the same
+// time of day, the same journey at any time, any journey around that time, then everything
+export const comparableTrips = (history: TripRecord[], trip: PlannedTrip, departAt: number): TripRecord[] => {
+  const usable = history.filter(record => record.estimatedDuration > 0 && record.actualDuration > 0)
+  const sameJourney = (record: TripRecord) =>
+    haversineDistance(record.start, trip.origin) <= SAME_JOURNEY_METRES &&
+    haversineDistance(record.end, trip.destination) <= SAME_JOURNEY_METRES
+  const sameTime = (record: TripRecord) => hoursApart(record.startTime, departAt) <= SIMILAR_HOURS
+
+  const tiers = [
+    usable.filter(record => sameJourney(record) && sameTime(record)),
+    usable.filter(sameJourney),
+    usable.filter(sameTime),
+    usable
+  ]
+  return tiers.find(tier => tier.length >= MIN_TRIPS) ?? []
+}
+
+// How actual durations compared with Ola's: the typical ratio and a 10th–90th percentile band
+const durationRatios = (trips: TripRecord[]) => {
+  if (trips.length === 0) return DEFAULT_RATIOS
+  const ratios = trips.map(trip => trip.actualDuration / trip.estimatedDuration).sort((a, b) => a - b)
+  return { low: quantile(ratios, 0.1), typical: quantile(ratios, 0.5), high: quantile(ratios, 0.9) }
+}
+
+export const recommendDeparture = (
+  trip: PlannedTrip,
+  timing: TripTiming,
+  history: TripRecord[],
+  now: number = Date.now()
+): DepartureRecommendation => {
+  const estimate = trip.durationSeconds * 1000
+  // Arrive-by trips are matched on roughly when they'd leave
+  const roughDeparture = timing.mode === 'now' ? now : timing.mode === 'depart_at' ? timing.time : timing.time - estimate
+  const trips = comparableTrips(history, trip, roughDeparture)
+  const ratios = durationRatios(trips)
+  const trafficAware = trip.trafficAware ?? false
+
+  if (timing.mode === 'arrive_by') {
+    return {
+      departAt: Math.round(timing.time - estimate * ratios.typical),
+      arriveAt: timing.time,
+      earliest: Math.round(timing.time - estimate * ratios.high),
+      latest: Math.round(timing.time - estimate * ratios.low),
+      trips: trips.length,
+      trafficAware
+    }
+  }
+
+  const departAt = timing.mode === 'now' ? now : timing.time
+  return {
+    departAt,
+    arriveAt: Math.round(departAt + estimate * ratios.typical),
+    earliest: Math.round(departAt + estimate * ratios.low),
+    latest: Math.round(departAt + estimate * ratios.high),
+    trips: trips.length,
+    trafficAware
+  }
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+// Local "HH:MM", with the weekday when it isn't today: "Tue 08:35"
+export const formatTripTime = (time: number, now: number = Date.now()): string => {
+  const date = new Date(time)
+  const clock = `${pad(date.getHours())}:${pad(date.getMinutes())}`
+  return date.toDateString() === new Date(now).toDateString()
+    ? clock
+    : `${date.toLocaleDateString('en-IN', { weekday: 'short' })} ${clock}`
+}
+
+// Value for a datetime-local input, which works in local time without a zone
+export const toDateTimeInput = (time: number): string => {
+  const date = new Date(time)
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+export const parseDateTimeInput = (value: string): number | null => {
+  const time = new Date(value).getTime()
+  return value && !Number.isNaN(time) ? time : null
+}
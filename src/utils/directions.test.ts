@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest'
+import {
+  calculateCarbonFootprint,
+  extractRouteSummary,
+  formatDistance,
+  formatDuration,
+  formatManeuverInstruction,
+  getStepInstruction,
+  parseTrafficInfo,
+  parseTrafficSegments,
+  summarizeLeg,
+  summarizeRoute,
+  viaPointInsertIndex
+} from './directions'
+import type { DirectionsRoute, RouteStep } from '../types'
+
+const point = { lat: 28.6315, lng: 77.2167 }
+
+const makeStep = (overrides: Partial<RouteStep> = {}): RouteStep => ({
+  instruction: '',
+  distance: 250,
+  duration: 40,
+  start_location: point,
+  end_location: point,
+  ...overrides
+})
+
+const makeRoute = (summary: string, instructions: string[]): DirectionsRoute => ({
+  summary,
+  overview_polyline: '',
+  warnings: [],
+  waypoint_order: [],
+  legs: [{
+    distance: 4200,
+    duration: 900,
+    start_location: point,
+    end_location: point,
+    steps: instructions.map(instruction => makeStep({ instruction }))
+  }]
+})
+
+describe('getStepInstruction', () => {
+  it('strips HTML from Ola instructions', () => {
+    const step = makeStep({ instruction: 'Turn <b>left</b> onto <b>Janpath</b>' })
+    expect(getStepInstruction(step)).toBe('Turn left onto Janpath')
+  })
+
+  it('falls back to the maneuver when there is no instruction', () => {
+    expect(getStepInstruction(makeStep({ maneuver: 'turn-slight-left' }))).toBe('Turn slight left')
+    expect(getStepInstruction(makeStep({ maneuver: 'depart' }))).toBe('Start your route')
+  })
+
+  it('has a last-resort instruction', () => {
+    expect(getStepInstruction(makeStep())).toBe('Continue on route')
+  })
+})
+
+describe('formatManeuverInstruction', () => {
+  it('prefers an explicit instruction that differs from the type', () => {
+    expect(formatManeuverInstruction('turn', 'left', 'Turn left at the fountain')).toBe('Turn left at the fountain')
+  })
+
+  it('maps turn modifiers to readable text', () => {
+    expect(formatManeuverInstruction('turn', 'sharp-right')).toBe('Turn sharp right')
+    expect(formatManeuverInstruction('turn', 'uturn')).toBe('Turn to make a U-turn')
+    expect(formatManeuverInstruction('turn')).toBe('Turn')
+  })
+
+  it('appends modifiers to non-turn maneuvers', () => {
+    expect(formatManeuverInstruction('fork', 'slight-left')).toBe('Take the fork slight left')
+    expect(formatManeuverInstruction('merge', 'right')).toBe('Merge right')
+  })
+
+  it('drops modifiers on "continue" style maneuvers', () => {
+    expect(formatManeuverInstruction('new-name', 'straight')).toBe('Continue on new road')
+  })
+
+  it('handles maneuver types it does not know', () => {
+    expect(formatManeuverInstruction('ferry')).toBe('Continue ferry')
+  })
+})
+
+describe('extractRouteSummary', () => {
+  it('uses the summary Ola provides', () => {
+    expect(extractRouteSummary(makeRoute('Janpath', []), 1)).toBe('Janpath')
+  })
+
+  it('builds a "Via" label from the first two roads in the steps', () => {
+    const route = makeRoute(' ', [
+      'Head south on Janpath',
+      'Turn left on Rajpath, then keep right',
+      'Continue on Kartavya Path',
+      'Arrive at destination'
+    ])
+    expect(extractRouteSummary(route, 1)).toBe('Via Janpath, Rajpath')
+  })
+
+  it('falls back to a numbered label', () => {
+    expect(extractRouteSummary(makeRoute('', ['Head south', 'Arrive']), 2)).toBe('Route 2')
+  })
+})
+
+describe('parseTrafficSegments', () => {
+  it('reads each polyline index range with its congestion', () => {
+    expect(parseTrafficSegments('0,3,1 | 3,6,12')).toEqual([
+      { start: 0, end: 3, congestion: 1 },
+      { start: 3, end: 6, congestion: 12 }
+    ])
+  })
+
+  it('skips malformed entries', () => {
+    expect(parseTrafficSegments('0,3 | 3,x,2 | 5,5,4 | 6,9,4')).toEqual([{ start: 6, end: 9, congestion: 4 }])
+    expect(parseTrafficSegments(undefined)).toEqual([])
+  })
+})
+
+describe('parseTrafficInfo', () => {
+  it('reports no traffic without an advisory', () => {
+    expect(parseTrafficInfo(undefined)).toEqual({ hasTraffic: false, severity: 'low' })
+    expect(parseTrafficInfo('')).toEqual({ hasTraffic: false, severity: 'low' })
+  })
+
+  it('grades severity by the worst segment', () => {
+    expect(parseTrafficInfo('0,1,0 | 1,3,15')).toEqual({ hasTraffic: true, severity: 'high' })
+    expect(parseTrafficInfo('0,1,7 | 1,3,2')).toEqual({ hasTraffic: true, severity: 'medium' })
+    expect(parseTrafficInfo('0,1,3')).toEqual({ hasTraffic: true, severity: 'low' })
+  })
+
+  it('treats free-flowing segments as no traffic', () => {
+    expect(parseTrafficInfo('0,4,0 | 4,9,0')).toEqual({ hasTraffic: false, severity: 'low' })
+  })
+
+  it('ignores malformed segments', () => {
+    expect(parseTrafficInfo('garbage | 1,2')).toEqual({ hasTraffic: false, severity: 'low' })
+  })
+})
+
+describe('calculateCarbonFootprint', () => {
+  it('computes emissions and the trees needed to offset them', () => {
+    const footprint = calculateCarbonFootprint(10000, 0.21)
+    expect(footprint.co2).toBeCloseTo(2.1)
+    expect(footprint.trees).toBeCloseTo(2.1 / 21.8)
+    expect(footprint.savings).toBeCloseTo(0)
+  })
+
+  it('reports savings relative to driving', () => {
+    const footprint = calculateCarbonFootprint(10000, 0.05)
+    expect(footprint.co2).toBeCloseTo(0.5)
+    expect(footprint.savings).toBeCloseTo(1.6)
+  })
+
+  it('works from metres, so short routes are not read as kilometres', () => {
+    expect(calculateCarbonFootprint(850, 0.21).co2).toBeCloseTo(0.1785)
+  })
+
+  it('is zero for missing distances', () => {
+    expect(calculateCarbonFootprint(NaN, 0.21)).toEqual({ co2: 0, trees: 0, savings: 0 })
+  })
+})
+
+describe('formatDistance and formatDuration', () => {
+  it('switches to kilometres from 1000 m', () => {
+    expect(formatDistance(850)).toBe('850 m')
+    expect(formatDistance(4230)).toBe('4.2 km')
+  })
+
+  it('switches to hours from 60 minutes', () => {
+    expect(formatDuration(540)).toBe('9 min')
+    expect(formatDuration(4500)).toBe('1 hr 15 min')
+  })
+})
+
+describe('summarizeRoute', () => {
+  it('uses the readable strings of a single leg', () => {
+    const route = makeRoute('', [])
+    route.legs[0].readable_distance = '4.2 km'
+    route.legs[0].readable_duration = '15 mins'
+
+    expect(summarizeRoute(route)).toEqual({ distance: '4.2 km', duration: '15 mins', distanceMetres: 4200, durationSeconds: 900 })
+  })
+
+  it('sums every leg of a multi-stop route', () => {
+    const route = makeRoute('', [])
+    route.legs.push({ ...route.legs[0], distance: 2600, duration: 3000, readable_distance: '2.6 km' })
+
+    expect(summarizeRoute(route)).toEqual({ distance: '6.8 km', duration: '1 hr 5 min', distanceMetres: 6800, durationSeconds: 3900 })
+    expect(summarizeLeg(route.legs[1]).distance).toBe('2.6 km')
+  })
+})
+
+describe('viaPointInsertIndex', () => {
+  // A straight line heading east, one coordinate per 0.01°
+  const line = [0, 1, 2, 3, 4, 5].map(i => [77 + i * 0.01, 28.6])
+  const at = (i: number) => ({ lat: 28.6, lng: 77 + i * 0.01 })
+
+  it('slots the point between the waypoints either side of it', () => {
+    expect(viaPointInsertIndex(line, [at(1), at(4)], at(2.2))).toBe(1)
+  })
+
+  it('puts points before the first or after the last waypoint', () => {
+    expect(viaPointInsertIndex(line, [at(2), at(3)], at(0.4))).toBe(0)
+    expect(viaPointInsertIndex(line, [at(2), at(3)], at(4.8))).toBe(2)
+    expect(viaPointInsertIndex(line, [], at(3))).toBe(0)
+  })
+})
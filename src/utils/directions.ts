@@ -0,0 +1,219 @@
+import type { DirectionsRoute, LegSummary, RouteInfo, RouteLeg, RouteStep, TravelMode } from '../types'
+import { nearestCoordinateIndex, type LatLng } from './geo'
+
+// Format metres / seconds when Ola omits the readable_* fields
+export const formatDistance = (metres: number): string =>
+  metres >= 1000 ? `${(metres / 1000).toFixed(1)} km` : `${Math.round(metres)} m`
+
+export const formatDuration = (seconds: number): string => {
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 60) return `${minutes} min`
+  return `${Math.floor(minutes / 60)} hr ${minutes % 60} min`
+}
+
+// Split Ola maneuvers such as "turn-slight-left" into type and modifier
+export const splitManeuver = (maneuver: string): [string, string | undefined] => {
+  if (maneuver.startsWith('turn-')) {
+    return ['turn', maneuver.slice('turn-'.length)]
+  }
+  return [maneuver, undefined]
+}
+
+// Helper function to extract meaningful step instructions
+export const getStepInstruction = (step: RouteStep): string => {
+  if (step.instruction) {
+    // Clean HTML tags if present
+    return step.instruction.replace(/<[^>]*>/g, '')
+  }
+
+  // Fallback based on maneuver type
+  if (step.maneuver) {
+    const [type, modifier] = splitManeuver(step.maneuver)
+    return formatManeuverInstruction(type, modifier)
+  }
+
+  // Last resort fallback
+  return 'Continue on route'
+}
+
+// Convert maneuver types to readable instructions
+export const formatManeuverInstruction = (type: string, modifier?: string, instruction?: string): string => {
+  if (instruction && instruction !== type) return instruction
+
+  const maneuverMap: { [key: string]: string } = {
+    'turn': modifier ? `Turn ${modifier}` : 'Turn',
+    'depart': 'Start your route',
+    'arrive': 'You have arrived',
+    'merge': 'Merge',
+    'on-ramp': 'Take the ramp',
+    'off-ramp': 'Exit the ramp',
+    'fork': 'Take the fork',
+    'end-of-road': 'Continue at end of road',
+    'continue': 'Continue straight',
+    'roundabout': 'Enter roundabout',
+    'rotary': 'Enter rotary',
+    'roundabout-turn': 'Exit roundabout',
+    'notification': 'Continue',
+    'new-name': 'Continue on new road',
+    'suppress': 'Continue'
+  }
+
+  const baseInstruction = maneuverMap[type] || `Continue ${type}`
+  
+  if (modifier) {
+    const modifierMap: { [key: string]: string } = {
+      'left': 'left',
+      'right': 'right',
+      'sharp-left': 'sharp left',
+      'sharp-right': 'sharp right',
+      'slight-left': 'slight left',
+      'slight-right': 'slight right',
+      'straight': 'straight',
+      'uturn': 'to make a U-turn'
+    }
+    
+    const modifierText = modifierMap[modifier] || modifier
+    
+    if (type === 'turn') {
+      return `Turn ${modifierText}`
+    } else if (baseInstruction.includes('Continue')) {
+      return baseInstruction
+    } else {
+      return `${baseInstruction} ${modifierText}`
+    }
+  }
+
+  return baseInstruction
+}
+
+// Extract route summary from steps for "Via [road]" display
+export const extractRouteSummary = (route: DirectionsRoute, routeIndex: number): string => {
+  if (route.summary.trim()) {
+    return route.summary
+  }
+
+  // Extract main roads from steps
+  const steps = route.legs.flatMap(leg => leg.steps)
+  const roads = steps
+    .map((step) => step.instruction)
+    .filter((instruction: string) => instruction && instruction.includes(' on '))
+    .map((instruction: string) => {
+      const match = instruction.match(/on (.+?)(?:\s|$|,)/)
+      return match ? match[1] : null
+    })
+    .filter((road: string | null) => road && road.length > 2)
+    .slice(0, 2) // Take first 2 main roads
+
+  if (roads.length > 0) {
+    return `Via ${roads.join(', ')}`
+  }
+
+  return `Route ${routeIndex}`
+}
+
+export type CongestionLevel = 'none' | 'low' | 'medium' | 'high'
+
+// One travel_advisory entry: congestion between two indices of the overview polyline's coordinates
+export interface TrafficSegment {
+  start: number
+  end: number
+  congestion: number
+}
+
+// travel_advisory is "startIndex,endIndex,congestion" entries joined by " | ", e.g. "0,1,0 | 1,3,15".
+// Malformed entries are skipped.
+export const parseTrafficSegments = (travelAdvisory?: string): TrafficSegment[] => {
+  if (!travelAdvisory) return []
+
+  return travelAdvisory.split('|').flatMap(entry => {
+    const [start, end, congestion] = entry.trim().split(',').map(Number)
+    if ([start, end, congestion].some(value => !Number.isFinite(value)) || end <= start) return []
+    return [{ start, end, congestion }]
+  })
+}
+
+export const congestionLevel = (congestion: number): CongestionLevel => {
+  if (congestion > 10) return 'high'
+  if (congestion > 5) return 'medium'
+  if (congestion > 0) return 'low'
+  return 'none'
+}
+
+// Parse travel advisory for traffic information
+export const parseTrafficInfo = (travelAdvisory?: string): { hasTraffic: boolean; severity: 'low' | 'medium' | 'high' } => {
+  const worst = Math.max(0, ...parseTrafficSegments(travelAdvisory).map(segment => segment.congestion))
+  const level = congestionLevel(worst)
+  return { hasTraffic: level !== 'none', severity: level === 'none' ? 'low' : level }
+}
+
+// Calculate carbon footprint based on distance and transport mode
+// carbonFactor is kg of CO2 per km
+export const calculateCarbonFootprint = (distanceMetres: number, carbonFactor: number): { co2: number; trees: number; savings: number } => {
+  const km = Number.isFinite(distanceMetres) && distanceMetres > 0 ? distanceMetres / 1000 : 0
+  
+  // Calculate CO2 emissions in kg
+  const co2 = km * carbonFactor
+  
+  // Trees needed to offset CO2 (1 tree absorbs ~21.8 kg CO2/year)
+  const trees = co2 / 21.8
+  
+  // Calculate savings compared to driving (0.21 kg CO2/km)
+  const drivingEmissions = km * 0.21
+  const savings = Math.max(0, drivingEmissions - co2)
+  
+  return { co2, trees, savings }
+}
+
+export const summarizeLeg = (leg: RouteLeg): LegSummary => ({
+  distance: leg.readable_distance || formatDistance(leg.distance),
+  duration: leg.readable_duration || formatDuration(leg.duration),
+  distanceMetres: leg.distance,
+  durationSeconds: leg.duration
+})
+
+// Totals across every leg; Ola's readable strings are only per leg, so multi-stop totals are formatted here
+export const summarizeRoute = (route: DirectionsRoute): LegSummary => {
+  if (route.legs.length === 1) return summarizeLeg(route.legs[0])
+
+  const distanceMetres = route.legs.reduce((sum, leg) => sum + leg.distance, 0)
+  const durationSeconds = route.legs.reduce((sum, leg) => sum + leg.duration, 0)
+  return {
+    distance: formatDistance(distanceMetres),
+    duration: formatDuration(durationSeconds),
+    distanceMetres,
+    durationSeconds
+  }
+}
+
+// Where a via-point dragged off the route line belongs in the waypoint list:
+// after every existing waypoint that the line reaches before the drag point
+export const viaPointInsertIndex = (line: number[][], waypoints: LatLng[], point: LatLng): number => {
+  const at = nearestCoordinateIndex(line, point)
+  return waypoints.filter(waypoint => nearestCoordinateIndex(line, waypoint) <= at).length
+}
+
+// Ola's travel_mode for each of our modes. Ola has no two-wheeler profile, so e-scooters start
+// from driving routes and are re-ranked for the scooter by planScooterRoutes
+const DIRECTIONS_MODES: Record<TravelMode, string> = {
+  driving: 'driving',
+  walking: 'walking',
+  bicycling: 'cycling',
+  electric_scooter: 'driving'
+}
+
+export const directionsMode = (mode: TravelMode): string => DIRECTIONS_MODES[mode] ?? 'driving'
+
+// A directions alternative as the navigation panel shows it; routeIndex counts from 1
+export const toRouteInfo = (route: DirectionsRoute, index: number): RouteInfo => {
+  const totals = summarizeRoute(route)
+  return {
+    distance: totals.distance,
+    duration: totals.duration,
+    legs: route.legs.map(summarizeLeg),
+    steps: route.legs.flatMap(leg => leg.steps),
+    geometry: route.overview_polyline,
+    summary: extractRouteSummary(route, index + 1),
+    routeIndex: index + 1,
+    travelAdvisory: route.travel_advisory
+  }
+}
@@ -0,0 +1,9 @@
+// Saves text as a file through the browser's download prompt
+export const downloadText = (fileName: string, mimeType: string, text: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
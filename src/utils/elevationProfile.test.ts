@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { buildElevationProfile, climbAwareSeconds, isClimbAware } from './elevationProfile'
+
+describe('buildElevationProfile', () => {
+  it('totals the climbing and finds the steepest grade', () => {
+    const profile = buildElevationProfile([0, 100, 200, 300], [210, 216, 212, 213])
+
+    expect(profile).toMatchObject({ ascent: 7, descent: 4, steepestGrade: 6 })
+    expect(profile.samples[1]).toEqual({ along: 100, elevation: 216 })
+  })
+
+  it('reports a steeper descent as a negative grade', () => {
+    expect(buildElevationProfile([0, 100, 200], [220, 223, 211]).steepestGrade).toBe(-12)
+  })
+})
+
+describe('climbAwareSeconds', () => {
+  const uphill = buildElevationProfile([0, 500, 1000], [200, 225, 250])
+  const downhill = buildElevationProfile([0, 500, 1000], [250, 225, 200])
+  const flat = buildElevationProfile([0, 1000], [200, 200])
+
+  it('slows riders and walkers on climbs', () => {
+    expect(climbAwareSeconds(600, uphill, 'bicycling')).toBe(960)
+    expect(climbAwareSeconds(600, uphill, 'walking')).toBeGreaterThan(600)
+    expect(climbAwareSeconds(600, flat, 'walking')).toBe(600)
+  })
+
+  it('speeds riders up downhill, within limits', () => {
+    expect(climbAwareSeconds(600, downhill, 'bicycling')).toBe(480)
+    expect(climbAwareSeconds(600, buildElevationProfile([0, 100], [250, 200]), 'bicycling')).toBe(420)
+  })
+
+  it('leaves motor vehicle ETAs alone', () => {
+    expect(isClimbAware('driving')).toBe(false)
+    expect(climbAwareSeconds(600, uphill, 'driving')).toBe(600)
+  })
+})
@@ -0,0 +1,63 @@
+import type { ElevationProfile, TravelMode } from '../types'
+
+// Routes are sampled every SAMPLE_INTERVAL_METRES, spreading the samples out on long routes so
+// there are never more than MAX_ELEVATION_SAMPLES
+export const SAMPLE_INTERVAL_METRES = 50
+export const MAX_ELEVATION_SAMPLES = 150
+// Elevation data is noisy over short distances; grades beyond this are treated as this
+const MAX_GRADE = 0.3
+
+// Totals and the steepest grade from elevations measured at `along` metres
+export const buildElevationProfile = (along: number[], elevations: number[]): ElevationProfile => {
+  const samples = along.map((d, i) => ({ along: d, elevation: elevations[i] }))
+  let ascent = 0
+  let descent = 0
+  let steepestGrade = 0
+
+  for (let i = 1; i < samples.length; i++) {
+    const rise = samples[i].elevation - samples[i - 1].elevation
+    const run = samples[i].along - samples[i - 1].along
+    if (rise > 0) ascent += rise
+    else descent -= rise
+    const grade = run > 0 ? rise / run * 100 : 0
+    if (Math.abs(grade) > Math.abs(steepestGrade)) steepestGrade = grade
+  }
+
+  return { samples, ascent: Math.round(ascent), descent: Math.round(descent), steepestGrade: Math.round(steepestGrade * 10) / 10 }
+}
+
+// How much longer a stretch takes at a grade than on the flat (grade as a fraction)
+const walkingCost = (grade: number) =>
+  // Tobler's hiking function, relative to its speed on level ground
+  Math.exp(3.5 * (Math.abs(grade + 0.05) - 0.05))
+
+const cyclingCost = (grade: number) =>
+  // Climbing slows a rider sharply; descending helps, but braking and bends limit how much
+  grade >= 0 ? 1 + 12 * grade : Math.max(0.7, 1 + 4 * grade)
+
+const GRADE_COSTS: Partial<Record<TravelMode, (grade: number) => number>> = {
+  walking: walkingCost,
+  bicycling: cyclingCost
+}
+
+// Whether climbs change the ETA for a travel mode; motor vehicles keep Ola's estimate
+export const isClimbAware = (mode: TravelMode): boolean => mode in GRADE_COSTS
+
+// Ola's ETA for a flat-ground pace, stretched or shortened for the climbs and descents along
+// the profile. Modes that aren't climb-aware get the ETA back unchanged.
+export const climbAwareSeconds = (flatSeconds: number, profile: ElevationProfile, mode: TravelMode): number => {
+  const cost = GRADE_COSTS[mode]
+  const { samples } = profile
+  if (!cost || samples.length < 2) return flatSeconds
+
+  let weighted = 0
+  let total = 0
+  for (let i = 1; i < samples.length; i++) {
+    const run = samples[i].along - samples[i - 1].along
+    if (run <= 0) continue
+    const grade = Math.max(-MAX_GRADE, Math.min(MAX_GRADE, (samples[i].elevation - samples[i - 1].elevation) / run))
+    weighted += run * cost(grade)
+    total += run
+  }
+  return total > 0 ? Math.round(flatSeconds * weighted / total) : flatSeconds
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest'
+import { bearing, cumulativeDistances, destinationPoint, haversineDistance, headingDifference, lineIntersectsPolygon, nearestCoordinateIndex, pointInPolygon, sampleLine, snapToLine } from './geo'
+
+// East along 28.6°N, then north: roughly 977 m and 1112 m
+const corner = [[77.2, 28.6], [77.21, 28.6], [77.21, 28.61]]
+
+describe('haversineDistance', () => {
+  it('measures a degree of latitude', () => {
+    expect(haversineDistance({ lat: 28, lng: 77 }, { lat: 29, lng: 77 })).toBeCloseTo(111195, -1)
+  })
+})
+
+describe('destinationPoint', () => {
+  it('travels the distance along the bearing', () => {
+    const from = { lat: 28.6315, lng: 77.2167 }
+    const to = destinationPoint(from, 60, 2500)
+
+    expect(haversineDistance(from, to)).toBeCloseTo(2500, 3)
+    expect(bearing(from, to)).toBeCloseTo(60, 3)
+  })
+})
+
+describe('headingDifference', () => {
+  it('takes the short way round', () => {
+    expect(headingDifference(10, 350)).toBe(20)
+    expect(headingDifference(90, 270)).toBe(180)
+    expect(headingDifference(-30, 30)).toBe(60)
+  })
+})
+
+describe('snapToLine', () => {
+  it('drops a perpendicular onto the nearest segment', () => {
+    const snap = snapToLine(corner, { lat: 28.6005, lng: 77.205 })
+
+    expect(snap.segmentIndex).toBe(0)
+    expect(snap.point.lat).toBeCloseTo(28.6, 6)
+    expect(snap.point.lng).toBeCloseTo(77.205, 6)
+    expect(snap.distance).toBeCloseTo(55.6, 0)
+    expect(snap.along).toBeCloseTo(488, -1)
+  })
+
+  it('clamps to the ends of segments', () => {
+    const snap = snapToLine(corner, { lat: 28.615, lng: 77.215 })
+
+    expect(snap.segmentIndex).toBe(1)
+    expect(snap.point).toEqual({ lat: 28.61, lng: 77.21 })
+    expect(snap.along).toBeCloseTo(cumulativeDistances(corner)[2], 3)
+  })
+
+  it('ignores segments before the starting one', () => {
+    // A route that goes east and comes back along the same road
+    const outAndBack = [[77.2, 28.6], [77.21, 28.6], [77.2, 28.6]]
+    const point = { lat: 28.6, lng: 77.203 }
+
+    expect(snapToLine(outAndBack, point).segmentIndex).toBe(0)
+    expect(snapToLine(outAndBack, point, 1).segmentIndex).toBe(1)
+    expect(snapToLine(outAndBack, point, 5).segmentIndex).toBe(1)
+  })
+})
+
+describe('cumulativeDistances', () => {
+  it('adds up the segments', () => {
+    const [start, turn, end] = cumulativeDistances(corner)
+    expect(start).toBe(0)
+    expect(turn).toBeCloseTo(977, -1)
+    expect(end - turn).toBeCloseTo(1112, -1)
+  })
+})
+
+describe('sampleLine', () => {
+  it('samples at a regular interval and keeps the end', () => {
+    const { points, along } = sampleLine(corner, 100, 1000)
+
+    expect(along.slice(0, 3)).toEqual([0, 100, 200])
+    expect(along).toHaveLength(22)
+    expect(points[0]).toEqual({ lat: 28.6, lng: 77.2 })
+    expect(points[points.length - 1].lat).toBeCloseTo(28.61)
+  })
+
+  it('spreads the samples out on long lines', () => {
+    expect(sampleLine(corner, 10, 5).along).toHaveLength(5)
+  })
+})
+
+describe('nearestCoordinateIndex', () => {
+  it('finds the closest vertex', () => {
+    expect(nearestCoordinateIndex(corner, { lat: 28.6001, lng: 77.2099 })).toBe(1)
+    expect(nearestCoordinateIndex([], { lat: 0, lng: 0 })).toBe(-1)
+  })
+})
+
+describe('lineIntersectsPolygon', () => {
+  // A square around the corner's middle vertex, and one off to the side of it
+  const aroundTurn = [[77.205, 28.595], [77.215, 28.595], [77.215, 28.605], [77.205, 28.605]]
+  const aside = [[77.22, 28.62], [77.23, 28.62], [77.23, 28.63]]
+
+  it('finds points inside a polygon', () => {
+    expect(pointInPolygon([77.21, 28.6], aroundTurn)).toBe(true)
+    expect(pointInPolygon([77.2, 28.6], aroundTurn)).toBe(false)
+  })
+
+  it('catches a line with a vertex inside or a segment passing through', () => {
+    expect(lineIntersectsPolygon(corner, aroundTurn)).toBe(true)
+    expect(lineIntersectsPolygon([[77.2, 28.6], [77.22, 28.6]], aroundTurn)).toBe(true)
+    expect(lineIntersectsPolygon(corner, aside)).toBe(false)
+  })
+})
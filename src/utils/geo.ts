@@ -0,0 +1,188 @@
+export interface LatLng {
+  lat: number
+  lng: number
+}
+
+const EARTH_RADIUS_M = 6371000
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+// Great-circle distance in metres
+export const haversineDistance = (a: LatLng, b: LatLng): number => {
+  const dLat = toRadians(b.lat - a.lat)
+  const dLng = toRadians(b.lng - a.lng)
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+// Initial compass bearing from a to b, 0-360 degrees clockwise from north
+export const bearing = (a: LatLng, b: LatLng): number => {
+  const dLng = toRadians(b.lng - a.lng)
+  const y = Math.sin(dLng) * Math.cos(toRadians(b.lat))
+  const x = Math.cos(toRadians(a.lat)) * Math.sin(toRadians(b.lat)) -
+    Math.sin(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.cos(dLng)
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360
+}
+
+// The point reached by travelling a distance in metres along a compass bearing from a start
+export const destinationPoint = (from: LatLng, bearingDegrees: number, metres: number): LatLng => {
+  const angle = metres / EARTH_RADIUS_M
+  const heading = toRadians(bearingDegrees)
+  const lat1 = toRadians(from.lat)
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angle) + Math.cos(lat1) * Math.sin(angle) * Math.cos(heading))
+  const lng2 = toRadians(from.lng) +
+    Math.atan2(Math.sin(heading) * Math.sin(angle) * Math.cos(lat1), Math.cos(angle) - Math.sin(lat1) * Math.sin(lat2))
+  return { lat: (lat2 * 180) / Math.PI, lng: (((lng2 * 180) / Math.PI + 540) % 360) - 180 }
+}
+
+// Index of the [lng, lat] coordinate closest to a point
+export const nearestCoordinateIndex = (coordinates: number[][], point: LatLng): number => {
+  let best = -1
+  let bestDistance = Infinity
+  coordinates.forEach(([lng, lat], index) => {
+    const distance = haversineDistance(point, { lat, lng })
+    if (distance < bestDistance) {
+      best = index
+      bestDistance = distance
+    }
+  })
+  return best
+}
+
+// Smallest angle between two compass bearings, 0-180 degrees
+export const headingDifference = (a: number, b: number): number => {
+  const diff = Math.abs(a - b) % 360
+  return diff > 180 ? 360 - diff : diff
+}
+
+export interface LineSnap {
+  // Closest point on the line
+  point: LatLng
+  // Segment the point lies on: between coordinates[segmentIndex] and coordinates[segmentIndex + 1]
+  segmentIndex: number
+  // Metres from the query point to the line
+  distance: number
+  // Metres along the line from its first coordinate
+  along: number
+}
+
+const METRES_PER_DEGREE_LAT = 110540
+const METRES_PER_DEGREE_LNG = 111320
+
+// Closest point on a [lng, lat] polyline, searching from `fromSegment` onwards so a route
+// that doubles back on itself doesn't snap to the wrong pass. Segments are projected flat,
+// which is accurate enough at street scale.
+export const snapToLine = (coordinates: number[][], point: LatLng, fromSegment: number = 0): LineSnap => {
+  const toPoint = ([lng, lat]: number[]): LatLng => ({ lat, lng })
+  if (coordinates.length < 2) {
+    const only = toPoint(coordinates[0])
+    return { point: only, segmentIndex: 0, distance: haversineDistance(point, only), along: 0 }
+  }
+
+  const firstSegment = Math.min(Math.max(0, fromSegment), coordinates.length - 2)
+  const lngScale = METRES_PER_DEGREE_LNG * Math.cos(toRadians(point.lat))
+  let best: LineSnap | null = null
+  let along = 0
+
+  for (let i = 0; i < coordinates.length - 1; i++) {
+    const a = toPoint(coordinates[i])
+    const b = toPoint(coordinates[i + 1])
+    const segmentLength = haversineDistance(a, b)
+
+    if (i >= firstSegment) {
+      // Local metres with the query point at the origin
+      const ax = (a.lng - point.lng) * lngScale
+      const ay = (a.lat - point.lat) * METRES_PER_DEGREE_LAT
+      const bx = (b.lng - point.lng) * lngScale
+      const by = (b.lat - point.lat) * METRES_PER_DEGREE_LAT
+      const dx = bx - ax
+      const dy = by - ay
+      const lengthSquared = dx * dx + dy * dy
+      const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared))
+      const snapped = { lat: a.lat + (b.lat - a.lat) * t, lng: a.lng + (b.lng - a.lng) * t }
+      const distance = haversineDistance(point, snapped)
+
+      if (!best || distance < best.distance) {
+        best = { point: snapped, segmentIndex: i, distance, along: along + segmentLength * t }
+      }
+    }
+    along += segmentLength
+  }
+
+  return best!
+}
+
+// Running distance in metres at each [lng, lat] coordinate
+export const cumulativeDistances = (coordinates: number[][]): number[] => {
+  const distances = [0]
+  for (let i = 1; i < coordinates.length; i++) {
+    const [lngA, latA] = coordinates[i - 1]
+    const [lngB, latB] = coordinates[i]
+    distances.push(distances[i - 1] + haversineDistance({ lat: latA, lng: lngA }, { lat: latB, lng: lngB }))
+  }
+  return distances
+}
+
+// The point a given distance along a [lng, lat] line, with the segment it falls on.
+// Pass the line's cumulativeDistances; distances beyond either end are clamped.
+export const pointAlong = (coordinates: number[][], distances: number[], along: number): { point: LatLng; segmentIndex: number } => {
+  const last = coordinates.length - 1
+  const target = Math.max(0, Math.min(along, distances[last]))
+  let segmentIndex = 0
+  while (segmentIndex < last - 1 && distances[segmentIndex + 1] < target) segmentIndex++
+
+  const [aLng, aLat] = coordinates[segmentIndex]
+  const [bLng, bLat] = coordinates[Math.min(segmentIndex + 1, last)]
+  const length = distances[Math.min(segmentIndex + 1, last)] - distances[segmentIndex]
+  const t = length > 0 ? (target - distances[segmentIndex]) / length : 0
+  return { point: { lat: aLat + (bLat - aLat) * t, lng: aLng + (bLng - aLng) * t }, segmentIndex }
+}
+
+export interface LineSamples {
+  points: LatLng[]
+  // Metres along the line at each point
+  along: number[]
+}
+
+// Points every `interval` metres along a [lng, lat] line, first and last included. On long lines
+// the interval is stretched so there are never more than maxSamples.
+export const sampleLine = (line: number[][], interval: number, maxSamples: number): LineSamples => {
+  if (line.length === 0) return { points: [], along: [] }
+  const distances = cumulativeDistances(line)
+  const length = distances[distances.length - 1]
+  const step = Math.max(interval, length / (maxSamples - 1))
+
+  const along: number[] = []
+  for (let d = 0; d < length; d += step) along.push(d)
+  along.push(length)
+
+  return { points: along.map(d => pointAlong(line, distances, d).point), along }
+}
+
+// Ray casting on [lng, lat] coordinates; fine for areas a few kilometres across
+export const pointInPolygon = ([x, y]: number[], polygon: number[][]): boolean => {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i]
+    const [xj, yj] = polygon[j]
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside
+  }
+  return inside
+}
+
+// Which side of the line a→b the point c is on: positive, negative or 0 when in line
+const orientation = (a: number[], b: number[], c: number[]) =>
+  Math.sign((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]))
+
+const segmentsCross = (a: number[], b: number[], c: number[], d: number[]) =>
+  orientation(a, b, c) * orientation(a, b, d) < 0 && orientation(c, d, a) * orientation(c, d, b) < 0
+
+// Whether a [lng, lat] line enters a polygon: a vertex inside it, or a segment crossing its edge
+export const lineIntersectsPolygon = (line: number[][], polygon: number[][]): boolean => {
+  if (polygon.length < 3) return false
+  if (line.some(point => pointInPolygon(point, polygon))) return true
+  return line.slice(1).some((end, i) =>
+    polygon.some((corner, j) => segmentsCross(line[i], end, corner, polygon[(j + 1) % polygon.length]))
+  )
+}
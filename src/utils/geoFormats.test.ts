@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest'
+import {
+  documentPlaces,
+  documentStops,
+  parseGeoFile,
+  placesDocument,
+  routeDocument,
+  writeGeoDocument,
+  type GeoDocument,
+  type GeoFormat
+} from './geoFormats'
+import { encodePolyline } from './polyline'
+import type { RouteInfo } from '../types'
+
+const doc: GeoDocument = {
+  name: 'Lunch & errands',
+  time: Date.UTC(2024, 2, 1, 9),
+  tracks: [{ name: 'Janpath <loop>', coordinates: [[77.2167, 28.6315], [77.22, 28.62], [77.2295, 28.6129]] }],
+  points: [
+    { name: 'Connaught Place', description: 'New Delhi', lat: 28.6315, lng: 77.2167, kind: 'waypoint' },
+    { name: 'Turn right onto Janpath', lat: 28.62, lng: 77.22, kind: 'step' },
+    { name: 'Khan Market', lat: 28.6003, lng: 77.2269 }
+  ]
+}
+
+const extensions: Record<GeoFormat, string> = { gpx: 'gpx', kml: 'kml', geojson: 'geojson' }
+
+describe('writeGeoDocument and parseGeoFile', () => {
+  it.each(Object.keys(extensions) as GeoFormat[])('round-trips lines and points through %s', format => {
+    const parsed = parseGeoFile(`trip.${extensions[format]}`, writeGeoDocument(doc, format))
+
+    expect(parsed.name).toBe(doc.name)
+    expect(parsed.tracks).toEqual(doc.tracks)
+    expect(parsed.points).toEqual(doc.points.map(point => ({ description: undefined, kind: undefined, ...point })))
+  })
+
+  it('escapes names in XML formats', () => {
+    expect(writeGeoDocument(doc, 'gpx')).toContain('<name>Janpath &lt;loop&gt;</name>')
+    expect(writeGeoDocument(doc, 'kml')).toContain('<name>Lunch &amp; errands</name>')
+  })
+
+  it('keeps the recording time in GPX', () => {
+    expect(parseGeoFile('trip.gpx', writeGeoDocument(doc, 'gpx')).time).toBe(doc.time)
+  })
+})
+
+describe('parseGeoFile', () => {
+  it('joins GPX track segments and reads routes', () => {
+    const parsed = parseGeoFile('ride.gpx', `<gpx>
+      <rte><rtept lat="28.6" lon="77.2"/><rtept lat="28.61" lon="77.21"/></rte>
+      <trk><name>Ride</name>
+        <trkseg><trkpt lat="28.6" lon="77.2"><name>ignored</name></trkpt></trkseg>
+        <trkseg><trkpt lat="28.7" lon="77.3"/></trkseg>
+      </trk>
+    </gpx>`)
+
+    expect(parsed.tracks).toEqual([
+      { name: 'Route 1', coordinates: [[77.2, 28.6], [77.21, 28.61]] },
+      { name: 'Ride', coordinates: [[77.2, 28.6], [77.3, 28.7]] }
+    ])
+  })
+
+  it('keeps the times and fix quality of recorded GPX points', () => {
+    const parsed = parseGeoFile('ride.gpx', `<gpx><trk><trkseg>
+      <trkpt lat="28.6" lon="77.2"><time>2024-03-01T09:00:00Z</time><hdop>1.2</hdop><speed>4.5</speed></trkpt>
+      <trkpt lat="28.61" lon="77.2"/>
+    </trkseg></trk></gpx>`)
+
+    expect(parsed.tracks[0].readings).toEqual([{ time: Date.UTC(2024, 2, 1, 9), hdop: 1.2, speed: 4.5 }, {}])
+  })
+
+  it('reads every point and line in a KML placemark, skipping polygons', () => {
+    const parsed = parseGeoFile('places.kml', `<kml xmlns="http://www.opengis.net/kml/2.2"><Document>
+      <Placemark><name>Both</name><MultiGeometry>
+        <Point><coordinates>77.2,28.6,0</coordinates></Point>
+        <LineString><coordinates>77.2,28.6 77.21,28.61</coordinates></LineString>
+      </MultiGeometry></Placemark>
+      <Placemark><name>Park</name><Polygon><outerBoundaryIs><LinearRing><coordinates>77.2,28.6 77.21,28.6 77.2,28.61 77.2,28.6</coordinates></LinearRing></outerBoundaryIs></Polygon></Placemark>
+    </Document></kml>`)
+
+    expect(parsed.points).toEqual([{ name: 'Both', description: undefined, lat: 28.6, lng: 77.2, kind: undefined }])
+    expect(parsed.tracks).toEqual([{ name: 'Both', coordinates: [[77.2, 28.6], [77.21, 28.61]] }])
+  })
+
+  it('reads a bare GeoJSON geometry and multi-geometries', () => {
+    expect(parseGeoFile('line.json', '{"type":"LineString","coordinates":[[77.2,28.6],[77.21,28.61]]}').tracks).toHaveLength(1)
+    expect(parseGeoFile('stops.geojson', JSON.stringify({
+      type: 'Feature',
+      properties: { name: 'Stops' },
+      geometry: { type: 'MultiPoint', coordinates: [[77.2, 28.6], [77.21, 28.61]] }
+    })).points.map(point => point.name)).toEqual(['Stops', 'Stops'])
+  })
+
+  it('sniffs the format when the extension says nothing', () => {
+    expect(parseGeoFile('download', '<gpx><wpt lat="28.6" lon="77.2"/></gpx>').points).toHaveLength(1)
+  })
+
+  it.each([
+    ['bad.gpx', '<gpx><trk>', 'bad.gpx: Not a valid GPX file: the XML is malformed'],
+    ['wrong.gpx', '<kml></kml>', 'wrong.gpx: Not a GPX file: expected a <gpx> root element'],
+    ['far.gpx', '<gpx><wpt lat="128.6" lon="77.2"/></gpx>', 'far.gpx: Waypoint 1 is outside the range of latitude and longitude (128.6, 77.2)'],
+    ['typo.kml', '<kml><Placemark><LineString><coordinates>77.2,28.6 77.2;28.7</coordinates></LineString></Placemark></kml>', "typo.kml: Placemark 1, coordinate 2 has a coordinate that isn't a number"],
+    ['short.geojson', '{"type":"LineString","coordinates":[[77.2,28.6]]}', 'short.geojson: Feature 1 has a line with fewer than two positions'],
+    ['broken.geojson', '{"type":', 'broken.geojson: Not a valid GeoJSON file'],
+    ['list.json', '[1, 2]', 'list.json: Not a GeoJSON file: expected a FeatureCollection, Feature or geometry'],
+    ['empty.gpx', '<gpx></gpx>', 'empty.gpx: No tracks, routes or points found'],
+    ['notes.txt', 'hello', 'notes.txt: Unsupported file: open a GPX, KML or GeoJSON file']
+  ])('explains what is wrong with %s', (fileName, text, message) => {
+    expect(() => parseGeoFile(fileName, text)).toThrow(message)
+  })
+})
+
+describe('routeDocument', () => {
+  it('holds the route line, its stops in order and its steps', () => {
+    const route: RouteInfo = {
+      distance: '3.5 km',
+      duration: '10 min',
+      legs: [],
+      steps: [{ instruction: 'Turn right onto Janpath', distance: 850, duration: 120, start_location: { lat: 28.62, lng: 77.22 }, end_location: { lat: 28.61, lng: 77.22 } }],
+      geometry: encodePolyline([[77.2167, 28.6315], [77.2295, 28.6129]]),
+      summary: 'Via Janpath',
+      routeIndex: 1
+    }
+    const place = (name: string, lat: number, lng: number) => ({ name, address: `${name}, New Delhi`, lat, lng })
+
+    const exported = routeDocument(route, {
+      origin: place('Connaught Place', 28.6315, 77.2167),
+      waypoints: [place('Janpath', 28.62, 77.22)],
+      destination: place('India Gate', 28.6129, 77.2295)
+    })
+
+    expect(exported.tracks).toEqual([{ name: 'Via Janpath', coordinates: [[77.2167, 28.6315], [77.2295, 28.6129]] }])
+    expect(exported.points.map(point => [point.name, point.kind])).toEqual([
+      ['Connaught Place', 'waypoint'],
+      ['Janpath', 'waypoint'],
+      ['India Gate', 'waypoint'],
+      ['Turn right onto Janpath', 'step']
+    ])
+    expect(exported.points[3].description).toBe('850 m')
+  })
+})
+
+describe('documentStops', () => {
+  it('prefers marked waypoints, then points that are not turns, then the ends of a line', () => {
+    expect(documentStops(doc).map(stop => stop.name)).toEqual(['Connaught Place'])
+    expect(documentStops({ ...doc, points: doc.points.slice(1) }).map(stop => stop.name)).toEqual(['Khan Market'])
+    expect(documentStops({ ...doc, points: [] }).map(stop => [stop.lat, stop.lng])).toEqual([[28.6315, 77.2167], [28.6129, 77.2295]])
+  })
+})
+
+describe('documentPlaces', () => {
+  it('leaves out turns and fills in an address', () => {
+    expect(documentPlaces(doc)).toEqual([
+      { name: 'Connaught Place', address: 'New Delhi', lat: 28.6315, lng: 77.2167 },
+      { name: 'Khan Market', address: '28.60030, 77.22690', lat: 28.6003, lng: 77.2269 }
+    ])
+    expect(placesDocument('Saved places', documentPlaces(doc)).points.every(point => point.kind === 'place')).toBe(true)
+  })
+})
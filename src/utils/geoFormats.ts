@@ -0,0 +1,394 @@
+import type { RouteInfo, SelectedPlace } from '../types'
+import { formatDistance, getStepInstruction } from './directions'
+import { decodePolyline } from './polyline'
+
+// Reading and writing GPX 1.1, KML 2.2 and GeoJSON. All three are read into and written from a
+// GeoDocument: named lines (routes and recorded tracks) and named points (stops, steps, places).
+// Coordinates are [lng, lat], as decodePolyline returns them.
+
+export type GeoFormat = 'gpx' | 'kml' | 'geojson'
+
+export const GEO_FORMATS: Record<GeoFormat, { label: string; extension: string; mimeType: string }> = {
+  gpx: { label: 'GPX', extension: 'gpx', mimeType: 'application/gpx+xml' },
+  kml: { label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  geojson: { label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' }
+}
+
+// What a point is for: a stop on a route, a turn along it, or a place worth keeping
+export type GeoPointKind = 'waypoint' | 'step' | 'place'
+
+export interface GeoPoint {
+  name: string
+  description?: string
+  lat: number
+  lng: number
+  kind?: GeoPointKind
+}
+
+// What a receiver noted at a point of a recorded line, besides where it was
+export interface GeoTrackReading {
+  time?: number
+  // Degrees clockwise from north
+  course?: number
+  // Metres per second
+  speed?: number
+  // Horizontal dilution of precision
+  hdop?: number
+}
+
+export interface GeoTrack {
+  name: string
+  coordinates: number[][]
+  // One per coordinate, for GPX lines that carry times or fix quality
+  readings?: GeoTrackReading[]
+}
+
+export interface GeoDocument {
+  name: string
+  // When the data was recorded, if it was
+  time?: number
+  tracks: GeoTrack[]
+  points: GeoPoint[]
+}
+
+const POINT_KINDS: GeoPointKind[] = ['waypoint', 'step', 'place']
+
+const toKind = (value: unknown): GeoPointKind | undefined =>
+  POINT_KINDS.find(kind => kind === value)
+
+// Writing
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const xmlElement = (tag: string, text: string | undefined) =>
+  text === undefined ? '' : `<${tag}>${escapeXml(text)}</${tag}>`
+
+export const toGpx = (doc: GeoDocument): string => {
+  const metadata = xmlElement('name', doc.name) + (doc.time !== undefined ? xmlElement('time', new Date(doc.time).toISOString()) : '')
+  const points = doc.points.map(point =>
+    `  <wpt lat="${point.lat}" lon="${point.lng}">${xmlElement('name', point.name)}${xmlElement('desc', point.description)}${xmlElement('type', point.kind)}</wpt>`)
+  const tracks = doc.tracks.map(track => [
+    `  <trk>${xmlElement('name', track.name)}<trkseg>`,
+    ...track.coordinates.map(([lng, lat]) => `    <trkpt lat="${lat}" lon="${lng}"/>`),
+    '  </trkseg></trk>'
+  ].join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Ola Maps Alternative" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata>${metadata}</metadata>`,
+    ...points,
+    ...tracks,
+    '</gpx>',
+    ''
+  ].join('\n')
+}
+
+export const toKml = (doc: GeoDocument): string => {
+  const points = doc.points.map(point => [
+    `    <Placemark>${xmlElement('name', point.name)}${xmlElement('description', point.description)}`,
+    point.kind ? `      <ExtendedData><Data name="kind"><value>${point.kind}</value></Data></ExtendedData>` : '',
+    `      <Point><coordinates>${point.lng},${point.lat}</coordinates></Point>`,
+    '    </Placemark>'
+  ].filter(Boolean).join('\n'))
+  const tracks = doc.tracks.map(track => [
+    `    <Placemark>${xmlElement('name', track.name)}`,
+    `      <LineString><coordinates>${track.coordinates.map(([lng, lat]) => `${lng},${lat}`).join(' ')}</coordinates></LineString>`,
+    '    </Placemark>'
+  ].join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    `  <Document>${xmlElement('name', doc.name)}`,
+    ...points,
+    ...tracks,
+    '  </Document>',
+    '</kml>',
+    ''
+  ].join('\n')
+}
+
+// The document as a GeoJSON FeatureCollection, which is also what the map draws
+export const toFeatureCollection = (doc: GeoDocument) => ({
+  type: 'FeatureCollection' as const,
+  name: doc.name,
+  features: [
+    ...doc.points.map(point => ({
+      type: 'Feature' as const,
+      properties: { name: point.name, ...(point.description ? { description: point.description } : {}), ...(point.kind ? { kind: point.kind } : {}) },
+      geometry: { type: 'Point' as const, coordinates: [point.lng, point.lat] }
+    })),
+    ...doc.tracks.map(track => ({
+      type: 'Feature' as const,
+      properties: { name: track.name },
+      geometry: { type: 'LineString' as const, coordinates: track.coordinates }
+    }))
+  ]
+})
+
+export const writeGeoDocument = (doc: GeoDocument, format: GeoFormat): string => {
+  if (format === 'gpx') return toGpx(doc)
+  if (format === 'kml') return toKml(doc)
+  return JSON.stringify(toFeatureCollection(doc), null, 2)
+}
+
+// Reading. Each parser throws an Error saying what is wrong and where.
+
+const checkPosition = (lng: number, lat: number, where: string): number[] => {
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) throw new Error(`${where} has a coordinate that isn't a number`)
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) throw new Error(`${where} is outside the range of latitude and longitude (${lat}, ${lng})`)
+  return [lng, lat]
+}
+
+const parseXml = (text: string, root: string, format: string): Document => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error(`Not a valid ${format} file: the XML is malformed`)
+  if (doc.documentElement.localName !== root) throw new Error(`Not a ${format} file: expected a <${root}> root element`)
+  return doc
+}
+
+// Text of a direct child element, so a track's name isn't taken from one of its points
+const childText = (element: Element, name: string): string | undefined => {
+  const child = Array.from(element.children).find(c => c.localName === name)
+  const text = child?.textContent?.trim()
+  return text || undefined
+}
+
+const elements = (parent: Document | Element, name: string) => Array.from(parent.getElementsByTagName(name))
+
+const childNumber = (element: Element, name: string): number | undefined => {
+  const value = Number(childText(element, name) ?? NaN)
+  return Number.isFinite(value) ? value : undefined
+}
+
+const gpxPosition = (element: Element, where: string) =>
+  checkPosition(Number(element.getAttribute('lon') ?? NaN), Number(element.getAttribute('lat') ?? NaN), where)
+
+const gpxReading = (point: Element): GeoTrackReading => {
+  const time = Date.parse(childText(point, 'time') ?? '')
+  const reading: GeoTrackReading = {
+    time: Number.isNaN(time) ? undefined : time,
+    course: childNumber(point, 'course'),
+    speed: childNumber(point, 'speed'),
+    hdop: childNumber(point, 'hdop')
+  }
+  return Object.fromEntries(Object.entries(reading).filter(([, value]) => value !== undefined))
+}
+
+// A line's points, with their readings when any point has one
+const gpxLine = (name: string, points: Element[], where: string): GeoTrack => {
+  const coordinates = points.map((point, i) => gpxPosition(point, `${where}, point ${i + 1}`))
+  const readings = points.map(gpxReading)
+  return readings.some(reading => Object.keys(reading).length > 0) ? { name, coordinates, readings } : { name, coordinates }
+}
+
+export const parseGpxDocument = (text: string): GeoDocument => {
+  const xml = parseXml(text, 'gpx', 'GPX')
+
+  const points = elements(xml, 'wpt').map((wpt, i): GeoPoint => {
+    const [lng, lat] = gpxPosition(wpt, `Waypoint ${i + 1}`)
+    return { name: childText(wpt, 'name') ?? `Waypoint ${i + 1}`, description: childText(wpt, 'desc'), lat, lng, kind: toKind(childText(wpt, 'type')) }
+  })
+  // A track's segments are joined into one line
+  const tracks: GeoTrack[] = [
+    ...elements(xml, 'rte').map((rte, i) => gpxLine(childText(rte, 'name') ?? `Route ${i + 1}`, elements(rte, 'rtept'), `Route ${i + 1}`)),
+    ...elements(xml, 'trk').map((trk, i) => gpxLine(childText(trk, 'name') ?? `Track ${i + 1}`, elements(trk, 'trkpt'), `Track ${i + 1}`))
+  ].filter(track => track.coordinates.length > 0)
+
+  const metadata = elements(xml, 'metadata')[0]
+  const time = metadata && childText(metadata, 'time')
+  return {
+    name: (metadata && childText(metadata, 'name')) ?? tracks[0]?.name ?? 'Imported GPX',
+    ...(time && !Number.isNaN(Date.parse(time)) ? { time: Date.parse(time) } : {}),
+    tracks,
+    points
+  }
+}
+
+// "lng,lat[,alt] lng,lat[,alt] ..." from a KML <coordinates> element
+const kmlCoordinates = (element: Element, where: string): number[][] =>
+  (element.getElementsByTagName('coordinates')[0]?.textContent ?? '')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((tuple, i) => {
+      const [lng, lat] = tuple.split(',').map(Number)
+      return checkPosition(lng, lat, `${where}, coordinate ${i + 1}`)
+    })
+
+export const parseKmlDocument = (text: string): GeoDocument => {
+  const xml = parseXml(text, 'kml', 'KML')
+  const points: GeoPoint[] = []
+  const tracks: GeoTrack[] = []
+
+  // Polygons have no route or place to offer, so only points and lines are read
+  elements(xml, 'Placemark').forEach((placemark, i) => {
+    const where = `Placemark ${i + 1}`
+    const name = childText(placemark, 'name') ?? where
+    const description = childText(placemark, 'description')
+    const kind = toKind(elements(placemark, 'Data').find(data => data.getAttribute('name') === 'kind')?.textContent?.trim())
+
+    elements(placemark, 'Point').forEach(point => {
+      const [position] = kmlCoordinates(point, where)
+      if (!position) throw new Error(`${where} has a point without coordinates`)
+      points.push({ name, description, lat: position[1], lng: position[0], kind })
+    })
+    elements(placemark, 'LineString').forEach(line => {
+      const coordinates = kmlCoordinates(line, where)
+      if (coordinates.length < 2) throw new Error(`${where} has a line with fewer than two coordinates`)
+      tracks.push({ name, coordinates })
+    })
+  })
+
+  const document = elements(xml, 'Document')[0]
+  return { name: (document && childText(document, 'name')) ?? 'Imported KML', tracks, points }
+}
+
+const geoJsonPosition = (value: unknown, where: string): number[] => {
+  if (!Array.isArray(value) || value.length < 2) throw new Error(`${where} has a position that isn't [longitude, latitude]`)
+  return checkPosition(Number(value[0]), Number(value[1]), where)
+}
+
+const geoJsonLine = (value: unknown, where: string): number[][] => {
+  if (!Array.isArray(value) || value.length < 2) throw new Error(`${where} has a line with fewer than two positions`)
+  return value.map((position, i) => geoJsonPosition(position, `${where}, position ${i + 1}`))
+}
+
+// A bare Feature or geometry is read as a collection of one
+const geoJsonFeatures = (json: any): any[] | null => {
+  if (json?.type === 'FeatureCollection' && Array.isArray(json.features)) return json.features
+  if (json?.type === 'Feature') return [json]
+  if (typeof json?.type === 'string' && json.coordinates) return [{ type: 'Feature', properties: {}, geometry: json }]
+  return null
+}
+
+export const parseGeoJsonDocument = (text: string): GeoDocument => {
+  let json: any
+  try {
+    json = JSON.parse(text)
+  } catch (error) {
+    throw new Error(`Not a valid GeoJSON file: ${(error as Error).message}`)
+  }
+
+  const features = geoJsonFeatures(json)
+  if (!features) throw new Error('Not a GeoJSON file: expected a FeatureCollection, Feature or geometry')
+
+  const points: GeoPoint[] = []
+  const tracks: GeoTrack[] = []
+  features.forEach((feature, i) => {
+    const where = `Feature ${i + 1}`
+    if (feature?.type !== 'Feature') throw new Error(`${where} isn't a GeoJSON Feature`)
+    const properties = feature.properties ?? {}
+    const name = typeof properties.name === 'string' && properties.name ? properties.name : where
+    const description = typeof properties.description === 'string' ? properties.description : undefined
+    const geometry = feature.geometry
+    if (!geometry) return
+
+    const addPoint = (position: unknown) => {
+      const [lng, lat] = geoJsonPosition(position, where)
+      points.push({ name, description, lat, lng, kind: toKind(properties.kind) })
+    }
+    switch (geometry.type) {
+      case 'Point':
+        addPoint(geometry.coordinates)
+        break
+      case 'MultiPoint':
+        (Array.isArray(geometry.coordinates) ? geometry.coordinates : []).forEach(addPoint)
+        break
+      case 'LineString':
+        tracks.push({ name, coordinates: geoJsonLine(geometry.coordinates, where) })
+        break
+      case 'MultiLineString':
+        (Array.isArray(geometry.coordinates) ? geometry.coordinates : [])
+          .forEach((line: unknown) => tracks.push({ name, coordinates: geoJsonLine(line, where) }))
+        break
+    }
+  })
+
+  return { name: typeof json.name === 'string' ? json.name : 'Imported GeoJSON', tracks, points }
+}
+
+// Picks the parser from the file name, falling back to sniffing the content. Errors name the file.
+export const parseGeoFile = (fileName: string, text: string): GeoDocument => {
+  const extension = fileName.split('.').pop()?.toLowerCase()
+  const start = text.trimStart()
+  const format: GeoFormat | null =
+    extension === 'gpx' ? 'gpx'
+      : extension === 'kml' ? 'kml'
+        : extension === 'geojson' || extension === 'json' ? 'geojson'
+          : start.startsWith('{') ? 'geojson'
+            : /<gpx[\s>]/.test(start) ? 'gpx'
+              : /<kml[\s>]/.test(start) ? 'kml'
+                : null
+
+  try {
+    if (!format) throw new Error('Unsupported file: open a GPX, KML or GeoJSON file')
+    const doc = format === 'gpx' ? parseGpxDocument(text) : format === 'kml' ? parseKmlDocument(text) : parseGeoJsonDocument(text)
+    if (doc.tracks.length === 0 && doc.points.length === 0) throw new Error('No tracks, routes or points found')
+    return doc
+  } catch (error) {
+    throw new Error(`${fileName}: ${(error as Error).message}`)
+  }
+}
+
+// Building documents from the app's data
+
+export interface RouteStops {
+  origin: SelectedPlace | null
+  waypoints: SelectedPlace[]
+  destination: SelectedPlace | null
+}
+
+// A route's line, its stops in order and a point at the start of each step
+export const routeDocument = (route: RouteInfo, stops: RouteStops): GeoDocument => {
+  const places = [stops.origin, ...stops.waypoints, stops.destination].filter((place): place is SelectedPlace => place !== null)
+  return {
+    name: route.summary,
+    tracks: route.geometry ? [{ name: route.summary, coordinates: decodePolyline(route.geometry) }] : [],
+    points: [
+      ...places.map(place => ({ name: place.name, description: place.address, lat: place.lat, lng: place.lng, kind: 'waypoint' as const })),
+      ...route.steps.map(step => ({
+        name: getStepInstruction(step),
+        description: formatDistance(step.distance),
+        lat: step.start_location.lat,
+        lng: step.start_location.lng,
+        kind: 'step' as const
+      }))
+    ]
+  }
+}
+
+export const placesDocument = (name: string, places: SelectedPlace[]): GeoDocument => ({
+  name,
+  tracks: [],
+  points: places.map(place => ({ name: place.name, description: place.address, lat: place.lat, lng: place.lng, kind: 'place' }))
+})
+
+const toPlace = (point: GeoPoint): SelectedPlace => ({
+  name: point.name,
+  address: point.description ?? `${point.lat.toFixed(5)}, ${point.lng.toFixed(5)}`,
+  lat: point.lat,
+  lng: point.lng
+})
+
+// Stops for a route through an imported file: its marked waypoints, or else every point that
+// isn't a turn, or else the two ends of its first line
+export const documentStops = (doc: GeoDocument): SelectedPlace[] => {
+  const waypoints = doc.points.filter(point => point.kind === 'waypoint')
+  const points = waypoints.length > 0 ? waypoints : doc.points.filter(point => point.kind !== 'step')
+  if (points.length > 0) return points.map(toPlace)
+
+  const line = doc.tracks[0]?.coordinates ?? []
+  if (line.length < 2) return []
+  const [[startLng, startLat], [endLng, endLat]] = [line[0], line[line.length - 1]]
+  return [
+    toPlace({ name: `Start of ${doc.tracks[0].name}`, lat: startLat, lng: startLng }),
+    toPlace({ name: `End of ${doc.tracks[0].name}`, lat: endLat, lng: endLng })
+  ]
+}
+
+// Places worth saving from an imported file: every point except a route's turns
+export const documentPlaces = (doc: GeoDocument): SelectedPlace[] =>
+  doc.points.filter(point => point.kind !== 'step').map(toPlace)
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import { ISOCHRONE_BEARINGS, ISOCHRONE_RINGS, isochroneFeatures, isochroneRadius, isochroneRing, parseMinutes, polarGrid } from './isochrone'
+import { haversineDistance } from './geo'
+
+const center = { lat: 28.6139, lng: 77.209 }
+const RADIUS = 6000
+
+// Travel times for a grid where every ring is a minute further out
+const timesByRing = (secondsPerRing: number) =>
+  Array.from({ length: ISOCHRONE_RINGS * ISOCHRONE_BEARINGS }, (_, i) => (Math.floor(i / ISOCHRONE_BEARINGS) + 1) * secondsPerRing)
+
+const distances = (ring: number[][]) => ring.map(([lng, lat]) => haversineDistance(center, { lat, lng }))
+
+describe('polarGrid', () => {
+  it('places every ring of points evenly out to the radius', () => {
+    const grid = polarGrid(center, RADIUS)
+
+    expect(grid).toHaveLength(ISOCHRONE_RINGS * ISOCHRONE_BEARINGS)
+    expect(haversineDistance(center, grid[0])).toBeCloseTo(RADIUS / ISOCHRONE_RINGS, 0)
+    expect(haversineDistance(center, grid[grid.length - 1])).toBeCloseTo(RADIUS, 0)
+    expect(grid[0].lat).toBeGreaterThan(center.lat)
+  })
+})
+
+describe('isochroneRing', () => {
+  it('puts the contour where the travel time crosses the threshold', () => {
+    // 1000 m per minute, so 2.5 minutes is halfway between the second and third rings
+    const ring = isochroneRing(center, RADIUS, timesByRing(60), 150)
+
+    expect(ring).toHaveLength(ISOCHRONE_BEARINGS + 1)
+    expect(ring[ring.length - 1]).toEqual(ring[0])
+    distances(ring).forEach(distance => expect(distance).toBeCloseTo(2500, 0))
+  })
+
+  it('stops at unreachable points and at the edge of the grid', () => {
+    const times: (number | null)[] = timesByRing(60)
+    times[2 * ISOCHRONE_BEARINGS] = null
+
+    const ring = isochroneRing(center, RADIUS, times, 60 * 60)
+
+    expect(distances(ring)[0]).toBeCloseTo(2000, 0)
+    expect(distances(ring)[1]).toBeCloseTo(RADIUS, 0)
+  })
+})
+
+describe('isochroneFeatures', () => {
+  it('returns a polygon per threshold, largest first', () => {
+    const collection = isochroneFeatures(center, RADIUS, timesByRing(60), [2, 5], 'walking')
+
+    expect(collection.features.map(feature => feature.properties)).toEqual([
+      { minutes: 5, mode: 'walking' },
+      { minutes: 2, mode: 'walking' }
+    ])
+  })
+})
+
+describe('isochroneRadius', () => {
+  it('reaches further for faster modes and keeps scooters to their top speed', () => {
+    expect(isochroneRadius('driving', 10)).toBeGreaterThan(isochroneRadius('walking', 10))
+    expect(isochroneRadius('electric_scooter', 10, 18)).toBe(3000)
+  })
+})
+
+describe('parseMinutes', () => {
+  it('reads sorted, distinct whole minutes', () => {
+    expect(parseMinutes('15, 5 10,5')).toEqual([5, 10, 15])
+  })
+
+  it('rejects empty, fractional and out-of-range values', () => {
+    expect(parseMinutes('')).toBeNull()
+    expect(parseMinutes('2.5')).toBeNull()
+    expect(parseMinutes('0, 10')).toBeNull()
+    expect(parseMinutes('90')).toBeNull()
+  })
+})
@@ -0,0 +1,86 @@
+import type { TravelMode } from '../types'
+import { destinationPoint, type LatLng } from './geo'
+
+// Reachability is sampled on a polar grid: rings of points at even spacing out to a radius, each
+// ring with a point on every bearing. Travel times from the centre to each point are then read
+// outwards along each bearing, and the distance where the time crosses a threshold becomes a
+// vertex of that threshold's polygon. Areas cut off behind an unreachable point (a river, say)
+// are left out rather than guessed at.
+
+export const ISOCHRONE_RINGS = 6
+export const ISOCHRONE_BEARINGS = 24
+// Most minutes a threshold can be; the grid would be too coarse to say much beyond this
+export const MAX_ISOCHRONE_MINUTES = 60
+
+// A generous average speed for each mode in m/s, so the grid reaches past the outermost contour
+const REACH_SPEED_MPS: Record<TravelMode, number> = {
+  driving: 12,
+  electric_scooter: 10,
+  bicycling: 5,
+  walking: 1.6
+}
+
+// How far out to sample for the longest threshold. Scooters go no further than their top speed allows.
+export const isochroneRadius = (mode: TravelMode, maxMinutes: number, topSpeedKmh?: number): number => {
+  const speed = mode === 'electric_scooter' && topSpeedKmh ? Math.min(REACH_SPEED_MPS[mode], topSpeedKmh / 3.6) : REACH_SPEED_MPS[mode]
+  return Math.round(speed * maxMinutes * 60)
+}
+
+// Grid points, ring by ring from the innermost, each ring starting due north and going clockwise
+export const polarGrid = (center: LatLng, radius: number): LatLng[] => {
+  const points: LatLng[] = []
+  for (let ring = 1; ring <= ISOCHRONE_RINGS; ring++) {
+    for (let b = 0; b < ISOCHRONE_BEARINGS; b++) {
+      points.push(destinationPoint(center, (b * 360) / ISOCHRONE_BEARINGS, (radius * ring) / ISOCHRONE_RINGS))
+    }
+  }
+  return points
+}
+
+// The closed [lng, lat] ring within `seconds` of the centre. times[i] is the travel time in
+// seconds to polarGrid()[i], or null where there is no route.
+export const isochroneRing = (center: LatLng, radius: number, times: (number | null)[], seconds: number): number[][] => {
+  const step = radius / ISOCHRONE_RINGS
+  const ring: number[][] = []
+
+  for (let b = 0; b < ISOCHRONE_BEARINGS; b++) {
+    let previousTime = 0
+    // With every sample along the bearing in time, the edge is the grid's
+    let reach = radius
+    for (let r = 1; r <= ISOCHRONE_RINGS; r++) {
+      const time = times[(r - 1) * ISOCHRONE_BEARINGS + b]
+      if (time === null || time === undefined) {
+        reach = (r - 1) * step
+        break
+      }
+      if (time > seconds) {
+        const fraction = time > previousTime ? (seconds - previousTime) / (time - previousTime) : 0
+        reach = (r - 1 + fraction) * step
+        break
+      }
+      previousTime = time
+    }
+    const { lat, lng } = destinationPoint(center, (b * 360) / ISOCHRONE_BEARINGS, reach)
+    ring.push([lng, lat])
+  }
+
+  ring.push(ring[0])
+  return ring
+}
+
+// One polygon per threshold, largest first so smaller ones are drawn on top
+export const isochroneFeatures = (center: LatLng, radius: number, times: (number | null)[], minutes: number[], mode: TravelMode) => ({
+  type: 'FeatureCollection' as const,
+  features: [...minutes].sort((a, b) => b - a).map(limit => ({
+    type: 'Feature' as const,
+    properties: { minutes: limit, mode },
+    geometry: { type: 'Polygon' as const, coordinates: [isochroneRing(center, radius, times, limit * 60)] }
+  }))
+})
+
+// Minute thresholds from text such as "5, 10, 15", sorted and without repeats
+export const parseMinutes = (text: string): number[] | null => {
+  const values = text.split(/[\s,]+/).filter(Boolean).map(Number)
+  if (values.length === 0 || values.some(value => !Number.isInteger(value) || value < 1 || value > MAX_ISOCHRONE_MINUTES)) return null
+  return Array.from(new Set(values)).sort((a, b) => a - b)
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { decodePolyline, encodePolyline } from './polyline'
+
+describe('decodePolyline', () => {
+  it('decodes the reference polyline into [lng, lat] pairs', () => {
+    expect(decodePolyline('_p~iF~ps|U_ulLnnqC_mqNvxq`@')).toEqual([
+      [-120.2, 38.5],
+      [-120.95, 40.7],
+      [-126.453, 43.252]
+    ])
+  })
+
+  it('returns no coordinates for an empty string', () => {
+    expect(decodePolyline('')).toEqual([])
+  })
+
+  it('round-trips with encodePolyline', () => {
+    const coordinates = [
+      [77.2167, 28.6315],
+      [77.2195, 28.6129],
+      [77.2295, 28.6129]
+    ]
+    expect(decodePolyline(encodePolyline(coordinates))).toEqual(coordinates)
+  })
+
+  it('keeps negative deltas when the route turns back', () => {
+    const coordinates = [
+      [77.5946, 12.9716],
+      [77.5, 12.9],
+      [77.6, 13.0]
+    ]
+    expect(decodePolyline(encodePolyline(coordinates))).toEqual(coordinates)
+  })
+})
@@ -0,0 +1,69 @@
+// Google encoded polyline format (precision 5), as used by Ola's overview_polyline
+
+const encodeValue = (value: number): string => {
+  let v = value < 0 ? ~(value << 1) : value << 1
+  let output = ''
+  while (v >= 0x20) {
+    output += String.fromCharCode((0x20 | (v & 0x1f)) + 63)
+    v >>= 5
+  }
+  return output + String.fromCharCode(v + 63)
+}
+
+// Encode [lng, lat] pairs, the same ordering decodePolyline returns
+export const encodePolyline = (coordinates: number[][]): string => {
+  let lastLat = 0
+  let lastLng = 0
+
+  return coordinates
+    .map(([lng, lat]) => {
+      const latE5 = Math.round(lat * 1e5)
+      const lngE5 = Math.round(lng * 1e5)
+      const chunk = encodeValue(latE5 - lastLat) + encodeValue(lngE5 - lastLng)
+      lastLat = latE5
+      lastLng = lngE5
+      return chunk
+    })
+    .join('')
+}
+
+// Decode to [lng, lat] pairs, ready for GeoJSON
+export const decodePolyline = (encoded: string): number[][] => {
+  const coordinates: number[][] = []
+  let index = 0
+  let lat = 0
+  let lng = 0
+
+  while (index < encoded.length) {
+    let b: number
+    let shift = 0
+    let result = 0
+
+    // Decode latitude
+    do {
+      b = encoded.charCodeAt(index++) - 63
+      result |= (b & 0x1f) << shift
+      shift += 5
+    } while (b >= 0x20)
+
+    const deltaLat = (result & 1) !== 0 ? ~(result >> 1) : result >> 1
+    lat += deltaLat
+
+    shift = 0
+    result = 0
+
+    // Decode longitude
+    do {
+      b = encoded.charCodeAt(index++) - 63
+      result |= (b & 0x1f) << shift
+      shift += 5
+    } while (b >= 0x20)
+
+    const deltaLng = (result & 1) !== 0 ? ~(result >> 1) : result >> 1
+    lng += deltaLng
+
+    coordinates.push([lng / 1e5, lat / 1e5])
+  }
+
+  return coordinates
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from 'vitest'
+import { applyRouteLayers, EMPTY_ROUTE_LAYERS, planRouteLayers, trafficFeatures, ROUTE_COLORS } from './routeLayers'
+import { encodePolyline } from './polyline'
+import type { RouteInfo } from '../types'
+
+const line = [[77.2, 28.6], [77.21, 28.6], [77.22, 28.61], [77.23, 28.61], [77.24, 28.62]]
+
+const route = (routeIndex: number, travelAdvisory?: string, coordinates: number[][] = line): RouteInfo => ({
+  routeIndex,
+  summary: `Route ${routeIndex}`,
+  distance: '3 km',
+  duration: '10 min',
+  legs: [],
+  steps: [],
+  geometry: encodePolyline(coordinates),
+  travelAdvisory
+})
+
+const createMap = () => {
+  const source = { setData: vi.fn() }
+  return {
+    source,
+    getLayer: vi.fn(() => true),
+    getSource: vi.fn(() => source),
+    addSource: vi.fn(),
+    addLayer: vi.fn(),
+    removeLayer: vi.fn(),
+    removeSource: vi.fn(),
+    setPaintProperty: vi.fn(),
+    moveLayer: vi.fn()
+  }
+}
+
+describe('trafficFeatures', () => {
+  it('splits the line into runs of equal congestion', () => {
+    const features = trafficFeatures(line, '0,1,0 | 1,3,12 | 3,4,0', 0)
+
+    expect(features.map(f => f.properties.congestion)).toEqual(['none', 'high', 'none'])
+    expect(features.map(f => f.geometry.coordinates)).toEqual([line.slice(0, 2), line.slice(1, 4), line.slice(3)])
+  })
+
+  it('treats stretches without advice as free-flowing', () => {
+    const features = trafficFeatures(line, '1,2,7', 2)
+
+    expect(features.map(f => f.properties)).toEqual([
+      { routeIndex: 2, congestion: 'none' },
+      { routeIndex: 2, congestion: 'medium' },
+      { routeIndex: 2, congestion: 'none' }
+    ])
+  })
+})
+
+describe('planRouteLayers', () => {
+  it('stacks the muted alternatives under the selected route', () => {
+    const plan = planRouteLayers([route(1), route(2), route(3)], 1, 'driving')
+
+    expect(plan.sources.map(s => s.id)).toEqual(['route-0', 'route-1', 'route-2'])
+    expect(plan.layers.map(l => l.id)).toEqual([
+      'route-0-casing', 'route-0-line', 'route-2-casing', 'route-2-line', 'route-1-casing', 'route-1-line'
+    ])
+    expect(plan.layers[1].paint['line-color']).toBe('#9CA3AF')
+    expect(plan.layers[5].paint['line-color']).toEqual(expect.arrayContaining(['match', ROUTE_COLORS.driving]))
+  })
+})
+
+describe('applyRouteLayers', () => {
+  it('adds everything the first time', () => {
+    const map = createMap()
+    const plan = planRouteLayers([route(1), route(2)], 0, 'driving')
+
+    expect(applyRouteLayers(map, EMPTY_ROUTE_LAYERS, plan)).toBe(plan)
+    expect(map.addSource.mock.calls.map(([id]) => id)).toEqual(['route-0', 'route-1'])
+    expect(map.addLayer.mock.calls.map(([layer]) => layer.id)).toEqual(plan.layers.map(l => l.id))
+  })
+
+  it('restyles and restacks layers in place when another route is selected', () => {
+    const map = createMap()
+    const routes = [route(1), route(2)]
+    const first = applyRouteLayers(map, EMPTY_ROUTE_LAYERS, planRouteLayers(routes, 0, 'driving'))
+    map.addSource.mockClear()
+    map.addLayer.mockClear()
+
+    applyRouteLayers(map, first, planRouteLayers(routes, 1, 'driving'))
+
+    expect(map.addSource).not.toHaveBeenCalled()
+    expect(map.addLayer).not.toHaveBeenCalled()
+    expect(map.removeLayer).not.toHaveBeenCalled()
+    expect(map.source.setData).not.toHaveBeenCalled()
+    expect(map.setPaintProperty).toHaveBeenCalledWith('route-0-line', 'line-color', '#9CA3AF')
+    expect(map.moveLayer.mock.calls.map(([id]) => id)).toEqual(['route-0-casing', 'route-0-line', 'route-1-casing', 'route-1-line'])
+  })
+
+  it('drops the layers of routes a recalculation no longer returns and updates changed data', () => {
+    const map = createMap()
+    const first = applyRouteLayers(map, EMPTY_ROUTE_LAYERS, planRouteLayers([route(1), route(2), route(3)], 2, 'driving'))
+
+    applyRouteLayers(map, first, planRouteLayers([route(1, '0,2,12')], 0, 'driving'))
+
+    expect(map.removeLayer.mock.calls.map(([id]) => id)).toEqual(['route-1-casing', 'route-1-line', 'route-2-casing', 'route-2-line'])
+    expect(map.removeSource.mock.calls.map(([id]) => id)).toEqual(['route-1', 'route-2'])
+    expect(map.source.setData).toHaveBeenCalledTimes(1)
+  })
+
+  it('removes everything for an empty plan', () => {
+    const map = createMap()
+    const first = applyRouteLayers(map, EMPTY_ROUTE_LAYERS, planRouteLayers([route(1)], 0, 'walking'))
+
+    expect(applyRouteLayers(map, first, EMPTY_ROUTE_LAYERS)).toBe(EMPTY_ROUTE_LAYERS)
+    expect(map.removeLayer).toHaveBeenCalledTimes(2)
+    expect(map.removeSource).toHaveBeenCalledWith('route-0')
+  })
+})
@@ -0,0 +1,203 @@
+import type { RouteInfo, TravelMode } from '../types'
+import { congestionLevel, parseTrafficSegments, type CongestionLevel } from './directions'
+import { decodePolyline } from './polyline'
+
+// Map layers for the calculated alternatives. Every route gets a source and a casing and line
+// layer under ids that stay the same across redraws (route-0, route-0-casing, route-0-line), so
+// switching routes restyles layers in place and a recalculation only adds or drops the difference.
+
+export const ROUTE_COLORS: Record<TravelMode, string> = {
+  driving: '#FF6B35',
+  walking: '#4CAF50',
+  bicycling: '#2196F3',
+  electric_scooter: '#9C27B0'
+}
+
+export const ROUTE_WIDTHS: Record<TravelMode, number> = {
+  driving: 6,
+  walking: 4,
+  bicycling: 5,
+  electric_scooter: 5
+}
+
+// Congested stretches of the selected route; free-flowing ones keep the travel mode's colour.
+// Matches the traffic dots in the route list.
+export const CONGESTION_COLORS: Record<Exclude<CongestionLevel, 'none'>, string> = {
+  low: '#FB923C',
+  medium: '#EAB308',
+  high: '#EF4444'
+}
+
+const ALTERNATIVE_COLOR = '#9CA3AF'
+
+export const routeSourceId = (index: number) => `route-${index}`
+export const routeLineLayerId = (index: number) => `route-${index}-line`
+const routeCasingLayerId = (index: number) => `route-${index}-casing`
+
+export interface RouteFeatureProperties {
+  routeIndex: number
+  congestion: CongestionLevel
+}
+
+export interface RouteFeature {
+  type: 'Feature'
+  properties: RouteFeatureProperties
+  geometry: { type: 'LineString'; coordinates: number[][] }
+}
+
+export interface RouteFeatureCollection {
+  type: 'FeatureCollection'
+  features: RouteFeature[]
+}
+
+export interface RouteSourcePlan {
+  id: string
+  // Changes whenever the data does, so unchanged sources aren't re-uploaded
+  key: string
+  data: RouteFeatureCollection
+}
+
+export interface RouteLayerSpec {
+  id: string
+  type: 'line'
+  source: string
+  layout: Record<string, unknown>
+  paint: Record<string, unknown>
+}
+
+export interface RouteLayerPlan {
+  sources: RouteSourcePlan[]
+  // Bottom to top
+  layers: RouteLayerSpec[]
+}
+
+// The line split into runs of equal congestion. travel_advisory indexes the decoded overview
+// polyline; stretches it doesn't cover count as free-flowing.
+export const trafficFeatures = (coordinates: number[][], travelAdvisory: string | undefined, routeIndex: number): RouteFeature[] => {
+  const segments = parseTrafficSegments(travelAdvisory)
+  const levelAt = (i: number): CongestionLevel => {
+    const segment = segments.find(s => s.start <= i && i < s.end)
+    return segment ? congestionLevel(segment.congestion) : 'none'
+  }
+
+  const features: RouteFeature[] = []
+  for (let i = 0; i < coordinates.length - 1; i++) {
+    const congestion = levelAt(i)
+    const last = features[features.length - 1]
+    if (last && last.properties.congestion === congestion) {
+      last.geometry.coordinates.push(coordinates[i + 1])
+    } else {
+      features.push({
+        type: 'Feature',
+        properties: { routeIndex, congestion },
+        geometry: { type: 'LineString', coordinates: [coordinates[i], coordinates[i + 1]] }
+      })
+    }
+  }
+  return features
+}
+
+const ROUND_LINE = { 'line-join': 'round', 'line-cap': 'round' }
+
+// What the map should show for these routes: the alternatives muted underneath and the
+// selected one on top, coloured by congestion. Routes without geometry are left out.
+export const planRouteLayers = (routes: RouteInfo[], selectedIndex: number, travelMode: TravelMode): RouteLayerPlan => {
+  const width = ROUTE_WIDTHS[travelMode]
+  const sources: RouteSourcePlan[] = []
+  const alternatives: RouteLayerSpec[] = []
+  const selected: RouteLayerSpec[] = []
+
+  routes.forEach((route, index) => {
+    if (!route.geometry) return
+    const source = routeSourceId(index)
+    sources.push({
+      id: source,
+      key: `${route.geometry}|${route.travelAdvisory ?? ''}`,
+      data: { type: 'FeatureCollection', features: trafficFeatures(decodePolyline(route.geometry), route.travelAdvisory, index) }
+    })
+
+    const isSelected = index === selectedIndex
+    const casing: RouteLayerSpec = {
+      id: routeCasingLayerId(index),
+      type: 'line',
+      source,
+      layout: ROUND_LINE,
+      paint: {
+        'line-color': '#FFFFFF',
+        'line-width': isSelected ? width + 3 : width + 1,
+        'line-opacity': isSelected ? 0.9 : 0.6
+      }
+    }
+    const line: RouteLayerSpec = {
+      id: routeLineLayerId(index),
+      type: 'line',
+      source,
+      layout: ROUND_LINE,
+      paint: isSelected
+        ? {
+            'line-color': [
+              'match', ['get', 'congestion'],
+              'low', CONGESTION_COLORS.low,
+              'medium', CONGESTION_COLORS.medium,
+              'high', CONGESTION_COLORS.high,
+              ROUTE_COLORS[travelMode]
+            ],
+            'line-width': width,
+            'line-opacity': 0.9
+          }
+        : {
+            'line-color': ALTERNATIVE_COLOR,
+            'line-width': Math.max(width - 2, 2),
+            'line-opacity': 0.7
+          }
+    }
+    ;(isSelected ? selected : alternatives).push(casing, line)
+  })
+
+  return { sources, layers: [...alternatives, ...selected] }
+}
+
+export const EMPTY_ROUTE_LAYERS: RouteLayerPlan = { sources: [], layers: [] }
+
+const samePaint = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+// Brings the map from one plan to the next: drops what is no longer wanted, adds what is new,
+// re-uploads changed data, restyles layers in place and restacks them into the planned order.
+// Returns the plan now on the map, to pass back as `current` next time.
+export const applyRouteLayers = (map: any, current: RouteLayerPlan, next: RouteLayerPlan): RouteLayerPlan => {
+  const nextLayers = new Set(next.layers.map(layer => layer.id))
+  const nextSources = new Set(next.sources.map(source => source.id))
+
+  current.layers.forEach(layer => {
+    if (!nextLayers.has(layer.id) && map.getLayer(layer.id)) map.removeLayer(layer.id)
+  })
+  current.sources.forEach(source => {
+    if (!nextSources.has(source.id) && map.getSource(source.id)) map.removeSource(source.id)
+  })
+
+  const currentSources = new Map(current.sources.map(source => [source.id, source]))
+  next.sources.forEach(source => {
+    const existing = currentSources.get(source.id)
+    if (!existing || !map.getSource(source.id)) {
+      map.addSource(source.id, { type: 'geojson', data: source.data })
+    } else if (existing.key !== source.key) {
+      map.getSource(source.id).setData(source.data)
+    }
+  })
+
+  const currentLayers = new Map(current.layers.map(layer => [layer.id, layer]))
+  next.layers.forEach(layer => {
+    const existing = currentLayers.get(layer.id)
+    if (!existing || !map.getLayer(layer.id)) {
+      // Added on top, so adding in plan order stacks them correctly
+      map.addLayer(layer)
+      return
+    }
+    Object.entries(layer.paint).forEach(([property, value]) => {
+      if (!samePaint(existing.paint[property], value)) map.setPaintProperty(layer.id, property, value)
+    })
+    map.moveLayer(layer.id)
+  })
+
+  return next
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { applyScooterProfile, assessScooterRoute, sampleRoute, type ScooterSettings } from './scooterProfile'
+import { encodePolyline } from './polyline'
+import type { RouteInfo, SpeedLimitPoint } from '../types'
+
+const settings: ScooterSettings = { scooter_top_speed_kmh: 45, scooter_max_road_speed_kmh: 60, scooter_range_km: 80 }
+
+// 2 km in two equal halves, which Ola drives in 2 minutes
+const route = (routeIndex: number): RouteInfo => ({
+  routeIndex,
+  summary: `Route ${routeIndex}`,
+  distance: '2.0 km',
+  duration: '2 min',
+  legs: [{ distance: '2.0 km', duration: '2 min', distanceMetres: 2000, durationSeconds: 120 }],
+  steps: [],
+  geometry: encodePolyline([[77.2, 28.6], [77.21, 28.6], [77.22, 28.6]])
+})
+
+const limits = (...speeds: (number | null)[]): SpeedLimitPoint[] =>
+  speeds.map((speed_limit, i) => ({ location: { lat: 28.6, lng: 77.2 + i * 0.01 }, original_index: i, speed_limit }))
+
+describe('sampleRoute', () => {
+  it('keeps both ends and at most the requested number of points', () => {
+    const line = Array.from({ length: 250 }, (_, i) => [77.2 + i * 0.0001, 28.6])
+    const { points, along } = sampleRoute({ ...route(1), geometry: encodePolyline(line) }, 100)
+
+    expect(points.length).toBeLessThanOrEqual(100)
+    expect(points[0]).toEqual({ lat: 28.6, lng: 77.2 })
+    expect(points[points.length - 1].lng).toBeCloseTo(77.2249)
+    expect(along[0]).toBe(0)
+  })
+})
+
+describe('assessScooterRoute', () => {
+  it('caps the speed on fast stretches and measures the roads over the rider\'s limit', () => {
+    // A 30 km/h street, then a 90 km/h road: the car takes 90 s and 30 s, the scooter 90 s and 80 s
+    const estimate = assessScooterRoute(route(1), limits(30, 90, null), settings)
+
+    expect(estimate).toMatchObject({ durationSeconds: 170, carDurationSeconds: 120, fastRoadMetres: 1000, batteryPercent: 3 })
+    // Half the route is expressway
+    expect(estimate.score).toBeCloseTo(255)
+  })
+
+  it('ignores points the API adds between the samples', () => {
+    const [first, second] = limits(30, null)
+    const added = { location: { lat: 28.6, lng: 77.205 }, speed_limit: 90 }
+
+    expect(assessScooterRoute(route(1), [first, added, second], settings)).toEqual(assessScooterRoute(route(1), [first, second], settings))
+  })
+
+  it('falls back to the top speed alone without limits', () => {
+    expect(assessScooterRoute(route(1), [], settings)).toMatchObject({ durationSeconds: 160, fastRoadMetres: 0, score: 160 })
+  })
+})
+
+describe('applyScooterProfile', () => {
+  it('drops routes over fast roads when there is another way and slows the rest to the scooter', () => {
+    const [only, ...rest] = applyScooterProfile([route(1), route(2)], [limits(30, 90, null), limits(30, 30, null)], settings)
+
+    expect(rest).toEqual([])
+    expect(only).toMatchObject({ routeIndex: 2, duration: '3 min', scooter: { durationSeconds: 160 } })
+    expect(only.legs[0].durationSeconds).toBe(160)
+  })
+
+  it('keeps fast routes when every route uses them, quietest first', () => {
+    const ranked = applyScooterProfile([route(1), route(2)], [limits(90, 90, null), limits(30, 90, null)], settings)
+
+    expect(ranked.map(r => r.routeIndex)).toEqual([2, 1])
+    expect(ranked.every(r => r.scooter!.fastRoadMetres > 0)).toBe(true)
+  })
+})
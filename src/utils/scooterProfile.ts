@@ -0,0 +1,129 @@
+import type { RouteInfo, ScooterEstimate, SpeedLimitPoint, UserPreferences } from '../types'
+import { cumulativeDistances, type LatLng } from './geo'
+import { formatDuration } from './directions'
+import { decodePolyline } from './polyline'
+
+// Ola has no two-wheeler profile, so scooter routes come from driving directions and are judged
+// here from the speed limits along them: roads signed faster than the rider wants are dropped
+// when there is another way, quieter roads are preferred, and the ETA allows for the scooter's
+// top speed.
+
+export type ScooterSettings = Pick<UserPreferences, 'scooter_top_speed_kmh' | 'scooter_max_road_speed_kmh' | 'scooter_range_km'>
+
+// Points sent to the speed limits API per route
+export const MAX_SPEED_LIMIT_SAMPLES = 100
+// Fast stretches shorter than this are ignored; crossing a main road at a junction snaps onto it
+export const FAST_ROAD_TOLERANCE_METRES = 150
+// Limits from which a road counts as an arterial or an expressway, in km/h
+const ARTERIAL_KMH = 50
+const EXPRESSWAY_KMH = 80
+// Extra weight on time spent on each class of road when ranking
+const ARTERIAL_PENALTY = 0.25
+const EXPRESSWAY_PENALTY = 1
+
+export interface RouteSamples {
+  points: LatLng[]
+  // Metres along the route geometry at each point
+  along: number[]
+}
+
+// Evenly spaced points along a route, first and last included
+export const sampleRoute = (route: RouteInfo, maxSamples: number = MAX_SPEED_LIMIT_SAMPLES): RouteSamples => {
+  if (!route.geometry) return { points: [], along: [] }
+  const line = decodePolyline(route.geometry)
+  const distances = cumulativeDistances(line)
+  const step = Math.max(1, Math.ceil((line.length - 1) / (maxSamples - 1)))
+
+  const indices: number[] = []
+  for (let i = 0; i < line.length - 1; i += step) indices.push(i)
+  indices.push(line.length - 1)
+
+  return {
+    points: indices.map(i => ({ lat: line[i][1], lng: line[i][0] })),
+    along: indices.map(i => distances[i])
+  }
+}
+
+const routeTotals = (route: RouteInfo) => ({
+  metres: route.legs.reduce((sum, leg) => sum + leg.distanceMetres, 0),
+  seconds: route.legs.reduce((sum, leg) => sum + leg.durationSeconds, 0)
+})
+
+// Share of the scooter's range a trip uses, in percent
+const batteryPercent = (metres: number, settings: ScooterSettings): number =>
+  settings.scooter_range_km > 0 ? Math.round(metres / 10 / settings.scooter_range_km) : 0
+
+// Works out a route's scooter ETA, battery use and ranking score from the limits at its samples.
+// Each stretch takes the limit at its start; Ola's car ETA is spread across stretches in
+// proportion to their limits, and the scooter can go no faster than its top speed on any of them.
+export const assessScooterRoute = (route: RouteInfo, limits: SpeedLimitPoint[], settings: ScooterSettings): ScooterEstimate => {
+  const { metres, seconds } = routeTotals(route)
+  const { along } = sampleRoute(route)
+  const lineLength = along.length > 0 ? along[along.length - 1] : 0
+  const scale = lineLength > 0 ? metres / lineLength : 0
+
+  const limitAt: (number | null)[] = along.map(() => null)
+  limits.forEach(point => {
+    // Points the API adds along the road have no sample to belong to
+    const index = point.original_index
+    if (index !== undefined && index < limitAt.length && point.speed_limit) limitAt[index] = point.speed_limit
+  })
+
+  const stretches = along.slice(0, -1)
+    .map((start, i) => ({ metres: (along[i + 1] - start) * scale, limit: limitAt[i] }))
+    .filter(stretch => stretch.metres > 0)
+  if (stretches.length === 0 || seconds === 0) {
+    return { durationSeconds: seconds, carDurationSeconds: seconds, batteryPercent: batteryPercent(metres, settings), fastRoadMetres: 0, score: seconds }
+  }
+
+  // Stretches without a limit are taken to move at the route's typical speed
+  const known = stretches.filter(stretch => stretch.limit !== null)
+  const knownMetres = known.reduce((sum, stretch) => sum + stretch.metres, 0)
+  const typicalLimit = knownMetres > 0 ? known.reduce((sum, stretch) => sum + stretch.limit! * stretch.metres, 0) / knownMetres : 1
+  const limitOf = (stretch: { limit: number | null }) => stretch.limit ?? typicalLimit
+
+  // Car speed (m/s) per km/h of limit, so that the stretches add up to Ola's ETA
+  const metresPerSecondPerKmh = stretches.reduce((sum, stretch) => sum + stretch.metres / limitOf(stretch), 0) / seconds
+  const topSpeed = settings.scooter_top_speed_kmh / 3.6
+
+  let scooterSeconds = 0
+  let fastRoadMetres = 0
+  let arterialMetres = 0
+  let expresswayMetres = 0
+  stretches.forEach(stretch => {
+    const limit = limitOf(stretch)
+    scooterSeconds += stretch.metres / Math.min(metresPerSecondPerKmh * limit, topSpeed)
+    if (stretch.limit === null) return
+    if (stretch.limit > settings.scooter_max_road_speed_kmh) fastRoadMetres += stretch.metres
+    if (stretch.limit >= EXPRESSWAY_KMH) expresswayMetres += stretch.metres
+    else if (stretch.limit >= ARTERIAL_KMH) arterialMetres += stretch.metres
+  })
+
+  const durationSeconds = Math.round(scooterSeconds)
+  return {
+    durationSeconds,
+    carDurationSeconds: seconds,
+    batteryPercent: batteryPercent(metres, settings),
+    fastRoadMetres: Math.round(fastRoadMetres),
+    score: durationSeconds * (1 + (ARTERIAL_PENALTY * arterialMetres + EXPRESSWAY_PENALTY * expresswayMetres) / metres)
+  }
+}
+
+// The route with its durations replaced by the scooter's, each leg slowed by the same factor
+const withScooterEstimate = (route: RouteInfo, estimate: ScooterEstimate): RouteInfo => {
+  const factor = estimate.carDurationSeconds > 0 ? estimate.durationSeconds / estimate.carDurationSeconds : 1
+  const legs = route.legs.map(leg => {
+    const durationSeconds = Math.round(leg.durationSeconds * factor)
+    return { ...leg, durationSeconds, duration: formatDuration(durationSeconds) }
+  })
+  return { ...route, legs, duration: formatDuration(estimate.durationSeconds), scooter: estimate }
+}
+
+// Adjusts each route's durations for the scooter, drops routes over fast roads unless every
+// route uses them, and ranks the rest best first. limitsByRoute[i] holds the speed limits at
+// sampleRoute(routes[i]); an empty list (limits unavailable) leaves only the top speed cap.
+export const applyScooterProfile = (routes: RouteInfo[], limitsByRoute: SpeedLimitPoint[][], settings: ScooterSettings): RouteInfo[] => {
+  const assessed = routes.map((route, i) => withScooterEstimate(route, assessScooterRoute(route, limitsByRoute[i] ?? [], settings)))
+  const suitable = assessed.filter(route => route.scooter!.fastRoadMetres <= FAST_ROAD_TOLERANCE_METRES)
+  return (suitable.length > 0 ? suitable : assessed).sort((a, b) => a.scooter!.score - b.scooter!.score)
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import {
+  PHASE_DURATIONS,
+  advanceSignal,
+  getInitialCountdown,
+  getInitialState,
+  type SignalPhase,
+  type SimulatedSignal
+} from './signals'
+
+const makeSignal = (currentState: SignalPhase, countdown: number, completedCycles = 0): SimulatedSignal => ({
+  id: 'signal_1',
+  lat: 28.6315,
+  lng: 77.2167,
+  name: 'Traffic Signal 1',
+  currentState,
+  countdown,
+  pedestrianWalk: currentState === 'walk',
+  cycleCount: 0,
+  completedCycles
+})
+
+// Tick until the phase changes, returning the signal in its new phase
+const runPhase = (signal: SimulatedSignal): SimulatedSignal => {
+  let next = signal
+  do {
+    next = advanceSignal(next)
+  } while (next.currentState === signal.currentState)
+  return next
+}
+
+describe('advanceSignal', () => {
+  it('counts down within a phase', () => {
+    const next = advanceSignal(makeSignal('red', 10))
+    expect(next.currentState).toBe('red')
+    expect(next.countdown).toBe(9)
+  })
+
+  it('turns red into green for 30 seconds', () => {
+    const next = advanceSignal(makeSignal('red', 1))
+    expect(next).toMatchObject({ currentState: 'green', countdown: 30, pedestrianWalk: false })
+  })
+
+  it('turns green into yellow for 6 seconds', () => {
+    const next = advanceSignal(makeSignal('green', 1))
+    expect(next).toMatchObject({ currentState: 'yellow', countdown: 6 })
+  })
+
+  it('returns yellow to red and counts the completed cycle', () => {
+    const next = advanceSignal(makeSignal('yellow', 1))
+    expect(next).toMatchObject({ currentState: 'red', countdown: 45, completedCycles: 1 })
+  })
+
+  it('shows the walk phase after every second cycle', () => {
+    const next = advanceSignal(makeSignal('yellow', 1, 1))
+    expect(next).toMatchObject({ currentState: 'walk', countdown: 20, pedestrianWalk: true, completedCycles: 0 })
+  })
+
+  it('keeps the pedestrian signal on for the whole walk phase', () => {
+    const next = advanceSignal(makeSignal('walk', 12))
+    expect(next.pedestrianWalk).toBe(true)
+  })
+
+  it('returns from walk to red', () => {
+    const next = advanceSignal(makeSignal('walk', 1))
+    expect(next).toMatchObject({ currentState: 'red', countdown: 45, pedestrianWalk: false })
+  })
+
+  it('runs the full sequence with the documented durations', () => {
+    let signal = makeSignal('red', PHASE_DURATIONS.red)
+    const phases: SignalPhase[] = []
+    for (let i = 0; i < 7; i++) {
+      signal = runPhase(signal)
+      phases.push(signal.currentState)
+    }
+    expect(phases).toEqual(['green', 'yellow', 'red', 'green', 'yellow', 'walk', 'red'])
+  })
+
+  it('does not mutate the input signal', () => {
+    const signal = makeSignal('green', 1)
+    advanceSignal(signal)
+    expect(signal).toEqual(makeSignal('green', 1))
+  })
+})
+
+describe('initial signal state', () => {
+  it('staggers starting phases across neighbouring signals', () => {
+    expect([0, 1, 2, 3].map(getInitialState)).toEqual(['red', 'green', 'yellow', 'red'])
+  })
+
+  it('starts with at least 20% of the phase remaining and never beyond it', () => {
+    for (const phase of Object.keys(PHASE_DURATIONS) as SignalPhase[]) {
+      for (let index = 0; index < 10; index++) {
+        const countdown = getInitialCountdown(phase, index)
+        expect(countdown).toBeGreaterThanOrEqual(Math.max(5, Math.floor(PHASE_DURATIONS[phase] * 0.2)))
+        expect(countdown).toBeLessThanOrEqual(PHASE_DURATIONS[phase])
+      }
+    }
+  })
+})
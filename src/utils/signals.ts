@@ -0,0 +1,67 @@
+// Traffic signal simulation: red (45s) → green (30s) → yellow (6s) → red,
+// with a 20s pedestrian walk phase replacing red after every 2 completed cycles
+
+export type SignalPhase = 'red' | 'yellow' | 'green' | 'walk'
+
+export interface SimulatedSignal {
+  id: string
+  lat: number
+  lng: number
+  name: string
+  currentState: SignalPhase
+  countdown: number
+  pedestrianWalk: boolean
+  cycleCount: number // Track cycles for walk signal timing
+  completedCycles: number // Track completed full cycles for walk timing
+}
+
+export const PHASE_DURATIONS: Record<SignalPhase, number> = {
+  red: 45,
+  green: 30,
+  yellow: 6,
+  walk: 20
+}
+
+const CYCLES_PER_WALK = 2
+
+// Use different starting states for different signals to create realistic staggering
+export const getInitialState = (signalIndex: number): 'red' | 'yellow' | 'green' => {
+  const states = ['red', 'green', 'yellow'] as const
+  return states[signalIndex % 3]
+}
+
+// Start part-way through the phase, seeded by index so each signal is consistent but different
+export const getInitialCountdown = (state: SignalPhase, signalIndex: number): number => {
+  const maxTime = PHASE_DURATIONS[state]
+  const minTime = Math.max(5, Math.floor(maxTime * 0.2)) // Start with at least 20% of time remaining
+  const seed = (signalIndex * 7 + 13) % (maxTime - minTime + 1)
+  return minTime + seed
+}
+
+// Advance a signal by one second
+export const advanceSignal = (signal: SimulatedSignal): SimulatedSignal => {
+  const countdown = signal.countdown - 1
+
+  if (countdown > 0) {
+    return { ...signal, countdown, pedestrianWalk: signal.currentState === 'walk' }
+  }
+
+  switch (signal.currentState) {
+    case 'red':
+      return { ...signal, currentState: 'green', countdown: PHASE_DURATIONS.green, pedestrianWalk: false }
+
+    case 'green':
+      return { ...signal, currentState: 'yellow', countdown: PHASE_DURATIONS.yellow, pedestrianWalk: false }
+
+    case 'yellow': {
+      const completedCycles = (signal.completedCycles || 0) + 1
+      if (completedCycles >= CYCLES_PER_WALK) {
+        return { ...signal, currentState: 'walk', countdown: PHASE_DURATIONS.walk, pedestrianWalk: true, completedCycles: 0 }
+      }
+      return { ...signal, currentState: 'red', countdown: PHASE_DURATIONS.red, pedestrianWalk: false, completedCycles }
+    }
+
+    case 'walk':
+      return { ...signal, currentState: 'red', countdown: PHASE_DURATIONS.red, pedestrianWalk: false }
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { followsSpeedLimits, isOverSpeed, speedLimitAt, toSpeedLimitSegments } from './speedLimits'
+
+describe('toSpeedLimitSegments', () => {
+  it('joins samples under the same limit and leaves gaps where it is unknown', () => {
+    const segments = toSpeedLimitSegments([0, 100, 200, 300, 400, 500], [50, 50, null, 40, 60, null])
+
+    expect(segments).toEqual([
+      { start: 0, end: 200, limit: 50 },
+      { start: 300, end: 400, limit: 40 },
+      { start: 400, end: 500, limit: 60 }
+    ])
+  })
+})
+
+describe('speedLimitAt', () => {
+  const segments = toSpeedLimitSegments([0, 100, 200, 300, 400], [50, 50, null, 40, null])
+
+  it('finds the limit for a distance along the route', () => {
+    expect(speedLimitAt(segments, 0)).toBe(50)
+    expect(speedLimitAt(segments, 199)).toBe(50)
+    expect(speedLimitAt(segments, 350)).toBe(40)
+  })
+
+  it('returns null in gaps and beyond the ends', () => {
+    expect(speedLimitAt(segments, 250)).toBeNull()
+    expect(speedLimitAt(segments, 400)).toBeNull()
+    expect(speedLimitAt([], 10)).toBeNull()
+  })
+})
+
+describe('isOverSpeed', () => {
+  it('allows the tolerance over the limit', () => {
+    expect(isOverSpeed(55, 50, 5)).toBe(false)
+    expect(isOverSpeed(55.5, 50, 5)).toBe(true)
+    expect(isOverSpeed(51, 50, 0)).toBe(true)
+  })
+
+  it('applies to motor vehicles only', () => {
+    expect(followsSpeedLimits('electric_scooter')).toBe(true)
+    expect(followsSpeedLimits('bicycling')).toBe(false)
+  })
+})
@@ -0,0 +1,44 @@
+import type { SpeedLimitSegment, TravelMode } from '../types'
+
+// Posted speed limits along the route being navigated, and when the driver is over them.
+
+// Routes are sampled this often for speed limits, stretched so there are never more than
+// MAX_ROUTE_LIMIT_SAMPLES
+export const LIMIT_SAMPLE_METRES = 100
+export const MAX_ROUTE_LIMIT_SAMPLES = 1000
+
+// Joins samples into stretches under one limit. Each sample's limit holds until the next sample;
+// samples without a limit leave a gap.
+export const toSpeedLimitSegments = (along: number[], limits: (number | null)[]): SpeedLimitSegment[] => {
+  const segments: SpeedLimitSegment[] = []
+  for (let i = 0; i < along.length - 1; i++) {
+    const limit = limits[i]
+    if (!limit) continue
+    const last = segments[segments.length - 1]
+    if (last && last.limit === limit && last.end === along[i]) {
+      last.end = along[i + 1]
+    } else {
+      segments.push({ start: along[i], end: along[i + 1], limit })
+    }
+  }
+  return segments
+}
+
+// The limit at a distance along the route, or null where it isn't known
+export const speedLimitAt = (segments: SpeedLimitSegment[], along: number): number | null => {
+  let low = 0
+  let high = segments.length - 1
+  while (low <= high) {
+    const mid = (low + high) >> 1
+    if (along < segments[mid].start) high = mid - 1
+    else if (along >= segments[mid].end) low = mid + 1
+    else return segments[mid].limit
+  }
+  return null
+}
+
+// Limits are posted for motor vehicles; walkers and cyclists aren't warned
+export const followsSpeedLimits = (mode: TravelMode): boolean => mode === 'driving' || mode === 'electric_scooter'
+
+export const isOverSpeed = (speedKmh: number, limit: number, toleranceKmh: number): boolean =>
+  speedKmh > limit + toleranceKmh
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { acceptFix, cleanTrace, pathDistance } from './traceRecorder'
+
+// About 11 m per 0.0001° of latitude
+const fix = (north: number, seconds: number, accuracy: number | null = 5) =>
+  ({ lat: 28.6 + north * 0.0001, lng: 77.2, accuracy, timestamp: seconds * 1000 })
+
+describe('acceptFix', () => {
+  it('keeps the first fix unless it is too uncertain', () => {
+    expect(acceptFix(null, fix(0, 0))).toBe(true)
+    expect(acceptFix(null, fix(0, 0, 80))).toBe(false)
+  })
+
+  it('drops drift while standing still, scaled by the fix accuracy', () => {
+    expect(acceptFix(fix(0, 0), fix(0.5, 5))).toBe(false)
+    expect(acceptFix(fix(0, 0), fix(2, 5))).toBe(true)
+    expect(acceptFix(fix(0, 0), fix(2, 5, 30))).toBe(false)
+  })
+
+  it('drops jumps faster than any vehicle', () => {
+    expect(acceptFix(fix(0, 0), fix(100, 1))).toBe(false)
+    expect(acceptFix(fix(0, 0), fix(100, 60))).toBe(true)
+  })
+})
+
+describe('cleanTrace', () => {
+  it('compares each fix with the last one kept', () => {
+    const trace = [fix(0, 0), fix(0.3, 1), fix(0.6, 2), fix(1, 3), fix(500, 4), fix(1.2, 5)]
+
+    expect(cleanTrace(trace)).toEqual([trace[0], trace[3]])
+  })
+})
+
+describe('pathDistance', () => {
+  it('adds up the legs of a path', () => {
+    expect(pathDistance([])).toBe(0)
+    expect(pathDistance([fix(0, 0), fix(10, 1), fix(20, 2)])).toBeCloseTo(222.4, 0)
+  })
+})
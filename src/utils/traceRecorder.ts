@@ -0,0 +1,32 @@
+import type { LocationFix } from '../types'
+import { haversineDistance, type LatLng } from './geo'
+
+// Fixes less certain than this are dropped, as are fixes that would mean moving faster than
+// MAX_SPEED_MPS since the last one kept (a jump to a reflected signal, not a real move)
+export const MAX_FIX_ACCURACY_METRES = 50
+const MAX_SPEED_MPS = 70
+// Standing still, GPS wanders by a few metres; a fix counts as movement only once it is at least
+// this far from the last one kept, or further if its accuracy is worse
+export const MIN_MOVE_METRES = 10
+
+// Whether a new fix belongs in a recorded trace, given the last fix kept
+export const acceptFix = (last: LocationFix | null, fix: LocationFix): boolean => {
+  if (fix.accuracy != null && fix.accuracy > MAX_FIX_ACCURACY_METRES) return false
+  if (!last) return true
+
+  const moved = haversineDistance(last, fix)
+  const seconds = last.timestamp !== undefined && fix.timestamp !== undefined ? (fix.timestamp - last.timestamp) / 1000 : 0
+  if (seconds > 0 && moved / seconds > MAX_SPEED_MPS) return false
+  return moved >= Math.max(MIN_MOVE_METRES, fix.accuracy ?? 0)
+}
+
+// The fixes worth keeping from a raw trace, in order
+export const cleanTrace = (fixes: LocationFix[]): LocationFix[] =>
+  fixes.reduce<LocationFix[]>((kept, fix) => {
+    if (acceptFix(kept[kept.length - 1] ?? null, fix)) kept.push(fix)
+    return kept
+  }, [])
+
+// Metres along a path
+export const pathDistance = (path: LatLng[]): number =>
+  path.reduce((total, point, i) => (i === 0 ? 0 : total + haversineDistance(path[i - 1], point)), 0)
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest'
+import { parseGpx, parseNmea, parseTrackFile, simulateRoute } from './trackReplay'
+import { haversineDistance } from './geo'
+
+// East along 28.6°N for ~977 m, then north for ~1112 m
+const corner = [[77.2, 28.6], [77.21, 28.6], [77.21, 28.61]]
+
+describe('simulateRoute', () => {
+  it('drives the line at the chosen speed, one fix per interval', () => {
+    const fixes = simulateRoute(corner, { speedKmh: 36 })
+
+    // 10 m/s over ~2089 m
+    expect(fixes).toHaveLength(210)
+    expect(fixes[0]).toMatchObject({ lat: 28.6, lng: 77.2, speed: 10, timestamp: 0 })
+    expect(fixes[1].timestamp).toBe(1000)
+    expect(haversineDistance(fixes[0], fixes[1])).toBeCloseTo(10, 5)
+    expect(fixes[0].heading).toBeCloseTo(90, 0)
+    expect(fixes[150].heading).toBeCloseTo(0, 0)
+    expect(fixes[fixes.length - 1]).toMatchObject({ lat: 28.61, lng: 77.21 })
+  })
+
+  it('scatters positions by the requested noise', () => {
+    const clean = simulateRoute(corner, { speedKmh: 36 })
+    // A fixed sequence, so every fix is pushed the same distance
+    const noisy = simulateRoute(corner, { speedKmh: 36, noiseMetres: 10, random: () => 0.5 })
+
+    const offset = haversineDistance(clean[5], noisy[5])
+    expect(offset).toBeGreaterThan(5)
+    expect(offset).toBeLessThan(20)
+    expect(noisy[5].accuracy).toBe(20)
+  })
+
+  it('rejects a standstill', () => {
+    expect(() => simulateRoute(corner, { speedKmh: 0 })).toThrow('Speed must be above zero')
+  })
+})
+
+const gpx = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1">
+  <trk><trkseg>
+    <trkpt lat="28.6000" lon="77.2000"><time>2024-03-01T09:00:00Z</time><hdop>1.2</hdop></trkpt>
+    <trkpt lat="28.6000" lon="77.2010"><time>2024-03-01T09:00:10Z</time></trkpt>
+    <trkpt lat="28.6010" lon="77.2010"><time>2024-03-01T09:00:25Z</time></trkpt>
+  </trkseg></trk>
+</gpx>`
+
+describe('parseGpx', () => {
+  it('reads track points with their times', () => {
+    const fixes = parseGpx(gpx)
+
+    expect(fixes).toHaveLength(3)
+    expect(fixes[0]).toMatchObject({ lat: 28.6, lng: 77.2, accuracy: 6, timestamp: Date.UTC(2024, 2, 1, 9, 0, 0) })
+    expect(fixes[2].timestamp! - fixes[1].timestamp!).toBe(15000)
+  })
+
+  it('works out heading and speed between points', () => {
+    const [first, , last] = parseGpx(gpx)
+
+    expect(first.heading).toBeCloseTo(90, 0)
+    expect(first.speed).toBeCloseTo(9.8, 1)
+    expect(last.heading).toBeCloseTo(0, 0)
+  })
+
+  it('spaces untimed route points a second apart', () => {
+    const fixes = parseGpx('<gpx><rte><rtept lat="28.6" lon="77.2"/><rtept lat="28.61" lon="77.2"/></rte></gpx>')
+
+    expect(fixes.map(fix => fix.timestamp)).toEqual([0, 1000])
+  })
+
+  it('replays a recorded track rather than the planned route beside it', () => {
+    const fixes = parseGpx(gpx.replace('<trk>', '<rte><rtept lat="28.7" lon="77.3"/></rte><trk>'))
+
+    expect(fixes.map(fix => fix.lat)).toEqual([28.6, 28.6, 28.601])
+  })
+
+  it('explains what is wrong as the file importer does', () => {
+    expect(() => parseGpx('<gpx><trk>')).toThrow('Not a valid GPX file: the XML is malformed')
+    expect(() => parseGpx('<gpx><trk><trkpt lat="128.6" lon="77.2"/></trk></gpx>')).toThrow('Track 1, point 1 is outside the range')
+  })
+})
+
+// Appends the XOR checksum a receiver would
+const sentence = (body: string) => {
+  let checksum = 0
+  for (const char of body) checksum ^= char.charCodeAt(0)
+  return `$${body}*${checksum.toString(16).toUpperCase().padStart(2, '0')}`
+}
+
+describe('parseNmea', () => {
+  const nmea = [
+    sentence('GPGGA,235959.00,2836.0000,N,07712.0000,E,1,08,1.5,216.0,M,,M,,'),
+    sentence('GPRMC,235959.00,A,2836.0000,N,07712.0000,E,10.0,045.0,290224,,,A'),
+    sentence('GPRMC,000001.00,A,2836.0100,N,07712.0100,E,10.0,045.0,010324,,,A'),
+    sentence('GPRMC,000002.00,V,,,,,,,010324,,,N'),
+    sentence('GPGSV,3,1,11,10,63,137,17,07,61,098,15,05,59,290,20,08,54,157,30'),
+    sentence('GPRMC,000003.00,A,2836.0200,N,07712.0200,E,10.0,045.0,010324,,,A').replace(/..$/, '00')
+  ].join('\r\n')
+
+  it('merges RMC and GGA sentences for the same moment', () => {
+    const [first] = parseNmea(nmea)
+
+    expect(first.lat).toBeCloseTo(28.6, 6)
+    expect(first.lng).toBeCloseTo(77.2, 6)
+    expect(first).toMatchObject({ heading: 45, accuracy: 7.5, timestamp: Date.UTC(2024, 1, 29, 23, 59, 59) })
+    expect(first.speed).toBeCloseTo(5.144, 3)
+  })
+
+  it('skips void fixes, other sentences and bad checksums, and carries on past midnight', () => {
+    const fixes = parseNmea(nmea)
+
+    expect(fixes).toHaveLength(2)
+    expect(fixes[1].timestamp! - fixes[0].timestamp!).toBe(2000)
+  })
+})
+
+describe('parseTrackFile', () => {
+  it('chooses the parser by name or content', () => {
+    expect(parseTrackFile('drive.gpx', gpx)).toHaveLength(3)
+    expect(parseTrackFile('export', gpx)).toHaveLength(3)
+    expect(parseTrackFile('drive.nmea', '$GPRMC,090000.00,A,2836.0000,N,07712.0000,E,0.0,,010324,,,A')).toHaveLength(1)
+  })
+
+  it('reports files without any points', () => {
+    expect(() => parseTrackFile('empty.nmea', '')).toThrow('No track points found in empty.nmea')
+  })
+})
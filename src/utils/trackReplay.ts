@@ -0,0 +1,219 @@
+import type { LocationFix } from '../types'
+import { bearing, cumulativeDistances, haversineDistance, pointAlong } from './geo'
+import { parseGpxDocument } from './geoFormats'
+
+// Location fixes for replaying a drive at a desk: synthesised along a route line,
+// or read from a recorded GPX or NMEA track. Timestamps are milliseconds; only the gaps
+// between them matter for playback.
+
+export interface RouteSimulationOptions {
+  speedKmh: number
+  // Milliseconds between fixes, like a phone's GPS rate
+  intervalMs?: number
+  // Standard deviation of the random error added to each position
+  noiseMetres?: number
+  // Source of randomness for the noise; pass a seeded one for repeatable runs
+  random?: () => number
+}
+
+const METRES_PER_DEGREE = 111320
+const KNOTS_TO_MPS = 0.514444
+// Metres of position error per unit of HDOP, a usual rule of thumb for consumer receivers
+const METRES_PER_HDOP = 5
+
+// Normally distributed with mean 0 and standard deviation 1 (Box-Muller)
+const gaussian = (random: () => number) => {
+  const u = Math.max(random(), Number.EPSILON)
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random())
+}
+
+// Drives a [lng, lat] line at a steady speed, reporting a fix every interval and one at the end
+export const simulateRoute = (line: number[][], options: RouteSimulationOptions): LocationFix[] => {
+  const { speedKmh, intervalMs = 1000, noiseMetres = 0, random = Math.random } = options
+  if (line.length === 0) return []
+  if (speedKmh <= 0) throw new Error('Speed must be above zero')
+
+  const distances = cumulativeDistances(line)
+  const length = distances[distances.length - 1]
+  const speed = speedKmh / 3.6
+  const step = speed * (intervalMs / 1000)
+  const fixes: LocationFix[] = []
+
+  for (let i = 0; ; i++) {
+    const along = Math.min(i * step, length)
+    const { point: { lat, lng }, segmentIndex } = pointAlong(line, distances, along)
+    const [aLng, aLat] = line[segmentIndex]
+    const [bLng, bLat] = line[Math.min(segmentIndex + 1, line.length - 1)]
+
+    const north = noiseMetres * gaussian(random)
+    const east = noiseMetres * gaussian(random)
+    fixes.push({
+      lat: lat + north / METRES_PER_DEGREE,
+      lng: lng + east / (METRES_PER_DEGREE * Math.cos((lat * Math.PI) / 180)),
+      heading: bearing({ lat: aLat, lng: aLng }, { lat: bLat, lng: bLng }),
+      speed,
+      // Report roughly the error added, as a real receiver would
+      accuracy: Math.max(5, noiseMetres * 2),
+      timestamp: Math.round((along / speed) * 1000)
+    })
+
+    if (along >= length) break
+  }
+  return fixes
+}
+
+// Fills in heading and speed from neighbouring fixes where the recording lacks them
+const deriveMotion = (fixes: LocationFix[]): LocationFix[] =>
+  fixes.map((fix, i) => {
+    const next = fixes[i + 1] ?? fix
+    const previous = fixes[i - 1] ?? fix
+    const [from, to] = next !== fix ? [fix, next] : [previous, fix]
+    const moved = haversineDistance(from, to)
+    const seconds = ((to.timestamp ?? 0) - (from.timestamp ?? 0)) / 1000
+    return {
+      ...fix,
+      heading: fix.heading ?? (moved > 0 ? bearing(from, to) : undefined),
+      speed: fix.speed ?? (seconds > 0 ? moved / seconds : undefined)
+    }
+  })
+
+// Points without a time are spaced a second apart, after the last timed one
+const fillTimestamps = (fixes: LocationFix[]): LocationFix[] => {
+  let last = -1000
+  return fixes.map(fix => {
+    const timestamp = fix.timestamp ?? last + 1000
+    last = timestamp
+    return { ...fix, timestamp }
+  })
+}
+
+// Every line of a GPX 1.0/1.1 document, with the times and fix quality it was recorded with.
+// When some lines carry readings (recorded tracks) and others don't (planned routes), only the
+// recorded ones are replayed.
+export const parseGpx = (text: string): LocationFix[] => {
+  const { tracks } = parseGpxDocument(text)
+  const recorded = tracks.filter(track => track.readings)
+
+  const fixes = (recorded.length > 0 ? recorded : tracks).flatMap(track =>
+    track.coordinates.map(([lng, lat], i): LocationFix => {
+      const reading = track.readings?.[i] ?? {}
+      return {
+        lat,
+        lng,
+        heading: reading.course,
+        speed: reading.speed,
+        accuracy: reading.hdop !== undefined ? reading.hdop * METRES_PER_HDOP : undefined,
+        timestamp: reading.time
+      }
+    }))
+
+  return deriveMotion(fillTimestamps(fixes))
+}
+
+// "4807.038" with hemisphere "N" -> 48.1173
+const nmeaCoordinate = (value: string, hemisphere: string): number | null => {
+  const dot = value.indexOf('.')
+  if (!value || dot < 3) return null
+  const degrees = Number(value.slice(0, dot - 2))
+  const minutes = Number(value.slice(dot - 2))
+  if (Number.isNaN(degrees) || Number.isNaN(minutes)) return null
+  const coordinate = degrees + minutes / 60
+  return hemisphere === 'S' || hemisphere === 'W' ? -coordinate : coordinate
+}
+
+// Milliseconds into the day for "hhmmss.ss"
+const nmeaTime = (value: string): number | null => {
+  if (value.length < 6) return null
+  const seconds = Number(value.slice(0, 2)) * 3600 + Number(value.slice(2, 4)) * 60 + Number(value.slice(4))
+  return Number.isNaN(seconds) ? null : Math.round(seconds * 1000)
+}
+
+// Midnight UTC for "ddmmyy"
+const nmeaDate = (value: string): number | null => {
+  if (value.length !== 6) return null
+  const [day, month, year] = [value.slice(0, 2), value.slice(2, 4), value.slice(4)].map(Number)
+  return Number.isNaN(day + month + year) ? null : Date.UTC(2000 + year, month - 1, day)
+}
+
+const validChecksum = (sentence: string): boolean => {
+  const star = sentence.indexOf('*')
+  if (star === -1) return true
+  let checksum = 0
+  for (let i = 1; i < star; i++) checksum ^= sentence.charCodeAt(i)
+  return checksum === parseInt(sentence.slice(star + 1, star + 3), 16)
+}
+
+const definedFields = (fix: LocationFix): Partial<LocationFix> =>
+  Object.fromEntries(Object.entries(fix).filter(([, value]) => value !== undefined))
+
+// Positions from RMC sentences (with speed and course) and GGA sentences (with HDOP),
+// merged when a receiver reports both for the same second. Other sentences are skipped.
+export const parseNmea = (text: string): LocationFix[] => {
+  const fixes: LocationFix[] = []
+  let day = 0
+  let previousTime = -1
+
+  for (const raw of text.split(/\r?\n/)) {
+    const sentence = raw.trim()
+    if (!sentence.startsWith('$') || !validChecksum(sentence)) continue
+
+    const fields = sentence.split('*')[0].split(',')
+    const type = fields[0].slice(3)
+    if (type !== 'RMC' && type !== 'GGA') continue
+
+    const time = nmeaTime(fields[1])
+    if (time === null) continue
+
+    let fix: LocationFix
+    let dated = false
+    if (type === 'RMC') {
+      if (fields[2] !== 'A') continue
+      const lat = nmeaCoordinate(fields[3], fields[4])
+      const lng = nmeaCoordinate(fields[5], fields[6])
+      if (lat === null || lng === null) continue
+      const date = nmeaDate(fields[9])
+      if (date !== null) {
+        day = date
+        dated = true
+      }
+      const knots = fields[7] ? Number(fields[7]) : NaN
+      const course = fields[8] ? Number(fields[8]) : NaN
+      fix = {
+        lat,
+        lng,
+        speed: Number.isNaN(knots) ? undefined : knots * KNOTS_TO_MPS,
+        heading: Number.isNaN(course) ? undefined : course
+      }
+    } else {
+      if (fields[6] === '0') continue
+      const lat = nmeaCoordinate(fields[2], fields[3])
+      const lng = nmeaCoordinate(fields[4], fields[5])
+      if (lat === null || lng === null) continue
+      const hdop = fields[8] ? Number(fields[8]) : NaN
+      fix = { lat, lng, accuracy: Number.isNaN(hdop) ? undefined : hdop * METRES_PER_HDOP }
+    }
+
+    // GGA carries no date, so a time earlier than the last one means midnight has passed
+    if (!dated && time < previousTime - 12 * 3600 * 1000) day += 24 * 3600 * 1000
+    const timestamp = day + time
+
+    const last = fixes[fixes.length - 1]
+    if (last && time === previousTime) {
+      // The dated sentence knows the day; the other may have been read before it arrived
+      fixes[fixes.length - 1] = { ...last, ...definedFields(fix), timestamp: dated ? timestamp : last.timestamp }
+    } else {
+      fixes.push({ ...fix, timestamp })
+    }
+    previousTime = time
+  }
+
+  return deriveMotion(fixes)
+}
+
+// Picks the parser from the file name, falling back to sniffing the content
+export const parseTrackFile = (fileName: string, text: string): LocationFix[] => {
+  const isGpx = /\.gpx$/i.test(fileName) || (!/\.(nmea|txt|log)$/i.test(fileName) && text.trimStart().startsWith('<'))
+  const fixes = isGpx ? parseGpx(text) : parseNmea(text)
+  if (fixes.length === 0) throw new Error(`No track points found in ${fileName}`)
+  return fixes
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { isOffRoute, prepareTrack, trackProgress } from './turnByTurn'
+import { encodePolyline } from './polyline'
+import type { RouteStep } from '../types'
+
+// East along 28.6°N for ~977 m, then north for ~1112 m
+const corner = [[77.2, 28.6], [77.21, 28.6], [77.21, 28.61]]
+
+const step = (instruction: string, lat: number, lng: number): RouteStep => ({
+  instruction,
+  distance: 0,
+  duration: 0,
+  start_location: { lat, lng },
+  end_location: { lat, lng }
+})
+
+const route = {
+  geometry: encodePolyline(corner),
+  steps: [
+    step('Head east on Janpath', 28.6, 77.2),
+    step('Turn left onto Rajpath', 28.6, 77.21),
+    step('You have arrived at your destination', 28.61, 77.21)
+  ]
+}
+
+describe('prepareTrack', () => {
+  it('places each step along the line', () => {
+    const track = prepareTrack(route)
+
+    expect(track.length).toBeCloseTo(2089, -1)
+    expect(track.stepStarts[0]).toBe(0)
+    expect(track.stepStarts[1]).toBeCloseTo(977, -1)
+    expect(track.stepStarts[2]).toBeCloseTo(track.length, 3)
+  })
+})
+
+describe('trackProgress', () => {
+  const track = prepareTrack(route)
+
+  it('counts down to the next turn on the first street', () => {
+    const progress = trackProgress(track, { lat: 28.6001, lng: 77.205, heading: 90 })
+
+    expect(progress.stepIndex).toBe(0)
+    expect(progress.distanceToManeuver).toBeCloseTo(488, -1)
+    expect(progress.distanceRemaining).toBeCloseTo(1600, -1)
+    expect(progress.offRoute).toBe(false)
+    expect(progress.arrived).toBe(false)
+  })
+
+  it('moves on to the next step after the turn', () => {
+    const progress = trackProgress(track, { lat: 28.605, lng: 77.2101, heading: 0 })
+
+    expect(progress.stepIndex).toBe(1)
+    expect(progress.distanceToManeuver).toBeCloseTo(556, -1)
+  })
+
+  it('arrives near the end of the line', () => {
+    const progress = trackProgress(track, { lat: 28.6099, lng: 77.21 })
+
+    expect(progress.stepIndex).toBe(1)
+    expect(progress.arrived).toBe(true)
+  })
+
+  it('flags a fix far from the route', () => {
+    expect(trackProgress(track, { lat: 28.595, lng: 77.205, heading: 180 }).offRoute).toBe(true)
+  })
+
+  it('does not jump back to an earlier pass over the same road', () => {
+    const outAndBack = prepareTrack({
+      geometry: encodePolyline([[77.2, 28.6], [77.21, 28.6], [77.2, 28.6]]),
+      steps: []
+    })
+    const turned = trackProgress(outAndBack, { lat: 28.6, lng: 77.2099 })
+    const returning = trackProgress(outAndBack, { lat: 28.6, lng: 77.205 }, { ...turned, segmentIndex: 1 })
+
+    expect(returning.segmentIndex).toBe(1)
+    expect(returning.along).toBeGreaterThan(1400)
+  })
+})
+
+describe('isOffRoute', () => {
+  it('stays on route within the threshold, whatever the heading', () => {
+    expect(isOffRoute(30, 90, { lat: 0, lng: 0, heading: 270 })).toBe(false)
+  })
+
+  it('widens the threshold for inaccurate fixes', () => {
+    expect(isOffRoute(60, 90, { lat: 0, lng: 0, accuracy: 80 })).toBe(false)
+    expect(isOffRoute(60, 90, { lat: 0, lng: 0, accuracy: 10 })).toBe(true)
+  })
+
+  it('treats drift while heading along the route as on route', () => {
+    expect(isOffRoute(60, 90, { lat: 0, lng: 0, heading: 100 })).toBe(false)
+    expect(isOffRoute(60, 90, { lat: 0, lng: 0, heading: 180 })).toBe(true)
+    expect(isOffRoute(60, 90, { lat: 0, lng: 0, heading: null })).toBe(true)
+  })
+
+  it('is off route when far away even heading the right way', () => {
+    expect(isOffRoute(150, 90, { lat: 0, lng: 0, heading: 90 })).toBe(true)
+  })
+})
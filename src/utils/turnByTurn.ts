@@ -0,0 +1,97 @@
+import type { LocationFix, RouteInfo } from '../types'
+import { bearing, cumulativeDistances, headingDifference, snapToLine, type LatLng } from './geo'
+import { decodePolyline } from './polyline'
+
+// Following a route from live position fixes: snap to the line, work out the current step,
+// and decide when the driver has left the route.
+
+// Further than this from the line (or the fix's own accuracy, if worse) may be off-route
+export const OFF_ROUTE_METRES = 40
+// Within this of the line's direction, a distant fix is taken as GPS drift on the right road
+export const HEADING_TOLERANCE_DEGREES = 60
+// Even heading the right way, this many thresholds from the line is off-route
+const FAR_OFF_ROUTE_FACTOR = 3
+export const ARRIVAL_METRES = 25
+// A maneuver this close counts as reached, absorbing small gaps between step geometry and the line
+const STEP_SLACK_METRES = 5
+
+export interface NavigationTrack {
+  line: number[][]
+  length: number
+  // Metres along the line where each step begins
+  stepStarts: number[]
+}
+
+export interface NavigationProgress {
+  // The fix snapped onto the route
+  position: LatLng
+  segmentIndex: number
+  // Metres along the route
+  along: number
+  // Step being driven; the next maneuver is where step stepIndex + 1 begins
+  stepIndex: number
+  distanceToManeuver: number
+  distanceRemaining: number
+  distanceFromRoute: number
+  offRoute: boolean
+  arrived: boolean
+}
+
+export const prepareTrack = (route: Pick<RouteInfo, 'geometry' | 'steps'>): NavigationTrack => {
+  const line = decodePolyline(route.geometry)
+  const distances = cumulativeDistances(line)
+  const length = distances[distances.length - 1]
+
+  // Steps come in order, so each one is searched for from where the previous one began
+  let fromSegment = 0
+  let previous = 0
+  const stepStarts = route.steps.map(step => {
+    const snap = snapToLine(line, step.start_location, fromSegment)
+    fromSegment = snap.segmentIndex
+    previous = Math.max(previous, snap.along)
+    return previous
+  })
+
+  return { line, length, stepStarts }
+}
+
+export const isOffRoute = (distanceFromRoute: number, routeBearing: number, fix: LocationFix): boolean => {
+  const threshold = Math.max(OFF_ROUTE_METRES, fix.accuracy ?? 0)
+  if (distanceFromRoute <= threshold) return false
+
+  const headingKnown = fix.heading !== null && fix.heading !== undefined && !Number.isNaN(fix.heading)
+  const headingAgrees = headingKnown && headingDifference(fix.heading!, routeBearing) <= HEADING_TOLERANCE_DEGREES
+  return !headingAgrees || distanceFromRoute > threshold * FAR_OFF_ROUTE_FACTOR
+}
+
+// Pass the previous progress so the snap only moves forward along routes that overlap themselves
+export const trackProgress = (
+  track: NavigationTrack,
+  fix: LocationFix,
+  previous: NavigationProgress | null = null
+): NavigationProgress => {
+  const snap = snapToLine(track.line, fix, previous?.segmentIndex ?? 0)
+  const [aLng, aLat] = track.line[snap.segmentIndex]
+  const [bLng, bLat] = track.line[Math.min(snap.segmentIndex + 1, track.line.length - 1)]
+  const routeBearing = bearing({ lat: aLat, lng: aLng }, { lat: bLat, lng: bLng })
+
+  let stepIndex = 0
+  track.stepStarts.forEach((start, i) => {
+    if (start <= snap.along + STEP_SLACK_METRES) stepIndex = i
+  })
+  const nextManeuver = track.stepStarts[stepIndex + 1] ?? track.length
+  const distanceRemaining = Math.max(0, track.length - snap.along)
+  const offRoute = isOffRoute(snap.distance, routeBearing, fix)
+
+  return {
+    position: snap.point,
+    segmentIndex: snap.segmentIndex,
+    along: snap.along,
+    stepIndex,
+    distanceToManeuver: Math.max(0, nextManeuver - snap.along),
+    distanceRemaining,
+    distanceFromRoute: snap.distance,
+    offRoute,
+    arrived: !offRoute && distanceRemaining <= ARRIVAL_METRES
+  }
+}
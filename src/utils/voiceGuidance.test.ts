@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import { duePrompt, maneuverPhrase, PHRASES } from './voiceGuidance'
+import type { NavigationProgress } from './turnByTurn'
+import type { RouteStep } from '../types'
+
+const step = (instruction: string, maneuver?: string): RouteStep => ({
+  instruction,
+  maneuver,
+  distance: 0,
+  duration: 0,
+  start_location: { lat: 28.6, lng: 77.2 },
+  end_location: { lat: 28.6, lng: 77.2 }
+})
+
+const steps = [
+  step('Head east on Janpath', 'depart'),
+  step('Turn left onto Rajpath', 'turn-left'),
+  step('You have arrived at India Gate', 'arrive')
+]
+
+const progress = (stepIndex: number, distanceToManeuver: number, extra: Partial<NavigationProgress> = {}): NavigationProgress => ({
+  position: { lat: 28.6, lng: 77.2 },
+  segmentIndex: 0,
+  along: 0,
+  stepIndex,
+  distanceToManeuver,
+  distanceRemaining: 1000,
+  distanceFromRoute: 0,
+  offRoute: false,
+  arrived: false,
+  ...extra
+})
+
+describe('PHRASES', () => {
+  it('rounds distances the way people say them', () => {
+    expect(PHRASES.en.distance(488)).toBe('500 metres')
+    expect(PHRASES.en.distance(34)).toBe('30 metres')
+    expect(PHRASES.en.distance(1040)).toBe('1 kilometre')
+    expect(PHRASES.en.distance(2310)).toBe('2.5 kilometres')
+    expect(PHRASES.hi.distance(1480)).toBe('1.5 किलोमीटर')
+  })
+})
+
+describe('maneuverPhrase', () => {
+  it('reads the full instruction ahead of the turn and just the turn at it', () => {
+    expect(maneuverPhrase(steps[1], 'en')).toBe('Turn left onto Rajpath')
+    expect(maneuverPhrase(steps[1], 'en', true)).toBe('Turn left')
+  })
+
+  it('words maneuvers in Hindi', () => {
+    expect(maneuverPhrase(steps[1], 'hi')).toBe('बाएँ मुड़ें')
+    expect(maneuverPhrase(step('Make a U-turn', 'turn-uturn'), 'hi')).toBe('यू-टर्न लें')
+    expect(maneuverPhrase(step('Continue'), 'hi')).toBe('रास्ते पर आगे बढ़ें')
+  })
+
+  it('speaks the arrival step as the destination', () => {
+    expect(maneuverPhrase(steps[2], 'en')).toBe('Arrive at your destination')
+  })
+})
+
+describe('duePrompt', () => {
+  it('stays quiet while the next maneuver is far away', () => {
+    expect(duePrompt(progress(0, 900), steps, 'en')).toBeNull()
+  })
+
+  it('announces the maneuver on approach and again at it', () => {
+    const approach = duePrompt(progress(0, 490), steps, 'en')
+    expect(approach).toEqual({ stepIndex: 0, stage: 'approach', text: 'In 500 metres, turn left onto Rajpath' })
+
+    expect(duePrompt(progress(0, 300), steps, 'en', approach)).toBeNull()
+
+    const now = duePrompt(progress(0, 30), steps, 'en', approach)
+    expect(now?.text).toBe('Turn left now')
+    expect(duePrompt(progress(0, 10), steps, 'en', now)).toBeNull()
+  })
+
+  it('uses the Hindi templates', () => {
+    expect(duePrompt(progress(0, 490), steps, 'hi')?.text).toBe('500 मीटर में बाएँ मुड़ें')
+    expect(duePrompt(progress(0, 30), steps, 'hi')?.text).toBe('अभी बाएँ मुड़ें')
+  })
+
+  it('announces the destination ahead and on arrival, without a "now" prompt', () => {
+    const approach = duePrompt(progress(1, 200), steps, 'en')
+    expect(approach?.text).toBe('In 200 metres, arrive at your destination')
+    expect(duePrompt(progress(1, 30), steps, 'en', approach)).toBeNull()
+
+    const arrived = duePrompt(progress(2, 0, { arrived: true }), steps, 'en', approach)
+    expect(arrived?.text).toBe('You have arrived at your destination')
+    expect(duePrompt(progress(2, 0, { arrived: true }), steps, 'en', arrived)).toBeNull()
+  })
+
+  it('says nothing while off the route', () => {
+    expect(duePrompt(progress(0, 30, { offRoute: true }), steps, 'en')).toBeNull()
+  })
+})
@@ -0,0 +1,166 @@
+import type { RouteStep, VoiceLanguage } from '../types'
+import { formatManeuverInstruction, getStepInstruction, splitManeuver } from './directions'
+import type { NavigationProgress } from './turnByTurn'
+
+// Spoken prompts for live navigation: what to say about the next maneuver, and when.
+
+// A maneuver is announced once when it comes within this distance...
+export const APPROACH_METRES = 500
+// ...and again just before it
+export const NOW_METRES = 40
+
+export type PromptStage = 'approach' | 'now' | 'arrived'
+
+export interface GuidancePrompt {
+  // The step being driven when the prompt was due
+  stepIndex: number
+  stage: PromptStage
+  text: string
+}
+
+const STAGE_ORDER: PromptStage[] = ['approach', 'now', 'arrived']
+
+interface Phrases {
+  distance: (metres: number) => string
+  inDistance: (distance: string, action: string) => string
+  now: (action: string) => string
+  destination: string
+  arrived: string
+  rerouting: string
+  overSpeed: (limit: number) => string
+  // Maneuvers without wording of their own, e.g. Hindi for an Ola instruction in English
+  fallback: string
+}
+
+// Round to what a person would say: 10 m steps close in, 100 m steps further out, then half kilometres
+const roundForSpeech = (metres: number): number => {
+  if (metres >= 1000) return Math.round(metres / 500) * 500
+  if (metres >= 100) return Math.round(metres / 100) * 100
+  return Math.max(10, Math.round(metres / 10) * 10)
+}
+
+const lowerFirst = (text: string) => text.charAt(0).toLowerCase() + text.slice(1)
+
+export const PHRASES: Record<VoiceLanguage, Phrases> = {
+  en: {
+    distance: (metres) => {
+      const rounded = roundForSpeech(metres)
+      if (rounded < 1000) return `${rounded} metres`
+      const km = rounded / 1000
+      return km === 1 ? '1 kilometre' : `${km} kilometres`
+    },
+    inDistance: (distance, action) => `In ${distance}, ${lowerFirst(action)}`,
+    now: (action) => `${action} now`,
+    destination: 'Arrive at your destination',
+    arrived: 'You have arrived at your destination',
+    rerouting: 'Recalculating route',
+    overSpeed: (limit) => `Slow down, the speed limit is ${limit}`,
+    fallback: 'Continue on route'
+  },
+  hi: {
+    distance: (metres) => {
+      const rounded = roundForSpeech(metres)
+      return rounded < 1000 ? `${rounded} मीटर` : `${rounded / 1000} किलोमीटर`
+    },
+    inDistance: (distance, action) => `${distance} में ${action}`,
+    now: (action) => `अभी ${action}`,
+    destination: 'अपनी मंज़िल पर पहुँचें',
+    arrived: 'आप अपनी मंज़िल पर पहुँच गए हैं',
+    rerouting: 'नया रास्ता खोजा जा रहा है',
+    overSpeed: (limit) => `गति धीमी करें, सीमा ${limit} है`,
+    fallback: 'रास्ते पर आगे बढ़ें'
+  }
+}
+
+const HINDI_DIRECTIONS: Record<string, string> = {
+  'left': 'बाएँ',
+  'right': 'दाएँ',
+  'sharp-left': 'तेज़ बाएँ',
+  'sharp-right': 'तेज़ दाएँ',
+  'slight-left': 'हल्का बाएँ',
+  'slight-right': 'हल्का दाएँ'
+}
+
+const hindiManeuver = (type: string, modifier?: string): string => {
+  const direction = modifier && HINDI_DIRECTIONS[modifier]
+  if (modifier === 'uturn') return 'यू-टर्न लें'
+
+  switch (type) {
+    case 'turn':
+    case 'end-of-road':
+      return direction ? `${direction} मुड़ें` : 'सीधे चलें'
+    case 'fork':
+      return direction ? `${direction} की ओर रहें` : 'सीधे रहें'
+    case 'merge':
+      return direction ? `${direction} की ओर मुख्य सड़क में मिलें` : 'मुख्य सड़क में मिलें'
+    case 'on-ramp':
+      return 'रैम्प लें'
+    case 'off-ramp':
+      return 'रैम्प से बाहर निकलें'
+    case 'roundabout':
+    case 'rotary':
+      return 'गोल चक्कर में प्रवेश करें'
+    case 'roundabout-turn':
+      return 'गोल चक्कर से बाहर निकलें'
+    case 'depart':
+      return 'यात्रा शुरू करें'
+    case 'continue':
+    case 'new-name':
+    case 'notification':
+    case 'suppress':
+      return 'सीधे चलते रहें'
+    default:
+      return PHRASES.hi.fallback
+  }
+}
+
+// What to do at the start of a step. Ahead of time English reads Ola's instruction, road name and all;
+// at the maneuver itself only the turn is spoken, so the prompt stays short.
+export const maneuverPhrase = (step: RouteStep, language: VoiceLanguage, brief: boolean = false): string => {
+  if (!step.maneuver) return language === 'en' ? getStepInstruction(step) : PHRASES.hi.fallback
+
+  const [type, modifier] = splitManeuver(step.maneuver)
+  if (type === 'arrive') return PHRASES[language].destination
+  if (language === 'hi') return hindiManeuver(type, modifier)
+
+  const instruction = brief ? undefined : step.instruction.replace(/<[^>]*>/g, '') || undefined
+  return formatManeuverInstruction(type, modifier, instruction)
+}
+
+// The prompt due at this point on the route, or null when nothing new needs saying.
+// Pass the last prompt spoken on this route so each stage of a maneuver is announced once.
+export const duePrompt = (
+  progress: NavigationProgress,
+  steps: RouteStep[],
+  language: VoiceLanguage,
+  last: GuidancePrompt | null = null
+): GuidancePrompt | null => {
+  if (progress.offRoute) return null
+
+  const phrases = PHRASES[language]
+  let prompt: GuidancePrompt | null = null
+
+  if (progress.arrived) {
+    prompt = { stepIndex: progress.stepIndex, stage: 'arrived', text: phrases.arrived }
+  } else {
+    const next = steps[progress.stepIndex + 1]
+    const distance = progress.distanceToManeuver
+
+    if (distance <= NOW_METRES) {
+      // The destination has no "now" prompt; arriving is announced instead
+      if (next && next.maneuver !== 'arrive') {
+        prompt = { stepIndex: progress.stepIndex, stage: 'now', text: phrases.now(maneuverPhrase(next, language, true)) }
+      }
+    } else if (distance <= APPROACH_METRES) {
+      const action = next ? maneuverPhrase(next, language) : phrases.destination
+      prompt = { stepIndex: progress.stepIndex, stage: 'approach', text: phrases.inDistance(phrases.distance(distance), action) }
+    }
+  }
+
+  if (!prompt) return null
+  if (last?.stage === 'arrived') return null
+  if (last && last.stepIndex === prompt.stepIndex && STAGE_ORDER.indexOf(last.stage) >= STAGE_ORDER.indexOf(prompt.stage)) {
+    return null
+  }
+  return prompt
+}
@@ -4,6 +4,14 @@ interface ImportMetaEnv {
   readonly VITE_OLA_MAPS_API_KEY: string
   readonly VITE_OLA_MAPS_CLIENT_ID: string
   readonly VITE_OLA_MAPS_CLIENT_SECRET: string
+  readonly VITE_OLA_MAPS_AUTH_MODE?: 'api_key' | 'oauth' | 'proxy'
+  readonly VITE_OLA_API_BASE_URL?: string
+  readonly VITE_OLA_DAILY_BUDGET_PLACES?: string
+  readonly VITE_OLA_DAILY_BUDGET_ROUTING?: string
+  readonly VITE_OLA_MOCK?: string
+  readonly VITE_OLA_RECORD_FIXTURES?: string
+  readonly VITE_OLA_MAPS_TOKEN_URL?: string
+  readonly VITE_OLA_TIMED_DIRECTIONS?: string
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_ANON_KEY: string
   readonly VITE_DEFAULT_LAT: string
@@ -6,7 +6,7 @@ CREATE TABLE public.users (
   id UUID REFERENCES auth.users(id) PRIMARY KEY,
   email TEXT NOT NULL,
   name TEXT,
-  preferences JSONB DEFAULT '{"theme": "light", "map_style": "default", "show_traffic": true, "show_signals": true, "navigation_voice": true}',
+  preferences JSONB DEFAULT '{"theme": "light", "map_style": "default", "show_traffic": true, "show_signals": true, "navigation_voice": true, "voice_language": "en", "route_avoid": [], "avoid_areas": [], "scooter_top_speed_kmh": 45, "scooter_max_road_speed_kmh": 60, "scooter_range_km": 80, "speed_alert_tolerance_kmh": 5, "trace_enhance_path": true}',
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -31,7 +31,7 @@ CREATE TABLE public.traffic_signal_simulations (
 CREATE TABLE public.user_places (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
   user_id UUID REFERENCES public.users(id),
-  ola_place_id TEXT NOT NULL, -- Reference to Ola Maps place ID
+  ola_place_id TEXT, -- Reference to Ola Maps place ID; null for places imported from a file
   name TEXT NOT NULL,
   address TEXT NOT NULL,
   lat DECIMAL(10, 8) NOT NULL,
@@ -57,6 +57,8 @@ CREATE TABLE public.navigation_sessions (
   actual_duration INTEGER,
   distance DECIMAL(10, 2), -- from Ola Maps API
   signals_encountered INTEGER DEFAULT 0,
+  overspeed_events JSONB DEFAULT '[]', -- spells over the speed limit: started_at, ended_at, lat, lng, limit, max_speed
+  trace_polyline TEXT, -- encoded polyline of a recorded, road-matched GPS trace
   start_time TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   end_time TIMESTAMP WITH TIME ZONE,
   status TEXT CHECK (status IN ('active', 'completed', 'cancelled')) DEFAULT 'active'
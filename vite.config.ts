@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
@@ -6,5 +7,8 @@ export default defineConfig({
   server: {
     port: 3002,
     host: true
+  },
+  test: {
+    environment: 'jsdom'
   }
-})
\ No newline at end of file
+})